@@ -1,31 +1,222 @@
-import { ElementTypesHelper, type ElementType } from './helpers/ElementTypesHelper';
+import {
+  ElementTypesHelper,
+  type AnyElementType,
+  type AudioProps,
+  type ButtonProps,
+  type ColumnsProps,
+  type RawHtmlProps,
+  type DivProps,
+  type ElementType,
+  type EmbedProps,
+  type ImageProps,
+  type LinkProps,
+  type ListProps,
+  type SectionProps,
+  type TableProps,
+  type TextProps,
+  type TitleProps,
+  type VideoProps,
+} from './helpers/ElementTypesHelper';
 import { StylesHelper } from './helpers/StylesHelper';
 import { NotificationHelper } from './helpers/NotificationHelper';
 import { DragDropHelper } from './helpers/DragDropHelper';
 import { IframePreviewHelper } from './helpers/IframePreviewHelper';
 import { HTMLTemplateHelper, type HTMLTemplate } from './helpers/HTMLTemplateHelper';
+import { HistoryHelper, type HistoryOptions, type HistoryState } from './helpers/HistoryHelper';
+import { UtilityHelpers } from './helpers/UtilityHelpers';
+import {
+  EventEmitterHelper,
+  type CancelableEvent,
+  type EventHandler,
+  type ListenerRegistry,
+} from './helpers/EventEmitterHelper';
+import {
+  SerializationHelper,
+  type DocumentMetadata,
+  type JSONSchema,
+  type SerializedDocument,
+} from './helpers/SerializationHelper';
+import { ElementTreeHelper, type ElementLocation } from './helpers/ElementTreeHelper';
+import { ValidationHelper, type ValidationIssue } from './helpers/ValidationHelper';
+import { PreviewPatchHelper, type PreviewNode } from './helpers/PreviewPatchHelper';
+import { HTMLImportHelper } from './helpers/HTMLImportHelper';
+import { MarkdownHelper } from './helpers/MarkdownHelper';
+import { CodeExportHelper } from './helpers/CodeExportHelper';
+import { EmailExportHelper, type EmailExportOptions } from './helpers/EmailExportHelper';
+import { BreakpointHelper, type Breakpoint } from './helpers/BreakpointHelper';
+import { ThemeHelper, type Theme, type ThemeInput } from './helpers/ThemeHelper';
+import { RichTextHelper, type InlineSpan, type RichTextCommand } from './helpers/RichTextHelper';
+import { InlineEditHelper } from './helpers/InlineEditHelper';
+import { TableHelper, type TableAxis, type TableGrid } from './helpers/TableHelper';
+import {
+  EditorThemeHelper,
+  type EditorTheme,
+  type EditorThemeInput,
+  type EditorThemeName,
+} from './helpers/EditorThemeHelper';
+import {
+  PreviewDeviceHelper,
+  type PreviewDevice,
+  type PreviewZoom,
+} from './helpers/PreviewDeviceHelper';
+import {
+  ElementStyleHelper,
+  type StyleOutput,
+  type StyleProps,
+} from './helpers/ElementStyleHelper';
+import {
+  HTMLFormatHelper,
+  type HTMLFormat,
+  type HTMLFormatOptions,
+} from './helpers/HTMLFormatHelper';
+import {
+  PersistenceHelper,
+  type PersistenceOptions,
+  type RecoverySnapshot,
+  type StorageAdapter,
+} from './helpers/PersistenceHelper';
+import {
+  DocumentRulesHelper,
+  type DocumentRule,
+  type DocumentReport,
+} from './helpers/DocumentRulesHelper';
+import {
+  PropertyEditorHelper,
+  type ArrayAction,
+  type FieldWidget,
+  type PropertyInput,
+} from './helpers/PropertyEditorHelper';
 
 
 interface EditorOptions {
-  enabledElements?: string[];
+  enabledElements?: (ElementTypeName | (string & {}))[];
   initialContent?: EditorElement[];
   iframePreviewOptions?: {
     enableDragDrop?: boolean;
     enableElementSelection?: boolean;
+    /** Edit titles, text and list items by double-clicking them in the preview */
+    enableInlineEditing?: boolean;
     customStyles?: string;
   };
   htmlTemplate?: HTMLTemplate;
+  history?: HistoryOptions;
+  documentRules?: DocumentRule[];
+  persistence?: PersistenceOptions;
+  /** Format of the HTML tab and copyHTML (default: pretty, 2 spaces) */
+  htmlFormat?: HTMLFormatOptions;
+  /** Write element styles as inline style attributes or as a stylesheet keyed by class */
+  styleOutput?: StyleOutput;
+  /** Viewport breakpoints of responsive element styles (default: desktop, tablet, mobile) */
+  breakpoints?: Breakpoint[];
+  /** Initial device of the preview frame (default: responsive at 100%) */
+  previewDevice?: Partial<PreviewDevice>;
+  /** Design token themes of the generated page (default: the built-in theme) */
+  themes?: ThemeInput[];
+  /** Name of the initially active theme (default: the first theme) */
+  theme?: string;
+  /** Theme of the editor chrome: built-in name, 'auto' or a custom theme (default: light) */
+  editorTheme?: EditorThemeName | EditorThemeInput;
 }
 
 // ElementType interface is now imported from ElementTypesHelper
 
-interface EditorElement {
-  id: number;
-  type: string;
-  props: Record<string, unknown>;
+/**
+ * Props of each element type, keyed by type name
+ * Augment it to type custom element types:
+ *   declare module '@naoki85/visual-html-builder' { interface ElementPropsMap { banner: BannerProps } }
+ * addElement() and enabledElements also take custom type names that are not listed.
+ */
+interface ElementPropsMap {
+  title: TitleProps;
+  text: TextProps;
+  image: ImageProps;
+  list: ListProps;
+  link: LinkProps;
+  button: ButtonProps;
+  table: TableProps;
+  video: VideoProps;
+  audio: AudioProps;
+  embed: EmbedProps;
+  section: SectionProps;
+  div: DivProps;
+  'two-columns': ColumnsProps;
+  'three-columns': ColumnsProps;
+  html: RawHtmlProps;
+}
+
+type ElementTypeName = keyof ElementPropsMap & string;
+
+/** Element of the document, discriminated by type */
+type EditorElement<K extends ElementTypeName = ElementTypeName> = {
+  [T in K]: {
+    id: number;
+    type: T;
+    /** Props of the element type plus the reserved style prop */
+    props: ElementPropsMap[T] & StyleProps;
+    /** Child elements of container types, one list per slot */
+    children?: EditorElement[][];
+  };
+}[K];
+
+/** Props of an element as a plain record, for code that works on any element type */
+const propsRecord = (element: EditorElement): Record<string, unknown> =>
+  element.props as Record<string, unknown>;
+
+interface HistorySnapshot {
+  elements: EditorElement[];
+  selectedElementId: number | null;
+}
+
+type ChangeReason =
+  | 'add'
+  | 'delete'
+  | 'update'
+  | 'reorder'
+  | 'set'
+  | 'load'
+  | 'import'
+  | 'undo'
+  | 'redo'
+  | 'template';
+
+interface ElementUpdatePayload {
+  element: EditorElement;
+  key: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+interface ElementsReorderPayload {
+  elementId: number;
+  from: ElementLocation;
+  to: ElementLocation;
+  /** Element IDs in depth-first document order */
+  previousOrder: number[];
+  newOrder: number[];
+}
+
+interface EditorEventMap {
+  beforeElementAdd: CancelableEvent & {
+    type: string;
+    props: Record<string, unknown>;
+    location: ElementLocation;
+  };
+  elementAdded: { element: EditorElement } & ElementLocation;
+  beforeElementDelete: CancelableEvent & { element: EditorElement };
+  elementDeleted: { element: EditorElement } & ElementLocation;
+  beforeElementUpdate: CancelableEvent & ElementUpdatePayload;
+  elementUpdated: ElementUpdatePayload;
+  beforeElementsReorder: CancelableEvent & ElementsReorderPayload;
+  elementsReordered: ElementsReorderPayload;
+  selectionChanged: { element: EditorElement | null; previousElement: EditorElement | null };
+  templateChanged: { template: HTMLTemplate; previousTemplate: HTMLTemplate };
+  themeChanged: { theme: Theme; previousTheme: Theme };
+  change: { reason: ChangeReason; elements: EditorElement[] };
 }
 
 class VisualHtmlBuilder {
+  public static readonly documentSchema: JSONSchema = SerializationHelper.getDocumentSchema();
+
   public containerId: string;
   public container: HTMLElement;
   public options: EditorOptions & {
@@ -35,10 +226,29 @@ class VisualHtmlBuilder {
   public elements: EditorElement[];
   public selectedElement: EditorElement | null;
   public draggedElement: number | null;
-  public elementTypes: Record<string, ElementType>;
+  public elementTypes: Record<string, AnyElementType>;
+  public fieldWidgets: Record<string, FieldWidget>;
+  public documentRules: DocumentRule[];
   public elementCounter: number;
   public previewIframe: HTMLIFrameElement | null;
   public htmlTemplate: HTMLTemplate;
+  public history: HistoryState<HistorySnapshot>;
+  private keydownHandler: ((e: KeyboardEvent) => void) | null;
+  private listeners: ListenerRegistry<EditorEventMap>;
+  private documentMetadata: Partial<DocumentMetadata>;
+  private validationRun: number;
+  private previewFrame: number | null;
+  private persistence: (Required<Omit<PersistenceOptions, 'initialContentUpdatedAt'>> &
+    Pick<PersistenceOptions, 'initialContentUpdatedAt'>) | null;
+  private autosaveTimer: ReturnType<typeof setTimeout> | null;
+  private pagehideHandler: (() => void) | null;
+  private htmlFormat: HTMLFormatOptions;
+  public breakpoints: Breakpoint[];
+  private activeBreakpoint: string;
+  private previewDevice: PreviewDevice;
+  public themes: Theme[];
+  private activeTheme: string;
+  private editorTheme: EditorThemeName | EditorTheme;
 
   constructor(containerId: string, options: EditorOptions = {}) {
     this.containerId = containerId;
@@ -49,7 +259,22 @@ class VisualHtmlBuilder {
 
     this.container = container;
     this.options = {
-      enabledElements: ['title', 'text', 'image', 'list'],
+      enabledElements: [
+        'title',
+        'text',
+        'image',
+        'list',
+        'link',
+        'button',
+        'table',
+        'video',
+        'audio',
+        'embed',
+        'section',
+        'div',
+        'two-columns',
+        'three-columns',
+      ],
       initialContent: [],
       ...options,
     };
@@ -58,9 +283,45 @@ class VisualHtmlBuilder {
     this.selectedElement = null;
     this.draggedElement = null;
     this.elementTypes = ElementTypesHelper.getAllElementTypes();
+    this.fieldWidgets = PropertyEditorHelper.getBuiltInWidgets();
+    this.documentRules = options.documentRules || DocumentRulesHelper.getBuiltInRules();
     this.elementCounter = 0;
     this.previewIframe = null;
     this.htmlTemplate = options.htmlTemplate || HTMLTemplateHelper.getDefaultTemplate();
+    this.history = HistoryHelper.createHistory<HistorySnapshot>(options.history);
+    this.keydownHandler = null;
+    this.listeners = EventEmitterHelper.createRegistry<EditorEventMap>();
+    this.documentMetadata = {};
+    this.validationRun = 0;
+    this.previewFrame = null;
+    if (options.persistence && !options.persistence.key) {
+      throw new Error('Persistence requires a storage key per document');
+    }
+    // localStorage is only touched without a custom adapter (reading it throws where blocked)
+    this.persistence = options.persistence
+      ? {
+          ...PersistenceHelper.getDefaultOptions(),
+          ...options.persistence,
+          adapter: options.persistence.adapter ?? PersistenceHelper.createLocalStorageAdapter(),
+        }
+      : null;
+    this.autosaveTimer = null;
+    this.pagehideHandler = null;
+    this.htmlFormat = { format: 'pretty', indent: 2, ...options.htmlFormat };
+    this.breakpoints = BreakpointHelper.normalize(
+      options.breakpoints || BreakpointHelper.getDefaultBreakpoints()
+    );
+    this.activeBreakpoint = BreakpointHelper.getBase(this.breakpoints).name;
+    this.themes = ThemeHelper.createThemes(options.themes || []);
+    this.activeTheme = options.theme ?? this.themes[0]!.name;
+    if (!this.themes.some(theme => theme.name === this.activeTheme)) {
+      throw new Error(`Unknown theme: ${this.activeTheme}`);
+    }
+    this.previewDevice = PreviewDeviceHelper.update(
+      PreviewDeviceHelper.getDefault(),
+      options.previewDevice || {}
+    );
+    this.editorTheme = EditorThemeHelper.resolve(options.editorTheme ?? 'light');
 
     this.init();
   }
@@ -77,6 +338,13 @@ class VisualHtmlBuilder {
 
     // Set up postMessage listener for iframe communication
     this.setupPostMessageListener();
+
+    // Set up undo/redo keyboard shortcuts for the host page
+    this.setupKeyboardShortcuts();
+
+    if (this.persistence) {
+      this.setupPersistence();
+    }
   }
 
   // Element types are now managed by ElementTypesHelper
@@ -95,18 +363,95 @@ class VisualHtmlBuilder {
           <div class="editor-tabs">
             <button class="tab-button active" data-tab="preview">Preview</button>
             <button class="tab-button" data-tab="html">HTML</button>
+            <button class="tab-button" data-tab="markdown">Markdown</button>
+            <button class="tab-button" data-tab="react">React</button>
+            <button class="tab-button" data-tab="vue">Vue</button>
+            <button class="tab-button" data-tab="checks">Checks <span class="checks-count"></span></button>
             <button class="copy-html-button">📋 Copy HTML</button>
           </div>
           
           <div class="tab-content">
             <div class="tab-panel active" data-panel="preview">
+              ${
+                this.breakpoints.length > 1
+                  ? `<div class="breakpoint-switcher">${this.breakpoints
+                      .map(
+                        breakpoint => `
+                <button class="breakpoint-button${breakpoint.name === this.activeBreakpoint ? ' active' : ''}" 
+                        data-breakpoint="${UtilityHelpers.escapeHtml(breakpoint.name)}">
+                  ${UtilityHelpers.escapeHtml(breakpoint.label)}${breakpoint.width ? ` <small>${breakpoint.width}px</small>` : ''}
+                </button>`
+                      )
+                      .join('')}
+              </div>`
+                  : ''
+              }
+              <div class="preview-toolbar">
+                <select class="preview-device-select" title="Device">
+                  <option value="responsive">Responsive</option>
+                  ${Object.entries(PreviewDeviceHelper.getPresets())
+                    .map(
+                      ([name, preset]) =>
+                        `<option value="${name}">${preset.label} (${preset.width}×${preset.height})</option>`
+                    )
+                    .join('')}
+                  <option value="custom">Custom</option>
+                </select>
+                <input type="number" class="preview-size-input" data-dimension="width" min="1" placeholder="Auto" title="Width">
+                <span class="preview-size-separator">×</span>
+                <input type="number" class="preview-size-input" data-dimension="height" min="1" placeholder="Auto" title="Height">
+                <button class="preview-rotate-button" title="Rotate">⟳ Rotate</button>
+                ${
+                  this.themes.length > 1
+                    ? `<select class="theme-select" title="Theme">
+                  ${this.themes
+                    .map(
+                      theme =>
+                        `<option value="${UtilityHelpers.escapeHtml(theme.name)}"${theme.name === this.activeTheme ? ' selected' : ''}>${UtilityHelpers.escapeHtml(theme.label ?? theme.name)}</option>`
+                    )
+                    .join('')}
+                </select>`
+                    : ''
+                }
+                <select class="preview-zoom-select" title="Zoom">
+                  ${PreviewDeviceHelper.getZoomLevels()
+                    .map(
+                      zoom => `<option value="${zoom}">${zoom === 'fit' ? 'Fit' : `${zoom}%`}</option>`
+                    )
+                    .join('')}
+                </select>
+              </div>
+              <div class="preview-ruler"><span class="preview-ruler-label"></span></div>
               <div class="preview-area" id="preview-${this.containerId}">
                 <!-- <div class="empty-state">Click elements from the sidebar to add them here</div> -->
               </div>
             </div>
             <div class="tab-panel" data-panel="html">
+              <div class="html-tab-controls">
+                <button class="html-mode-button" data-format="pretty">Pretty</button>
+                <button class="html-mode-button" data-format="minify">Minified</button>
+                <button class="html-mode-button" data-format="none">Raw</button>
+              </div>
               <textarea class="html-output" readonly></textarea>
             </div>
+            <div class="tab-panel" data-panel="markdown">
+              <textarea class="markdown-output" readonly></textarea>
+            </div>
+            <div class="tab-panel" data-panel="react">
+              <div class="code-export-toolbar">
+                <button class="copy-code-button" data-copy="react">📋 Copy JSX</button>
+              </div>
+              <textarea class="react-output" readonly></textarea>
+            </div>
+            <div class="tab-panel" data-panel="vue">
+              <div class="code-export-toolbar">
+                <button class="copy-code-button" data-copy="vue">📋 Copy Vue</button>
+              </div>
+              <textarea class="vue-output" readonly></textarea>
+            </div>
+            <div class="tab-panel" data-panel="checks">
+              <div class="document-checks"></div>
+            </div>
           </div>
         </div>
         
@@ -122,6 +467,7 @@ class VisualHtmlBuilder {
     // Inject default styles
     StylesHelper.injectEditorStyles();
     DragDropHelper.injectDragDropStyles();
+    this.applyEditorTheme();
 
   }
 
@@ -143,6 +489,7 @@ class VisualHtmlBuilder {
 
     // Re-attach event listeners for new buttons
     this.attachEventListeners();
+    this.updatePreviewFrame();
 
     // Update preview if there are elements
     if (this.elements.length > 0) {
@@ -182,10 +529,80 @@ class VisualHtmlBuilder {
       this.copyHTML();
     });
 
+    // HTML format toggle
+    this.container.querySelectorAll<HTMLElement>('.html-mode-button').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.setHTMLFormat(btn.dataset.format as HTMLFormat);
+      });
+    });
+
+    // Breakpoint switcher
+    this.container.querySelectorAll<HTMLElement>('.breakpoint-button').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.setActiveBreakpoint(btn.dataset.breakpoint!);
+      });
+    });
+
+    // Preview device toolbar
+    this.container
+      .querySelector<HTMLSelectElement>('.preview-device-select')
+      ?.addEventListener('change', e => {
+        const device = (e.target as HTMLSelectElement).value as PreviewDevice['device'];
+        this.setPreviewDevice(
+          device === 'custom' ? { ...this.getCustomPreviewSize(), device } : { device }
+        );
+      });
+
+    this.container.querySelectorAll<HTMLInputElement>('.preview-size-input').forEach(input => {
+      input.addEventListener('change', () => {
+        const value = parseInt(input.value, 10);
+        if (!(value > 0)) {
+          this.updatePreviewFrame();
+          return;
+        }
+        const size = this.getCustomPreviewSize();
+        this.setPreviewDevice({
+          device: 'custom',
+          width: input.dataset.dimension === 'width' ? value : size.width,
+          height: input.dataset.dimension === 'height' ? value : size.height,
+        });
+      });
+    });
+
+    this.container
+      .querySelector<HTMLButtonElement>('.preview-rotate-button')
+      ?.addEventListener('click', () => {
+        this.setPreviewDevice({
+          orientation: this.previewDevice.orientation === 'portrait' ? 'landscape' : 'portrait',
+        });
+      });
+
+    this.container
+      .querySelector<HTMLSelectElement>('.preview-zoom-select')
+      ?.addEventListener('change', e => {
+        const value = (e.target as HTMLSelectElement).value;
+        this.setPreviewDevice({ zoom: (value === 'fit' ? 'fit' : Number(value)) as PreviewZoom });
+      });
+
+    // Theme switcher
+    this.container
+      .querySelector<HTMLSelectElement>('.theme-select')
+      ?.addEventListener('change', e => {
+        this.setTheme((e.target as HTMLSelectElement).value);
+      });
+
+    // Copy React / Vue code buttons
+    this.container.querySelectorAll<HTMLElement>('.copy-code-button').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (btn.dataset.copy === 'react') this.copyReact();
+        else if (btn.dataset.copy === 'vue') this.copyVue();
+      });
+    });
+
     // Note: Preview area interactions are now handled by iframe event listeners
   }
 
-  addElement(type: string) {
+  addElement(type: ElementTypeName | (string & {})) {
     if (!this.elementTypes[type]) {
       throw new Error(`Unknown element type: ${type}`);
     }
@@ -207,19 +624,77 @@ class VisualHtmlBuilder {
       }
     }
 
+    const location = this.getInsertLocation();
+    if (
+      !EventEmitterHelper.emitCancelable(this.listeners, 'beforeElementAdd', {
+        type,
+        props,
+        location,
+      })
+    ) {
+      return;
+    }
+
     const element = {
       id: Date.now() + ++this.elementCounter,
       type: type,
       props: props,
-    };
+    } as EditorElement;
+
+    const slots = this.elementTypes[type].slots;
+    if (slots && slots.length > 0) {
+      element.children = slots.map(() => []);
+    }
+
+    const slotCount = (parent: EditorElement) => this.getSlotCount(parent);
+    if (
+      !ElementTreeHelper.getSiblings(this.elements, location.parentId, location.slot, slotCount)
+    ) {
+      throw new Error(`Element ${location.parentId} has no slot ${location.slot}`);
+    }
 
-    this.elements.push(element);
+    this.recordHistory();
+    ElementTreeHelper.insertElement(this.elements, element, location, slotCount);
     this.updatePreview();
+    this.emit('elementAdded', { element, ...location });
+    this.emitChange('add');
     this.selectElement(element.id);
   }
 
+  /**
+   * Get the number of slots of an element (0 for elements of non-container types)
+   */
+  getSlotCount(element: EditorElement): number {
+    const elementType = this.elementTypes[element.type];
+    return ElementTypesHelper.isContainer(elementType) ? elementType!.slots!.length : 0;
+  }
+
+  /**
+   * Decide where a new element goes: into the selected container, next to
+   * the selected element's siblings inside a container, or at the end of the page
+   */
+  getInsertLocation(): ElementLocation {
+    const selected = this.selectedElement;
+
+    if (selected && ElementTypesHelper.isContainer(this.elementTypes[selected.type])) {
+      return { parentId: selected.id, slot: 0, index: selected.children?.[0]?.length || 0 };
+    }
+
+    const location = selected ? ElementTreeHelper.findLocation(this.elements, selected.id) : null;
+    if (location && location.parentId !== null) {
+      const siblings = ElementTreeHelper.getSiblings(
+        this.elements,
+        location.parentId,
+        location.slot
+      );
+      return { ...location, index: siblings?.length || 0 };
+    }
+
+    return { parentId: null, slot: 0, index: this.elements.length };
+  }
+
   selectElement(elementId: number) {
-    this.selectedElement = this.elements.find(el => el.id === elementId) || null;
+    this.setSelectedElement(ElementTreeHelper.findElement(this.elements, elementId));
     this.updatePropertiesPanel();
 
     // Update visual selection
@@ -231,11 +706,36 @@ class VisualHtmlBuilder {
     if (selectedEl) {
       selectedEl.classList.add('selected');
     }
+    this.updatePreviewSelection();
   }
 
+  /**
+   * Schedule a preview update
+   * Updates requested within the same animation frame are rendered once.
+   */
   updatePreview() {
+    if (this.previewFrame !== null) return;
+
+    this.previewFrame = window.requestAnimationFrame(() => {
+      this.previewFrame = null;
+      this.flushPreview();
+    });
+  }
+
+  /**
+   * Render a scheduled preview update immediately
+   */
+  flushPreview() {
+    if (this.previewFrame !== null) {
+      window.cancelAnimationFrame(this.previewFrame);
+      this.previewFrame = null;
+    }
+
     this.updateIframePreview();
     this.updateHTMLOutput();
+    this.updateMarkdownOutput();
+    this.updateCodeOutputs();
+    this.updateChecksPanel();
   }
 
   updateIframePreview() {
@@ -251,6 +751,7 @@ class VisualHtmlBuilder {
         previewArea as HTMLElement,
         this.options.iframePreviewOptions
       );
+      this.updatePreviewFrame();
 
       // Setup event listeners for iframe
       IframePreviewHelper.setupIframeEventListeners(
@@ -265,67 +766,425 @@ class VisualHtmlBuilder {
           onElementDragEnd: () => {
             this.draggedElement = null;
           },
-          onDrop: newOrder => {
-            // Reorder elements array
-            const newElements: EditorElement[] = [];
-            newOrder.forEach(id => {
-              const element = this.elements.find(el => el.id === id);
-              if (element) {
-                newElements.push(element);
-              }
-            });
-            this.elements = newElements;
-            this.updatePreview();
+          onUndo: () => {
+            this.undo();
+          },
+          onRedo: () => {
+            this.redo();
+          },
+          onElementMove: (elementId, location) => {
+            this.moveElement(elementId, location);
+          },
+          onInlineEdit: (elementId, path, value) => {
+            this.updateInlineProperty(elementId, path, value);
           },
         },
         this.options.iframePreviewOptions
       );
     }
 
-    // Generate HTML content
-    const htmlContent =
-      this.elements.length === 0
-        ? '<div class="empty-state">Click elements from the sidebar to add them here</div>'
-        : this.elements
-            .map(element => {
-              const elementType = this.elementTypes[element.type];
-              const validation = elementType?.validate(element.props);
+    const previewContent = this.previewIframe.contentDocument?.querySelector('.preview-content');
+    if (!previewContent) return;
+
+    // Theme tokens, then the media queries of responsive styles (other styles are inlined)
+    IframePreviewHelper.injectIframeStyles(
+      this.previewIframe,
+      ThemeHelper.toStylesheet(this.getTheme()),
+      'theme-styles'
+    );
+    IframePreviewHelper.injectIframeStyles(
+      this.previewIframe,
+      this.generateStylesheet('inline'),
+      'element-styles'
+    );
+
+    if (this.elements.length === 0) {
+      IframePreviewHelper.updateIframeContent(
+        this.previewIframe,
+        '<div class="empty-state">Click elements from the sidebar to add them here</div>'
+      );
+      return;
+    }
+
+    // Only elements whose markup changed are replaced
+    PreviewPatchHelper.patch(
+      previewContent,
+      this.elements.map(element => this.createPreviewNode(element))
+    );
+    this.updatePreviewSelection();
+  }
 
-              return `
-            <div class="preview-element ${validation ? 'has-error' : ''}" 
+  /**
+   * Mark the selected element in the preview iframe
+   */
+  updatePreviewSelection() {
+    const iframeDoc = this.previewIframe?.contentDocument;
+    if (!iframeDoc) return;
+
+    iframeDoc.querySelectorAll('.preview-element').forEach(el => {
+      el.classList.toggle(
+        'selected',
+        el.getAttribute('data-element-id') === String(this.selectedElement?.id)
+      );
+    });
+  }
+
+  /**
+   * Build the keyed preview tree of an element
+   * @param element Element to render
+   */
+  createPreviewNode(element: EditorElement): PreviewNode {
+    return {
+      id: element.id,
+      html: this.renderPreviewShell(element, () => ''),
+      slots: (element.children || []).map(slot => slot.map(child => this.createPreviewNode(child))),
+    };
+  }
+
+  renderPreviewElement(element: EditorElement): string {
+    return this.renderPreviewShell(element, children =>
+      children.map(child => this.renderPreviewElement(child)).join('')
+    );
+  }
+
+  /**
+   * Render preview markup of an element
+   * @param element Element to render
+   * @param renderSlot Renders the children of a slot
+   */
+  private renderPreviewShell(
+    element: EditorElement,
+    renderSlot: (children: EditorElement[]) => string
+  ): string {
+    const elementType = this.elementTypes[element.type];
+    const issues = this.validateElement(element);
+    const errors = ValidationHelper.filterBySeverity(issues, 'error');
+    const severity = ValidationHelper.getHighestSeverity(issues);
+    const stateClass = severity === 'error' || severity === 'warning' ? `has-${severity}` : '';
+    const errorLabel = errors[0]
+      ? UtilityHelpers.escapeHtml(errors[0].message) +
+        (errors.length > 1 ? ` (+${errors.length - 1} more)` : '')
+      : '';
+    const isContainer = ElementTypesHelper.isContainer(elementType);
+
+    // Containers render their slots as drop zones holding the children's preview markup
+    const slots = isContainer
+      ? (elementType?.slots || []).map((label, slot) => {
+          const content = renderSlot(element.children?.[slot] || []);
+          return `<div class="preview-slot${content ? '' : ' is-empty'}" 
+                   data-parent-id="${element.id}" data-slot="${slot}" 
+                   data-slot-label="${UtilityHelpers.escapeHtml(label)}">${content}</div>`;
+        })
+      : undefined;
+    // The preview has no generated stylesheet, so element styles are always inlined
+    const content = this.applyElementStyle(
+      element,
+      (elementType?.renderPreview
+        ? elementType.renderPreview(element.props, slots)
+        : elementType?.render(element.props, slots)) || '',
+      'inline'
+    );
+    const inlineProps =
+      this.options.iframePreviewOptions?.enableInlineEditing === false
+        ? []
+        : (elementType?.inlineEditable?.(element.props) ?? []);
+
+    return `
+            <div class="preview-element ${isContainer ? 'preview-container' : ''} ${stateClass}" 
                  data-element-id="${element.id}" 
                  draggable="true">
               <div class="element-controls">
                 <span class="element-type">${elementType?.name}</span>
-                ${validation ? `<span class="validation-error">${validation}</span>` : ''}
+                ${errorLabel ? `<span class="validation-error">${errorLabel}</span>` : ''}
                 <button class="delete-element" data-element-id="${element.id}">×</button>
               </div>
               <div class="element-content">
-                ${elementType?.render(element.props) || ''}
+                ${InlineEditHelper.markEditable(content, inlineProps)}
               </div>
             </div>
           `;
-            })
-            .join('');
-
-    // Update iframe content
-    IframePreviewHelper.updateIframeContent(this.previewIframe, htmlContent);
   }
 
   updateHTMLOutput() {
     const htmlOutput = this.container.querySelector('.html-output') as HTMLTextAreaElement;
     if (!htmlOutput) return;
 
-    const html = this.generateFullHTML();
-    htmlOutput.value = html;
+    htmlOutput.value = this.getFullHTML(this.htmlFormat);
+
+    this.container.querySelectorAll<HTMLElement>('.html-mode-button').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.format === (this.htmlFormat.format ?? 'none'));
+    });
+  }
+
+  /**
+   * Get breakpoint whose styles the properties panel edits and the preview shows
+   */
+  getActiveBreakpoint(): Breakpoint {
+    return (
+      this.breakpoints.find(breakpoint => breakpoint.name === this.activeBreakpoint) ||
+      BreakpointHelper.getBase(this.breakpoints)
+    );
+  }
+
+  /**
+   * Switch the breakpoint edited in the properties panel and resize the preview to it
+   * @param name Breakpoint name
+   */
+  setActiveBreakpoint(name: string) {
+    const breakpoint = this.breakpoints.find(item => item.name === name);
+    if (!breakpoint) {
+      throw new Error(`Unknown breakpoint: ${name}`);
+    }
+
+    this.activeBreakpoint = name;
+    this.container.querySelectorAll<HTMLElement>('.breakpoint-button').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.breakpoint === name);
+    });
+    this.updatePreviewFrame();
+    this.updatePropertiesPanel();
+  }
+
+  /**
+   * Get active theme
+   */
+  getTheme(): Theme {
+    return this.themes.find(theme => theme.name === this.activeTheme) || this.themes[0]!;
+  }
+
+  /**
+   * Switch the active theme of the preview and the generated page
+   * @param name Theme name
+   */
+  setTheme(name: string) {
+    const theme = this.themes.find(item => item.name === name);
+    if (!theme) {
+      throw new Error(`Unknown theme: ${name}`);
+    }
+
+    const previousTheme = this.getTheme();
+    this.activeTheme = name;
+    const themeSelect = this.container.querySelector<HTMLSelectElement>('.theme-select');
+    if (themeSelect) themeSelect.value = name;
+
+    this.updatePreview();
+    this.updatePropertiesPanel();
+    this.emit('themeChanged', { theme, previousTheme });
+  }
+
+  /**
+   * Get theme of the editor chrome (a built-in name or the custom theme)
+   */
+  getEditorTheme(): EditorThemeName | EditorTheme {
+    return this.editorTheme;
+  }
+
+  /**
+   * Switch the theme of the editor chrome and its notifications
+   * @param theme Built-in theme name, 'auto' or a custom theme
+   */
+  setEditorTheme(theme: EditorThemeName | EditorThemeInput) {
+    this.editorTheme = EditorThemeHelper.resolve(theme);
+    this.applyEditorTheme();
+  }
+
+  /**
+   * Get name of the editor theme (the data-editor-theme value)
+   */
+  private getEditorThemeName(): string {
+    return typeof this.editorTheme === 'string' ? this.editorTheme : this.editorTheme.name;
+  }
+
+  /**
+   * Inject the theme's custom properties and mark the editor root with the theme name
+   */
+  private applyEditorTheme() {
+    const name = this.getEditorThemeName();
+    StylesHelper.injectCustomStyles(
+      EditorThemeHelper.toStylesheet(this.editorTheme),
+      `html-gui-editor-theme-${name}`
+    );
+    this.container
+      .querySelector<HTMLElement>('.html-gui-editor')
+      ?.setAttribute('data-editor-theme', name);
+  }
+
+  /**
+   * Get device of the preview frame
+   */
+  getPreviewDevice(): PreviewDevice {
+    return { ...this.previewDevice };
+  }
+
+  /**
+   * Change device, size, rotation or zoom of the preview frame
+   * The responsive device takes the width of the active breakpoint.
+   * @param changes Changed settings
+   */
+  setPreviewDevice(changes: Partial<PreviewDevice>) {
+    this.previewDevice = PreviewDeviceHelper.update(this.previewDevice, changes);
+    this.updatePreviewFrame();
+  }
+
+  /**
+   * Get size a custom device starts from: the current frame size (rotation included)
+   */
+  private getCustomPreviewSize(): Pick<PreviewDevice, 'width' | 'height' | 'orientation'> {
+    const size = PreviewDeviceHelper.getFrameSize(
+      this.previewDevice,
+      this.getActiveBreakpoint().width
+    );
+    return {
+      width: size.width ?? (this.previewIframe?.clientWidth || 1280),
+      height: size.height ?? (this.previewIframe?.clientHeight || 800),
+      orientation: 'portrait',
+    };
+  }
+
+  /**
+   * Apply the preview device to the iframe, the toolbar and the ruler
+   */
+  updatePreviewFrame() {
+    const device = this.previewDevice;
+    const size = PreviewDeviceHelper.getFrameSize(device, this.getActiveBreakpoint().width);
+    const previewArea = this.container.querySelector<HTMLElement>('.preview-area');
+    const scale = PreviewDeviceHelper.getScale(device.zoom, size, {
+      width: previewArea?.clientWidth ?? 0,
+      height: previewArea?.clientHeight ?? 0,
+    });
+
+    if (this.previewIframe) {
+      IframePreviewHelper.setFrameSize(this.previewIframe, size, scale);
+    }
+
+    const deviceSelect = this.container.querySelector<HTMLSelectElement>('.preview-device-select');
+    if (deviceSelect) deviceSelect.value = device.device;
+    const zoomSelect = this.container.querySelector<HTMLSelectElement>('.preview-zoom-select');
+    if (zoomSelect) zoomSelect.value = String(device.zoom);
+    this.container.querySelectorAll<HTMLInputElement>('.preview-size-input').forEach(input => {
+      const value = input.dataset.dimension === 'width' ? size.width : size.height;
+      input.value = value === undefined ? '' : String(value);
+    });
+    const rotateButton = this.container.querySelector<HTMLButtonElement>('.preview-rotate-button');
+    if (rotateButton) rotateButton.disabled = device.device === 'responsive';
+
+    // The ruler spans the frame as displayed, with a tick every 50 CSS pixels of the page
+    const ruler = this.container.querySelector<HTMLElement>('.preview-ruler');
+    if (ruler) {
+      ruler.style.width = size.width === undefined ? '100%' : `${size.width * scale}px`;
+      ruler.style.backgroundSize = `${50 * scale}px 100%`;
+      const label = ruler.querySelector('.preview-ruler-label');
+      const width = size.width ?? this.previewIframe?.clientWidth;
+      if (label) label.textContent = width ? `${width}px` : 'Full width';
+    }
+  }
+
+  /**
+   * Set format of the HTML tab and copyHTML
+   * @param format Output format
+   */
+  setHTMLFormat(format: HTMLFormat) {
+    this.htmlFormat = { ...this.htmlFormat, format };
+    this.updateHTMLOutput();
+  }
+
+  updateMarkdownOutput() {
+    const markdownOutput = this.container.querySelector('.markdown-output') as HTMLTextAreaElement;
+    if (!markdownOutput) return;
+
+    markdownOutput.value = this.generateMarkdown();
+  }
+
+  updateCodeOutputs() {
+    const reactOutput = this.container.querySelector('.react-output') as HTMLTextAreaElement;
+    if (reactOutput) reactOutput.value = this.exportReact();
+
+    const vueOutput = this.container.querySelector('.vue-output') as HTMLTextAreaElement;
+    if (vueOutput) vueOutput.value = this.exportVue();
+  }
+
+  updateChecksPanel() {
+    const checks = this.container.querySelector('.document-checks');
+    if (!checks) return;
+
+    const report = this.validateDocument();
+    checks.innerHTML = DocumentRulesHelper.renderReport(report);
+
+    const count = this.container.querySelector('.checks-count');
+    if (count) {
+      count.textContent = report.errorCount ? String(report.errorCount) : '';
+    }
+
+    // Jump to the offending element
+    checks.querySelectorAll<HTMLElement>('.document-issue[data-element-id]').forEach(item => {
+      const select = () => this.selectElement(Number(item.dataset.elementId));
+      item.addEventListener('click', select);
+      item.addEventListener('keydown', e => {
+        if (e.key === 'Enter') select();
+      });
+    });
   }
 
   generateHTML() {
     if (this.elements.length === 0) return '';
 
-    return this.elements
-      .map(element => this.elementTypes[element.type]?.render(element.props) || '')
-      .join('\n');
+    return this.elements.map(element => this.renderElementHTML(element)).join('\n');
+  }
+
+  /**
+   * Generate CommonMark of the elements
+   * Element types without a toMarkdown hook are written as raw HTML blocks.
+   */
+  generateMarkdown(): string {
+    return MarkdownHelper.exportElements(this.elements, this.elementTypes);
+  }
+
+  renderElementHTML(element: EditorElement): string {
+    const children = element.children?.map(slot =>
+      slot.map(child => this.renderElementHTML(child)).join('\n')
+    );
+    const html = this.elementTypes[element.type]?.render(element.props, children) || '';
+    return this.applyElementStyle(element, html);
+  }
+
+  /**
+   * Apply the style prop to rendered markup of an element
+   * @param element Element the markup belongs to
+   * @param html Rendered markup
+   * @param output Inline style attribute or class of the generated stylesheet
+   */
+  private applyElementStyle(
+    element: EditorElement,
+    html: string,
+    output: StyleOutput = this.options.styleOutput ?? 'inline'
+  ): string {
+    const style = ElementStyleHelper.fromProps(element.props);
+    const css = ElementStyleHelper.toCSS(style);
+    const responsive = ElementStyleHelper.hasBreakpointRules(style);
+    if (!html || (!css && !responsive)) return html;
+
+    return output === 'stylesheet' || responsive
+      ? ElementStyleHelper.apply(html, '', ElementStyleHelper.getClassName(element.id))
+      : ElementStyleHelper.apply(html, css);
+  }
+
+  /**
+   * Generate stylesheet of the element styles
+   * Holds the rules of elements styled by class and the media queries of breakpoint overrides.
+   * @param output Style output the markup was rendered with
+   */
+  generateStylesheet(output: StyleOutput = this.options.styleOutput ?? 'inline'): string {
+    const styled = ElementTreeHelper.flatten(this.elements).map(
+      element => [element.id, ElementStyleHelper.fromProps(element.props)] as const
+    );
+    const rules = styled
+      .filter(([, style]) => output === 'stylesheet' || ElementStyleHelper.hasBreakpointRules(style))
+      .map(([id, style]) => ElementStyleHelper.toRule(id, style))
+      .filter(Boolean);
+    const mediaRules = styled.flatMap(([id, style]) =>
+      ElementStyleHelper.toMediaRules(id, style, this.breakpoints)
+    );
+
+    return BreakpointHelper.buildStylesheet(this.breakpoints, rules, mediaRules);
   }
 
   updatePropertiesPanel() {
@@ -342,70 +1201,497 @@ class VisualHtmlBuilder {
     const elementType = this.elementTypes[this.selectedElement.type];
     if (!elementType) return;
 
-    const validation = elementType.validate(this.selectedElement.props);
+    const issues = this.validateElement(this.selectedElement);
 
     propertiesContent.innerHTML = `
       <div class="properties-header">
         <h4>${elementType.name}</h4>
-        ${validation ? `<div class="validation-error">${validation}</div>` : ''}
+        ${ValidationHelper.renderSummary(issues)}
+      </div>
+      ${
+        elementType.propsSchema
+          ? PropertyEditorHelper.renderEditor(
+              elementType.propsSchema,
+              this.selectedElement.props,
+              this.fieldWidgets
+            )
+          : elementType.renderEditor?.(this.selectedElement.props) || ''
+      }
+      <div class="style-section">
+        ${this.renderStyleSection(this.selectedElement)}
       </div>
-      ${elementType.renderEditor(this.selectedElement.props)}
     `;
 
     // Set up event listeners for property inputs
     this.setupPropertyEventListeners(propertiesContent);
+    ValidationHelper.applyToInputs(propertiesContent, issues);
+    this.runAsyncValidation();
   }
 
-  updateValidationDisplay(previousProps: Record<string, unknown>) {
+  /**
+   * Refresh the validation summary and input highlights without re-rendering the inputs
+   * @param issues Issues to show (defaults to the selected element's synchronous issues)
+   */
+  updateValidationDisplay(issues?: ValidationIssue[]) {
     if (!this.selectedElement) return;
 
     const propertiesContent = this.container.querySelector('.properties-content');
     if (!propertiesContent) return;
 
-    const elementType = this.elementTypes[this.selectedElement.type];
-    if (!elementType) return;
+    const currentIssues = issues ?? this.validateElement(this.selectedElement);
+    const summary = propertiesContent.querySelector('.validation-summary');
+    if (summary) {
+      summary.outerHTML = ValidationHelper.renderSummary(currentIssues);
+    }
+    ValidationHelper.applyToInputs(propertiesContent, currentIssues);
 
-    const currentValidation = elementType.validate(this.selectedElement.props);
-    const previousValidation = elementType.validate(previousProps);
-
-    // Only update validation error display if validation state changed
-    if (currentValidation !== previousValidation) {
-      const validationErrorEl = propertiesContent.querySelector('.validation-error');
-      const propertiesHeader = propertiesContent.querySelector('.properties-header h4');
-      
-      if (currentValidation) {
-        // Add or update validation error
-        if (validationErrorEl) {
-          validationErrorEl.textContent = currentValidation;
-        } else if (propertiesHeader && propertiesHeader.parentNode) {
-          const errorDiv = document.createElement('div');
-          errorDiv.className = 'validation-error';
-          errorDiv.textContent = currentValidation;
-          propertiesHeader.parentNode.appendChild(errorDiv);
-        }
-      } else {
-        // Remove validation error
-        if (validationErrorEl) {
-          validationErrorEl.remove();
-        }
+    if (!issues) this.runAsyncValidation();
+  }
+
+  /**
+   * Render the Style section of the active breakpoint
+   * @param element Selected element
+   */
+  private renderStyleSection(element: EditorElement): string {
+    const breakpoint = this.getActiveBreakpoint();
+    const style = ElementStyleHelper.fromProps(element.props);
+    const isBase = breakpoint === BreakpointHelper.getBase(this.breakpoints);
+
+    return PropertyEditorHelper.renderField(
+      ElementStyleHelper.getField(breakpoint, this.getTheme()),
+      isBase ? style : style.breakpoints?.[breakpoint.name],
+      isBase ? 'style' : `style.breakpoints.${breakpoint.name}`,
+      this.fieldWidgets
+    );
+  }
+
+  /**
+   * Get synchronous validation issues of an element
+   * @param element Element to validate
+   */
+  validateElement(element: EditorElement): ValidationIssue[] {
+    const elementType = this.elementTypes[element.type];
+    if (!elementType) return [];
+
+    return [
+      ...ValidationHelper.normalize(elementType.validate(element.props)),
+      ...ElementStyleHelper.validate(ElementStyleHelper.fromProps(element.props)),
+    ];
+  }
+
+  /**
+   * Get validation issues of an element including its element type's validateAsync checks
+   * @param element Element to validate
+   */
+  async validateElementAsync(element: EditorElement): Promise<ValidationIssue[]> {
+    const issues = this.validateElement(element);
+    const elementType = this.elementTypes[element.type];
+    if (!elementType?.validateAsync) return issues;
+
+    return [...issues, ...ValidationHelper.normalize(await elementType.validateAsync(element.props))];
+  }
+
+  /**
+   * Add async issues of the selected element to the panel once they resolve
+   * Results of superseded runs (further edits or another selection) are dropped.
+   */
+  private runAsyncValidation() {
+    const element = this.selectedElement;
+    if (!element || !this.elementTypes[element.type]?.validateAsync) return;
+
+    const run = ++this.validationRun;
+    const isCurrent = () => run === this.validationRun && this.selectedElement === element;
+
+    this.validateElementAsync(element).then(
+      issues => {
+        if (isCurrent()) this.updateValidationDisplay(issues);
+      },
+      (error: unknown) => {
+        if (!isCurrent()) return;
+        const message = error instanceof Error ? error.message : String(error);
+        this.updateValidationDisplay([
+          ...this.validateElement(element),
+          ValidationHelper.warning('', `Validation could not complete: ${message}`),
+        ]);
       }
+    );
+  }
+
+  updateProperty(key: string, value: unknown): boolean {
+    if (!this.selectedElement) return false;
+    return this.applyPropertyUpdate(key, value, `property:${this.selectedElement.id}:${key}`);
+  }
+
+  /**
+   * Update nested value of the selected element (e.g. "items.2" or "links.0.label")
+   * @returns False if nothing is selected or a listener vetoed the update
+   */
+  updatePropertyAtPath(path: string, value: unknown): boolean {
+    if (!this.selectedElement) return false;
+
+    const [key, ...rest] = PropertyEditorHelper.parsePath(path);
+    if (key === undefined) return false;
+
+    const element = this.selectedElement;
+    const newValue = PropertyEditorHelper.setValueAtPath(propsRecord(element)[key], rest, value);
+    return this.applyPropertyUpdate(key, newValue, `property:${element.id}:${path}`);
+  }
+
+  /**
+   * Store a prop edited in place in the preview
+   * The element is selected first, so the update goes through the same checks and history
+   * as edits in the properties panel.
+   * @param elementId ID of the edited element
+   * @param path Path of the prop (e.g. "items.1")
+   * @param value Edited value
+   * @returns False if the element does not exist or a listener vetoed the update
+   */
+  updateInlineProperty(elementId: number, path: string, value: unknown): boolean {
+    if (this.selectedElement?.id !== elementId) this.selectElement(elementId);
+    if (!this.selectedElement) return false;
+
+    const current = PropertyEditorHelper.getValueAtPath(
+      this.selectedElement.props,
+      PropertyEditorHelper.parsePath(path)
+    );
+    if (JSON.stringify(current) === JSON.stringify(value)) return true;
+
+    const updated = this.updatePropertyAtPath(path, value);
+    this.updatePropertiesPanel();
+    return updated;
+  }
+
+  /**
+   * Add, remove or reorder items of an array prop of the selected element
+   * @param path Path of the array (e.g. "items")
+   * @param action Action to apply
+   * @param index Item index (insert position for 'add', defaults to the end)
+   * @returns False if the path is not an array or a listener vetoed the update
+   */
+  updateArrayProperty(path: string, action: ArrayAction, index?: number): boolean {
+    if (!this.selectedElement) return false;
+
+    const segments = PropertyEditorHelper.parsePath(path);
+    const [key, ...rest] = segments;
+    const items = PropertyEditorHelper.getValueAtPath(this.selectedElement.props, segments);
+    if (key === undefined || !Array.isArray(items)) return false;
+
+    const schema = this.elementTypes[this.selectedElement.type]?.propsSchema;
+    const field = (schema && PropertyEditorHelper.getFieldAtPath(schema, path)) || {
+      kind: 'string-array',
+      itemDefault: 'New item',
+    };
+    const newItems = PropertyEditorHelper.applyArrayAction(
+      items,
+      action,
+      index ?? items.length,
+      field
+    );
+    const newValue = PropertyEditorHelper.setValueAtPath(
+      propsRecord(this.selectedElement)[key],
+      rest,
+      newItems
+    );
+
+    if (!this.applyPropertyUpdate(key, newValue)) return false;
+
+    this.updatePropertiesPanel(); // Need full re-render for DOM structure change
+    return true;
+  }
+
+  /**
+   * Add, remove or move rows and columns of a table grid prop of the selected element
+   * Column alignment moves with its column.
+   * @param path Path of the grid (e.g. "grid")
+   * @param axis Rows or columns
+   * @param action Action to apply ('up' and 'down' move columns left and right)
+   * @param index Row or column index (insert position for 'add')
+   * @returns False if nothing is selected or a listener vetoed the update
+   */
+  updateTableGrid(path: string, axis: TableAxis, action: ArrayAction, index: number): boolean {
+    return this.updateGridAtPath(path, grid =>
+      TableHelper.applyGridAction(grid, axis, action, index)
+    );
+  }
+
+  /**
+   * Paste text copied from a spreadsheet (TSV or CSV) into a table grid prop of the selected
+   * element; the grid grows to fit the pasted cells
+   * @param path Path of the grid (e.g. "grid")
+   * @param row Row of the top-left pasted cell
+   * @param column Column of the top-left pasted cell
+   * @param text Pasted text
+   * @returns False if the text fits in a single cell, nothing is selected or a listener vetoed
+   * the update
+   */
+  pasteTableCells(path: string, row: number, column: number, text: string): boolean {
+    const pasted = TableHelper.parseClipboard(text);
+    if (!pasted) return false;
+    return this.updateGridAtPath(path, grid => TableHelper.pasteCells(grid, row, column, pasted));
+  }
+
+  private updateGridAtPath(path: string, update: (grid: TableGrid) => TableGrid): boolean {
+    if (!this.selectedElement) return false;
+
+    const segments = PropertyEditorHelper.parsePath(path);
+    const [key, ...rest] = segments;
+    if (key === undefined) return false;
+
+    const grid = TableHelper.normalize(
+      PropertyEditorHelper.getValueAtPath(this.selectedElement.props, segments)
+    );
+    const newValue = PropertyEditorHelper.setValueAtPath(
+      propsRecord(this.selectedElement)[key],
+      rest,
+      update(grid)
+    );
+    if (!this.applyPropertyUpdate(key, newValue)) return false;
+
+    this.updatePropertiesPanel(); // Need full re-render for DOM structure change
+    return true;
+  }
+
+  /**
+   * Apply a formatting command to the selection of a rich text field
+   * The link command uses the URL and new-tab inputs next to the toolbar. When the field has
+   * lost focus (to the URL input), its last selection is used.
+   * @param input Contenteditable element of the field
+   * @param command Formatting command
+   */
+  applyRichTextCommand(input: HTMLElement, command: RichTextCommand) {
+    const [start, end] = (input.dataset.selection ?? '').split(',').map(Number);
+    const offsets =
+      RichTextHelper.getSelectionOffsets(input) ??
+      (start !== undefined && end !== undefined && end > start
+        ? ([start, end] as [number, number])
+        : null);
+    if (!offsets) return;
+
+    const linkForm = input.closest('.rich-text-editor');
+    const href =
+      linkForm?.querySelector<HTMLInputElement>('.rich-text-link-url')?.value.trim() ?? '';
+    if (command === 'link' && href && !RichTextHelper.isSafeHref(href)) {
+      NotificationHelper.showError(`Link URL is not allowed: ${href}`, {
+        theme: this.getEditorThemeName(),
+      });
+      return;
     }
+    const blank = linkForm?.querySelector<HTMLInputElement>('.rich-text-link-blank')?.checked;
+    const link = {
+      href,
+      ...(blank ? { target: '_blank' as const, rel: 'noopener noreferrer' } : {}),
+    };
+
+    this.updateRichText(
+      input,
+      RichTextHelper.applyCommand(RichTextHelper.fromDOM(input), ...offsets, command, link),
+      offsets
+    );
   }
 
-  updateProperty(key: string, value: unknown) {
-    if (!this.selectedElement) return;
+  /**
+   * Replace the selection of a rich text field with plain text
+   * @param input Contenteditable element of the field
+   * @param text Inserted text
+   */
+  private insertRichText(input: HTMLElement, text: string) {
+    const offsets = RichTextHelper.getSelectionOffsets(input);
+    if (!offsets) return;
+
+    const caret = offsets[0] + text.length;
+    this.updateRichText(
+      input,
+      RichTextHelper.insertText(RichTextHelper.fromDOM(input), ...offsets, text),
+      [caret, caret]
+    );
+  }
+
+  /**
+   * Re-render a rich text field, restore its selection and store the value
+   */
+  private updateRichText(input: HTMLElement, spans: InlineSpan[], selection: [number, number]) {
+    const path = input.dataset.propPath;
+    if (!path) return;
+
+    input.innerHTML = RichTextHelper.toEditableHTML(spans);
+    RichTextHelper.setSelectionOffsets(input, ...selection);
+    input.dataset.selection = selection.join(',');
+    this.updatePropertyAtPath(path, RichTextHelper.simplify(spans));
+  }
 
-    const previousProps = { ...this.selectedElement.props };
-    this.selectedElement.props[key] = value;
+  /**
+   * Replace a prop of the selected element after asking beforeElementUpdate listeners
+   * @returns False if a listener vetoed the update
+   */
+  private applyPropertyUpdate(key: string, value: unknown, coalesceKey?: string): boolean {
+    if (!this.selectedElement) return false;
+
+    const element = this.selectedElement;
+    const props = propsRecord(element);
+    const oldValue = props[key];
+    if (
+      !EventEmitterHelper.emitCancelable(this.listeners, 'beforeElementUpdate', {
+        element,
+        key,
+        oldValue,
+        newValue: value,
+      })
+    ) {
+      // Revert the input to the current value
+      this.updatePropertiesPanel();
+      return false;
+    }
+
+    this.recordHistory(coalesceKey);
+    props[key] = value;
     this.updatePreview();
     
-    // Only update validation error display instead of full panel re-render
-    this.updateValidationDisplay(previousProps);
+    // Only update validation display instead of full panel re-render
+    this.updateValidationDisplay();
+
+    this.emit('elementUpdated', { element, key, oldValue, newValue: value });
+    this.emitChange('update');
+    return true;
   }
 
   setupPropertyEventListeners(container: Element) {
-    // Handle property inputs
-    const propertyInputs = container.querySelectorAll('.property-input');
+    // Handle schema-generated inputs (including the Style section)
+    const schema = this.selectedElement
+      ? {
+          ...this.elementTypes[this.selectedElement.type]?.propsSchema,
+          style: ElementStyleHelper.getPropField(this.breakpoints, this.getTheme()),
+        }
+      : undefined;
+    container.querySelectorAll<PropertyInput>('[data-prop-path]').forEach(input => {
+      const path = input.dataset.propPath;
+      if (!path) return;
+
+      const field = schema ? PropertyEditorHelper.getFieldAtPath(schema, path) : null;
+      const eventType = input.type === 'checkbox' || input.type === 'radio' ? 'change' : 'input';
+      input.addEventListener(eventType, () => {
+        const value = field
+          ? PropertyEditorHelper.readValue(input, field, this.fieldWidgets)
+          : input.value;
+        this.updatePropertyAtPath(path, value);
+      });
+    });
+
+    // Rich text fields: formatting toolbar, keyboard shortcuts, line breaks and plain-text paste
+    container.querySelectorAll<HTMLElement>('.rich-text-input').forEach(input => {
+      input.addEventListener('keydown', e => {
+        const command = RichTextHelper.getShortcutCommand(e);
+        if (command) {
+          e.preventDefault();
+          this.applyRichTextCommand(input, command);
+        } else if (e.key === 'Enter') {
+          e.preventDefault();
+          if (!input.hasAttribute('data-single-line')) this.insertRichText(input, '\n');
+        }
+      });
+      // Remember the selection for commands issued from outside the field
+      const rememberSelection = () => {
+        const offsets = RichTextHelper.getSelectionOffsets(input);
+        if (offsets) input.dataset.selection = offsets.join(',');
+      };
+      input.addEventListener('keyup', rememberSelection);
+      input.addEventListener('mouseup', rememberSelection);
+
+      input.addEventListener('paste', e => {
+        e.preventDefault();
+        const text = e.clipboardData?.getData('text/plain') ?? '';
+        this.insertRichText(
+          input,
+          input.hasAttribute('data-single-line') ? text.replace(/\s*\n\s*/g, ' ') : text
+        );
+      });
+
+      const editor = input.closest('.rich-text-editor');
+      editor?.querySelectorAll<HTMLButtonElement>('[data-rich-text-command]').forEach(button => {
+        // Keep the text selection when the button is pressed
+        button.addEventListener('mousedown', e => e.preventDefault());
+        button.addEventListener('click', () => {
+          this.applyRichTextCommand(input, button.dataset.richTextCommand as RichTextCommand);
+        });
+      });
+      editor?.querySelector('.rich-text-link-url')?.addEventListener('keydown', e => {
+        if ((e as KeyboardEvent).key !== 'Enter') return;
+        e.preventDefault();
+        this.applyRichTextCommand(input, 'link');
+      });
+    });
+
+    // Handle array add/remove/reorder buttons
+    container.querySelectorAll<HTMLButtonElement>('[data-array-action]').forEach(button => {
+      const path = button.dataset.arrayPath;
+      const action = button.dataset.arrayAction as ArrayAction;
+      const index = parseInt(button.dataset.index || '0', 10);
+      if (!path) return;
+
+      button.addEventListener('click', () => {
+        this.updateArrayProperty(path, action, index);
+      });
+    });
+
+    // Table grids: row and column buttons, Tab navigation between cells and spreadsheet paste
+    container.querySelectorAll<HTMLButtonElement>('[data-table-action]').forEach(button => {
+      const path = button.dataset.tablePath;
+      if (!path) return;
+
+      button.addEventListener('click', () => {
+        this.updateTableGrid(
+          path,
+          button.dataset.tableAxis as TableAxis,
+          button.dataset.tableAction as ArrayAction,
+          parseInt(button.dataset.index || '0', 10)
+        );
+      });
+    });
+    container.querySelectorAll<HTMLElement>('.table-grid-editor').forEach(editor => {
+      const path = editor.dataset.tablePath;
+      if (!path) return;
+
+      const cells = Array.from(editor.querySelectorAll<HTMLInputElement>('.table-grid-cell'));
+      // The panel is re-rendered by grid updates, so the cell is looked up again
+      const focusCell = (row: number, column: number) =>
+        Array.from(this.container.querySelectorAll<HTMLElement>('.table-grid-editor'))
+          .find(grid => grid.dataset.tablePath === path)
+          ?.querySelector<HTMLInputElement>(
+            `.table-grid-cell[data-row="${row}"][data-column="${column}"]`
+          )
+          ?.focus();
+
+      cells.forEach((cell, index) => {
+        const row = parseInt(cell.dataset.row || '0', 10);
+        const column = parseInt(cell.dataset.column || '0', 10);
+
+        cell.addEventListener('keydown', e => {
+          if (e.key !== 'Tab' || e.altKey || e.ctrlKey || e.metaKey) return;
+
+          const next = cells[e.shiftKey ? index - 1 : index + 1];
+          if (next) {
+            e.preventDefault();
+            next.focus();
+            next.select();
+          } else if (!e.shiftKey) {
+            // Tab in the last cell adds a row, like a spreadsheet
+            e.preventDefault();
+            const rowCount = editor.querySelectorAll('tbody tr').length;
+            if (this.updateTableGrid(path, 'row', 'add', rowCount)) focusCell(rowCount, 0);
+          }
+        });
+        cell.addEventListener('paste', e => {
+          const text = e.clipboardData?.getData('text/plain') ?? '';
+          if (TableHelper.parseClipboard(text) === null) return;
+
+          e.preventDefault();
+          this.pasteTableCells(path, row, column, text);
+          focusCell(row, column);
+        });
+      });
+    });
+
+    // Handle property inputs of hand-written renderEditor markup
+    const propertyInputs = container.querySelectorAll('.property-input:not([data-prop-path])');
     propertyInputs.forEach(input => {
       const element = input as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
       const property = element.dataset.property;
@@ -428,35 +1714,37 @@ class VisualHtmlBuilder {
       });
     });
 
-    // Handle list item inputs
+    // Handle list item inputs (data-property names the array, defaults to "items")
     const listItemInputs = container.querySelectorAll('.list-item-input');
     listItemInputs.forEach(input => {
       const element = input as HTMLInputElement;
       const index = parseInt(element.dataset.index || '0', 10);
 
       element.addEventListener('input', () => {
-        this.updateListItem(index, element.value);
+        this.updateListItem(index, element.value, element.dataset.property);
       });
     });
 
     // Handle list item removal buttons
-    const removeButtons = container.querySelectorAll('.remove-list-item');
+    const removeButtons = container.querySelectorAll('.remove-list-item:not([data-array-action])');
     removeButtons.forEach(button => {
       const element = button as HTMLButtonElement;
       const index = parseInt(element.dataset.index || '0', 10);
 
       element.addEventListener('click', () => {
-        this.removeListItem(index);
+        this.removeListItem(index, element.dataset.property);
       });
     });
 
-    // Handle add list item button
-    const addButton = container.querySelector('.add-list-item');
-    if (addButton) {
-      addButton.addEventListener('click', () => {
-        this.addListItem();
+    // Handle add list item buttons
+    const addButtons = container.querySelectorAll('.add-list-item:not([data-array-action])');
+    addButtons.forEach(button => {
+      const element = button as HTMLButtonElement;
+
+      element.addEventListener('click', () => {
+        this.addListItem(element.dataset.property);
       });
-    }
+    });
   }
 
   setupPostMessageListener() {
@@ -470,49 +1758,80 @@ class VisualHtmlBuilder {
     });
   }
 
-  // List-specific methods
-  updateListItem(index: number, value: string) {
-    if (!this.selectedElement || this.selectedElement.type !== 'list') return;
-    const previousProps = { ...this.selectedElement.props };
-    const items = this.selectedElement.props.items;
-    if (Array.isArray(items)) {
-      items[index] = value;
-      this.updatePreview();
-      this.updateValidationDisplay(previousProps);
-    }
+  // List methods (work on any array-of-strings prop, "items" by default)
+  updateListItem(index: number, value: string, key: string = 'items') {
+    if (!this.selectedElement || !Array.isArray(propsRecord(this.selectedElement)[key])) return;
+    this.updatePropertyAtPath(`${key}.${index}`, value);
   }
 
-  addListItem() {
-    if (!this.selectedElement || this.selectedElement.type !== 'list') return;
+  addListItem(key: string = 'items') {
+    this.updateArrayProperty(key, 'add');
+  }
 
-    const items = this.selectedElement.props.items;
-    if (Array.isArray(items)) {
-      items.push('New item');
-      this.updatePreview();
-      this.updatePropertiesPanel(); // Need full re-render for new DOM elements
-    }
+  removeListItem(index: number, key: string = 'items') {
+    this.updateArrayProperty(key, 'remove', index);
   }
 
-  removeListItem(index: number) {
-    if (!this.selectedElement || this.selectedElement.type !== 'list') return;
+  deleteElement(elementId: number) {
+    const element = ElementTreeHelper.findElement(this.elements, elementId);
+    const location = ElementTreeHelper.findLocation(this.elements, elementId);
+    if (!element || !location) return;
 
-    const items = this.selectedElement.props.items;
-    if (Array.isArray(items)) {
-      items.splice(index, 1);
-      this.updatePreview();
-      this.updatePropertiesPanel(); // Need full re-render for DOM structure change
+    if (!EventEmitterHelper.emitCancelable(this.listeners, 'beforeElementDelete', { element })) {
+      return;
     }
-  }
 
-  deleteElement(elementId: number) {
-    this.elements = this.elements.filter(el => el.id !== elementId);
+    this.recordHistory();
+    ElementTreeHelper.removeElement(this.elements, elementId);
 
-    if (this.selectedElement && this.selectedElement.id === elementId) {
-      this.selectedElement = null;
+    // Deleting a container also deletes the selected element if it was inside
+    if (this.selectedElement && ElementTreeHelper.contains(element, this.selectedElement.id)) {
+      this.setSelectedElement(null);
     }
 
     this.updatePreview();
     this.updatePropertiesPanel();
+    this.emit('elementDeleted', { element, ...location });
+    this.emitChange('delete');
+  }
+
+  moveElement(elementId: number, location: ElementLocation): boolean {
+    const from = ElementTreeHelper.findLocation(this.elements, elementId);
+    if (!from) return false;
+
+    // Try the move on a copy first to validate it and compute the resulting order
+    const movedElements = UtilityHelpers.deepClone(this.elements);
+    const slotCount = (parent: EditorElement) => this.getSlotCount(parent);
+    const to = ElementTreeHelper.moveElement(movedElements, elementId, location, slotCount)
+      ? ElementTreeHelper.findLocation(movedElements, elementId)
+      : null;
+
+    const isNoop =
+      to && to.parentId === from.parentId && to.slot === from.slot && to.index === from.index;
+    const payload = to && {
+      elementId,
+      from,
+      to,
+      previousOrder: ElementTreeHelper.flatten(this.elements).map(el => el.id),
+      newOrder: ElementTreeHelper.flatten(movedElements).map(el => el.id),
+    };
+
+    if (
+      !payload ||
+      isNoop ||
+      !EventEmitterHelper.emitCancelable(this.listeners, 'beforeElementsReorder', payload)
+    ) {
+      // Restore the DOM order changed by dragging
+      this.updatePreview();
+      return false;
+    }
+
+    this.recordHistory();
+    ElementTreeHelper.moveElement(this.elements, elementId, location, slotCount);
+    this.updatePreview();
+    this.emit('elementsReordered', payload);
+    this.emitChange('reorder');
+    return true;
   }
 
   switchTab(tabName: string) {
@@ -530,24 +1849,44 @@ class VisualHtmlBuilder {
 
     if (tabName === 'html') {
       this.updateHTMLOutput();
+    } else if (tabName === 'markdown') {
+      this.updateMarkdownOutput();
+    } else if (tabName === 'react' || tabName === 'vue') {
+      this.updateCodeOutputs();
+    } else if (tabName === 'checks') {
+      this.updateChecksPanel();
     }
   }
 
-  async copyHTML() {
-    const html = this.generateFullHTML();
+  /**
+   * Copy full HTML to the clipboard
+   * @param options Output format (defaults to the format chosen in the HTML tab)
+   */
+  async copyHTML(options: HTMLFormatOptions = this.htmlFormat) {
+    await this.copyText(this.getFullHTML(options), 'Full HTML copied to clipboard!');
+  }
+
+  async copyReact() {
+    await this.copyText(this.exportReact(), 'React component copied to clipboard!');
+  }
+
+  async copyVue() {
+    await this.copyText(this.exportVue(), 'Vue component copied to clipboard!');
+  }
 
+  private async copyText(text: string, message: string) {
     try {
-      await navigator.clipboard.writeText(html);
-      NotificationHelper.showSuccess('Full HTML copied to clipboard!');
+      await navigator.clipboard.writeText(text);
+      NotificationHelper.showSuccess(message, { theme: this.getEditorThemeName() });
     } catch {
       // Fallback for older browsers
       const textarea = document.createElement('textarea');
-      textarea.value = html;
+      textarea.value = text;
       document.body.appendChild(textarea);
       textarea.select();
       document.execCommand('copy');
       document.body.removeChild(textarea);
-      NotificationHelper.showSuccess('Full HTML copied to clipboard!');
+      NotificationHelper.showSuccess(message, { theme: this.getEditorThemeName() });
     }
   }
 
@@ -562,15 +1901,43 @@ class VisualHtmlBuilder {
   // Full HTML generation methods
   generateFullHTML(): string {
     const bodyContent = this.generateHTML();
-    return HTMLTemplateHelper.generateFullHTML(bodyContent, this.htmlTemplate);
+    const styles = [ThemeHelper.toStylesheet(this.getTheme()), this.generateStylesheet()];
+    return HTMLTemplateHelper.generateFullHTML(
+      bodyContent,
+      this.htmlTemplate,
+      styles.filter(Boolean).join('\n')
+    );
+  }
+
+  /**
+   * Get complete HTML document
+   * @param options Output format (default: as generated)
+   */
+  getFullHTML(options: HTMLFormatOptions = {}): string {
+    return HTMLFormatHelper.format(this.generateFullHTML(), options);
   }
 
-  getFullHTML(): string {
-    return this.generateFullHTML();
+  /**
+   * Generate email-safe HTML document
+   * Elements are laid out in tables with inline styles; element types can override their
+   * markup with renderEmail. The template's preheader and emailDoctype are applied.
+   * Theme tokens are replaced with their values, since email clients ignore custom properties.
+   * @param options Column width and background color
+   */
+  exportEmailHTML(options: EmailExportOptions = {}): string {
+    const rows = EmailExportHelper.exportElements(this.elements, this.elementTypes);
+    return ThemeHelper.resolveVariables(
+      EmailExportHelper.generateDocument(rows, this.htmlTemplate, options),
+      this.getTheme()
+    );
   }
 
   updateHTMLTemplate(template: Partial<HTMLTemplate>): void {
+    const previousTemplate = this.htmlTemplate;
     this.htmlTemplate = HTMLTemplateHelper.updateTemplate(this.htmlTemplate, template);
+    this.updateChecksPanel();
+    this.emit('templateChanged', { template: this.getHTMLTemplate(), previousTemplate });
+    this.emitChange('template');
   }
 
   getHTMLTemplate(): HTMLTemplate {
@@ -578,8 +1945,42 @@ class VisualHtmlBuilder {
   }
 
   // Public API methods
-  getHTML() {
-    return this.generateHTML();
+  /**
+   * Get body HTML
+   * @param options Output format (default: as generated)
+   */
+  getHTML(options: HTMLFormatOptions = {}) {
+    return HTMLFormatHelper.format(this.generateHTML(), options);
+  }
+
+  /**
+   * Get stylesheet of the element styles
+   * Needed next to getHTML() with styleOutput 'stylesheet' or breakpoint overrides (getFullHTML
+   * already includes it).
+   */
+  getStylesheet(): string {
+    return this.generateStylesheet();
+  }
+
+  exportMarkdown(): string {
+    return this.generateMarkdown();
+  }
+
+  /**
+   * Generate React function component of the document
+   * Element types can override their JSX with renderJSX; otherwise their HTML is converted.
+   * @param componentName Component name (PascalCase)
+   */
+  exportReact(componentName: string = 'Page'): string {
+    return CodeExportHelper.toReactComponent(this.elements, this.elementTypes, componentName);
+  }
+
+  /**
+   * Generate Vue single-file component of the document
+   * Element types can override their template with renderVue; otherwise their HTML is converted.
+   */
+  exportVue(): string {
+    return CodeExportHelper.toVueComponent(this.elements, this.elementTypes);
   }
 
   getElements() {
@@ -587,21 +1988,512 @@ class VisualHtmlBuilder {
   }
 
   setElements(elements: EditorElement[]) {
+    this.recordHistory();
     this.elements = [...elements];
-    this.selectedElement = null;
+    this.setSelectedElement(null);
+    this.updatePreview();
+    this.updatePropertiesPanel();
+    this.emitChange('set');
+  }
+
+  /**
+   * Replace the document with elements parsed from HTML
+   * Full documents also replace the HTML template with the one read from their <head>.
+   * @param html Full HTML document or body fragment
+   * @returns Imported elements
+   */
+  importHTML(html: string): EditorElement[] {
+    const imported = HTMLImportHelper.parse(
+      html,
+      this.elementTypes,
+      () => Date.now() + ++this.elementCounter
+    );
+
+    this.recordHistory();
+    // Parsed props come from the element types' own parse hooks
+    this.elements = imported.elements as EditorElement[];
+    this.setSelectedElement(null);
+
+    if (imported.template) {
+      const previousTemplate = this.htmlTemplate;
+      this.htmlTemplate = imported.template;
+      this.emit('templateChanged', { template: this.getHTMLTemplate(), previousTemplate });
+    }
+
+    this.updatePreview();
+    this.updatePropertiesPanel();
+    this.emitChange('import');
+    return this.getElements();
+  }
+
+  /**
+   * Replace the document with elements parsed from Markdown
+   * Headings, paragraphs, images and lists become title/text/image/list elements; other
+   * blocks are kept as raw HTML.
+   * @param markdown CommonMark source
+   * @returns Imported elements
+   */
+  importMarkdown(markdown: string): EditorElement[] {
+    const elements = MarkdownHelper.parse(markdown, () => Date.now() + ++this.elementCounter);
+
+    this.recordHistory();
+    this.elements = elements as EditorElement[];
+    this.setSelectedElement(null);
+    this.updatePreview();
+    this.updatePropertiesPanel();
+    this.emitChange('import');
+    return this.getElements();
+  }
+
+  // Document rule methods
+  /**
+   * Run document rules against the current elements and HTML template
+   * @returns Publish readiness report
+   */
+  validateDocument(): DocumentReport {
+    return DocumentRulesHelper.runRules(this.documentRules, this.elements, this.htmlTemplate);
+  }
+
+  /**
+   * Add document rule (replaces a rule with the same ID)
+   * @param rule Rule definition
+   */
+  registerDocumentRule(rule: DocumentRule) {
+    this.documentRules = DocumentRulesHelper.registerRule(this.documentRules, rule);
+    this.updateChecksPanel();
+  }
+
+  /**
+   * Remove document rule
+   * @param id Rule ID
+   * @returns True if a rule was removed
+   */
+  removeDocumentRule(id: string): boolean {
+    const rules = this.documentRules.filter(rule => rule.id !== id);
+    if (rules.length === this.documentRules.length) return false;
+
+    this.documentRules = rules;
+    this.updateChecksPanel();
+    return true;
+  }
+
+  // Document serialization methods
+  serialize(metadata: Partial<DocumentMetadata> = {}): SerializedDocument {
+    return SerializationHelper.serialize(this.elements, this.htmlTemplate, this.elementTypes, {
+      ...this.documentMetadata,
+      ...metadata,
+    });
+  }
+
+  load(doc: unknown) {
+    // Throws before touching the current document if validation or migration fails
+    const loaded = SerializationHelper.deserialize(doc, this.elementTypes);
+
+    this.recordHistory();
+    this.documentMetadata = loaded.metadata;
+    // Prop shapes of stored elements are trusted once migrated to the registered versions
+    this.elements = loaded.elements as EditorElement[];
+    this.setSelectedElement(null);
+
+    const previousTemplate = this.htmlTemplate;
+    this.htmlTemplate = loaded.template;
+
     this.updatePreview();
     this.updatePropertiesPanel();
+    this.emit('templateChanged', { template: this.getHTMLTemplate(), previousTemplate });
+    this.emitChange('load');
+  }
+
+  getDocumentSchema(): JSONSchema {
+    return VisualHtmlBuilder.documentSchema;
+  }
+
+  /**
+   * Register widget for a property field kind (overrides built-in widgets of the same kind)
+   */
+  registerFieldWidget(kind: string, widget: FieldWidget) {
+    this.fieldWidgets = PropertyEditorHelper.registerWidget(this.fieldWidgets, kind, widget);
+    this.updatePropertiesPanel();
   }
 
-  registerElementType(name: string, definition: ElementType) {
+  /**
+   * Register element type
+   * Props are inferred from the definition; names listed in ElementPropsMap must match their props.
+   */
+  registerElementType<
+    K extends string,
+    P extends K extends ElementTypeName ? ElementPropsMap[K] : object,
+  >(name: K, definition: ElementType<P>) {
     this.elementTypes = ElementTypesHelper.registerElementType(this.elementTypes, name, definition);
   }
 
+  /**
+   * Get element by ID anywhere in the tree
+   * @param id Element ID
+   * @param type Expected element type (null is returned for elements of another type)
+   */
+  getElement<K extends ElementTypeName = ElementTypeName>(
+    id: number,
+    type?: K
+  ): EditorElement<K> | null {
+    const element = ElementTreeHelper.findElement(this.elements, id);
+    if (!element || (type !== undefined && element.type !== type)) return null;
+    // The type check above narrows it; TS cannot relate the generic props intersection
+    return element as unknown as EditorElement<K>;
+  }
+
+  /**
+   * Get all elements of a type anywhere in the tree
+   * @param type Element type name
+   */
+  getElementsByType<K extends ElementTypeName>(type: K): EditorElement<K>[] {
+    return ElementTreeHelper.flatten(this.elements).filter(
+      element => element.type === type
+    ) as unknown as EditorElement<K>[];
+  }
+
+  // History (undo/redo) methods
+  setupKeyboardShortcuts() {
+    this.keydownHandler = (e: KeyboardEvent) => {
+      const target = e.target as Node | null;
+      // Ignore shortcuts aimed at other parts of the host page
+      if (target && target !== document.body && !this.container.contains(target)) return;
+      // Property fields and text edited in place keep the browser's own undo
+      const editable = 'input, textarea, select, [contenteditable="true"]';
+      if ((target as HTMLElement | null)?.closest?.(editable)) return;
+
+      const action = HistoryHelper.getShortcutAction(e);
+      if (!action) return;
+
+      e.preventDefault();
+      if (action === 'undo') {
+        this.undo();
+      } else {
+        this.redo();
+      }
+    };
+    document.addEventListener('keydown', this.keydownHandler);
+  }
+
+  setupPersistence() {
+    // Save pending changes before the page goes away
+    this.pagehideHandler = () => this.flushAutosave();
+    window.addEventListener('pagehide', this.pagehideHandler);
+
+    if (this.persistence?.promptRestore) {
+      this.offerDraftRestore().catch(() => {
+        // Unreadable storage: start without offering a restore
+      });
+    }
+  }
+
+  /**
+   * Show restore/discard notification when a newer unsaved draft exists
+   * @returns Draft that was offered (null if there was none)
+   */
+  async offerDraftRestore(): Promise<RecoverySnapshot | null> {
+    const draft = await this.findRestorableDraft();
+    if (!draft) return null;
+
+    NotificationHelper.showInfo(
+      `Unsaved draft from ${new Date(draft.savedAt).toLocaleString()} found`,
+      {
+        duration: 0,
+        theme: this.getEditorThemeName(),
+        actions: [
+          {
+            label: 'Restore',
+            onClick: () => {
+              try {
+                this.restoreRecoverySnapshot(draft);
+              } catch {
+                NotificationHelper.showError('Could not restore draft', {
+                  theme: this.getEditorThemeName(),
+                });
+              }
+            },
+          },
+          {
+            label: 'Discard',
+            onClick: () => {
+              this.discardDraft().catch(() => {
+                NotificationHelper.showError('Could not discard draft', {
+                  theme: this.getEditorThemeName(),
+                });
+              });
+            },
+          },
+        ],
+      }
+    );
+    return draft;
+  }
+
+  /**
+   * Get the newest stored draft if it differs from (and is newer than) the initial content
+   */
+  async findRestorableDraft(): Promise<RecoverySnapshot | null> {
+    const [latest] = await this.getRecoverySnapshots();
+    const restorable = PersistenceHelper.isRestorable(
+      latest,
+      this.options.initialContent,
+      this.persistence?.initialContentUpdatedAt
+    );
+    return restorable ? latest : null;
+  }
+
+  /**
+   * Get stored recovery snapshots (newest first)
+   */
+  async getRecoverySnapshots(): Promise<RecoverySnapshot[]> {
+    if (!this.persistence) return [];
+    return PersistenceHelper.loadSnapshots(this.persistence.adapter, this.persistence.key);
+  }
+
+  /**
+   * Replace the document with a recovery snapshot
+   * @param snapshot Snapshot to restore
+   */
+  restoreRecoverySnapshot(snapshot: RecoverySnapshot) {
+    this.load(snapshot.document);
+  }
+
+  /**
+   * Store the current document as the newest recovery snapshot
+   */
+  async saveDraft(): Promise<void> {
+    if (!this.persistence) {
+      throw new Error('Persistence is not enabled');
+    }
+
+    this.cancelAutosave();
+    const { adapter, key, snapshots, snapshotInterval } = this.persistence;
+    await PersistenceHelper.saveSnapshot(
+      adapter,
+      key,
+      this.serialize(),
+      snapshots,
+      snapshotInterval
+    );
+  }
+
+  /**
+   * Remove all stored snapshots
+   */
+  async discardDraft(): Promise<void> {
+    if (!this.persistence) return;
+
+    this.cancelAutosave();
+    await PersistenceHelper.clearSnapshots(this.persistence.adapter, this.persistence.key);
+  }
+
+  scheduleAutosave() {
+    if (!this.persistence) return;
+
+    this.cancelAutosave();
+    this.autosaveTimer = setTimeout(() => {
+      this.autosaveTimer = null;
+      this.saveDraft().catch(() => {
+        NotificationHelper.showError('Could not save draft', { theme: this.getEditorThemeName() });
+      });
+    }, this.persistence.debounce);
+  }
+
+  /**
+   * Save a pending autosave immediately
+   */
+  flushAutosave() {
+    if (this.autosaveTimer === null) return;
+
+    this.saveDraft().catch(() => {
+      NotificationHelper.showError('Could not save draft', { theme: this.getEditorThemeName() });
+    });
+  }
+
+  cancelAutosave() {
+    if (this.autosaveTimer !== null) {
+      clearTimeout(this.autosaveTimer);
+      this.autosaveTimer = null;
+    }
+  }
+
+  captureSnapshot(): HistorySnapshot {
+    return {
+      elements: UtilityHelpers.deepClone(this.elements),
+      selectedElementId: this.selectedElement?.id ?? null,
+    };
+  }
+
+  recordHistory(coalesceKey?: string) {
+    HistoryHelper.record(this.history, this.captureSnapshot(), coalesceKey);
+  }
+
+  restoreSnapshot(snapshot: HistorySnapshot) {
+    this.elements = snapshot.elements;
+    this.setSelectedElement(
+      snapshot.selectedElementId === null
+        ? null
+        : ElementTreeHelper.findElement(this.elements, snapshot.selectedElementId)
+    );
+    this.updatePreview();
+    this.updatePropertiesPanel();
+  }
+
+  undo(): boolean {
+    const snapshot = HistoryHelper.undo(this.history, this.captureSnapshot());
+    if (!snapshot) return false;
+
+    this.restoreSnapshot(snapshot);
+    this.emitChange('undo');
+    return true;
+  }
+
+  redo(): boolean {
+    const snapshot = HistoryHelper.redo(this.history, this.captureSnapshot());
+    if (!snapshot) return false;
+
+    this.restoreSnapshot(snapshot);
+    this.emitChange('redo');
+    return true;
+  }
+
+  canUndo(): boolean {
+    return HistoryHelper.canUndo(this.history);
+  }
+
+  canRedo(): boolean {
+    return HistoryHelper.canRedo(this.history);
+  }
+
+  clearHistory() {
+    HistoryHelper.clear(this.history);
+  }
+
+  // Event subscription methods
+  on<K extends keyof EditorEventMap>(event: K, handler: EventHandler<EditorEventMap[K]>) {
+    return EventEmitterHelper.on(this.listeners, event, handler);
+  }
+
+  off<K extends keyof EditorEventMap>(event: K, handler?: EventHandler<EditorEventMap[K]>) {
+    EventEmitterHelper.off(this.listeners, event, handler);
+  }
+
+  emit<K extends keyof EditorEventMap>(event: K, payload: EditorEventMap[K]) {
+    EventEmitterHelper.emit(this.listeners, event, payload);
+  }
+
+  emitChange(reason: ChangeReason) {
+    this.emit('change', { reason, elements: this.getElements() });
+    this.scheduleAutosave();
+  }
+
+  setSelectedElement(element: EditorElement | null) {
+    const previousElement = this.selectedElement;
+    this.selectedElement = element;
+
+    if (previousElement?.id !== element?.id) {
+      this.emit('selectionChanged', { element, previousElement });
+    }
+  }
+
   destroy() {
+    if (this.previewFrame !== null) {
+      window.cancelAnimationFrame(this.previewFrame);
+      this.previewFrame = null;
+    }
+    this.cancelAutosave();
+    if (this.pagehideHandler) {
+      window.removeEventListener('pagehide', this.pagehideHandler);
+      this.pagehideHandler = null;
+    }
+    this.listeners = EventEmitterHelper.createRegistry<EditorEventMap>();
+    if (this.keydownHandler) {
+      document.removeEventListener('keydown', this.keydownHandler);
+      this.keydownHandler = null;
+    }
     this.container.innerHTML = '';
   }
 }
 
 // Export as ES module (modern standard)
 export default VisualHtmlBuilder;
-
+export type {
+  EditorOptions,
+  EditorElement,
+  EditorEventMap,
+  ChangeReason,
+  ElementPropsMap,
+  ElementTypeName,
+};
+export type {
+  ElementType,
+  TitleProps,
+  TextProps,
+  ImageProps,
+  ListProps,
+  HyperlinkProps,
+  LinkProps,
+  LinkTarget,
+  LinkVariant,
+  ButtonProps,
+  ButtonVariant,
+  TableProps,
+  MediaSource,
+  CaptionTrack,
+  VideoProps,
+  AudioProps,
+  EmbedAspectRatio,
+  EmbedProps,
+  SectionProps,
+  DivProps,
+  ColumnsProps,
+  RawHtmlProps,
+  ParsedElement,
+} from './helpers/ElementTypesHelper';
+export type { SerializedDocument, DocumentMetadata, JSONSchema, ElementLocation };
+export type { PersistenceOptions, RecoverySnapshot, StorageAdapter };
+export { PersistenceHelper };
+export type {
+  DocumentRule,
+  DocumentRuleContext,
+  DocumentIssue,
+  DocumentReport,
+} from './helpers/DocumentRulesHelper';
+export type { PropsSchema, PropField, FieldWidget } from './helpers/PropertyEditorHelper';
+export type {
+  ValidationIssue,
+  ValidationSeverity,
+  ValidationResult,
+} from './helpers/ValidationHelper';
+
+export type { EmailDoctype, EmailExportOptions } from './helpers/EmailExportHelper';
+export type { HTMLFormat, HTMLFormatOptions } from './helpers/HTMLFormatHelper';
+export type { ElementStyle, StyleOutput, StyleProps } from './helpers/ElementStyleHelper';
+export type { Breakpoint } from './helpers/BreakpointHelper';
+export type { Theme, ThemeInput, TokenGroup } from './helpers/ThemeHelper';
+export type {
+  EditorTheme,
+  EditorThemeColors,
+  EditorThemeFonts,
+  EditorThemeInput,
+  EditorThemeName,
+  EditorThemeRadii,
+  EditorThemeSpacing,
+} from './helpers/EditorThemeHelper';
+export { RichTextHelper };
+export type { InlineEditableProp } from './helpers/InlineEditHelper';
+export type { TableAlignment, TableAxis, TableGrid } from './helpers/TableHelper';
+export type { EmbedInfo, EmbedProvider, MediaKind } from './helpers/MediaHelper';
+export type {
+  InlineLink,
+  InlineMark,
+  InlineSpan,
+  RichText,
+  RichTextCommand,
+} from './helpers/RichTextHelper';
+export type {
+  PreviewDevice,
+  PreviewDeviceName,
+  PreviewOrientation,
+  PreviewZoom,
+} from './helpers/PreviewDeviceHelper';
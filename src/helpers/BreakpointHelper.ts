@@ -0,0 +1,122 @@
+/**
+ * Breakpoint helper for Visual HTML Builder
+ * Manages viewport breakpoints and builds the media queries of responsive element styles
+ */
+
+export interface Breakpoint {
+  /** Key of the breakpoint in element style overrides */
+  name: string;
+  label: string;
+  /**
+   * Largest viewport width in pixels the breakpoint applies to
+   * Exactly one breakpoint (the base, usually desktop) has no width.
+   */
+  width?: number;
+}
+
+/** Rule that only applies inside a media query ('' for rules without one) */
+export type MediaRule = [query: string, rule: string];
+
+export const BreakpointHelper = {
+  /**
+   * Get default breakpoints
+   */
+  getDefaultBreakpoints(): Breakpoint[] {
+    return [
+      { name: 'desktop', label: 'Desktop' },
+      { name: 'tablet', label: 'Tablet', width: 1024 },
+      { name: 'mobile', label: 'Mobile', width: 767 },
+    ];
+  },
+
+  /**
+   * Validate breakpoints and sort them from the base to the narrowest
+   * @param breakpoints Configured breakpoints
+   */
+  normalize(breakpoints: Breakpoint[]): Breakpoint[] {
+    const names = new Set(breakpoints.map(breakpoint => breakpoint.name));
+    if (names.size !== breakpoints.length) {
+      throw new Error('Breakpoint names must be unique');
+    }
+    if (breakpoints.filter(breakpoint => breakpoint.width === undefined).length !== 1) {
+      throw new Error('Exactly one breakpoint must have no width (the base breakpoint)');
+    }
+
+    const widths = new Set<number>();
+    breakpoints.forEach(({ name, width }) => {
+      if (width === undefined) return;
+      if (!Number.isInteger(width) || width <= 0) {
+        throw new Error(`Width of breakpoint "${name}" must be a positive integer`);
+      }
+      if (widths.has(width)) {
+        throw new Error('Breakpoint widths must be unique');
+      }
+      widths.add(width);
+    });
+
+    return [...breakpoints].sort((a, b) => (b.width ?? Infinity) - (a.width ?? Infinity));
+  },
+
+  /**
+   * Get the base breakpoint (the one without a width)
+   * @param breakpoints Normalized breakpoints
+   */
+  getBase(breakpoints: Breakpoint[]): Breakpoint {
+    return breakpoints[0]!;
+  },
+
+  /**
+   * Get media query of style overrides: the breakpoint and all narrower viewports
+   * @param breakpoint Breakpoint
+   */
+  getOverrideQuery(breakpoint: Breakpoint): string {
+    return breakpoint.width === undefined ? '' : `(max-width: ${breakpoint.width}px)`;
+  },
+
+  /**
+   * Get media query of the viewport range of a single breakpoint (used to hide elements)
+   * @param breakpoints Normalized breakpoints
+   * @param name Breakpoint name
+   */
+  getRangeQuery(breakpoints: Breakpoint[], name: string): string {
+    const index = breakpoints.findIndex(breakpoint => breakpoint.name === name);
+    const narrower = breakpoints[index + 1];
+
+    return [
+      narrower?.width !== undefined ? `(min-width: ${narrower.width + 1}px)` : '',
+      this.getOverrideQuery(breakpoints[index]!),
+    ]
+      .filter(Boolean)
+      .join(' and ');
+  },
+
+  /**
+   * Build stylesheet from plain rules and media rules
+   * Media rules are grouped per query in cascade order: overrides from the widest breakpoint to
+   * the narrowest, then the ranges that hide elements.
+   * @param breakpoints Normalized breakpoints
+   * @param rules Rules without a media query
+   * @param mediaRules Rules inside media queries
+   */
+  buildStylesheet(breakpoints: Breakpoint[], rules: string[], mediaRules: MediaRule[]): string {
+    const queries = [
+      ...breakpoints.map(breakpoint => this.getOverrideQuery(breakpoint)),
+      ...breakpoints.map(breakpoint => this.getRangeQuery(breakpoints, breakpoint.name)),
+    ];
+    const groups = new Map<string, string[]>();
+
+    mediaRules
+      .filter(([query]) => query !== '')
+      .sort(([a], [b]) => queries.indexOf(a) - queries.indexOf(b))
+      .forEach(([query, rule]) => groups.set(query, [...(groups.get(query) ?? []), rule]));
+
+    return [
+      ...rules,
+      ...mediaRules.filter(([query]) => query === '').map(([, rule]) => rule),
+      ...Array.from(
+        groups,
+        ([query, group]) => `@media ${query} {\n${group.map(rule => `  ${rule}`).join('\n')}\n}`
+      ),
+    ].join('\n');
+  },
+};
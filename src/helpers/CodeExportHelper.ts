@@ -0,0 +1,402 @@
+/**
+ * Code export helper for Visual HTML Builder
+ * Generates a React function component (JSX) and a Vue single-file component from elements
+ */
+import { ElementStyleHelper } from './ElementStyleHelper';
+import type { AnyElementType } from './ElementTypesHelper';
+import type { SerializedElement } from './SerializationHelper';
+
+export type CodeDialect = 'jsx' | 'vue';
+
+// Placeholder rendered into container slots; replaced by the children's code
+const SLOT_TAG = 'vhb-slot';
+const INDENT = '  ';
+
+const VOID_TAGS = new Set([
+  'AREA',
+  'BASE',
+  'BR',
+  'COL',
+  'EMBED',
+  'HR',
+  'IMG',
+  'INPUT',
+  'LINK',
+  'META',
+  'SOURCE',
+  'TRACK',
+  'WBR',
+]);
+
+const INLINE_TAGS = new Set([
+  'A',
+  'ABBR',
+  'B',
+  'BR',
+  'CITE',
+  'CODE',
+  'EM',
+  'I',
+  'IMG',
+  'KBD',
+  'LABEL',
+  'MARK',
+  'Q',
+  'S',
+  'SMALL',
+  'SPAN',
+  'STRONG',
+  'SUB',
+  'SUP',
+  'TIME',
+  'U',
+]);
+
+const PREFORMATTED_TAGS = new Set(['PRE', 'TEXTAREA']);
+
+// HTML attribute names that React spells differently
+const JSX_ATTRIBUTES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  accesskey: 'accessKey',
+  allowfullscreen: 'allowFullScreen',
+  autocomplete: 'autoComplete',
+  autofocus: 'autoFocus',
+  autoplay: 'autoPlay',
+  cellpadding: 'cellPadding',
+  cellspacing: 'cellSpacing',
+  colspan: 'colSpan',
+  contenteditable: 'contentEditable',
+  crossorigin: 'crossOrigin',
+  datetime: 'dateTime',
+  enctype: 'encType',
+  frameborder: 'frameBorder',
+  maxlength: 'maxLength',
+  playsinline: 'playsInline',
+  readonly: 'readOnly',
+  referrerpolicy: 'referrerPolicy',
+  rowspan: 'rowSpan',
+  spellcheck: 'spellCheck',
+  srcdoc: 'srcDoc',
+  srclang: 'srcLang',
+  srcset: 'srcSet',
+  tabindex: 'tabIndex',
+};
+
+const BOOLEAN_ATTRIBUTES = new Set([
+  'allowfullscreen',
+  'async',
+  'autofocus',
+  'autoplay',
+  'checked',
+  'controls',
+  'default',
+  'defer',
+  'disabled',
+  'hidden',
+  'loop',
+  'multiple',
+  'muted',
+  'open',
+  'playsinline',
+  'readonly',
+  'required',
+  'reversed',
+  'selected',
+]);
+
+/**
+ * Check if node can be written on the same line as its siblings
+ */
+const isInline = (node: Node): boolean => {
+  if (node.nodeType !== Node.ELEMENT_NODE) return true;
+  const el = node as Element;
+  return INLINE_TAGS.has(el.nodeName) && Array.from(el.childNodes).every(isInline);
+};
+
+/**
+ * Quote a JavaScript string literal with single quotes
+ */
+const quote = (value: string): string => `'${value.replace(/[\\']/g, '\\$&')}'`;
+
+export const CodeExportHelper = {
+  /**
+   * Generate React function component
+   * @param elements Root elements
+   * @param elementTypes Registered element types
+   * @param componentName Component name (PascalCase)
+   */
+  toReactComponent(
+    elements: SerializedElement[],
+    elementTypes: Record<string, AnyElementType>,
+    componentName: string = 'Page'
+  ): string {
+    if (!/^[A-Z][A-Za-z0-9_]*$/.test(componentName)) {
+      throw new Error('Component name must be a PascalCase identifier');
+    }
+
+    const body = this.exportElements(elements, elementTypes, 'jsx');
+    const result = body ? `(\n    <>\n${this.indent(body, 3)}\n    </>\n  )` : 'null';
+
+    return `export default function ${componentName}() {\n  return ${result};\n}\n`;
+  },
+
+  /**
+   * Generate Vue single-file component
+   * @param elements Root elements
+   * @param elementTypes Registered element types
+   */
+  toVueComponent(
+    elements: SerializedElement[],
+    elementTypes: Record<string, AnyElementType>
+  ): string {
+    const body = this.exportElements(elements, elementTypes, 'vue');
+    return body ? `<template>\n${this.indent(body, 1)}\n</template>\n` : '<template></template>\n';
+  },
+
+  /**
+   * Convert elements to JSX or Vue template code
+   * @param elements Elements to convert
+   * @param elementTypes Registered element types
+   * @param dialect Target syntax
+   */
+  exportElements(
+    elements: SerializedElement[],
+    elementTypes: Record<string, AnyElementType>,
+    dialect: CodeDialect
+  ): string {
+    return elements
+      .map(element => this.elementToCode(element, elementTypes, dialect))
+      .filter(code => code.trim() !== '')
+      .join('\n');
+  },
+
+  /**
+   * Convert single element (and its children)
+   * renderJSX/renderVue hooks are used when present; otherwise the render output (with the
+   * style prop inlined) is converted.
+   * @param element Element to convert
+   * @param elementTypes Registered element types
+   * @param dialect Target syntax
+   */
+  elementToCode(
+    element: SerializedElement,
+    elementTypes: Record<string, AnyElementType>,
+    dialect: CodeDialect
+  ): string {
+    const elementType = elementTypes[element.type];
+    if (!elementType) return '';
+
+    const children = element.children?.map(slot =>
+      this.exportElements(slot, elementTypes, dialect)
+    );
+    const hook = dialect === 'jsx' ? 'renderJSX' : 'renderVue';
+    if (elementType[hook]) {
+      return elementType[hook]!(element.props, children);
+    }
+
+    const placeholders = children?.map(
+      (_, slot) => `<${SLOT_TAG} data-slot="${slot}"></${SLOT_TAG}>`
+    );
+    const css = ElementStyleHelper.toCSS(ElementStyleHelper.fromProps(element.props));
+    const html = elementType.render(element.props, placeholders);
+    return this.convertHTML(
+      html && css ? ElementStyleHelper.apply(html, css) : html,
+      dialect,
+      children
+    );
+  },
+
+  /**
+   * Convert HTML markup to JSX or Vue template code
+   * @param html Markup to convert
+   * @param dialect Target syntax
+   * @param slots Code substituted for slot placeholders
+   */
+  convertHTML(html: string, dialect: CodeDialect, slots: string[] = []): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    return this.convertNodes(Array.from(template.content.childNodes), dialect, slots).join('\n');
+  },
+
+  /**
+   * Convert sibling nodes to lines
+   * Runs of text and inline elements share a line; block elements start their own.
+   * @param nodes Sibling nodes
+   * @param dialect Target syntax
+   * @param slots Code substituted for slot placeholders
+   */
+  convertNodes(nodes: Node[], dialect: CodeDialect, slots: string[]): string[] {
+    const lines: string[] = [];
+    let run = '';
+
+    const flushRun = () => {
+      const line = run.replace(/\s+/g, ' ').trim();
+      if (line) lines.push(line);
+      run = '';
+    };
+
+    nodes.forEach(node => {
+      if (isInline(node)) {
+        run += this.convertInline(node, dialect, false);
+        return;
+      }
+
+      flushRun();
+      const el = node as Element;
+
+      if (el.nodeName === SLOT_TAG.toUpperCase()) {
+        const code = slots[Number(el.getAttribute('data-slot'))];
+        if (code) lines.push(...code.split('\n'));
+        return;
+      }
+
+      const open = this.openTag(el, dialect);
+      if (VOID_TAGS.has(el.nodeName)) {
+        lines.push(open);
+        return;
+      }
+
+      const close = `</${el.localName}>`;
+
+      if (PREFORMATTED_TAGS.has(el.nodeName) || Array.from(el.childNodes).every(isInline)) {
+        const preformatted = PREFORMATTED_TAGS.has(el.nodeName);
+        const content = Array.from(el.childNodes)
+          .map(child => this.convertInline(child, dialect, preformatted))
+          .join('');
+        lines.push(
+          `${open}${preformatted ? content : content.replace(/\s+/g, ' ').trim()}${close}`
+        );
+        return;
+      }
+
+      lines.push(open);
+      this.convertNodes(Array.from(el.childNodes), dialect, slots).forEach(line =>
+        lines.push(INDENT + line)
+      );
+      lines.push(close);
+    });
+
+    flushRun();
+    return lines;
+  },
+
+  /**
+   * Convert node to code on a single line
+   * @param node Node to convert
+   * @param dialect Target syntax
+   * @param preformatted Whether whitespace must be kept as is
+   */
+  convertInline(node: Node, dialect: CodeDialect, preformatted: boolean): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? '';
+      // JSX collapses line breaks in text, so preformatted text goes in a string expression
+      if (preformatted && dialect === 'jsx')
+        return text ? `{${quote(text).replace(/\n/g, '\\n')}}` : '';
+      return this.escapeText(text, dialect);
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as Element;
+    const open = this.openTag(el, dialect);
+    if (VOID_TAGS.has(el.nodeName)) return open;
+
+    const content = Array.from(el.childNodes)
+      .map(child => this.convertInline(child, dialect, preformatted))
+      .join('');
+    return `${open}${content}</${el.localName}>`;
+  },
+
+  /**
+   * Write opening tag (self-closing for void elements)
+   * @param el Element
+   * @param dialect Target syntax
+   */
+  openTag(el: Element, dialect: CodeDialect): string {
+    const attributes = Array.from(el.attributes)
+      .map(attribute => this.convertAttribute(attribute.name, attribute.value, dialect))
+      .filter(Boolean);
+    const attributeText = attributes.length ? ` ${attributes.join(' ')}` : '';
+
+    return VOID_TAGS.has(el.nodeName)
+      ? `<${el.localName}${attributeText} />`
+      : `<${el.localName}${attributeText}>`;
+  },
+
+  /**
+   * Convert attribute to JSX prop or Vue template attribute
+   * Inline event handlers are dropped from JSX (React expects functions).
+   * @param name Attribute name
+   * @param value Attribute value
+   * @param dialect Target syntax
+   */
+  convertAttribute(name: string, value: string, dialect: CodeDialect): string {
+    if (dialect === 'vue') {
+      return value === '' && BOOLEAN_ATTRIBUTES.has(name)
+        ? name
+        : `${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`;
+    }
+
+    if (/^on/i.test(name)) return '';
+    if (name === 'style') return `style={${this.styleToObject(value)}}`;
+
+    const prop = JSX_ATTRIBUTES[name] ?? name;
+    if (BOOLEAN_ATTRIBUTES.has(name) && (value === '' || value === name)) return prop;
+    // JSX decodes entities in attribute strings, so such values go in a string expression
+    return /["&]/.test(value) ? `${prop}={${quote(value)}}` : `${prop}="${value}"`;
+  },
+
+  /**
+   * Convert inline CSS to a React style object literal
+   * @param css Value of a style attribute
+   */
+  styleToObject(css: string): string {
+    const entries = css
+      .split(';')
+      .map(declaration => {
+        const separator = declaration.indexOf(':');
+        if (separator === -1) return '';
+
+        const property = declaration.slice(0, separator).trim();
+        const value = declaration.slice(separator + 1).trim();
+        if (!property || !value) return '';
+
+        // Custom properties keep their name; vendor prefixes become capitalized (WebkitTransform)
+        const key = property.startsWith('--')
+          ? quote(property)
+          : property
+              .replace(/^-ms-/, 'ms-')
+              .replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+        return `${key}: ${quote(value)}`;
+      })
+      .filter(Boolean);
+
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+  },
+
+  /**
+   * Escape text content
+   * @param text Text to escape
+   * @param dialect Target syntax
+   */
+  escapeText(text: string, dialect: CodeDialect): string {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    // Braces start expressions in JSX; double braces start interpolations in Vue
+    return dialect === 'jsx'
+      ? escaped.replace(/{/g, '&#123;').replace(/}/g, '&#125;')
+      : escaped.replace(/{{/g, '&#123;&#123;');
+  },
+
+  /**
+   * Indent every line
+   * @param code Code to indent
+   * @param depth Indentation levels
+   */
+  indent(code: string, depth: number): string {
+    const prefix = INDENT.repeat(depth);
+    return code
+      .split('\n')
+      .map(line => (line ? prefix + line : line))
+      .join('\n');
+  },
+};
@@ -0,0 +1,317 @@
+/**
+ * Document rules helper for Visual HTML Builder
+ * Runs page-level checks (heading outline, image alt text, head metadata) and builds the
+ * publish readiness report
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+import { ElementTreeHelper } from './ElementTreeHelper';
+import { ValidationHelper, type ValidationIssue } from './ValidationHelper';
+import type { SerializedElement } from './SerializationHelper';
+import type { HTMLTemplate } from './HTMLTemplateHelper';
+
+export interface DocumentRuleContext {
+  /** All elements depth-first (parents before their children) */
+  elements: SerializedElement[];
+  template: HTMLTemplate;
+}
+
+export interface DocumentIssue extends ValidationIssue {
+  ruleId: string;
+  /** Offending element (null for issues of the document itself, e.g. head metadata) */
+  elementId: number | null;
+}
+
+export interface DocumentRule {
+  id: string;
+  description: string;
+  check(context: DocumentRuleContext): Omit<DocumentIssue, 'ruleId'>[];
+}
+
+export interface DocumentReport {
+  issues: DocumentIssue[];
+  errorCount: number;
+  warningCount: number;
+  /** True when there are no errors (warnings do not block publishing) */
+  ready: boolean;
+}
+
+/**
+ * Parse the markup of a raw HTML block
+ */
+function parseRawHTML(element: SerializedElement): DocumentFragment {
+  const template = document.createElement('template');
+  template.innerHTML = String(element.props.html ?? '');
+  return template.content;
+}
+
+/**
+ * Get heading levels of an element in document order: the level of a title, or the levels of
+ * the h1-h6 tags inside a raw HTML block
+ */
+function getHeadingLevels(element: SerializedElement): number[] {
+  if (element.type === 'html') {
+    return Array.from(parseRawHTML(element).querySelectorAll('h1, h2, h3, h4, h5, h6'), node =>
+      Number(node.nodeName.slice(1))
+    );
+  }
+  if (element.type !== 'title') return [];
+
+  const level = Number(element.props.level);
+  return [Number.isInteger(level) && level >= 1 && level <= 6 ? level : 1];
+}
+
+/**
+ * Get the prop path reported for a heading of an element
+ */
+function getHeadingPath(element: SerializedElement): string {
+  return element.type === 'html' ? 'html' : 'level';
+}
+
+/**
+ * Get ids anchor links can point to: section anchor IDs and ids inside raw HTML blocks
+ */
+function getAnchorIds(elements: SerializedElement[]): Set<string> {
+  const ids = new Set<string>();
+
+  elements.forEach(element => {
+    if (element.type === 'section') {
+      const anchorId = String(element.props.anchorId ?? '').trim();
+      if (anchorId) ids.add(anchorId);
+    } else if (element.type === 'html') {
+      parseRawHTML(element)
+        .querySelectorAll('[id]')
+        .forEach(node => ids.add(node.id));
+    }
+  });
+  return ids;
+}
+
+export const DocumentRulesHelper = {
+  /**
+   * Get built-in document rules
+   */
+  getBuiltInRules(): DocumentRule[] {
+    return [
+      this.createSingleH1Rule(),
+      this.createHeadingOrderRule(),
+      this.createImageAltRule(),
+      this.createAnchorTargetRule(),
+      this.createHeadTitleRule(),
+      this.createHeadDescriptionRule(),
+    ];
+  },
+
+  /**
+   * Create rule requiring exactly one H1 heading (headings inside raw HTML blocks count too)
+   */
+  createSingleH1Rule(): DocumentRule {
+    return {
+      id: 'single-h1',
+      description: 'The page has exactly one H1 heading',
+      check: ({ elements }) => {
+        const h1s = elements.flatMap(element =>
+          getHeadingLevels(element)
+            .filter(level => level === 1)
+            .map(() => element)
+        );
+
+        if (h1s.length === 0) {
+          return [{ ...ValidationHelper.error('', 'Page has no H1 heading'), elementId: null }];
+        }
+        return h1s.slice(1).map(element => ({
+          ...ValidationHelper.error(getHeadingPath(element), 'Page already has an H1 heading'),
+          elementId: element.id,
+        }));
+      },
+    };
+  },
+
+  /**
+   * Create rule reporting headings that skip a level (e.g. H2 followed by H4)
+   * Headings inside raw HTML blocks are part of the outline.
+   */
+  createHeadingOrderRule(): DocumentRule {
+    return {
+      id: 'heading-order',
+      description: 'Heading levels do not skip a level',
+      check: ({ elements }) => {
+        const issues: Omit<DocumentIssue, 'ruleId'>[] = [];
+        let previousLevel = 0;
+
+        elements.forEach(element => {
+          getHeadingLevels(element).forEach(level => {
+            if (previousLevel > 0 && level > previousLevel + 1) {
+              issues.push({
+                ...ValidationHelper.warning(
+                  getHeadingPath(element),
+                  `Heading level skips from H${previousLevel} to H${level}`
+                ),
+                elementId: element.id,
+              });
+            }
+            previousLevel = level;
+          });
+        });
+
+        return issues;
+      },
+    };
+  },
+
+  /**
+   * Create rule recommending alt text on every image
+   * A warning like the image element's own validation: decorative images may have empty alt.
+   */
+  createImageAltRule(): DocumentRule {
+    return {
+      id: 'image-alt',
+      description: 'Every image has alt text',
+      check: ({ elements }) =>
+        elements
+          .filter(element => element.type === 'image')
+          .filter(element => !String(element.props.alt ?? '').trim())
+          .map(element => ({
+            ...ValidationHelper.warning('alt', 'Image has no alt text'),
+            elementId: element.id,
+          })),
+    };
+  },
+
+  /**
+   * Create rule reporting #anchor links and buttons pointing to no element
+   * "#" and "#top" always scroll to the top of the page.
+   */
+  createAnchorTargetRule(): DocumentRule {
+    return {
+      id: 'anchor-target',
+      description: 'Anchor links point to an element of the page',
+      check: ({ elements }) => {
+        const ids = getAnchorIds(elements);
+
+        return elements
+          .filter(element => element.type === 'link' || element.type === 'button')
+          .map(element => ({ element, href: String(element.props.href ?? '').trim() }))
+          .filter(({ href }) => href.startsWith('#') && href !== '#' && href !== '#top')
+          .filter(({ href }) => !ids.has(href.slice(1)))
+          .map(({ element, href }) => ({
+            ...ValidationHelper.warning('href', `No element has the anchor ID "${href.slice(1)}"`),
+            elementId: element.id,
+          }));
+      },
+    };
+  },
+
+  /**
+   * Create rule requiring a document title
+   */
+  createHeadTitleRule(): DocumentRule {
+    return {
+      id: 'head-title',
+      description: 'The document head has a title',
+      check: ({ template }) =>
+        template.head?.title?.trim()
+          ? []
+          : [{ ...ValidationHelper.error('head.title', 'Document has no title'), elementId: null }],
+    };
+  },
+
+  /**
+   * Create rule requiring a description meta tag
+   */
+  createHeadDescriptionRule(): DocumentRule {
+    return {
+      id: 'head-description',
+      description: 'The document head has a description meta tag',
+      check: ({ template }) => {
+        const description = template.head?.meta?.find(meta => meta.name === 'description');
+
+        return description?.content?.trim()
+          ? []
+          : [
+              {
+                ...ValidationHelper.warning('head.meta', 'Document has no description meta tag'),
+                elementId: null,
+              },
+            ];
+      },
+    };
+  },
+
+  /**
+   * Add rule, replacing a registered rule with the same ID
+   * @param rules Registered rules
+   * @param rule Rule to add
+   * @returns New rule list
+   */
+  registerRule(rules: DocumentRule[], rule: DocumentRule): DocumentRule[] {
+    if (!rule.id || typeof rule.check !== 'function') {
+      throw new Error('Document rule requires an id and a check function');
+    }
+
+    const index = rules.findIndex(registered => registered.id === rule.id);
+    if (index === -1) return [...rules, rule];
+
+    return rules.map((registered, i) => (i === index ? rule : registered));
+  },
+
+  /**
+   * Run rules against a document
+   * @param rules Rules to run
+   * @param elements Root elements
+   * @param template HTML template
+   */
+  runRules(
+    rules: DocumentRule[],
+    elements: SerializedElement[],
+    template: HTMLTemplate
+  ): DocumentReport {
+    const context: DocumentRuleContext = {
+      elements: ElementTreeHelper.flatten(elements),
+      template,
+    };
+    const issues = rules.flatMap(rule =>
+      rule.check(context).map(issue => ({ ...issue, ruleId: rule.id }))
+    );
+
+    return this.createReport(issues);
+  },
+
+  /**
+   * Create report from issues
+   */
+  createReport(issues: DocumentIssue[]): DocumentReport {
+    const errorCount = ValidationHelper.filterBySeverity(issues, 'error').length;
+
+    return {
+      issues,
+      errorCount,
+      warningCount: ValidationHelper.filterBySeverity(issues, 'warning').length,
+      ready: errorCount === 0,
+    };
+  },
+
+  /**
+   * Render report for the checks panel
+   * Issues of an element carry data-element-id so they can select it.
+   */
+  renderReport(report: DocumentReport): string {
+    const status = report.ready
+      ? `Ready to publish${report.warningCount ? ` (${report.warningCount} warning(s))` : ''}`
+      : `${report.errorCount} error(s), ${report.warningCount} warning(s)`;
+
+    const items = report.issues
+      .map(issue => {
+        const target =
+          issue.elementId === null ? '' : ` data-element-id="${issue.elementId}" tabindex="0"`;
+        return `<li class="document-issue validation-${issue.severity}" data-rule-id="${UtilityHelpers.escapeHtml(issue.ruleId)}"${target}>${UtilityHelpers.escapeHtml(issue.message)}</li>`;
+      })
+      .join('');
+
+    return `
+      <div class="document-report ${report.ready ? 'is-ready' : 'has-errors'}">
+        <div class="document-report-status">${status}</div>
+        ${items ? `<ul class="validation-list document-issues">${items}</ul>` : ''}
+      </div>
+    `;
+  },
+};
@@ -0,0 +1,377 @@
+/**
+ * Editor theme helper for Visual HTML Builder
+ * Colors, fonts, radii and spacing of the editor chrome, emitted as CSS custom properties
+ */
+
+export interface EditorThemeColors {
+  editorBg: string;
+  sidebarBg: string;
+  mainBg: string;
+  tabsBg: string;
+  editorBorderColor: string;
+  textColor: string;
+  textMuted: string;
+  primaryColor: string;
+  primaryHover: string;
+  /** Text on primary, secondary, success and error backgrounds */
+  primaryText: string;
+  secondaryColor: string;
+  secondaryHover: string;
+  successColor: string;
+  successHover: string;
+  errorColor: string;
+  errorHover: string;
+  warningColor: string;
+  /** Warning messages on panel backgrounds */
+  warningText: string;
+  /** Text on warning backgrounds */
+  warningContrast: string;
+  infoColor: string;
+  buttonBg: string;
+  buttonBorder: string;
+  buttonHoverBg: string;
+  buttonHoverBorder: string;
+  inputBg: string;
+  inputBorder: string;
+  inputText: string;
+  codeBg: string;
+  codeText: string;
+  hoverBg: string;
+  hoverBorder: string;
+  /** Background of hovered and selected preview elements */
+  highlightBg: string;
+  /** Background of preview elements with errors */
+  errorBg: string;
+  focusRing: string;
+  shadowColor: string;
+  /** Background of the preview frame (the page itself) */
+  previewBg: string;
+  notificationActionBg: string;
+  notificationActionText: string;
+}
+
+export interface EditorThemeFonts {
+  editorFontFamily: string;
+  codeFontFamily: string;
+  editorFontSize: string;
+  editorFontSizeSm: string;
+}
+
+export interface EditorThemeRadii {
+  editorRadius: string;
+  editorRadiusSm: string;
+}
+
+export interface EditorThemeSpacing {
+  editorPanelPadding: string;
+  editorGap: string;
+}
+
+export interface EditorTheme {
+  name: string;
+  /** Color scheme of native controls (scrollbars, selects, checkboxes) */
+  colorScheme: 'light' | 'dark';
+  colors: EditorThemeColors;
+  fonts: EditorThemeFonts;
+  radii: EditorThemeRadii;
+  spacing: EditorThemeSpacing;
+}
+
+export type BuiltInEditorThemeName = 'light' | 'dark' | 'high-contrast';
+
+/** Built-in theme name; 'auto' follows prefers-color-scheme */
+export type EditorThemeName = BuiltInEditorThemeName | 'auto';
+
+/** Custom theme: tokens that are left out come from the extended built-in theme */
+export interface EditorThemeInput {
+  name: string;
+  /** Built-in theme to start from (default: 'light') */
+  extends?: BuiltInEditorThemeName;
+  colorScheme?: EditorTheme['colorScheme'];
+  colors?: Partial<EditorThemeColors>;
+  fonts?: Partial<EditorThemeFonts>;
+  radii?: Partial<EditorThemeRadii>;
+  spacing?: Partial<EditorThemeSpacing>;
+}
+
+const TOKEN_GROUPS = ['colors', 'fonts', 'radii', 'spacing'] as const;
+
+const THEME_NAME = /^[a-zA-Z0-9_-]+$/;
+
+// Characters that would end the declaration or the style element
+const UNSAFE_VALUE = /[;{}<>"\\]/;
+
+const FONTS: EditorThemeFonts = {
+  editorFontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  codeFontFamily: "'Monaco', 'Menlo', 'Consolas', monospace",
+  editorFontSize: '14px',
+  editorFontSizeSm: '12px',
+};
+
+const RADII: EditorThemeRadii = { editorRadius: '8px', editorRadiusSm: '4px' };
+
+const SPACING: EditorThemeSpacing = { editorPanelPadding: '20px', editorGap: '10px' };
+
+const BUILT_IN_THEMES: Record<BuiltInEditorThemeName, EditorTheme> = {
+  light: {
+    name: 'light',
+    colorScheme: 'light',
+    colors: {
+      editorBg: '#ffffff',
+      sidebarBg: '#f8f9fa',
+      mainBg: '#ffffff',
+      tabsBg: '#f8f9fa',
+      editorBorderColor: '#dddddd',
+      textColor: '#333333',
+      textMuted: '#999999',
+      primaryColor: '#007bff',
+      primaryHover: '#0056b3',
+      primaryText: '#ffffff',
+      secondaryColor: '#6c757d',
+      secondaryHover: '#5a6268',
+      successColor: '#28a745',
+      successHover: '#218838',
+      errorColor: '#dc3545',
+      errorHover: '#c82333',
+      warningColor: '#ffc107',
+      warningText: '#856404',
+      warningContrast: '#212529',
+      infoColor: '#17a2b8',
+      buttonBg: '#ffffff',
+      buttonBorder: '#dddddd',
+      buttonHoverBg: '#f0f0f0',
+      buttonHoverBorder: '#cccccc',
+      inputBg: '#ffffff',
+      inputBorder: '#dddddd',
+      inputText: '#333333',
+      codeBg: '#f8f9fa',
+      codeText: '#333333',
+      hoverBg: '#f8f9fa',
+      hoverBorder: '#007bff',
+      highlightBg: 'rgba(0, 123, 255, 0.05)',
+      errorBg: 'rgba(220, 53, 69, 0.05)',
+      focusRing: 'rgba(0, 123, 255, 0.1)',
+      shadowColor: 'rgba(0, 0, 0, 0.15)',
+      previewBg: '#ffffff',
+      notificationActionBg: 'rgba(255, 255, 255, 0.9)',
+      notificationActionText: '#212529',
+    },
+    fonts: FONTS,
+    radii: RADII,
+    spacing: SPACING,
+  },
+  dark: {
+    name: 'dark',
+    colorScheme: 'dark',
+    colors: {
+      editorBg: '#1e1f22',
+      sidebarBg: '#2b2d31',
+      mainBg: '#1e1f22',
+      tabsBg: '#2b2d31',
+      editorBorderColor: '#3f4147',
+      textColor: '#e3e5e8',
+      textMuted: '#9aa0a6',
+      primaryColor: '#4c9aff',
+      primaryHover: '#2f7de1',
+      primaryText: '#ffffff',
+      secondaryColor: '#80868b',
+      secondaryHover: '#9aa0a6',
+      successColor: '#2ea043',
+      successHover: '#238636',
+      errorColor: '#f85149',
+      errorHover: '#da3633',
+      warningColor: '#d29922',
+      warningText: '#e3b341',
+      warningContrast: '#1e1f22',
+      infoColor: '#39c5cf',
+      buttonBg: '#313338',
+      buttonBorder: '#4e5058',
+      buttonHoverBg: '#3a3c42',
+      buttonHoverBorder: '#6d6f78',
+      inputBg: '#1e1f22',
+      inputBorder: '#4e5058',
+      inputText: '#e3e5e8',
+      codeBg: '#161719',
+      codeText: '#e3e5e8',
+      hoverBg: '#35373c',
+      hoverBorder: '#4c9aff',
+      highlightBg: 'rgba(76, 154, 255, 0.12)',
+      errorBg: 'rgba(248, 81, 73, 0.12)',
+      focusRing: 'rgba(76, 154, 255, 0.35)',
+      shadowColor: 'rgba(0, 0, 0, 0.5)',
+      previewBg: '#ffffff',
+      notificationActionBg: 'rgba(255, 255, 255, 0.9)',
+      notificationActionText: '#1e1f22',
+    },
+    fonts: FONTS,
+    radii: RADII,
+    spacing: SPACING,
+  },
+  'high-contrast': {
+    name: 'high-contrast',
+    colorScheme: 'dark',
+    colors: {
+      editorBg: '#000000',
+      sidebarBg: '#000000',
+      mainBg: '#000000',
+      tabsBg: '#000000',
+      editorBorderColor: '#ffffff',
+      textColor: '#ffffff',
+      textMuted: '#d0d0d0',
+      primaryColor: '#1aebff',
+      primaryHover: '#8ff4ff',
+      primaryText: '#000000',
+      secondaryColor: '#d0d0d0',
+      secondaryHover: '#ffffff',
+      successColor: '#3ff23f',
+      successHover: '#8cff8c',
+      errorColor: '#ff6b6b',
+      errorHover: '#ff9999',
+      warningColor: '#ffff00',
+      warningText: '#ffff00',
+      warningContrast: '#000000',
+      infoColor: '#1aebff',
+      buttonBg: '#000000',
+      buttonBorder: '#ffffff',
+      buttonHoverBg: '#333333',
+      buttonHoverBorder: '#1aebff',
+      inputBg: '#000000',
+      inputBorder: '#ffffff',
+      inputText: '#ffffff',
+      codeBg: '#000000',
+      codeText: '#ffffff',
+      hoverBg: '#333333',
+      hoverBorder: '#1aebff',
+      highlightBg: 'rgba(26, 235, 255, 0.2)',
+      errorBg: 'rgba(255, 107, 107, 0.2)',
+      focusRing: '#1aebff',
+      shadowColor: 'rgba(0, 0, 0, 0.5)',
+      previewBg: '#ffffff',
+      notificationActionBg: '#000000',
+      notificationActionText: '#ffffff',
+    },
+    fonts: FONTS,
+    radii: RADII,
+    spacing: SPACING,
+  },
+};
+
+export const EditorThemeHelper = {
+  /**
+   * Get built-in themes
+   */
+  getBuiltInThemes(): Record<BuiltInEditorThemeName, EditorTheme> {
+    return BUILT_IN_THEMES;
+  },
+
+  /**
+   * Check if a name is a built-in theme or 'auto'
+   * @param name Theme name
+   */
+  isThemeName(name: string): name is EditorThemeName {
+    return name === 'auto' || Object.keys(BUILT_IN_THEMES).includes(name);
+  },
+
+  /**
+   * Complete and validate a custom theme
+   * @param input Custom theme
+   */
+  createTheme(input: EditorThemeInput): EditorTheme {
+    if (!THEME_NAME.test(input.name) || this.isThemeName(input.name)) {
+      throw new Error(`Invalid editor theme name: ${input.name}`);
+    }
+    const baseName = input.extends ?? 'light';
+    if (!Object.keys(BUILT_IN_THEMES).includes(baseName)) {
+      throw new Error(`Unknown editor theme: ${baseName}`);
+    }
+    const base = BUILT_IN_THEMES[baseName];
+
+    const theme: EditorTheme = {
+      name: input.name,
+      colorScheme: input.colorScheme ?? base.colorScheme,
+      colors: { ...base.colors, ...input.colors },
+      fonts: { ...base.fonts, ...input.fonts },
+      radii: { ...base.radii, ...input.radii },
+      spacing: { ...base.spacing, ...input.spacing },
+    };
+
+    Object.entries(this.getVariables(theme)).forEach(([name, value]) => {
+      if (typeof value !== 'string' || UNSAFE_VALUE.test(value)) {
+        throw new Error(`Invalid value of ${name} in editor theme "${theme.name}"`);
+      }
+    });
+
+    return theme;
+  },
+
+  /**
+   * Resolve a configured theme to a theme name or a complete custom theme
+   * @param theme Theme name or custom theme
+   */
+  resolve(theme: EditorThemeName | EditorThemeInput): EditorThemeName | EditorTheme {
+    if (typeof theme !== 'string') return this.createTheme(theme);
+    if (!this.isThemeName(theme)) {
+      throw new Error(`Unknown editor theme: ${theme}`);
+    }
+    return theme;
+  },
+
+  /**
+   * Get custom property name of a token (editorBg -> --editor-bg)
+   * @param token Token name
+   */
+  getVariableName(token: string): string {
+    return `--${token.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+  },
+
+  /**
+   * Get custom properties of a theme
+   * @param theme Theme
+   * @returns Property names and CSS values
+   */
+  getVariables(theme: EditorTheme): Record<string, string> {
+    return Object.fromEntries(
+      TOKEN_GROUPS.flatMap(group =>
+        Object.entries(theme[group]).map(([token, value]) => [this.getVariableName(token), value])
+      )
+    );
+  },
+
+  /**
+   * Build the rule that applies a theme to elements with its data-editor-theme attribute
+   * @param theme Theme
+   * @param name Attribute value (default: the theme name)
+   */
+  toRule(theme: EditorTheme, name: string = theme.name): string {
+    const declarations = Object.entries(this.getVariables(theme)).map(
+      ([variable, value]) => `  ${variable}: ${value};`
+    );
+    return [
+      `[data-editor-theme="${name}"] {`,
+      `  color-scheme: ${theme.colorScheme};`,
+      ...declarations,
+      '}',
+    ].join('\n');
+  },
+
+  /**
+   * Build stylesheet of a theme setting
+   * 'auto' uses the light theme and switches to the dark theme with prefers-color-scheme.
+   * @param theme Theme name or custom theme
+   */
+  toStylesheet(theme: EditorThemeName | EditorTheme): string {
+    if (typeof theme !== 'string') return this.toRule(theme);
+    if (theme !== 'auto') return this.toRule(BUILT_IN_THEMES[theme]);
+
+    const dark = this.toRule(BUILT_IN_THEMES.dark, 'auto')
+      .split('\n')
+      .map(line => `  ${line}`)
+      .join('\n');
+    return [
+      this.toRule(BUILT_IN_THEMES.light, 'auto'),
+      '@media (prefers-color-scheme: dark) {',
+      dark,
+      '}',
+    ].join('\n');
+  },
+};
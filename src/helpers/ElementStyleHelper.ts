@@ -0,0 +1,314 @@
+/**
+ * Element style helper for Visual HTML Builder
+ * Handles the reserved `style` prop every element can carry: its property panel fields,
+ * CSS generation and applying it to rendered markup
+ */
+import { ValidationHelper, type ValidationIssue } from './ValidationHelper';
+import { BreakpointHelper, type Breakpoint, type MediaRule } from './BreakpointHelper';
+import { ThemeHelper, type Theme, type TokenGroup } from './ThemeHelper';
+import type { PropField, PropsSchema } from './PropertyEditorHelper';
+
+/**
+ * Style of an element
+ * Numbers are pixels; strings are CSS values, including theme tokens (e.g. "var(--space-md)").
+ */
+export interface ElementStyle {
+  fontSize?: number | string;
+  fontWeight?: string;
+  fontFamily?: string;
+  textAlign?: '' | 'left' | 'center' | 'right' | 'justify';
+  color?: string;
+  backgroundColor?: string;
+  /** CSS margin shorthand (e.g. "0 0 16px") */
+  margin?: number | string;
+  /** CSS padding shorthand */
+  padding?: number | string;
+  /** CSS border shorthand (e.g. "1px solid #dddddd") */
+  border?: string;
+  borderRadius?: number | string;
+  /** Hide the element (at the breakpoint holding this style) */
+  hidden?: boolean;
+  /** Overrides per breakpoint name (ignored inside overrides) */
+  breakpoints?: Record<string, ElementStyle>;
+}
+
+/** Props every element type accepts in addition to its own */
+export type StyleProps = { style?: ElementStyle };
+
+/** How element styles are written to the generated HTML */
+export type StyleOutput = 'inline' | 'stylesheet';
+
+/** Reserved prop name holding the element style */
+export const STYLE_PROP = 'style';
+
+// CSS property and unit of each style key, in output order
+const CSS_PROPERTIES: [keyof ElementStyle, string, string][] = [
+  ['fontFamily', 'font-family', ''],
+  ['fontSize', 'font-size', 'px'],
+  ['fontWeight', 'font-weight', ''],
+  ['textAlign', 'text-align', ''],
+  ['color', 'color', ''],
+  ['backgroundColor', 'background-color', ''],
+  ['margin', 'margin', 'px'],
+  ['padding', 'padding', 'px'],
+  ['border', 'border', ''],
+  ['borderRadius', 'border-radius', 'px'],
+];
+
+// Characters that would end the declaration or the attribute holding it
+const UNSAFE_VALUE = /[;{}<>"\\]/;
+
+export const ElementStyleHelper = {
+  /**
+   * Get fields of the Style section in the properties panel
+   * Token fields suggest the design tokens of the theme and accept any CSS value.
+   * @param theme Theme whose tokens are suggested
+   */
+  getSchema(theme?: Theme): PropsSchema<ElementStyle> {
+    const tokens = (group: TokenGroup) => (theme ? ThemeHelper.getTokenOptions(theme, group) : []);
+
+    return {
+      fontSize: {
+        kind: 'token',
+        label: 'Font Size (px)',
+        placeholder: 'Inherit',
+        options: tokens('fontSizes'),
+      },
+      fontWeight: {
+        kind: 'select',
+        label: 'Font Weight',
+        options: [
+          { value: '', label: 'Inherit' },
+          { value: '300', label: 'Light' },
+          { value: '400', label: 'Normal' },
+          { value: '600', label: 'Semi-bold' },
+          { value: '700', label: 'Bold' },
+        ],
+      },
+      fontFamily: {
+        kind: 'token',
+        label: 'Font Family',
+        placeholder: 'Georgia, serif',
+        options: tokens('fonts'),
+      },
+      textAlign: {
+        kind: 'select',
+        label: 'Text Align',
+        options: [
+          { value: '', label: 'Inherit' },
+          { value: 'left', label: 'Left' },
+          { value: 'center', label: 'Center' },
+          { value: 'right', label: 'Right' },
+          { value: 'justify', label: 'Justify' },
+        ],
+      },
+      // Not color inputs, so that any CSS color (and empty for none) can be entered
+      color: {
+        kind: 'token',
+        label: 'Text Color',
+        placeholder: '#333333',
+        options: tokens('colors'),
+      },
+      backgroundColor: {
+        kind: 'token',
+        label: 'Background',
+        placeholder: '#ffffff',
+        options: tokens('colors'),
+      },
+      margin: {
+        kind: 'token',
+        label: 'Margin',
+        placeholder: '0 0 16px',
+        options: tokens('spacing'),
+      },
+      padding: {
+        kind: 'token',
+        label: 'Padding',
+        placeholder: '8px 16px',
+        options: tokens('spacing'),
+      },
+      border: { kind: 'text', label: 'Border', placeholder: '1px solid #dddddd' },
+      borderRadius: { kind: 'token', label: 'Border Radius (px)', options: tokens('radii') },
+    };
+  },
+
+  /**
+   * Get the Style section of the properties panel as an object field
+   * @param breakpoint Breakpoint the section edits (the base style when omitted or the base)
+   * @param theme Theme whose tokens are suggested
+   */
+  getField(breakpoint?: Breakpoint, theme?: Theme): PropField {
+    const isOverride = breakpoint?.width !== undefined;
+    return {
+      kind: 'object',
+      label: isOverride ? `Style (${breakpoint.label})` : 'Style',
+      fields: {
+        ...(this.getSchema(theme) as PropsSchema),
+        hidden: { kind: 'boolean', label: breakpoint ? `Hide on ${breakpoint.label}` : 'Hidden' },
+      },
+    };
+  },
+
+  /**
+   * Get field describing the whole style prop, including the overrides of each breakpoint
+   * @param breakpoints Normalized breakpoints
+   * @param theme Theme whose tokens are suggested
+   */
+  getPropField(breakpoints: Breakpoint[] = [], theme?: Theme): PropField {
+    const base = this.getField(breakpoints[0], theme);
+    const overrides = breakpoints
+      .slice(1)
+      .map(breakpoint => [breakpoint.name, this.getField(breakpoint, theme)]);
+    return {
+      ...base,
+      fields: {
+        ...base.fields,
+        breakpoints: { kind: 'object', fields: Object.fromEntries(overrides) },
+      },
+    };
+  },
+
+  /**
+   * Read style from props
+   * @param props Element props
+   */
+  fromProps(props: object): ElementStyle {
+    const style = (props as Record<string, unknown>)[STYLE_PROP];
+    return style !== null && typeof style === 'object' ? (style as ElementStyle) : {};
+  },
+
+  /**
+   * Convert style to CSS declarations
+   * Empty and unsafe values are skipped.
+   * @param style Element style
+   */
+  toCSS(style: ElementStyle): string {
+    return CSS_PROPERTIES.flatMap(([key, property, unit]) => {
+      const value = style[key];
+      if (value === undefined || value === null || value === '') return [];
+      if (typeof value === 'number' && isNaN(value)) return [];
+
+      const text = String(value).trim();
+      if (!text || UNSAFE_VALUE.test(text)) return [];
+      return [`${property}: ${typeof value === 'number' ? `${value}${unit}` : text}`];
+    }).join('; ');
+  },
+
+  /**
+   * Validate style values (including breakpoint overrides)
+   * @param style Element style
+   * @param path Path of the style in the props
+   */
+  validate(style: ElementStyle, path: string = STYLE_PROP): ValidationIssue[] {
+    const issues = CSS_PROPERTIES.flatMap(([key]) => {
+      const value = style[key];
+      if (typeof value === 'string' && UNSAFE_VALUE.test(value)) {
+        return [ValidationHelper.error(`${path}.${key}`, 'Value contains invalid characters')];
+      }
+      // Negative margins are valid CSS
+      if (typeof value === 'number' && value < 0 && key !== 'margin') {
+        return [ValidationHelper.error(`${path}.${key}`, 'Value cannot be negative')];
+      }
+      return [];
+    });
+
+    const overrides = path === STYLE_PROP ? Object.entries(style.breakpoints ?? {}) : [];
+    return [
+      ...issues,
+      ...overrides.flatMap(([name, override]) =>
+        this.validate(override, `${path}.breakpoints.${name}`)
+      ),
+    ];
+  },
+
+  /**
+   * Get class name that keys an element's rule in the generated stylesheet
+   * @param id Element ID
+   */
+  getClassName(id: number): string {
+    return `vhb-el-${id}`;
+  },
+
+  /**
+   * Build stylesheet rule of an element
+   * @param id Element ID
+   * @param style Element style
+   * @returns Rule ('' if the style is empty)
+   */
+  toRule(id: number, style: ElementStyle): string {
+    const css = this.toCSS(style);
+    return css ? `.${this.getClassName(id)} { ${css}; }` : '';
+  },
+
+  /**
+   * Check if style needs media queries (breakpoint overrides or hiding)
+   * Such elements are always styled by class, since inline styles would win over the queries.
+   * @param style Element style
+   */
+  hasBreakpointRules(style: ElementStyle): boolean {
+    return (
+      !!style.hidden ||
+      Object.values(style.breakpoints ?? {}).some(
+        override => override.hidden || this.toCSS(override)
+      )
+    );
+  },
+
+  /**
+   * Build media rules of an element: breakpoint overrides and hiding
+   * @param id Element ID
+   * @param style Element style
+   * @param breakpoints Normalized breakpoints
+   */
+  toMediaRules(id: number, style: ElementStyle, breakpoints: Breakpoint[]): MediaRule[] {
+    const selector = `.${this.getClassName(id)}`;
+    const rules: MediaRule[] = [];
+
+    breakpoints.forEach((breakpoint, index) => {
+      const override = index === 0 ? undefined : style.breakpoints?.[breakpoint.name];
+      const css = override ? this.toCSS(override) : '';
+      if (css) {
+        rules.push([BreakpointHelper.getOverrideQuery(breakpoint), `${selector} { ${css}; }`]);
+      }
+      if (index === 0 ? style.hidden : override?.hidden) {
+        rules.push([
+          BreakpointHelper.getRangeQuery(breakpoints, breakpoint.name),
+          `${selector} { display: none !important; }`,
+        ]);
+      }
+    });
+
+    return rules;
+  },
+
+  /**
+   * Apply CSS declarations and/or a class to the root of rendered markup
+   * Markup without a single root element is wrapped in a div.
+   * @param html Rendered markup
+   * @param css CSS declarations to add to the style attribute
+   * @param className Class to add
+   */
+  apply(html: string, css: string, className: string = ''): string {
+    if (!css && !className) return html;
+
+    const template = document.createElement('template');
+    template.innerHTML = html.trim();
+    const nodes = Array.from(template.content.childNodes);
+    let root = template.content.firstElementChild;
+
+    if (!root || nodes.length !== 1) {
+      root = document.createElement('div');
+      root.append(...nodes);
+      template.content.append(root);
+    }
+
+    if (css) {
+      const existing = (root.getAttribute('style') ?? '').trim().replace(/;$/, '');
+      // Declarations of the style prop come last so that they win
+      root.setAttribute('style', existing ? `${existing}; ${css}` : css);
+    }
+    if (className) root.classList.add(className);
+
+    return template.innerHTML;
+  },
+};
@@ -0,0 +1,178 @@
+/**
+ * Element tree helper for Visual HTML Builder
+ * Manages lookup and structural changes of nested elements
+ * Container elements hold their children in slots: children[slot][index]
+ */
+
+export interface TreeNode<T> {
+  id: number;
+  children?: T[][];
+}
+
+export interface ElementLocation {
+  parentId: number | null;
+  slot: number;
+  index: number;
+}
+
+/** Number of slots an element can hold (0 for elements that are not containers) */
+export type SlotCounter<T> = (parent: T) => number;
+
+export const ElementTreeHelper = {
+  /**
+   * Find element by ID anywhere in the tree
+   * @param elements Root elements
+   * @param id Element ID
+   */
+  findElement<T extends TreeNode<T>>(elements: T[], id: number): T | null {
+    for (const element of elements) {
+      if (element.id === id) return element;
+
+      for (const slot of element.children || []) {
+        const found = this.findElement(slot, id);
+        if (found) return found;
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Find where an element is placed
+   * @param elements Root elements
+   * @param id Element ID
+   * @returns Location (null if not found)
+   */
+  findLocation<T extends TreeNode<T>>(elements: T[], id: number): ElementLocation | null {
+    const search = (
+      siblings: T[],
+      parentId: number | null,
+      slot: number
+    ): ElementLocation | null => {
+      for (let index = 0; index < siblings.length; index++) {
+        const element = siblings[index]!;
+        if (element.id === id) return { parentId, slot, index };
+
+        const children = element.children || [];
+        for (let childSlot = 0; childSlot < children.length; childSlot++) {
+          const found = search(children[childSlot]!, element.id, childSlot);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+
+    return search(elements, null, 0);
+  },
+
+  /**
+   * Get sibling list of a location
+   * Missing slot arrays of the parent are created on demand.
+   * @param elements Root elements
+   * @param parentId Parent element ID (null for root)
+   * @param slot Slot index of the parent
+   * @param slotCount Slots of the parent (any slot is accepted when omitted)
+   * @returns Sibling list (null if parent not found or it has no such slot)
+   */
+  getSiblings<T extends TreeNode<T>>(
+    elements: T[],
+    parentId: number | null,
+    slot: number,
+    slotCount?: SlotCounter<T>
+  ): T[] | null {
+    if (parentId === null) return elements;
+
+    const parent = this.findElement(elements, parentId);
+    if (!parent || slot < 0 || (slotCount && slot >= slotCount(parent))) return null;
+
+    parent.children = parent.children || [];
+    while (parent.children.length <= slot) {
+      parent.children.push([]);
+    }
+    return parent.children[slot]!;
+  },
+
+  /**
+   * Check if target ID is the element itself or one of its descendants
+   * @param element Element to search in
+   * @param id Target ID
+   */
+  contains<T extends TreeNode<T>>(element: T, id: number): boolean {
+    return this.findElement([element], id) !== null;
+  },
+
+  /**
+   * Insert element at location
+   * @param elements Root elements (mutated)
+   * @param element Element to insert
+   * @param location Target location (index is clamped to the sibling list)
+   * @param slotCount Slots of the parent (any slot is accepted when omitted)
+   * @returns False if the parent does not exist or has no such slot
+   */
+  insertElement<T extends TreeNode<T>>(
+    elements: T[],
+    element: T,
+    location: ElementLocation,
+    slotCount?: SlotCounter<T>
+  ): boolean {
+    const siblings = this.getSiblings(elements, location.parentId, location.slot, slotCount);
+    if (!siblings) return false;
+
+    const index = Math.max(0, Math.min(location.index, siblings.length));
+    siblings.splice(index, 0, element);
+    return true;
+  },
+
+  /**
+   * Remove element (with its descendants) from the tree
+   * @param elements Root elements (mutated)
+   * @param id Element ID
+   * @returns Removed element (null if not found)
+   */
+  removeElement<T extends TreeNode<T>>(elements: T[], id: number): T | null {
+    const location = this.findLocation(elements, id);
+    if (!location) return null;
+
+    const siblings = this.getSiblings(elements, location.parentId, location.slot);
+    return siblings?.splice(location.index, 1)[0] || null;
+  },
+
+  /**
+   * Move element to another location
+   * The target index refers to the sibling list after the element has been removed.
+   * @param elements Root elements (mutated)
+   * @param id Element ID
+   * @param location Target location
+   * @param slotCount Slots of the parent (any slot is accepted when omitted)
+   * @returns False if the move is impossible (unknown element, parent or slot, or moving into
+   * itself)
+   */
+  moveElement<T extends TreeNode<T>>(
+    elements: T[],
+    id: number,
+    location: ElementLocation,
+    slotCount?: SlotCounter<T>
+  ): boolean {
+    const element = this.findElement(elements, id);
+    if (!element) return false;
+
+    if (location.parentId !== null) {
+      if (this.contains(element, location.parentId)) return false;
+      if (!this.getSiblings(elements, location.parentId, location.slot, slotCount)) return false;
+    }
+
+    this.removeElement(elements, id);
+    return this.insertElement(elements, element, location, slotCount);
+  },
+
+  /**
+   * List all elements depth-first (parents before their children)
+   * @param elements Root elements
+   */
+  flatten<T extends TreeNode<T>>(elements: T[]): T[] {
+    return elements.flatMap(element => [
+      element,
+      ...(element.children || []).flatMap(slot => this.flatten(slot)),
+    ]);
+  },
+};
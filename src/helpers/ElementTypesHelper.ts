@@ -1,15 +1,652 @@
 import { UtilityHelpers } from './UtilityHelpers';
+import { PropertyEditorHelper, type PropsSchema } from './PropertyEditorHelper';
+import { MarkdownHelper } from './MarkdownHelper';
+import { EmailExportHelper, EMAIL_FONT_FAMILY } from './EmailExportHelper';
+import { RichTextHelper, type RichText } from './RichTextHelper';
+import { TableHelper, type TableAlignment, type TableGrid } from './TableHelper';
+import { MediaHelper, type MediaKind } from './MediaHelper';
+import type { InlineEditableProp } from './InlineEditHelper';
+import {
+  ValidationHelper,
+  type ValidationIssue,
+  type ValidationResult,
+} from './ValidationHelper';
 
-// Updated ElementType interface using unknown instead of any
-export interface ElementType {
+export type TitleProps = { text: RichText; level: number };
+export type TextProps = { content: RichText };
+export type ImageProps = { src: string; alt: string; width?: number; height?: number };
+export type ListProps = { items: string[]; ordered: boolean };
+export type LinkTarget = '_self' | '_blank';
+export type LinkVariant = 'default' | 'muted' | 'plain';
+export type ButtonVariant = 'primary' | 'secondary' | 'outline';
+/** Props shared by links and buttons */
+export type HyperlinkProps = {
+  href: string;
+  label: string;
+  target: LinkTarget;
+  /** Extra rel tokens (noopener noreferrer are added for _blank) */
+  rel: string;
+  title: string;
+  download: boolean;
+};
+export type LinkProps = HyperlinkProps & { variant: LinkVariant };
+export type ButtonProps = HyperlinkProps & { variant: ButtonVariant };
+export type TableProps = {
+  caption: string;
+  headerRow: boolean;
+  headerColumn: boolean;
+  grid: TableGrid;
+};
+/** Media file; the MIME type is guessed from the extension when left empty */
+export type MediaSource = { src: string; type: string };
+export type CaptionTrack = { src: string; srclang: string; label: string };
+export type AudioProps = {
+  /** Alternative files in order of preference (e.g. WebM, then MP4) */
+  sources: MediaSource[];
+  controls: boolean;
+  autoplay: boolean;
+  muted: boolean;
+  loop: boolean;
+};
+export type VideoProps = AudioProps & { poster: string; captions: CaptionTrack };
+export type EmbedAspectRatio = '16:9' | '4:3' | '1:1' | '9:16';
+export type EmbedProps = { url: string; title: string; aspectRatio: EmbedAspectRatio };
+export type SectionProps = { ariaLabel: string; anchorId?: string };
+export type DivProps = { className: string };
+export type ColumnsProps = { gap: number };
+export type RawHtmlProps = { html: string };
+
+/** Props read from an imported HTML node, plus the nodes of each slot for container types */
+export interface ParsedElement<P> {
+  props: P;
+  slots?: Node[][];
+}
+
+/**
+ * Element type definition, generic over its props
+ * Members are declared as methods so that any ElementType<P> fits in an AnyElementType registry.
+ */
+export interface ElementType<P extends object = Record<string, unknown>> {
   name: string;
   icon: string;
-  defaultProps: Record<string, unknown>;
-  render: (props: Record<string, unknown>) => string;
-  renderEditor: (props: Record<string, unknown>) => string;
-  validate: (props: Record<string, unknown>) => string | null;
+  defaultProps: P;
+  /** Rendered HTML of each slot's children is passed for container types */
+  render(props: P, children?: string[]): string;
+  /** Markup shown in the builder preview (defaults to render) */
+  renderPreview?(props: P, children?: string[]): string;
+  /** Declarative description of the editable props; the properties panel is generated from it */
+  propsSchema?: PropsSchema<P>;
+  /** Hand-written property editor markup (used when propsSchema is not given) */
+  renderEditor?(props: P): string;
+  /** Validation issues of props (a string or null is accepted from legacy validators) */
+  validate(props: P): ValidationResult;
+  /** Slow checks (e.g. network lookups) run after validate; their issues are added to the panel */
+  validateAsync?(props: P): Promise<ValidationResult>;
+  /** Version of the props shape (defaults to 1) */
+  version?: number;
+  /** Upgrade functions keyed by the version they upgrade from */
+  migrations?: Record<number, (props: Record<string, unknown>) => Record<string, unknown>>;
+  /** Slot labels of container types (one entry per child list) */
+  slots?: string[];
+  /** Whether an imported HTML node maps to this type */
+  matches?(node: Element): boolean;
+  /** Read props from a node accepted by matches */
+  parse?(node: Element): ParsedElement<P>;
+  /** CommonMark of the element; Markdown of each slot's children is passed for container types */
+  toMarkdown?(props: P, children?: string[]): string;
+  /** JSX of the element (defaults to converting the render output); children are JSX of each slot */
+  renderJSX?(props: P, children?: string[]): string;
+  /** Vue template of the element (defaults to converting the render output) */
+  renderVue?(props: P, children?: string[]): string;
+  /** Email-safe markup (tables, inline styles); defaults to the render output made email safe */
+  renderEmail?(props: P, children?: string[]): string;
+  /** Props edited in place by double-clicking them in the preview, with their rendered nodes */
+  inlineEditable?(props: P): InlineEditableProp[];
 }
 
+/** Element type of any props shape, as stored in registries */
+export type AnyElementType = ElementType<object>;
+
+export type BuiltInElementTypes = {
+  title: ElementType<TitleProps>;
+  text: ElementType<TextProps>;
+  image: ElementType<ImageProps>;
+  list: ElementType<ListProps>;
+  link: ElementType<LinkProps>;
+  button: ElementType<ButtonProps>;
+  table: ElementType<TableProps>;
+  video: ElementType<VideoProps>;
+  audio: ElementType<AudioProps>;
+  embed: ElementType<EmbedProps>;
+  section: ElementType<SectionProps>;
+  div: ElementType<DivProps>;
+  'two-columns': ElementType<ColumnsProps>;
+  'three-columns': ElementType<ColumnsProps>;
+  html: ElementType<RawHtmlProps>;
+};
+
+// Font sizes (px) of h1-h6 in email exports
+const EMAIL_HEADING_SIZES = [32, 26, 22, 18, 16, 14];
+
+/**
+ * Read a number prop that may have been stored as a numeric string
+ */
+const toOptionalNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+};
+
+/**
+ * Check that a node has no attributes besides the allowed ones
+ * Nodes carrying anything else are left to the raw HTML fallback so no markup is lost.
+ */
+const hasOnlyAttributes = (node: Element, allowed: string[]): boolean =>
+  Array.from(node.attributes).every(attribute => allowed.includes(attribute.name));
+
+/**
+ * Check that inline styles only use the given properties
+ */
+const hasOnlyStyles = (node: Element, allowed: string[]): boolean => {
+  const style = (node as HTMLElement).style;
+  return !style || Array.from(style).every(property => allowed.includes(property));
+};
+
+/**
+ * Check if a node has text of its own (not wrapped in child elements)
+ */
+const hasOwnText = (node: Element): boolean =>
+  Array.from(node.childNodes).some(
+    child => child.nodeType === Node.TEXT_NODE && (child.textContent ?? '').trim() !== ''
+  );
+
+/**
+ * Read text of a node holding only text and line breaks, collapsing whitespace like a browser
+ */
+const readText = (node: Element): string =>
+  Array.from(node.childNodes)
+    .map(child =>
+      child.nodeName === 'BR' ? '\n' : (child.textContent ?? '').replace(/\s+/g, ' ')
+    )
+    .join('')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .trim();
+
+/**
+ * Validation issues of rich text: required content and disallowed link URLs
+ */
+const validateRichText = (
+  value: RichText,
+  key: string,
+  emptyMessage: string
+): ValidationIssue[] => [
+  ...(RichTextHelper.toPlainText(value).trim() ? [] : [ValidationHelper.error(key, emptyMessage)]),
+  ...RichTextHelper.getUnsafeLinks(value).map(href =>
+    ValidationHelper.error(key, `Link URL is not allowed: ${href}`)
+  ),
+];
+
+// Schemes that run script or embed content when a link is followed
+const BLOCKED_SCHEMES = ['javascript:', 'data:', 'vbscript:'];
+
+// Base URL relative links are checked against
+const RELATIVE_URL_BASE = 'https://example.com/';
+
+// rel tokens added to links opening a new tab
+const BLANK_TARGET_REL = ['noopener', 'noreferrer'];
+
+// Inline styles of link variants ('default' keeps the browser's link style)
+const LINK_VARIANT_STYLES: Record<LinkVariant, string> = {
+  default: '',
+  muted: 'color: var(--color-muted, #999999)',
+  plain: 'color: inherit; text-decoration: none',
+};
+
+const BUTTON_STYLE =
+  'display: inline-block; padding: 10px 20px; border-radius: var(--radius-sm, 4px); font-weight: 600; text-decoration: none';
+
+const BUTTON_VARIANT_STYLES: Record<ButtonVariant, string> = {
+  primary:
+    'background-color: var(--color-primary, #007bff); color: #ffffff; border: 2px solid var(--color-primary, #007bff)',
+  secondary:
+    'background-color: var(--color-secondary, #6c757d); color: #ffffff; border: 2px solid var(--color-secondary, #6c757d)',
+  outline:
+    'background-color: transparent; color: var(--color-primary, #007bff); border: 2px solid var(--color-primary, #007bff)',
+};
+
+/**
+ * Check if a link URL uses a blocked scheme (javascript:, data:)
+ */
+const isBlockedUrl = (href: string): boolean =>
+  BLOCKED_SCHEMES.includes(UtilityHelpers.getUrlScheme(href) ?? '');
+
+/**
+ * Validation issues of a link URL
+ * Absolute URLs (including mailto: and tel:), relative URLs and #anchors are accepted.
+ */
+const validateHref = (
+  href: string,
+  key: string,
+  requiredMessage: string = 'Link URL is required'
+): ValidationIssue[] => {
+  const value = href.trim();
+
+  if (!value) {
+    return [ValidationHelper.error(key, requiredMessage)];
+  }
+  if (isBlockedUrl(value)) {
+    return [ValidationHelper.error(key, 'javascript: and data: URLs are not allowed')];
+  }
+  if (value.startsWith('#')) {
+    return /\s/.test(value) ? [ValidationHelper.error(key, 'Anchor cannot contain spaces')] : [];
+  }
+  const valid =
+    UtilityHelpers.getUrlScheme(value) === null
+      ? !/\s/.test(value) && UtilityHelpers.isValidUrl(value, RELATIVE_URL_BASE)
+      : UtilityHelpers.isValidUrl(value);
+  return valid ? [] : [ValidationHelper.error(key, 'Please enter a valid URL')];
+};
+
+/**
+ * Get rel attribute of a link: the configured tokens, plus noopener noreferrer for new tabs
+ */
+const getLinkRel = (rel: string, target: LinkTarget): string => {
+  const tokens = (rel ?? '').split(/\s+/).filter(Boolean);
+  if (target === '_blank') tokens.push(...BLANK_TARGET_REL);
+  return Array.from(new Set(tokens)).join(' ');
+};
+
+/**
+ * Render an anchor for link and button elements (blocked URLs leave the anchor without href)
+ */
+const renderAnchor = (props: HyperlinkProps, style: string): string => {
+  const href = (props.href ?? '').trim();
+  const rel = getLinkRel(props.rel, props.target);
+  const title = (props.title ?? '').trim();
+  const attributes = [
+    isBlockedUrl(href) ? '' : `href="${UtilityHelpers.escapeAttribute(href)}"`,
+    props.target === '_blank' ? 'target="_blank"' : '',
+    rel ? `rel="${UtilityHelpers.escapeAttribute(rel)}"` : '',
+    title ? `title="${UtilityHelpers.escapeAttribute(title)}"` : '',
+    props.download ? 'download' : '',
+    style ? `style="${style}"` : '',
+  ].filter(Boolean);
+  const label = UtilityHelpers.escapeHtml(props.label ?? '');
+  return `<a${attributes.map(attribute => ` ${attribute}`).join('')}>${label}</a>`;
+};
+
+/**
+ * Check that an imported node is an anchor the link and button types can represent
+ */
+const isPlainAnchor = (node: Element): boolean =>
+  node.nodeName === 'A' &&
+  hasOnlyAttributes(node, ['href', 'target', 'rel', 'title', 'download', 'style']) &&
+  [null, '_self', '_blank'].includes(node.getAttribute('target')) &&
+  node.children.length === 0 &&
+  !isBlockedUrl(node.getAttribute('href') ?? '');
+
+/**
+ * Read props shared by links and buttons from an anchor
+ * The rel tokens added for new tabs are left out, since rendering adds them back.
+ */
+const parseHyperlink = (node: Element): HyperlinkProps => {
+  const target: LinkTarget = node.getAttribute('target') === '_blank' ? '_blank' : '_self';
+  const rel = (node.getAttribute('rel') ?? '')
+    .split(/\s+/)
+    .filter(token => token && !(target === '_blank' && BLANK_TARGET_REL.includes(token)));
+  return {
+    href: node.getAttribute('href') ?? '',
+    label: readText(node),
+    target,
+    rel: rel.join(' '),
+    title: node.getAttribute('title') ?? '',
+    download: node.hasAttribute('download'),
+  };
+};
+
+/**
+ * Markdown link of a link or button element
+ */
+const hyperlinkToMarkdown = (props: HyperlinkProps): string => {
+  const href = (props.href ?? '').trim();
+  const destination = /[\s()]/.test(href) ? `<${href}>` : href;
+  const title = (props.title ?? '').trim();
+  return `[${MarkdownHelper.escapeText(props.label ?? '')}](${destination}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+};
+
+// Fields shared by the link and button property panels
+const HYPERLINK_SCHEMA: PropsSchema<HyperlinkProps> = {
+  label: { kind: 'text', label: 'Text' },
+  href: { kind: 'text', label: 'URL', placeholder: 'https://, /page, #anchor, mailto: or tel:' },
+  target: {
+    kind: 'select',
+    label: 'Open In',
+    options: [
+      { value: '_self', label: 'Same tab' },
+      { value: '_blank', label: 'New tab' },
+    ],
+  },
+  rel: { kind: 'text', label: 'Rel', placeholder: 'e.g. nofollow' },
+  title: { kind: 'text', label: 'Tooltip', placeholder: 'Optional' },
+  download: { kind: 'boolean', label: 'Download linked file' },
+};
+
+// Inline style of table cells in email exports (email clients ignore stylesheet borders)
+const EMAIL_TABLE_CELL_STYLE = `padding: 8px; border: 1px solid #dddddd; font-family: ${EMAIL_FONT_FAMILY}; font-size: 14px; line-height: 1.5; color: #333333; text-align: left`;
+
+/**
+ * Render table markup with thead/tbody sections and scoped header cells
+ * @param props Table props
+ * @param email Add the inline styles of email exports
+ */
+const renderTable = (props: TableProps, email: boolean = false): string => {
+  const grid = TableHelper.normalize(props.grid);
+  const caption = (props.caption ?? '').trim();
+
+  const renderCell = (text: string, column: number, scope: 'col' | 'row' | null): string => {
+    const align = grid.align[column] ?? 'left';
+    // Header cells are centered by browsers, so their alignment is always written out
+    const style = [
+      email ? EMAIL_TABLE_CELL_STYLE : '',
+      email && scope ? 'font-weight: bold; background-color: #f8f9fa' : '',
+      align !== 'left' || (scope && !email) ? `text-align: ${align}` : '',
+    ]
+      .filter(Boolean)
+      .join('; ');
+    const tag = scope ? 'th' : 'td';
+    return `<${tag}${scope ? ` scope="${scope}"` : ''}${style ? ` style="${style}"` : ''}>${UtilityHelpers.escapeHtml(text).replace(/\n/g, '<br>')}</${tag}>`;
+  };
+  const renderRow = (row: string[], header: boolean): string =>
+    `<tr>${row.map((text, column) => renderCell(text, column, header ? 'col' : props.headerColumn && column === 0 ? 'row' : null)).join('')}</tr>`;
+
+  const [head, ...rest] = grid.cells;
+  const body = props.headerRow ? rest : grid.cells;
+  return [
+    email
+      ? '<table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse; margin: 0 0 16px;">'
+      : '<table>',
+    caption
+      ? `<caption${email ? ` style="${EmailExportHelper.textStyle(14, 'margin: 0 0 8px; text-align: left')}"` : ''}>${UtilityHelpers.escapeHtml(caption)}</caption>`
+      : '',
+    props.headerRow && head ? `<thead>${renderRow(head, true)}</thead>` : '',
+    body.length > 0 ? `<tbody>${body.map(row => renderRow(row, false)).join('')}</tbody>` : '',
+    '</table>',
+  ].join('');
+};
+
+/**
+ * Read props of an imported table (null for tables the table type cannot represent:
+ * attributes, merged cells, markup in cells, several header rows or scattered header cells)
+ */
+const readTable = (node: Element): TableProps | null => {
+  if (node.nodeName !== 'TABLE' || !hasOnlyAttributes(node, []) || hasOwnText(node)) return null;
+
+  let caption: string | null = null;
+  const headRows: Element[] = [];
+  const bodyRows: Element[] = [];
+  for (const section of Array.from(node.children)) {
+    if (!hasOnlyAttributes(section, [])) return null;
+
+    if (section.nodeName === 'CAPTION' && caption === null && section.children.length === 0) {
+      caption = readText(section);
+    } else if (section.nodeName === 'THEAD' && headRows.length === 0 && bodyRows.length === 0) {
+      headRows.push(...Array.from(section.children));
+    } else if (section.nodeName === 'TBODY') {
+      bodyRows.push(...Array.from(section.children));
+    } else {
+      return null;
+    }
+  }
+
+  const rows = [...headRows, ...bodyRows];
+  const isPlainCell = (cell: Element) =>
+    (cell.nodeName === 'TH' || cell.nodeName === 'TD') &&
+    hasOnlyAttributes(cell, ['scope', 'style']) &&
+    hasOnlyStyles(cell, ['text-align']) &&
+    Array.from(cell.children).every(child => child.nodeName === 'BR');
+  if (
+    headRows.length > 1 ||
+    rows.length === 0 ||
+    !rows.every(
+      row =>
+        row.nodeName === 'TR' &&
+        hasOnlyAttributes(row, []) &&
+        !hasOwnText(row) &&
+        Array.from(row.children).every(isPlainCell)
+    )
+  ) {
+    return null;
+  }
+
+  const headerRow = headRows.length === 1;
+  const headerColumn =
+    bodyRows.length > 0 && bodyRows.every(row => row.firstElementChild?.nodeName === 'TH');
+  // Header cells must fill the header row and, with a header column, the first column
+  const isHeaderPosition = (row: Element, column: number) =>
+    headRows.includes(row) || (headerColumn && column === 0);
+  if (
+    rows.some(row =>
+      Array.from(row.children).some(
+        (cell, column) => (cell.nodeName === 'TH') !== isHeaderPosition(row, column)
+      )
+    )
+  ) {
+    return null;
+  }
+
+  const cells = rows.map(row => Array.from(row.children, cell => readText(cell)));
+  const alignRow = bodyRows[0] ?? headRows[0];
+  const align = Array.from(
+    { length: Math.max(...cells.map(row => row.length)) },
+    (_, column): TableAlignment => {
+      const value = (alignRow?.children[column] as HTMLElement | undefined)?.style.textAlign;
+      return value === 'center' || value === 'right' ? value : 'left';
+    }
+  );
+
+  return { caption: caption ?? '', headerRow, headerColumn, grid: { align, cells } };
+};
+
+// Attributes of video and audio elements read on import (preload is written by render)
+const MEDIA_ATTRIBUTES = ['src', 'controls', 'autoplay', 'muted', 'loop', 'preload'];
+
+const EMBED_ASPECT_RATIOS: EmbedAspectRatio[] = ['16:9', '4:3', '1:1', '9:16'];
+
+// Features the YouTube and Vimeo players ask for
+const EMBED_ALLOW =
+  'accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture; fullscreen';
+
+/**
+ * Inline style sizing an embed to the width of its container at an aspect ratio
+ */
+const getEmbedStyle = (aspectRatio: EmbedAspectRatio): string =>
+  `display: block; width: 100%; aspect-ratio: ${(EMBED_ASPECT_RATIOS.includes(aspectRatio) ? aspectRatio : '16:9').replace(':', ' / ')}; border: 0`;
+
+/**
+ * Render a video or audio element with its sources, captions and a download link for
+ * browsers that cannot play any of the sources (blocked URLs are left out)
+ */
+const renderMedia = (kind: MediaKind, props: AudioProps & Partial<VideoProps>): string => {
+  const isSafe = (url: string | undefined): url is string =>
+    !!(url ?? '').trim() && !isBlockedUrl(url ?? '');
+  const sources = (props.sources ?? []).filter(source => isSafe(source.src));
+  const poster = (props.poster ?? '').trim();
+  const captions = props.captions;
+
+  const attributes = [
+    props.controls ? 'controls' : '',
+    props.autoplay ? 'autoplay' : '',
+    props.muted ? 'muted' : '',
+    props.loop ? 'loop' : '',
+    // iOS only autoplays videos that play inline
+    kind === 'video' && props.autoplay ? 'playsinline' : '',
+    kind === 'video' && isSafe(poster) ? `poster="${UtilityHelpers.escapeAttribute(poster)}"` : '',
+    'preload="metadata"',
+  ].filter(Boolean);
+  const sourceTags = sources.map(source => {
+    const src = source.src.trim();
+    const type = (source.type ?? '').trim() || MediaHelper.getMimeType(src, kind);
+    return `<source src="${UtilityHelpers.escapeAttribute(src)}"${type ? ` type="${UtilityHelpers.escapeAttribute(type)}"` : ''}>`;
+  });
+  const track =
+    kind === 'video' && captions && isSafe(captions.src)
+      ? `<track kind="captions" src="${UtilityHelpers.escapeAttribute(captions.src.trim())}" srclang="${UtilityHelpers.escapeAttribute((captions.srclang ?? '').trim())}" label="${UtilityHelpers.escapeAttribute((captions.label ?? '').trim() || (captions.srclang ?? '').trim())}" default>`
+      : '';
+  const fallback = sources[0]
+    ? `<a href="${UtilityHelpers.escapeAttribute(sources[0].src.trim())}">Download the ${kind}</a>`
+    : '';
+
+  return `<${kind} ${attributes.join(' ')}>${sourceTags.join('')}${track}${fallback}</${kind}>`;
+};
+
+/**
+ * Get the first usable source URL of a video or audio element (for exports that link to it)
+ */
+const getLinkedSource = (props: AudioProps): string | undefined =>
+  (props.sources ?? [])
+    .map(source => (source.src ?? '').trim())
+    .find(src => src && !isBlockedUrl(src));
+
+/**
+ * Read props of an imported video or audio element (null for markup the media types cannot
+ * represent: other attributes, other children or fallback text of its own)
+ */
+const readMedia = (node: Element, kind: MediaKind): VideoProps | null => {
+  const allowed =
+    kind === 'video' ? [...MEDIA_ATTRIBUTES, 'poster', 'playsinline'] : MEDIA_ATTRIBUTES;
+  if (
+    node.nodeName !== kind.toUpperCase() ||
+    !hasOnlyAttributes(node, allowed) ||
+    hasOwnText(node)
+  ) {
+    return null;
+  }
+
+  const src = node.getAttribute('src');
+  const sources: MediaSource[] = src ? [{ src, type: '' }] : [];
+  let captions: CaptionTrack | null = null;
+  for (const child of Array.from(node.children)) {
+    if (child.nodeName === 'SOURCE' && hasOnlyAttributes(child, ['src', 'type'])) {
+      sources.push({
+        src: child.getAttribute('src') ?? '',
+        type: child.getAttribute('type') ?? '',
+      });
+    } else if (
+      child.nodeName === 'TRACK' &&
+      kind === 'video' &&
+      captions === null &&
+      child.getAttribute('kind') === 'captions' &&
+      hasOnlyAttributes(child, ['kind', 'src', 'srclang', 'label', 'default'])
+    ) {
+      captions = {
+        src: child.getAttribute('src') ?? '',
+        srclang: child.getAttribute('srclang') ?? '',
+        label: child.getAttribute('label') ?? '',
+      };
+    } else if (child.nodeName !== 'A' || !hasOnlyAttributes(child, ['href'])) {
+      // Plain fallback links are written back by render
+      return null;
+    }
+  }
+  if (sources.some(source => isBlockedUrl(source.src))) return null;
+
+  return {
+    sources,
+    controls: node.hasAttribute('controls'),
+    autoplay: node.hasAttribute('autoplay'),
+    muted: node.hasAttribute('muted'),
+    loop: node.hasAttribute('loop'),
+    poster: node.getAttribute('poster') ?? '',
+    captions: captions ?? { src: '', srclang: '', label: '' },
+  };
+};
+
+/**
+ * Validation issues of the sources and playback options shared by video and audio
+ */
+const validateMedia = (kind: MediaKind, props: AudioProps): ValidationIssue[] => {
+  const sources = props.sources ?? [];
+  if (sources.length === 0) {
+    return [ValidationHelper.error('sources', 'Add at least one source file')];
+  }
+
+  return [
+    ...sources.flatMap((source, index) => [
+      ...validateHref(source.src ?? '', `sources.${index}.src`, 'File URL is required'),
+      ...((source.type ?? '').trim() && !source.type.trim().startsWith(`${kind}/`)
+        ? [
+            ValidationHelper.warning(
+              `sources.${index}.type`,
+              `MIME type should start with "${kind}/"`
+            ),
+          ]
+        : []),
+    ]),
+    // Browsers block autoplay with sound
+    ...(props.autoplay && !props.muted
+      ? [ValidationHelper.warning('muted', 'Autoplay only works reliably when muted')]
+      : []),
+  ];
+};
+
+// Fields shared by the video and audio property panels
+const MEDIA_SCHEMA: PropsSchema<AudioProps> = {
+  sources: {
+    kind: 'object-array',
+    label: 'Source Files',
+    fields: {
+      src: { kind: 'text', label: 'File URL', placeholder: 'https://example.com/media.mp4' },
+      type: { kind: 'text', label: 'MIME Type', placeholder: 'Guessed from the extension' },
+    },
+    itemDefault: { src: '', type: '' },
+    addLabel: '+ Add Source',
+  },
+  controls: { kind: 'boolean', label: 'Show controls' },
+  autoplay: { kind: 'boolean', label: 'Autoplay' },
+  muted: { kind: 'boolean', label: 'Muted' },
+  loop: { kind: 'boolean', label: 'Loop' },
+};
+
+// Attributes holding URLs that browsers load or follow
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+
+/**
+ * Remove script from raw HTML shown in the builder preview: script elements, event handler
+ * attributes, srcdoc documents and javascript:/data: URLs
+ * The preview frame runs with the host page's origin, so imported markup must not run there.
+ */
+const stripPreviewScripts = (html: string): string => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  template.content.querySelectorAll('script').forEach(script => script.remove());
+  template.content.querySelectorAll('*').forEach(node => {
+    Array.from(node.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      if (
+        name.startsWith('on') ||
+        name === 'srcdoc' ||
+        (URL_ATTRIBUTES.includes(name) && isBlockedUrl(attribute.value))
+      ) {
+        node.removeAttribute(attribute.name);
+      }
+    });
+  });
+  return template.innerHTML;
+};
+
+/**
+ * Read pixel size from an attribute or inline style
+ */
+const readPixels = (node: Element, name: 'width' | 'height'): number | undefined => {
+  const style = (node as HTMLElement).style?.getPropertyValue(name) ?? '';
+  return toOptionalNumber(node.getAttribute(name)) ?? toOptionalNumber(style.replace(/px$/, ''));
+};
+
 /**
  * Element type definition helper for HTML GUI Editor
  */
@@ -17,70 +654,93 @@ export const ElementTypesHelper = {
   /**
    * Create title element type
    */
-  createTitleElement(): ElementType {
+  createTitleElement(): ElementType<TitleProps> {
+    const propsSchema: PropsSchema<TitleProps> = {
+      text: { kind: 'rich-text', label: 'Text', multiline: false },
+      level: {
+        kind: 'select',
+        label: 'Level',
+        options: [1, 2, 3, 4, 5, 6].map(i => ({ value: i, label: `H${i}` })),
+      },
+    };
+
     return {
       name: 'Title',
       icon: 'H',
       defaultProps: { text: 'New Title', level: 1 },
-      render: (props: Record<string, unknown>) => {
-        const level = typeof props.level === 'number' && props.level >= 1 && props.level <= 6 ? props.level : 1;
-        const text = typeof props.text === 'string' ? props.text : '';
-        return `<h${level}>${UtilityHelpers.escapeHtml(text)}</h${level}>`;
+      render: props => {
+        const level = props.level >= 1 && props.level <= 6 ? props.level : 1;
+        return `<h${level}>${RichTextHelper.toHTML(props.text, '\n')}</h${level}>`;
       },
-      renderEditor: (props: Record<string, unknown>) => {
-        const text = typeof props.text === 'string' ? props.text : '';
-        const level = typeof props.level === 'number' ? props.level : 1;
-        return `
-        <div class="property-group">
-          <label>Text:</label>
-          <input type="text" value="${UtilityHelpers.escapeHtml(text)}" 
-                 class="property-input" data-property="text">
-        </div>
-        <div class="property-group">
-          <label>Level:</label>
-          <select class="property-input" data-property="level" data-value-type="int">
-            ${[1, 2, 3, 4, 5, 6].map(i => `<option value="${i}" ${level === i ? 'selected' : ''}>H${i}</option>`).join('')}
-          </select>
-        </div>`;
+      matches: node =>
+        /^H[1-6]$/.test(node.nodeName) &&
+        hasOnlyAttributes(node, []) &&
+        RichTextHelper.canRepresent(node, false),
+      parse: node => ({
+        props: {
+          text: RichTextHelper.simplify(RichTextHelper.fromDOM(node, true)),
+          level: Number(node.nodeName[1]),
+        },
+      }),
+      toMarkdown: props => {
+        const level = props.level >= 1 && props.level <= 6 ? props.level : 1;
+        return `${'#'.repeat(level)} ${RichTextHelper.toMarkdown(props.text, ' ')}`;
       },
-      validate: (props: Record<string, unknown>) => {
-        const text = typeof props.text === 'string' ? props.text : '';
-        return text.trim().length > 0 ? null : 'Title cannot be empty';
+      renderEmail: props => {
+        const level = props.level >= 1 && props.level <= 6 ? props.level : 1;
+        const style = EmailExportHelper.textStyle(EMAIL_HEADING_SIZES[level - 1]!);
+        return `<h${level} style="${style}">${RichTextHelper.toHTML(props.text, '\n')}</h${level}>`;
       },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => validateRichText(props.text, 'text', 'Title cannot be empty'),
+      inlineEditable: () => [{ path: 'text', selector: 'h1, h2, h3, h4, h5, h6', richText: true }],
     };
   },
 
   /**
    * Create text element type
    */
-  createTextElement(): ElementType {
+  createTextElement(): ElementType<TextProps> {
+    const propsSchema: PropsSchema<TextProps> = {
+      content: { kind: 'rich-text', label: 'Content' },
+    };
+
     return {
       name: 'Text',
       icon: 'T',
       defaultProps: { content: 'Enter your text here...' },
-      render: (props: Record<string, unknown>) => {
-        const content = typeof props.content === 'string' ? props.content : '';
-        return `<p>${UtilityHelpers.escapeHtml(content).replace(/\n/g, '<br>')}</p>`;
-      },
-      renderEditor: (props: Record<string, unknown>) => {
-        const content = typeof props.content === 'string' ? props.content : '';
-        return `
-        <div class="property-group">
-          <label>Content:</label>
-          <textarea rows="4" class="property-input" data-property="content">${UtilityHelpers.escapeHtml(content)}</textarea>
-        </div>`;
-      },
-      validate: (props: Record<string, unknown>) => {
-        const content = typeof props.content === 'string' ? props.content : '';
-        return content.trim().length > 0 ? null : 'Text content cannot be empty';
-      },
+      render: props => `<p>${RichTextHelper.toHTML(props.content)}</p>`,
+      matches: node =>
+        node.nodeName === 'P' && hasOnlyAttributes(node, []) && RichTextHelper.canRepresent(node),
+      parse: node => ({
+        props: { content: RichTextHelper.simplify(RichTextHelper.fromDOM(node, true)) },
+      }),
+      // A backslash at the end of a line is a hard line break
+      toMarkdown: props => RichTextHelper.toMarkdown(props.content),
+      renderEmail: props =>
+        `<p style="${EmailExportHelper.textStyle(16)}">${RichTextHelper.toHTML(
+          props.content,
+          '<br />'
+        )}</p>`,
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => validateRichText(props.content, 'content', 'Text content cannot be empty'),
+      inlineEditable: () => [{ path: 'content', selector: 'p', richText: true, multiline: true }],
     };
   },
 
   /**
    * Create image element type
    */
-  createImageElement(): ElementType {
+  createImageElement(): ElementType<ImageProps> {
+    const propsSchema: PropsSchema<ImageProps> = {
+      src: { kind: 'url', label: 'Image URL', placeholder: 'https://example.com/image.jpg' },
+      alt: { kind: 'text', label: 'Alt Text' },
+      width: { kind: 'number', label: 'Width (px)', integer: true, min: 1, placeholder: 'Auto' },
+      height: { kind: 'number', label: 'Height (px)', integer: true, min: 1, placeholder: 'Auto' },
+    };
+
     return {
       name: 'Image',
       icon: '🖼',
@@ -90,57 +750,57 @@ export const ElementTypesHelper = {
         width: undefined,
         height: undefined,
       },
-      render: (props: Record<string, unknown>) => {
-        const src = typeof props.src === 'string' ? props.src : '';
-        const alt = typeof props.alt === 'string' ? props.alt : '';
-        const width = typeof props.width === 'number' ? props.width : 
-          typeof props.width === 'string' && !isNaN(Number(props.width)) ? Number(props.width) : undefined;
-        const height = typeof props.height === 'number' ? props.height : 
-          typeof props.height === 'string' && !isNaN(Number(props.height)) ? Number(props.height) : undefined;
-        
+      render: props => {
+        // Documents saved by older versions stored width/height as strings
+        const width = toOptionalNumber(props.width);
+        const height = toOptionalNumber(props.height);
+
         const style = [];
         if (width) style.push(`width: ${width}px`);
         if (height) style.push(`height: ${height}px`);
-        return `<img src="${UtilityHelpers.escapeHtml(src)}" alt="${UtilityHelpers.escapeHtml(alt)}"${style.length ? ` style="${style.join('; ')}"` : ''}>`;
-      },
-      renderEditor: (props: Record<string, unknown>) => {
-        const src = typeof props.src === 'string' ? props.src : '';
-        const alt = typeof props.alt === 'string' ? props.alt : '';
-        const width = typeof props.width === 'number' ? props.width : 
-          typeof props.width === 'string' && !isNaN(Number(props.width)) ? Number(props.width) : undefined;
-        const height = typeof props.height === 'number' ? props.height : 
-          typeof props.height === 'string' && !isNaN(Number(props.height)) ? Number(props.height) : undefined;
-        
-        return `
-        <div class="property-group">
-          <label>Image URL:</label>
-          <input type="url" value="${UtilityHelpers.escapeHtml(src)}" 
-                 class="property-input" data-property="src"
-                 placeholder="https://example.com/image.jpg">
-        </div>
-        <div class="property-group">
-          <label>Alt Text:</label>
-          <input type="text" value="${UtilityHelpers.escapeHtml(alt)}" 
-                 class="property-input" data-property="alt">
-        </div>
-        <div class="property-group">
-          <label>Width (px):</label>
-          <input type="number" value="${width || ''}" 
-                 class="property-input" data-property="width"
-                 min="1" placeholder="Auto">
-        </div>
-        <div class="property-group">
-          <label>Height (px):</label>
-          <input type="number" value="${height || ''}" 
-                 class="property-input" data-property="height"
-                 min="1" placeholder="Auto">
-        </div>`;
-      },
-      validate: (props: Record<string, unknown>) => {
-        const src = typeof props.src === 'string' ? props.src : '';
-        if (!src.trim()) return 'Image URL is required';
-        if (!UtilityHelpers.isValidUrl(src)) return 'Please enter a valid URL';
-        return null;
+        return `<img src="${UtilityHelpers.escapeAttribute(props.src ?? '')}" alt="${UtilityHelpers.escapeAttribute(props.alt ?? '')}"${style.length ? ` style="${style.join('; ')}"` : ''}>`;
+      },
+      // Images with javascript:/data: sources are left to the raw HTML fallback
+      matches: node =>
+        node.nodeName === 'IMG' &&
+        hasOnlyAttributes(node, ['src', 'alt', 'width', 'height', 'style']) &&
+        hasOnlyStyles(node, ['width', 'height']) &&
+        !isBlockedUrl(node.getAttribute('src') ?? ''),
+      parse: node => ({
+        props: {
+          src: isBlockedUrl(node.getAttribute('src') ?? '') ? '' : (node.getAttribute('src') ?? ''),
+          alt: node.getAttribute('alt') ?? '',
+          width: readPixels(node, 'width'),
+          height: readPixels(node, 'height'),
+        },
+      }),
+      toMarkdown: props => {
+        const src = props.src ?? '';
+        const destination = /[\s()]/.test(src) ? `<${src}>` : src;
+        return `![${MarkdownHelper.escapeText(props.alt ?? '')}](${destination})`;
+      },
+      // Outlook ignores CSS sizes, so they are given as attributes
+      renderEmail: props => {
+        const width = toOptionalNumber(props.width);
+        const height = toOptionalNumber(props.height);
+        const size = `${width ? ` width="${width}"` : ''}${height ? ` height="${height}"` : ''}`;
+        return `<img src="${UtilityHelpers.escapeAttribute(props.src ?? '')}" alt="${UtilityHelpers.escapeAttribute(props.alt ?? '')}"${size} border="0" style="display: block; max-width: 100%; border: 0; outline: none; text-decoration: none;" />`;
+      },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => {
+        const issues: ValidationIssue[] = [];
+        const src = props.src ?? '';
+
+        if (!src.trim()) {
+          issues.push(ValidationHelper.error('src', 'Image URL is required'));
+        } else if (!UtilityHelpers.isValidUrl(src)) {
+          issues.push(ValidationHelper.error('src', 'Please enter a valid URL'));
+        }
+        if (!(props.alt ?? '').trim()) {
+          issues.push(ValidationHelper.warning('alt', 'Alt text is recommended for accessibility'));
+        }
+        return issues;
       },
     };
   },
@@ -148,72 +808,715 @@ export const ElementTypesHelper = {
   /**
    * Create list element type
    */
-  createListElement(): ElementType {
+  createListElement(): ElementType<ListProps> {
+    const propsSchema: PropsSchema<ListProps> = {
+      ordered: { kind: 'boolean', label: 'Ordered List' },
+      items: { kind: 'string-array', label: 'Items', itemDefault: 'New item' },
+    };
+
     return {
       name: 'List',
       icon: '•',
       defaultProps: { items: ['Item 1', 'Item 2', 'Item 3'], ordered: false },
-      render: (props: Record<string, unknown>) => {
-        const ordered = typeof props.ordered === 'boolean' ? props.ordered : false;
-        const itemsArray = Array.isArray(props.items) ? props.items : [];
-        const tag = ordered ? 'ol' : 'ul';
-        const items = itemsArray
-          .filter((item): item is string => typeof item === 'string')
-          .map((item: string) => `<li>${UtilityHelpers.escapeHtml(item)}</li>`)
+      render: props => {
+        const tag = props.ordered ? 'ol' : 'ul';
+        const items = (props.items ?? [])
+          .map(item => `<li>${UtilityHelpers.escapeHtml(item)}</li>`)
           .join('');
         return `<${tag}>${items}</${tag}>`;
       },
-      renderEditor: (props: Record<string, unknown>) => {
-        const ordered = typeof props.ordered === 'boolean' ? props.ordered : false;
-        const itemsArray = Array.isArray(props.items) ? props.items : [];
-        const validItems = itemsArray.filter((item): item is string => typeof item === 'string');
-        
-        return `
-        <div class="property-group">
-          <label>
-            <input type="checkbox" ${ordered ? 'checked' : ''} 
-                   class="property-input" data-property="ordered" data-value-type="boolean">
-            Ordered List
-          </label>
-        </div>
-        <div class="property-group">
-          <label>Items:</label>
-          <div class="list-editor">
-            ${validItems
-              .map(
-                (item: string, index: number) => `
-              <div class="list-item-editor">
-                <input type="text" value="${UtilityHelpers.escapeHtml(item)}" 
-                       class="list-item-input" data-index="${index}">
-                <button type="button" class="remove-list-item" data-index="${index}">×</button>
-              </div>
-            `
-              )
-              .join('')}
-            <button type="button" class="add-list-item">+ Add Item</button>
-          </div>
-        </div>`;
-      },
-      validate: (props: Record<string, unknown>) => {
-        const itemsArray = Array.isArray(props.items) ? props.items : [];
-        const validItems = itemsArray.filter((item): item is string => typeof item === 'string');
-        
-        if (validItems.length === 0) return 'List must have at least one item';
-        if (validItems.some((item: string) => !item.trim())) return 'List items cannot be empty';
-        return null;
+      matches: node =>
+        (node.nodeName === 'UL' || node.nodeName === 'OL') &&
+        hasOnlyAttributes(node, []) &&
+        !hasOwnText(node) &&
+        Array.from(node.children).every(
+          item =>
+            item.nodeName === 'LI' && item.children.length === 0 && hasOnlyAttributes(item, [])
+        ),
+      parse: node => ({
+        props: {
+          items: Array.from(node.children, item => readText(item)),
+          ordered: node.nodeName === 'OL',
+        },
+      }),
+      toMarkdown: props =>
+        (props.items ?? [])
+          .map((item, index) => {
+            const marker = props.ordered ? `${index + 1}.` : '-';
+            return `${marker} ${MarkdownHelper.escapeText(item.replace(/\s*\n\s*/g, ' '))}`;
+          })
+          .join('\n'),
+      renderEmail: props => {
+        const tag = props.ordered ? 'ol' : 'ul';
+        const items = (props.items ?? [])
+          .map(item => `<li style="margin: 0 0 4px;">${UtilityHelpers.escapeHtml(item)}</li>`)
+          .join('');
+        return `<${tag} style="${EmailExportHelper.textStyle(16, 'padding: 0 0 0 24px')}">${items}</${tag}>`;
+      },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => {
+        const items = props.items ?? [];
+
+        if (items.length === 0) {
+          return [ValidationHelper.error('items', 'List must have at least one item')];
+        }
+        return items.flatMap((item, index) =>
+          item.trim()
+            ? []
+            : [ValidationHelper.error(`items.${index}`, `Item ${index + 1} cannot be empty`)]
+        );
+      },
+      inlineEditable: props =>
+        (props.items ?? []).map((_, index) => ({
+          path: `items.${index}`,
+          selector: `li:nth-child(${index + 1})`,
+        })),
+    };
+  },
+
+  /**
+   * Create link element type
+   */
+  createLinkElement(): ElementType<LinkProps> {
+    const propsSchema: PropsSchema<LinkProps> = {
+      ...HYPERLINK_SCHEMA,
+      variant: {
+        kind: 'select',
+        label: 'Style',
+        options: [
+          { value: 'default', label: 'Default' },
+          { value: 'muted', label: 'Muted' },
+          { value: 'plain', label: 'Plain (no underline)' },
+        ],
+      },
+    };
+    const variants = Object.keys(LINK_VARIANT_STYLES) as LinkVariant[];
+
+    return {
+      name: 'Link',
+      icon: '🔗',
+      defaultProps: {
+        href: 'https://example.com',
+        label: 'New link',
+        target: '_self',
+        rel: '',
+        title: '',
+        download: false,
+        variant: 'default',
+      },
+      render: props => renderAnchor(props, LINK_VARIANT_STYLES[props.variant] ?? ''),
+      matches: node =>
+        isPlainAnchor(node) &&
+        variants.some(
+          variant => (node.getAttribute('style') ?? '') === LINK_VARIANT_STYLES[variant]
+        ),
+      parse: node => ({
+        props: {
+          ...parseHyperlink(node),
+          variant:
+            variants.find(variant => node.getAttribute('style') === LINK_VARIANT_STYLES[variant]) ??
+            'default',
+        },
+      }),
+      toMarkdown: props => hyperlinkToMarkdown(props),
+      renderEmail: props =>
+        `<p style="${EmailExportHelper.textStyle(16)}">${renderAnchor(props, LINK_VARIANT_STYLES[props.variant] ?? '')}</p>`,
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => [
+        ...((props.label ?? '').trim()
+          ? []
+          : [ValidationHelper.error('label', 'Link text cannot be empty')]),
+        ...validateHref(props.href ?? '', 'href'),
+      ],
+      inlineEditable: () => [{ path: 'label', selector: 'a' }],
+    };
+  },
+
+  /**
+   * Create call-to-action button element type (an anchor styled as a button)
+   */
+  createButtonElement(): ElementType<ButtonProps> {
+    const propsSchema: PropsSchema<ButtonProps> = {
+      ...HYPERLINK_SCHEMA,
+      variant: {
+        kind: 'select',
+        label: 'Style',
+        options: [
+          { value: 'primary', label: 'Primary' },
+          { value: 'secondary', label: 'Secondary' },
+          { value: 'outline', label: 'Outline' },
+        ],
+      },
+    };
+    const variants = Object.keys(BUTTON_VARIANT_STYLES) as ButtonVariant[];
+    const getStyle = (variant: ButtonVariant) =>
+      `${BUTTON_STYLE}; ${BUTTON_VARIANT_STYLES[variant] ?? BUTTON_VARIANT_STYLES.primary}`;
+
+    return {
+      name: 'Button',
+      icon: '🔘',
+      defaultProps: {
+        href: 'https://example.com',
+        label: 'Get started',
+        target: '_self',
+        rel: '',
+        title: '',
+        download: false,
+        variant: 'primary',
+      },
+      render: props => renderAnchor(props, getStyle(props.variant)),
+      // Only buttons rendered by this type are recognized, by their exact inline style
+      matches: node =>
+        isPlainAnchor(node) &&
+        variants.some(variant => node.getAttribute('style') === getStyle(variant)),
+      parse: node => ({
+        props: {
+          ...parseHyperlink(node),
+          variant:
+            variants.find(variant => node.getAttribute('style') === getStyle(variant)) ?? 'primary',
+        },
+      }),
+      toMarkdown: props => hyperlinkToMarkdown(props),
+      // Email clients drop margins on anchors, so the table cell holds the spacing
+      renderEmail: props =>
+        EmailExportHelper.table([
+          `<td style="padding: 0 0 16px;">${renderAnchor(props, getStyle(props.variant))}</td>`,
+        ]),
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => [
+        ...((props.label ?? '').trim()
+          ? []
+          : [ValidationHelper.error('label', 'Button text cannot be empty')]),
+        ...validateHref(props.href ?? '', 'href'),
+      ],
+      inlineEditable: () => [{ path: 'label', selector: 'a' }],
+    };
+  },
+
+  /**
+   * Create table element type (cells edited in a spreadsheet-like grid)
+   */
+  createTableElement(): ElementType<TableProps> {
+    const propsSchema: PropsSchema<TableProps> = {
+      caption: { kind: 'text', label: 'Caption', placeholder: 'Optional, describes the table' },
+      headerRow: { kind: 'boolean', label: 'First row is a header' },
+      headerColumn: { kind: 'boolean', label: 'First column is a header' },
+      grid: { kind: 'table-grid', label: 'Cells' },
+    };
+
+    return {
+      name: 'Table',
+      icon: '▦',
+      defaultProps: {
+        caption: '',
+        headerRow: true,
+        headerColumn: false,
+        grid: {
+          align: ['left', 'left', 'left'],
+          cells: [
+            ['Header 1', 'Header 2', 'Header 3'],
+            ['Cell 1', 'Cell 2', 'Cell 3'],
+            ['Cell 4', 'Cell 5', 'Cell 6'],
+          ],
+        },
+      },
+      render: props => renderTable(props),
+      matches: node => readTable(node) !== null,
+      parse: node => ({ props: readTable(node)! }),
+      renderEmail: props => renderTable(props, true),
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => {
+        const grid = TableHelper.normalize(props.grid);
+        if (grid.cells.length === 0) {
+          return [ValidationHelper.error('grid', 'Table must have at least one row')];
+        }
+
+        const columnCount = TableHelper.getColumnCount(grid);
+        const raggedRows = grid.cells.flatMap((row, index) =>
+          row.length === columnCount
+            ? []
+            : [
+                ValidationHelper.error(
+                  `grid.cells.${index}`,
+                  `Row ${index + 1} has ${row.length} of ${columnCount} cells`
+                ),
+              ]
+        );
+        // The top-left cell may stay empty when both the first row and column are headers
+        const columnHeaders = props.headerRow
+          ? (grid.cells[0] ?? []).flatMap((text, column) =>
+              text.trim() || (props.headerColumn && column === 0)
+                ? []
+                : [
+                    ValidationHelper.error(
+                      `grid.cells.0.${column}`,
+                      `Header of column ${column + 1} is empty`
+                    ),
+                  ]
+            )
+          : [];
+        const rowHeaders = props.headerColumn
+          ? grid.cells.flatMap((row, index) =>
+              (row[0] ?? '').trim() || (props.headerRow && index === 0)
+                ? []
+                : [
+                    ValidationHelper.error(
+                      `grid.cells.${index}.0`,
+                      `Header of row ${index + 1} is empty`
+                    ),
+                  ]
+            )
+          : [];
+
+        return [...raggedRows, ...columnHeaders, ...rowHeaders];
+      },
+      inlineEditable: props => {
+        const grid = TableHelper.normalize(props.grid);
+        const rowSelector = (index: number) =>
+          props.headerRow
+            ? index === 0
+              ? 'thead tr'
+              : `tbody tr:nth-child(${index})`
+            : `tbody tr:nth-child(${index + 1})`;
+
+        return [
+          { path: 'caption', selector: 'caption' },
+          ...grid.cells.flatMap((row, index) =>
+            row.map((_, column) => ({
+              path: `grid.cells.${index}.${column}`,
+              selector: `${rowSelector(index)} > :nth-child(${column + 1})`,
+              multiline: true,
+            }))
+          ),
+        ];
+      },
+    };
+  },
+
+  /**
+   * Create video element type (self-hosted files)
+   */
+  createVideoElement(): ElementType<VideoProps> {
+    const propsSchema: PropsSchema<VideoProps> = {
+      ...MEDIA_SCHEMA,
+      poster: { kind: 'text', label: 'Poster Image URL', placeholder: 'Optional' },
+      captions: {
+        kind: 'object',
+        label: 'Captions',
+        fields: {
+          src: { kind: 'text', label: 'Captions File (WebVTT)', placeholder: 'Optional' },
+          srclang: { kind: 'text', label: 'Language', placeholder: 'e.g. en' },
+          label: { kind: 'text', label: 'Label', placeholder: 'e.g. English' },
+        },
+      },
+    };
+
+    return {
+      name: 'Video',
+      icon: '🎬',
+      defaultProps: {
+        sources: [{ src: 'https://example.com/video.mp4', type: '' }],
+        poster: '',
+        controls: true,
+        autoplay: false,
+        muted: false,
+        loop: false,
+        captions: { src: '', srclang: '', label: '' },
+      },
+      render: props => renderMedia('video', props),
+      // Autoplay is left out so the preview does not start playing while editing
+      renderPreview: props => renderMedia('video', { ...props, autoplay: false }),
+      matches: node => readMedia(node, 'video') !== null,
+      parse: node => ({ props: readMedia(node, 'video')! }),
+      // Email clients do not play video, so the poster (or a text link) links to the file
+      renderEmail: props => {
+        const src = getLinkedSource(props);
+        if (!src) return '';
+        const href = UtilityHelpers.escapeAttribute(src);
+        const poster = (props.poster ?? '').trim();
+        return poster && !isBlockedUrl(poster)
+          ? `<a href="${href}"><img src="${UtilityHelpers.escapeAttribute(poster)}" alt="Play video" width="600" border="0" style="display: block; width: 100%; max-width: 600px; height: auto; border: 0;" /></a>`
+          : `<p style="${EmailExportHelper.textStyle(16)}"><a href="${href}">▶ Watch the video</a></p>`;
+      },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => {
+        const poster = (props.poster ?? '').trim();
+        const captions = props.captions ?? { src: '', srclang: '', label: '' };
+        return [
+          ...validateMedia('video', props),
+          ...(poster ? validateHref(poster, 'poster') : []),
+          ...((captions.src ?? '').trim()
+            ? [
+                ...validateHref(captions.src, 'captions.src'),
+                ...((captions.srclang ?? '').trim()
+                  ? []
+                  : [ValidationHelper.error('captions.srclang', 'Captions need a language')]),
+              ]
+            : []),
+        ];
+      },
+    };
+  },
+
+  /**
+   * Create audio element type (self-hosted files)
+   */
+  createAudioElement(): ElementType<AudioProps> {
+    const propsSchema: PropsSchema<AudioProps> = { ...MEDIA_SCHEMA };
+
+    return {
+      name: 'Audio',
+      icon: '🔊',
+      defaultProps: {
+        sources: [{ src: 'https://example.com/audio.mp3', type: '' }],
+        controls: true,
+        autoplay: false,
+        muted: false,
+        loop: false,
+      },
+      render: props => renderMedia('audio', props),
+      renderPreview: props => renderMedia('audio', { ...props, autoplay: false }),
+      matches: node => readMedia(node, 'audio') !== null,
+      parse: node => {
+        const { sources, controls, autoplay, muted, loop } = readMedia(node, 'audio')!;
+        return { props: { sources, controls, autoplay, muted, loop } };
+      },
+      renderEmail: props => {
+        const src = getLinkedSource(props);
+        return src
+          ? `<p style="${EmailExportHelper.textStyle(16)}"><a href="${UtilityHelpers.escapeAttribute(src)}">▶ Listen to the audio</a></p>`
+          : '';
+      },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => validateMedia('audio', props),
+    };
+  },
+
+  /**
+   * Create YouTube/Vimeo embed element type
+   * The exported iframe shows a click-to-play facade (thumbnail only) and loads the
+   * privacy-enhanced player once clicked; the builder preview makes no third-party requests.
+   */
+  createEmbedElement(): ElementType<EmbedProps> {
+    const propsSchema: PropsSchema<EmbedProps> = {
+      url: {
+        kind: 'text',
+        label: 'Video URL',
+        placeholder: 'https://www.youtube.com/watch?v=... or https://vimeo.com/...',
+      },
+      title: { kind: 'text', label: 'Title', placeholder: 'Describes the video' },
+      aspectRatio: {
+        kind: 'select',
+        label: 'Aspect Ratio',
+        options: EMBED_ASPECT_RATIOS.map(ratio => ({ value: ratio, label: ratio })),
+      },
+    };
+
+    return {
+      name: 'Embed',
+      icon: '▶',
+      defaultProps: {
+        url: 'https://www.youtube.com/watch?v=M7lc1UVf-VE',
+        title: 'YouTube video',
+        aspectRatio: '16:9',
+      },
+      render: props => {
+        const info = MediaHelper.parseEmbedUrl(props.url ?? '');
+        if (!info) return '';
+
+        const title = (props.title ?? '').trim();
+        return `<iframe src="${UtilityHelpers.escapeAttribute(MediaHelper.getEmbedSrc(info))}" srcdoc="${UtilityHelpers.escapeAttribute(MediaHelper.getFacadeDocument(info, title))}" title="${UtilityHelpers.escapeAttribute(title)}" loading="lazy" allow="${EMBED_ALLOW}" allowfullscreen referrerpolicy="strict-origin-when-cross-origin" style="${getEmbedStyle(props.aspectRatio)}"></iframe>`;
+      },
+      // A drawn placeholder stands in for the thumbnail, so editing works offline
+      renderPreview: props => {
+        const info = MediaHelper.parseEmbedUrl(props.url ?? '');
+        const title = (props.title ?? '').trim();
+        const caption = info
+          ? `${MediaHelper.getProviderName(info.provider)} video`
+          : 'Enter a YouTube or Vimeo URL';
+        return `<div class="embed-placeholder" role="img" aria-label="${UtilityHelpers.escapeAttribute(title || caption)}" style="${getEmbedStyle(props.aspectRatio)}; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 8px; background: linear-gradient(135deg, #2b2b2b, #111111); color: #ffffff; font-family: sans-serif; text-align: center"><span style="width: 68px; height: 48px; border-radius: 12px; background: rgba(255, 255, 255, 0.2); font-size: 24px; line-height: 48px">▶</span>${title ? `<strong>${UtilityHelpers.escapeHtml(title)}</strong>` : ''}<span style="font-size: 12px; opacity: 0.7">${caption}</span></div>`;
+      },
+      matches: node => {
+        const src = node.getAttribute('src') ?? '';
+        return (
+          node.nodeName === 'IFRAME' &&
+          hasOnlyAttributes(node, [
+            'src',
+            'srcdoc',
+            'title',
+            'loading',
+            'allow',
+            'allowfullscreen',
+            'referrerpolicy',
+            'style',
+          ]) &&
+          MediaHelper.parseEmbedUrl(src) !== null &&
+          EMBED_ASPECT_RATIOS.some(ratio => node.getAttribute('style') === getEmbedStyle(ratio))
+        );
+      },
+      // Player URLs are stored as the watch page URL users would paste
+      parse: node => ({
+        props: {
+          url: MediaHelper.getWatchUrl(MediaHelper.parseEmbedUrl(node.getAttribute('src') ?? '')!),
+          title: node.getAttribute('title') ?? '',
+          aspectRatio:
+            EMBED_ASPECT_RATIOS.find(
+              ratio => node.getAttribute('style') === getEmbedStyle(ratio)
+            ) ?? '16:9',
+        },
+      }),
+      toMarkdown: props => {
+        const info = MediaHelper.parseEmbedUrl(props.url ?? '');
+        if (!info) return '';
+        const label =
+          (props.title ?? '').trim() || `${MediaHelper.getProviderName(info.provider)} video`;
+        return `[${MarkdownHelper.escapeText(label)}](${MediaHelper.getWatchUrl(info)})`;
+      },
+      // Email clients do not run iframes, so the thumbnail (or a text link) opens the video
+      renderEmail: props => {
+        const info = MediaHelper.parseEmbedUrl(props.url ?? '');
+        if (!info) return '';
+
+        const href = UtilityHelpers.escapeAttribute(MediaHelper.getWatchUrl(info));
+        const title = (props.title ?? '').trim();
+        const thumbnail = MediaHelper.getThumbnailUrl(info);
+        return thumbnail
+          ? `<a href="${href}"><img src="${UtilityHelpers.escapeAttribute(thumbnail)}" alt="${UtilityHelpers.escapeAttribute(`Play ${title || 'video'}`)}" width="600" border="0" style="display: block; width: 100%; max-width: 600px; height: auto; border: 0;" /></a>`
+          : `<p style="${EmailExportHelper.textStyle(16)}"><a href="${href}">▶ ${UtilityHelpers.escapeHtml(title || 'Watch the video')}</a></p>`;
+      },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => {
+        const url = (props.url ?? '').trim();
+        return [
+          ...(!url
+            ? [ValidationHelper.error('url', 'Video URL is required')]
+            : MediaHelper.parseEmbedUrl(url)
+              ? []
+              : [ValidationHelper.error('url', 'Enter a YouTube or Vimeo video URL')]),
+          ...((props.title ?? '').trim()
+            ? []
+            : [ValidationHelper.error('title', 'Title is required for screen readers')]),
+        ];
+      },
+      inlineEditable: () => [{ path: 'title', selector: '.embed-placeholder > strong' }],
+    };
+  },
+
+  /**
+   * Create section container element type
+   */
+  createSectionElement(): ElementType<SectionProps> {
+    const propsSchema: PropsSchema<SectionProps> = {
+      ariaLabel: { kind: 'text', label: 'Accessible Label', placeholder: 'Optional' },
+      anchorId: { kind: 'text', label: 'Anchor ID', placeholder: 'Optional, e.g. pricing' },
+    };
+
+    return {
+      name: 'Section',
+      icon: '▭',
+      slots: ['Content'],
+      defaultProps: { ariaLabel: '', anchorId: '' },
+      render: (props, children = []) => {
+        const ariaLabel = (props.ariaLabel ?? '').trim();
+        const anchorId = (props.anchorId ?? '').trim();
+        const attributes =
+          (anchorId ? ` id="${UtilityHelpers.escapeAttribute(anchorId)}"` : '') +
+          (ariaLabel ? ` aria-label="${UtilityHelpers.escapeAttribute(ariaLabel)}"` : '');
+        return `<section${attributes}>${children[0] || ''}</section>`;
+      },
+      matches: node =>
+        node.nodeName === 'SECTION' &&
+        hasOnlyAttributes(node, ['id', 'aria-label']) &&
+        !hasOwnText(node),
+      parse: node => ({
+        props: {
+          ariaLabel: node.getAttribute('aria-label') ?? '',
+          anchorId: node.getAttribute('id') ?? '',
+        },
+        slots: [Array.from(node.childNodes)],
+      }),
+      toMarkdown: (_, children = []) => children[0] || '',
+      renderEmail: (_, children = []) => EmailExportHelper.table([`<td>${children[0] || ''}</td>`]),
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props =>
+        /\s/.test((props.anchorId ?? '').trim())
+          ? [ValidationHelper.error('anchorId', 'Anchor ID cannot contain spaces')]
+          : [],
+    };
+  },
+
+  /**
+   * Create generic div container element type
+   */
+  createDivElement(): ElementType<DivProps> {
+    const propsSchema: PropsSchema<DivProps> = {
+      className: { kind: 'text', label: 'CSS Class', placeholder: 'Optional' },
+    };
+
+    return {
+      name: 'Container',
+      icon: '▢',
+      slots: ['Content'],
+      defaultProps: { className: '' },
+      render: (props, children = []) => {
+        const className = (props.className ?? '').trim();
+        const attributes = className ? ` class="${UtilityHelpers.escapeAttribute(className)}"` : '';
+        return `<div${attributes}>${children[0] || ''}</div>`;
+      },
+      matches: node =>
+        node.nodeName === 'DIV' && hasOnlyAttributes(node, ['class']) && !hasOwnText(node),
+      parse: node => ({
+        props: { className: node.getAttribute('class') ?? '' },
+        slots: [Array.from(node.childNodes)],
+      }),
+      toMarkdown: (_, children = []) => children[0] || '',
+      renderEmail: (_, children = []) => EmailExportHelper.table([`<td>${children[0] || ''}</td>`]),
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props =>
+        /^[\w\s-]*$/.test(props.className ?? '')
+          ? []
+          : [ValidationHelper.error('className', 'CSS class contains invalid characters')],
+    };
+  },
+
+  /**
+   * Create column row container element type
+   * @param columns Number of columns
+   */
+  createColumnsElement(columns: number): ElementType<ColumnsProps> {
+    const propsSchema: PropsSchema<ColumnsProps> = {
+      gap: { kind: 'number', label: 'Gap (px)', integer: true, min: 0 },
+    };
+
+    return {
+      name: `${columns} Columns`,
+      icon: columns === 2 ? '◫' : '▥',
+      slots: Array.from({ length: columns }, (_, i) => `Column ${i + 1}`),
+      defaultProps: { gap: 16 },
+      render: (props, children = []) => {
+        const gap = typeof props.gap === 'number' && props.gap >= 0 ? props.gap : 16;
+        const columnsHtml = Array.from(
+          { length: columns },
+          (_, i) => `<div style="flex: 1; min-width: 0;">${children[i] || ''}</div>`
+        ).join('');
+        return `<div style="display: flex; gap: ${gap}px;">${columnsHtml}</div>`;
+      },
+      // Only markup produced by render is recognized as a column row
+      matches: node => {
+        const style = (node as HTMLElement).style;
+        const cells = Array.from(node.children);
+
+        return (
+          node.nodeName === 'DIV' &&
+          hasOnlyAttributes(node, ['style']) &&
+          hasOnlyStyles(node, ['display', 'gap', 'row-gap', 'column-gap']) &&
+          style?.display === 'flex' &&
+          !hasOwnText(node) &&
+          cells.length === columns &&
+          cells.every(
+            cell =>
+              cell.nodeName === 'DIV' &&
+              hasOnlyAttributes(cell, ['style']) &&
+              (cell as HTMLElement).style?.flexGrow === '1'
+          )
+        );
+      },
+      parse: node => {
+        const style = (node as HTMLElement).style;
+        // Browsers expand gap into row-gap/column-gap, some DOM implementations keep it as is
+        const gap = (style?.columnGap || style?.gap || '').split(' ').pop() ?? '';
+
+        return {
+          props: { gap: toOptionalNumber(gap.replace(/px$/, '')) ?? 0 },
+          slots: Array.from(node.children, cell => Array.from(cell.childNodes)),
+        };
+      },
+      // Markdown has no layout, so the columns are written one after another
+      toMarkdown: (_, children = []) => children.filter(column => column.trim()).join('\n\n'),
+      // Email clients do not support flexbox, so columns are table cells
+      renderEmail: (props, children = []) => {
+        const gap = typeof props.gap === 'number' && props.gap >= 0 ? props.gap : 16;
+        const width = `${Math.floor(100 / columns)}%`;
+        return EmailExportHelper.table(
+          Array.from({ length: columns }, (_, i) => {
+            const padding = i > 0 ? ` style="padding-left: ${gap}px;"` : '';
+            return `<td valign="top" width="${width}"${padding}>${children[i] || ''}</td>`;
+          })
+        );
+      },
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props => {
+        const gap = props.gap;
+        // Cleared number inputs store undefined
+        return typeof gap === 'number' && !isNaN(gap) && gap >= 0
+          ? []
+          : [ValidationHelper.error('gap', 'Gap must be zero or a positive number')];
       },
     };
   },
 
+  /**
+   * Create raw HTML element type
+   * Imported markup that no other element type recognizes is kept in this block as is.
+   */
+  createRawHtmlElement(): ElementType<RawHtmlProps> {
+    const propsSchema: PropsSchema<RawHtmlProps> = {
+      html: { kind: 'textarea', label: 'HTML', rows: 8 },
+    };
+
+    return {
+      name: 'HTML',
+      icon: '</>',
+      defaultProps: { html: '<div></div>' },
+      render: props => props.html ?? '',
+      renderPreview: props => stripPreviewScripts(props.html ?? ''),
+      toMarkdown: props => props.html ?? '',
+      propsSchema,
+      renderEditor: props => PropertyEditorHelper.renderEditor(propsSchema, props),
+      validate: props =>
+        (props.html ?? '').trim().length > 0
+          ? []
+          : [ValidationHelper.error('html', 'HTML cannot be empty')],
+    };
+  },
+
+  /**
+   * Check if element type can hold child elements
+   */
+  isContainer(elementType: AnyElementType | undefined): boolean {
+    return !!elementType?.slots && elementType.slots.length > 0;
+  },
+
   /**
    * Get all element types
    */
-  getAllElementTypes(): Record<string, ElementType> {
+  getAllElementTypes(): BuiltInElementTypes {
     return {
       title: this.createTitleElement(),
       text: this.createTextElement(),
       image: this.createImageElement(),
       list: this.createListElement(),
+      link: this.createLinkElement(),
+      button: this.createButtonElement(),
+      table: this.createTableElement(),
+      video: this.createVideoElement(),
+      audio: this.createAudioElement(),
+      embed: this.createEmbedElement(),
+      section: this.createSectionElement(),
+      div: this.createDivElement(),
+      'two-columns': this.createColumnsElement(2),
+      'three-columns': this.createColumnsElement(3),
+      html: this.createRawHtmlElement(),
     };
   },
 
@@ -224,10 +1527,10 @@ export const ElementTypesHelper = {
    * @param definition New element type definition
    */
   registerElementType(
-    elementTypes: Record<string, ElementType>,
+    elementTypes: Record<string, AnyElementType>,
     name: string,
-    definition: ElementType
-  ): Record<string, ElementType> {
+    definition: AnyElementType
+  ): Record<string, AnyElementType> {
     return {
       ...elementTypes,
       [name]: definition,
@@ -0,0 +1,195 @@
+/**
+ * Email export helper for Visual HTML Builder
+ * Builds email-client safe documents: table layout, inline styles and sizing attributes
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+import { HTMLTemplateHelper, type HTMLTemplate } from './HTMLTemplateHelper';
+import { ElementStyleHelper } from './ElementStyleHelper';
+import type { AnyElementType } from './ElementTypesHelper';
+import type { SerializedElement } from './SerializationHelper';
+
+export type EmailDoctype = NonNullable<HTMLTemplate['emailDoctype']>;
+
+export interface EmailExportOptions {
+  /** Width of the message column in pixels */
+  width?: number;
+  /** Background color around the message column */
+  backgroundColor?: string;
+}
+
+export const EMAIL_DOCTYPES: Record<EmailDoctype, string> = {
+  'xhtml-transitional':
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+  html5: '<!DOCTYPE html>',
+};
+
+export const EMAIL_FONT_FAMILY = 'Arial, Helvetica, sans-serif';
+
+export const EmailExportHelper = {
+  /**
+   * Get default email export options
+   */
+  getDefaultOptions(): Required<EmailExportOptions> {
+    return { width: 600, backgroundColor: '#f4f4f4' };
+  },
+
+  /**
+   * Inline text style used by the built-in element types
+   * @param fontSize Font size in pixels
+   * @param extra Additional declarations
+   */
+  textStyle(fontSize: number, extra: string = ''): string {
+    return [
+      'margin: 0 0 16px',
+      `font-family: ${EMAIL_FONT_FAMILY}`,
+      `font-size: ${fontSize}px`,
+      'line-height: 1.5',
+      'color: #333333',
+      extra,
+    ]
+      .filter(Boolean)
+      .join('; ');
+  },
+
+  /**
+   * Wrap cells in a layout table
+   * @param cells Markup of each cell (one row)
+   * @param attributes Extra table attributes
+   */
+  table(cells: string[], attributes: string = ''): string {
+    return [
+      `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"${attributes}>`,
+      '<tr>',
+      ...cells,
+      '</tr>',
+      '</table>',
+    ].join('\n');
+  },
+
+  /**
+   * Convert elements to email markup (one entry per element)
+   * @param elements Elements to convert
+   * @param elementTypes Registered element types
+   */
+  exportElements(
+    elements: SerializedElement[],
+    elementTypes: Record<string, AnyElementType>
+  ): string[] {
+    return elements
+      .map(element => this.elementToEmail(element, elementTypes))
+      .filter(html => html.trim() !== '');
+  },
+
+  /**
+   * Convert single element (and its children) to email markup
+   * Element types without a renderEmail hook have their render output made email safe.
+   * The style prop is inlined on the root of the markup.
+   * @param element Element to convert
+   * @param elementTypes Registered element types
+   */
+  elementToEmail(element: SerializedElement, elementTypes: Record<string, AnyElementType>): string {
+    const elementType = elementTypes[element.type];
+    if (!elementType) return '';
+
+    const children = element.children?.map(slot =>
+      this.exportElements(slot, elementTypes).join('\n')
+    );
+    const html = elementType.renderEmail
+      ? elementType.renderEmail(element.props, children)
+      : this.toEmailMarkup(elementType.render(element.props, children));
+
+    // Email clients drop stylesheets, so the style prop is always inlined
+    const css = ElementStyleHelper.toCSS(ElementStyleHelper.fromProps(element.props));
+    return html && css ? ElementStyleHelper.apply(html, css) : html;
+  },
+
+  /**
+   * Make generic markup email safe
+   * CSS width/height of images move to attributes (Outlook ignores the CSS) and classes are
+   * dropped, since email clients strip the stylesheets that would define them.
+   * @param html Markup to convert
+   */
+  toEmailMarkup(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+
+    template.content.querySelectorAll('img').forEach(img => {
+      (['width', 'height'] as const).forEach(dimension => {
+        const value = /^(\d+(?:\.\d+)?)px$/.exec(img.style[dimension]);
+        if (!value) return;
+        img.setAttribute(dimension, String(Math.round(Number(value[1]))));
+        img.style.removeProperty(dimension);
+      });
+      if (!img.getAttribute('style')) img.removeAttribute('style');
+      if (!img.hasAttribute('border')) img.setAttribute('border', '0');
+    });
+    template.content.querySelectorAll('[class]').forEach(el => el.removeAttribute('class'));
+
+    return template.innerHTML;
+  },
+
+  /**
+   * Build hidden preheader (the preview text shown after the subject in inboxes)
+   * @param text Preheader text
+   */
+  buildPreheader(text: string): string {
+    return `<div style="display: none; max-height: 0; overflow: hidden; mso-hide: all;">${UtilityHelpers.escapeHtml(text)}</div>`;
+  },
+
+  /**
+   * Generate complete email document
+   * Head links, scripts and custom head markup are left out; email clients remove them.
+   * @param rows Markup of each root element
+   * @param template HTML template settings
+   * @param options Export options
+   */
+  generateDocument(
+    rows: string[],
+    template: HTMLTemplate = {},
+    options: EmailExportOptions = {}
+  ): string {
+    const { width, backgroundColor } = { ...this.getDefaultOptions(), ...options };
+    const doctype = template.emailDoctype ?? 'xhtml-transitional';
+    const isXhtml = doctype === 'xhtml-transitional';
+    const close = isXhtml ? ' />' : '>';
+    const title = template.head?.title ?? HTMLTemplateHelper.getDefaultTemplate().head?.title ?? '';
+
+    const htmlAttributes = HTMLTemplateHelper.buildAttributes({
+      ...(isXhtml ? { xmlns: 'http://www.w3.org/1999/xhtml' } : {}),
+      lang: 'en',
+      ...template.htmlAttributes,
+    });
+    const bodyStyle = `margin: 0; padding: 0; background-color: ${backgroundColor};`;
+    const bodyAttributes = HTMLTemplateHelper.buildAttributes({
+      ...template.bodyAttributes,
+      style: [bodyStyle, template.bodyAttributes?.style].filter(Boolean).join(' '),
+    });
+
+    const content = rows.map(row =>
+      ['<tr>', '<td style="padding: 0 24px;">', row, '</td>', '</tr>'].join('\n')
+    );
+
+    return [
+      EMAIL_DOCTYPES[doctype],
+      `<html${htmlAttributes}>`,
+      '<head>',
+      `  <meta http-equiv="Content-Type" content="text/html; charset=UTF-8"${close}`,
+      `  <meta name="viewport" content="width=device-width, initial-scale=1.0"${close}`,
+      `  <title>${UtilityHelpers.escapeHtml(title)}</title>`,
+      '</head>',
+      `<body${bodyAttributes}>`,
+      ...(template.preheader ? [this.buildPreheader(template.preheader)] : []),
+      `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="${backgroundColor}">`,
+      '<tr>',
+      '<td align="center">',
+      `<table role="presentation" width="${width}" cellpadding="0" cellspacing="0" border="0" bgcolor="#ffffff" style="width: ${width}px; max-width: 100%;">`,
+      ...content,
+      '</table>',
+      '</td>',
+      '</tr>',
+      '</table>',
+      '</body>',
+      '</html>',
+    ].join('\n');
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * Event emitter helper for Visual HTML Builder
+ * Manages typed event subscriptions and cancelable events
+ */
+
+export type EventHandler<P> = (payload: P) => void;
+
+export type ListenerRegistry<M> = { [K in keyof M]?: EventHandler<M[K]>[] };
+
+export interface CancelableEvent {
+  readonly defaultPrevented: boolean;
+  preventDefault: () => void;
+}
+
+export const EventEmitterHelper = {
+  /**
+   * Create empty listener registry
+   */
+  createRegistry<M>(): ListenerRegistry<M> {
+    return {};
+  },
+
+  /**
+   * Subscribe to event
+   * @param registry Listener registry
+   * @param event Event name
+   * @param handler Event handler
+   * @returns Function that removes the subscription
+   */
+  on<M, K extends keyof M>(
+    registry: ListenerRegistry<M>,
+    event: K,
+    handler: EventHandler<M[K]>
+  ): () => void {
+    const handlers = registry[event] || [];
+    handlers.push(handler);
+    registry[event] = handlers;
+
+    return () => this.off(registry, event, handler);
+  },
+
+  /**
+   * Unsubscribe from event
+   * @param registry Listener registry
+   * @param event Event name
+   * @param handler Event handler (all handlers of the event are removed if omitted)
+   */
+  off<M, K extends keyof M>(
+    registry: ListenerRegistry<M>,
+    event: K,
+    handler?: EventHandler<M[K]>
+  ): void {
+    if (!handler) {
+      delete registry[event];
+      return;
+    }
+
+    const handlers = registry[event];
+    if (!handlers) return;
+
+    registry[event] = handlers.filter(h => h !== handler);
+  },
+
+  /**
+   * Emit event to all subscribed handlers
+   * A throwing handler does not prevent the others from running; its error is
+   * re-thrown asynchronously so it still reaches the host page's error reporting.
+   * @param registry Listener registry
+   * @param event Event name
+   * @param payload Event payload
+   */
+  emit<M, K extends keyof M>(registry: ListenerRegistry<M>, event: K, payload: M[K]): void {
+    const handlers = registry[event];
+    if (!handlers) return;
+
+    // Copy so handlers can unsubscribe while being called
+    [...handlers].forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        setTimeout(() => {
+          throw error;
+        }, 0);
+      }
+    });
+  },
+
+  /**
+   * Create cancelable event payload
+   * @param payload Event payload
+   */
+  createCancelableEvent<P extends object>(payload: P): P & CancelableEvent {
+    let defaultPrevented = false;
+
+    return {
+      ...payload,
+      get defaultPrevented() {
+        return defaultPrevented;
+      },
+      preventDefault: () => {
+        defaultPrevented = true;
+      },
+    };
+  },
+
+  /**
+   * Emit cancelable event
+   * @param registry Listener registry
+   * @param event Event name
+   * @param payload Event payload (without cancel controls)
+   * @returns False if any handler called preventDefault()
+   */
+  emitCancelable<M, K extends keyof M>(
+    registry: ListenerRegistry<M>,
+    event: K,
+    payload: Omit<M[K], keyof CancelableEvent>
+  ): boolean {
+    const cancelableEvent = this.createCancelableEvent(payload as object);
+    this.emit(registry, event, cancelableEvent as M[K]);
+    return !cancelableEvent.defaultPrevented;
+  },
+};
@@ -0,0 +1,325 @@
+/**
+ * HTML format helper for Visual HTML Builder
+ * Pretty-prints or minifies generated HTML
+ */
+
+export type HTMLFormat = 'none' | 'pretty' | 'minify';
+
+export interface HTMLFormatOptions {
+  /** Output format (default: 'none', the markup as generated) */
+  format?: HTMLFormat;
+  /** Indentation of pretty output: number of spaces or the indent string */
+  indent?: number | string;
+}
+
+type FormatNode =
+  | {
+      kind: 'element';
+      tag: string;
+      open: string;
+      /** Empty when the source has no closing tag (void or implicitly closed elements) */
+      close: string;
+      children: FormatNode[];
+      /** Content of pre, textarea, script and style, kept as is */
+      raw?: string;
+    }
+  | { kind: 'text'; text: string }
+  | { kind: 'comment'; text: string }
+  | { kind: 'doctype'; text: string };
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<![^>]*>|<\/?[a-zA-Z][^\s/>]*(?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*\s*\/?>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const RAW_TEXT_TAGS = new Set(['pre', 'textarea', 'script', 'style']);
+
+const INLINE_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'br',
+  'cite',
+  'code',
+  'em',
+  'i',
+  'img',
+  'kbd',
+  'label',
+  'mark',
+  'q',
+  's',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+]);
+
+/**
+ * Check if node flows with the text around it
+ */
+const isInline = (node: FormatNode): boolean =>
+  node.kind === 'text' ||
+  (node.kind === 'element' && INLINE_TAGS.has(node.tag) && node.children.every(isInline));
+
+/**
+ * Check if a comment is a conditional comment (Outlook-specific markup, kept by minify)
+ */
+const isConditionalComment = (text: string): boolean => /^<!--\[if/i.test(text);
+
+/**
+ * Remove comments that minify drops, joining the text around them
+ * This runs before whitespace is trimmed, so a removed comment is not mistaken for a block
+ * and the space around it is kept (collapsed to one).
+ */
+const removeComments = (nodes: FormatNode[]): FormatNode[] =>
+  nodes.reduce<FormatNode[]>((result, node) => {
+    if (node.kind === 'comment' && !isConditionalComment(node.text)) return result;
+
+    const previous = result[result.length - 1];
+    if (node.kind === 'text' && previous?.kind === 'text') {
+      result[result.length - 1] = { kind: 'text', text: previous.text + node.text };
+    } else {
+      result.push(
+        node.kind === 'element' ? { ...node, children: removeComments(node.children) } : node
+      );
+    }
+    return result;
+  }, []);
+
+export const HTMLFormatHelper = {
+  /**
+   * Format HTML
+   * @param html Markup to format
+   * @param options Format and indentation
+   */
+  format(html: string, options: HTMLFormatOptions = {}): string {
+    switch (options.format) {
+      case 'pretty':
+        return this.pretty(html, options.indent);
+      case 'minify':
+        return this.minify(html);
+      default:
+        return html;
+    }
+  },
+
+  /**
+   * Pretty-print HTML: one block element per line, nested content indented
+   * Inline elements stay on the line of the surrounding text.
+   * @param html Markup to format
+   * @param indent Number of spaces or the indent string
+   */
+  pretty(html: string, indent: number | string = 2): string {
+    const unit = typeof indent === 'number' ? ' '.repeat(Math.max(0, indent)) : indent;
+    return this.prettyNodes(this.parse(html), unit).join('\n');
+  },
+
+  /**
+   * Minify HTML
+   * Whitespace is collapsed (and dropped next to block elements), comments other than
+   * conditional comments are removed and attribute quotes are dropped where optional.
+   * Content of pre, textarea, script and style is kept as is.
+   * @param html Markup to minify
+   */
+  minify(html: string): string {
+    return this.minifyNodes(removeComments(this.parse(html)), true);
+  },
+
+  /**
+   * Parse HTML into a lightweight tree that keeps tags as written
+   * @param html Markup to parse
+   */
+  parse(html: string): FormatNode[] {
+    const root: FormatNode[] = [];
+    const stack: Extract<FormatNode, { kind: 'element' }>[] = [];
+    const append = (node: FormatNode) => (stack[stack.length - 1]?.children ?? root).push(node);
+
+    TOKEN.lastIndex = 0;
+    let position = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = TOKEN.exec(html))) {
+      if (match.index > position) {
+        append({ kind: 'text', text: html.slice(position, match.index) });
+      }
+      position = TOKEN.lastIndex;
+
+      const token = match[0];
+      if (token.startsWith('<!--')) {
+        append({ kind: 'comment', text: token });
+        continue;
+      }
+      if (token.startsWith('<!')) {
+        append({ kind: 'doctype', text: token });
+        continue;
+      }
+
+      const tag = /^<\/?([^\s/>]+)/.exec(token)![1]!.toLowerCase();
+
+      if (token.startsWith('</')) {
+        const index = stack.map(el => el.tag).lastIndexOf(tag);
+        // Stray closing tags are dropped, as browsers do
+        if (index === -1) continue;
+        // Elements left open inside it were closed implicitly and keep no closing tag
+        stack.splice(index)[0]!.close = token;
+        continue;
+      }
+
+      const element: FormatNode = { kind: 'element', tag, open: token, close: '', children: [] };
+      append(element);
+
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const closing = new RegExp(`</${tag}\\s*>`, 'ig');
+        closing.lastIndex = position;
+        const end = closing.exec(html);
+        element.raw = html.slice(position, end ? end.index : html.length);
+        element.close = end ? end[0] : '';
+        position = end ? closing.lastIndex : html.length;
+        TOKEN.lastIndex = position;
+      } else if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+        stack.push(element);
+      }
+    }
+
+    if (position < html.length) {
+      append({ kind: 'text', text: html.slice(position) });
+    }
+    return root;
+  },
+
+  /**
+   * Pretty-print sibling nodes into lines
+   * @param nodes Sibling nodes
+   * @param unit Indent string
+   */
+  prettyNodes(nodes: FormatNode[], unit: string): string[] {
+    const lines: string[] = [];
+    let run = '';
+
+    const flushRun = () => {
+      const line = run.replace(/\s+/g, ' ').trim();
+      if (line) lines.push(line);
+      run = '';
+    };
+
+    nodes.forEach(node => {
+      if (isInline(node)) {
+        run += this.serialize(node);
+        return;
+      }
+
+      flushRun();
+      if (node.kind !== 'element') {
+        lines.push(node.text.trim());
+        return;
+      }
+
+      if (node.raw !== undefined || node.children.every(isInline)) {
+        const content = node.raw ?? node.children.map(child => this.serialize(child)).join('');
+        const text = node.raw !== undefined ? content : content.replace(/\s+/g, ' ').trim();
+        lines.push(`${node.open}${text}${node.close}`);
+        return;
+      }
+
+      lines.push(node.open);
+      this.prettyNodes(node.children, unit).forEach(line => lines.push(unit + line));
+      if (node.close) lines.push(node.close);
+    });
+
+    flushRun();
+    return lines;
+  },
+
+  /**
+   * Minify sibling nodes
+   * @param nodes Sibling nodes
+   * @param inBlock Whether the parent is a block element (or the document)
+   */
+  minifyNodes(nodes: FormatNode[], inBlock: boolean): string {
+    const isBlock = (node: FormatNode | undefined) => !!node && !isInline(node);
+
+    return nodes
+      .map((node, index) => {
+        switch (node.kind) {
+          case 'comment':
+            // Conditional comments carry Outlook-specific markup
+            return isConditionalComment(node.text) ? node.text : '';
+          case 'doctype':
+            return node.text;
+          case 'element':
+            return (
+              this.minifyTag(node.open) +
+              (node.raw ?? this.minifyNodes(node.children, !INLINE_TAGS.has(node.tag))) +
+              node.close.replace(/\s+>$/, '>')
+            );
+          case 'text': {
+            let text = node.text.replace(/\s+/g, ' ');
+            const previous = nodes[index - 1];
+            const next = nodes[index + 1];
+            if ((index === 0 && inBlock) || isBlock(previous)) text = text.trimStart();
+            if ((index === nodes.length - 1 && inBlock) || isBlock(next)) text = text.trimEnd();
+            return text;
+          }
+        }
+      })
+      .join('');
+  },
+
+  /**
+   * Minify opening tag: collapse whitespace and drop optional attribute quotes
+   * @param tag Opening tag as written
+   */
+  minifyTag(tag: string): string {
+    const match = /^<([^\s/>]+)([\s\S]*?)(\/?)>$/.exec(tag);
+    if (!match) return tag;
+
+    const name = match[1]!;
+    const attributes: string[] = [];
+    ATTRIBUTE.lastIndex = 0;
+    let attribute: RegExpExecArray | null;
+
+    while ((attribute = ATTRIBUTE.exec(match[2]!))) {
+      const value = attribute[2] ?? attribute[3] ?? attribute[4];
+      if (value === undefined) {
+        attributes.push(attribute[1]!);
+      } else if (/^[^\s"'=<>`]+$/.test(value)) {
+        attributes.push(`${attribute[1]}=${value}`);
+      } else {
+        attributes.push(`${attribute[1]}=${value.includes('"') ? `'${value}'` : `"${value}"`}`);
+      }
+    }
+
+    // The slash is meaningless on void elements; elsewhere (e.g. SVG) it is kept
+    const selfClosing = match[3] && !VOID_TAGS.has(name.toLowerCase()) ? ' /' : '';
+    return `<${[name, ...attributes].join(' ')}${selfClosing}>`;
+  },
+
+  /**
+   * Serialize node as written (whitespace untouched)
+   * @param node Node to serialize
+   */
+  serialize(node: FormatNode): string {
+    if (node.kind !== 'element') return node.text;
+    const content = node.raw ?? node.children.map(child => this.serialize(child)).join('');
+    return `${node.open}${content}${node.close}`;
+  },
+};
@@ -0,0 +1,128 @@
+/**
+ * HTML import helper for Visual HTML Builder
+ * Parses existing markup into builder elements and an HTML template
+ */
+import { ElementTypesHelper, type AnyElementType } from './ElementTypesHelper';
+import { HTMLTemplateHelper, type HTMLTemplate } from './HTMLTemplateHelper';
+import type { SerializedElement } from './SerializationHelper';
+
+/** Element type that keeps unrecognized markup as is */
+export const RAW_HTML_TYPE = 'html';
+
+export interface HTMLImportResult {
+  elements: SerializedElement[];
+  /** Template read from the document (null when the markup is a fragment without <html>/<head>) */
+  template: HTMLTemplate | null;
+}
+
+export const HTMLImportHelper = {
+  /**
+   * Parse HTML into elements and template settings
+   * @param html Full document or body fragment
+   * @param elementTypes Registered element types (their matches/parse hooks map the nodes)
+   * @param createId Element ID generator
+   */
+  parse(
+    html: string,
+    elementTypes: Record<string, AnyElementType>,
+    createId: () => number = HTMLImportHelper.createIdGenerator()
+  ): HTMLImportResult {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const isDocument = /<(html|head)[\s>]/i.test(html);
+
+    return {
+      elements: this.parseNodes(Array.from(doc.body.childNodes), elementTypes, createId),
+      template: isDocument ? HTMLTemplateHelper.parseTemplate(doc) : null,
+    };
+  },
+
+  /**
+   * Map nodes to elements
+   * Whitespace and comments are skipped; loose text becomes a text element.
+   * @param nodes Nodes to map
+   * @param elementTypes Registered element types
+   * @param createId Element ID generator
+   */
+  parseNodes(
+    nodes: Node[],
+    elementTypes: Record<string, AnyElementType>,
+    createId: () => number
+  ): SerializedElement[] {
+    return nodes.flatMap(node => {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        return [this.parseElement(node as Element, elementTypes, createId)];
+      }
+
+      const text = node.nodeType === Node.TEXT_NODE ? (node.textContent ?? '').trim() : '';
+      if (!text) return [];
+
+      return elementTypes.text
+        ? [{ id: createId(), type: 'text', props: { content: text.replace(/\s+/g, ' ') } }]
+        : [this.createRawElement(text, createId())];
+    });
+  },
+
+  /**
+   * Map a node to the element type that recognizes it (raw HTML block if none does)
+   * @param node Node to map
+   * @param elementTypes Registered element types
+   * @param createId Element ID generator
+   */
+  parseElement(
+    node: Element,
+    elementTypes: Record<string, AnyElementType>,
+    createId: () => number
+  ): SerializedElement {
+    const match = this.findElementType(node, elementTypes);
+    if (!match) return this.createRawElement(node.outerHTML, createId());
+
+    const [type, elementType] = match;
+    const parsed = elementType.parse!(node);
+    const element: SerializedElement = {
+      id: createId(),
+      type,
+      props: parsed.props as Record<string, unknown>,
+    };
+
+    if (ElementTypesHelper.isContainer(elementType)) {
+      element.children = elementType.slots!.map((_, slot) =>
+        this.parseNodes(parsed.slots?.[slot] ?? [], elementTypes, createId)
+      );
+    }
+
+    return element;
+  },
+
+  /**
+   * Find element type whose matches hook accepts the node
+   * Types registered later are asked first, so custom types win over the built-in ones.
+   * @param node Node to map
+   * @param elementTypes Registered element types
+   */
+  findElementType(
+    node: Element,
+    elementTypes: Record<string, AnyElementType>
+  ): [string, AnyElementType] | null {
+    const candidates = Object.entries(elementTypes).reverse();
+    return (
+      candidates.find(([, elementType]) => elementType.parse && elementType.matches?.(node)) ?? null
+    );
+  },
+
+  /**
+   * Create raw HTML element
+   * @param html Markup to keep
+   * @param id Element ID
+   */
+  createRawElement(html: string, id: number): SerializedElement {
+    return { id, type: RAW_HTML_TYPE, props: { html } };
+  },
+
+  /**
+   * Create sequential ID generator
+   */
+  createIdGenerator(): () => number {
+    let id = 0;
+    return () => ++id;
+  },
+};
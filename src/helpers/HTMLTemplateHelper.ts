@@ -42,6 +42,10 @@ export interface HTMLTemplate {
   htmlAttributes?: Record<string, string>;
   head?: HeadConfig;
   bodyAttributes?: Record<string, string>;
+  /** Inbox preview text placed hidden at the top of email exports */
+  preheader?: string;
+  /** Doctype of email exports (default: XHTML 1.0 Transitional) */
+  emailDoctype?: 'xhtml-transitional' | 'html5';
 }
 
 export const HTMLTemplateHelper = {
@@ -111,8 +115,9 @@ export const HTMLTemplateHelper = {
   /**
    * Build head element HTML
    * @param headConfig Head element configuration
+   * @param styles Generated CSS written in a style element (e.g. responsive element styles)
    */
-  buildHeadSection(headConfig: HeadConfig): string {
+  buildHeadSection(headConfig: HeadConfig, styles: string = ''): string {
     const parts: string[] = [];
 
     // Title element
@@ -170,6 +175,18 @@ export const HTMLTemplateHelper = {
       parts.push(...customLines);
     }
 
+    // Generated styles
+    if (styles.trim()) {
+      parts.push('  <style>');
+      parts.push(
+        ...styles
+          .trim()
+          .split('\n')
+          .map(line => `    ${line}`)
+      );
+      parts.push('  </style>');
+    }
+
     return parts.join('\n');
   },
 
@@ -177,8 +194,9 @@ export const HTMLTemplateHelper = {
    * Generate complete HTML document
    * @param bodyContent Body element content
    * @param template HTML template settings
+   * @param styles Generated CSS for the head
    */
-  generateFullHTML(bodyContent: string, template: HTMLTemplate = {}): string {
+  generateFullHTML(bodyContent: string, template: HTMLTemplate = {}, styles: string = ''): string {
     // Merge with default template
     const defaultTemplate = this.getDefaultTemplate();
     const mergedTemplate: HTMLTemplate = {
@@ -209,7 +227,7 @@ export const HTMLTemplateHelper = {
     const bodyAttributes = this.buildAttributes(mergedTemplate.bodyAttributes || {});
 
     // Build head element
-    const headContent = this.buildHeadSection(mergedTemplate.head || {});
+    const headContent = this.buildHeadSection(mergedTemplate.head || {}, styles);
 
     // Build complete HTML
     const html = [
@@ -227,6 +245,52 @@ export const HTMLTemplateHelper = {
     return html;
   },
 
+  /**
+   * Read template settings from a parsed document
+   * Head elements other than title, meta, link and script are kept in customHead.
+   * @param doc Parsed HTML document
+   */
+  parseTemplate(doc: Document): HTMLTemplate {
+    const readAttributes = (el: Element): Record<string, string> =>
+      Object.fromEntries(Array.from(el.attributes, attr => [attr.name, attr.value]));
+
+    const head: HeadConfig = { meta: [], links: [], scripts: [], customHead: '' };
+    const customHead: string[] = [];
+
+    Array.from(doc.head.children).forEach(el => {
+      switch (el.nodeName) {
+        case 'TITLE':
+          head.title = el.textContent?.trim() ?? '';
+          break;
+        case 'META':
+          head.meta!.push(readAttributes(el));
+          break;
+        case 'LINK':
+          head.links!.push(readAttributes(el));
+          break;
+        case 'SCRIPT': {
+          const script: ScriptElement = readAttributes(el);
+          if (el.hasAttribute('async')) script.async = true;
+          if (el.hasAttribute('defer')) script.defer = true;
+          const content = el.textContent?.trim();
+          if (content) script.content = content;
+          head.scripts!.push(script);
+          break;
+        }
+        default:
+          customHead.push(el.outerHTML);
+      }
+    });
+    head.customHead = customHead.join('\n');
+
+    return {
+      doctype: doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>` : undefined,
+      htmlAttributes: readAttributes(doc.documentElement),
+      head,
+      bodyAttributes: readAttributes(doc.body),
+    };
+  },
+
   /**
    * Update template (merge with existing settings)
    * @param currentTemplate Current template
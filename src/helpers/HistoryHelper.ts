@@ -0,0 +1,160 @@
+/**
+ * History helper for Visual HTML Builder
+ * Manages bounded undo/redo stacks of document snapshots
+ */
+
+export type HistoryAction = 'undo' | 'redo';
+
+export interface HistoryOptions {
+  limit?: number;
+  coalesceDelay?: number;
+}
+
+export interface HistoryEntry<T> {
+  snapshot: T;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+export interface HistoryState<T> {
+  undoStack: HistoryEntry<T>[];
+  redoStack: HistoryEntry<T>[];
+  limit: number;
+  coalesceDelay: number;
+}
+
+export const HistoryHelper = {
+  /**
+   * Get default history options
+   */
+  getDefaultOptions(): Required<HistoryOptions> {
+    return {
+      limit: 100,
+      coalesceDelay: 1000,
+    };
+  },
+
+  /**
+   * Create empty history state
+   * @param options History options
+   */
+  createHistory<T>(options: HistoryOptions = {}): HistoryState<T> {
+    const finalOptions = { ...this.getDefaultOptions(), ...options };
+
+    return {
+      undoStack: [],
+      redoStack: [],
+      limit: Math.max(1, finalOptions.limit),
+      coalesceDelay: finalOptions.coalesceDelay,
+    };
+  },
+
+  /**
+   * Record the state before a mutation
+   * Consecutive records sharing a coalesce key within the coalesce delay are merged
+   * into the first one, so a burst of typing becomes a single undo step.
+   * @param history Target history
+   * @param snapshot State before the mutation
+   * @param coalesceKey Key identifying mergeable mutations
+   * @param now Current timestamp
+   * @returns True if a new undo step was created
+   */
+  record<T>(
+    history: HistoryState<T>,
+    snapshot: T,
+    coalesceKey?: string,
+    now: number = Date.now()
+  ): boolean {
+    // Any new mutation invalidates the redo branch
+    history.redoStack = [];
+
+    const lastEntry = history.undoStack[history.undoStack.length - 1];
+    if (
+      coalesceKey &&
+      lastEntry &&
+      lastEntry.coalesceKey === coalesceKey &&
+      now - lastEntry.timestamp <= history.coalesceDelay
+    ) {
+      lastEntry.timestamp = now;
+      return false;
+    }
+
+    history.undoStack.push({ snapshot, coalesceKey, timestamp: now });
+
+    // Drop the oldest steps beyond the limit
+    if (history.undoStack.length > history.limit) {
+      history.undoStack.splice(0, history.undoStack.length - history.limit);
+    }
+
+    return true;
+  },
+
+  /**
+   * Step back one entry
+   * @param history Target history
+   * @param current Current state, pushed onto the redo stack
+   * @returns State to restore (null if nothing to undo)
+   */
+  undo<T>(history: HistoryState<T>, current: T): T | null {
+    const entry = history.undoStack.pop();
+    if (!entry) return null;
+
+    history.redoStack.push({ snapshot: current, timestamp: Date.now() });
+    return entry.snapshot;
+  },
+
+  /**
+   * Step forward one entry
+   * @param history Target history
+   * @param current Current state, pushed back onto the undo stack
+   * @returns State to restore (null if nothing to redo)
+   */
+  redo<T>(history: HistoryState<T>, current: T): T | null {
+    const entry = history.redoStack.pop();
+    if (!entry) return null;
+
+    history.undoStack.push({ snapshot: current, timestamp: Date.now() });
+    return entry.snapshot;
+  },
+
+  /**
+   * Check if an undo step is available
+   */
+  canUndo<T>(history: HistoryState<T>): boolean {
+    return history.undoStack.length > 0;
+  },
+
+  /**
+   * Check if a redo step is available
+   */
+  canRedo<T>(history: HistoryState<T>): boolean {
+    return history.redoStack.length > 0;
+  },
+
+  /**
+   * Remove all undo and redo steps
+   */
+  clear<T>(history: HistoryState<T>): void {
+    history.undoStack = [];
+    history.redoStack = [];
+  },
+
+  /**
+   * Resolve keyboard shortcut to history action
+   * Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z and Ctrl/Cmd+Y redo.
+   * @param event Keyboard event
+   */
+  getShortcutAction(event: KeyboardEvent): HistoryAction | null {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z') {
+      return event.shiftKey ? 'redo' : 'undo';
+    }
+    if (key === 'y' && !event.shiftKey) {
+      return 'redo';
+    }
+
+    return null;
+  },
+};
@@ -2,17 +2,29 @@
  * Iframe preview helper for HTML GUI Editor
  * Manages preview functionality isolated from parent page styles
  */
+import { HistoryHelper } from './HistoryHelper';
+import { InlineEditHelper } from './InlineEditHelper';
+import type { RichText } from './RichTextHelper';
+import type { ElementLocation } from './ElementTreeHelper';
+import type { FrameSize } from './PreviewDeviceHelper';
 
 export interface PreviewCallbacks {
   onElementClick?: (elementId: number) => void;
   onElementDragStart?: (elementId: number) => void;
   onElementDragEnd?: () => void;
   onDrop?: (newOrder: number[]) => void;
+  onElementMove?: (elementId: number, location: ElementLocation) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  /** A prop was edited in place (see InlineEditHelper) */
+  onInlineEdit?: (elementId: number, path: string, value: RichText) => void;
 }
 
 export interface IframePreviewOptions {
   enableDragDrop?: boolean;
   enableElementSelection?: boolean;
+  /** Edit titles, text and list items by double-clicking them in the preview */
+  enableInlineEditing?: boolean;
   customStyles?: string;
   sandboxPermissions?: string[];
 }
@@ -25,6 +37,7 @@ export const IframePreviewHelper = {
     return {
       enableDragDrop: true,
       enableElementSelection: true,
+      enableInlineEditing: true,
       customStyles: '',
       sandboxPermissions: ['allow-scripts', 'allow-same-origin'],
     };
@@ -114,10 +127,10 @@ export const IframePreviewHelper = {
       body {
         margin: 0;
         padding: 20px;
-        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        font-family: var(--font-body, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
         line-height: 1.6;
-        color: #333;
-        background: #fff;
+        color: var(--color-text, #333);
+        background: var(--color-background, #fff);
       }
 
       .preview-content {
@@ -198,6 +211,46 @@ export const IframePreviewHelper = {
         user-select: none;
       }
 
+      .preview-container > .element-content {
+        pointer-events: auto;
+        user-select: auto;
+      }
+
+      .element-content [data-inline-path] {
+        pointer-events: auto;
+      }
+
+      .element-content [contenteditable="true"] {
+        cursor: text;
+        user-select: text;
+        outline: 2px solid #007bff;
+        outline-offset: 2px;
+      }
+
+      .preview-slot {
+        min-height: 40px;
+        padding: 4px;
+        border: 1px dashed #ccc;
+        border-radius: 4px;
+      }
+
+      .preview-slot.is-empty::before {
+        content: attr(data-slot-label) ' – drop elements here';
+        display: block;
+        padding: 8px;
+        color: #999;
+        font-size: 12px;
+        font-style: italic;
+        text-align: center;
+      }
+
+      .preview-slot.drop-target,
+      .preview-content.drop-target {
+        outline: 2px dashed #007bff;
+        outline-offset: -2px;
+        background: rgba(0, 123, 255, 0.05);
+      }
+
       .empty-state {
         text-align: center;
         color: #999;
@@ -217,7 +270,7 @@ export const IframePreviewHelper = {
         margin: 0 0 10px 0;
       }
 
-      img {
+      img, video {
         max-width: 100%;
         height: auto;
       }
@@ -230,6 +283,21 @@ export const IframePreviewHelper = {
       li {
         margin-bottom: 5px;
       }
+
+      table {
+        border-collapse: collapse;
+        margin: 0 0 10px 0;
+      }
+
+      caption {
+        text-align: left;
+        margin-bottom: 5px;
+      }
+
+      th, td {
+        border: 1px solid #ddd;
+        padding: 6px 10px;
+      }
     `;
   },
 
@@ -294,6 +362,33 @@ export const IframePreviewHelper = {
       });
     }
 
+    // Undo/redo shortcuts (the iframe document has its own keyboard focus)
+    iframeDoc.addEventListener('keydown', e => {
+      // Text being edited in place keeps the browser's own undo
+      if ((e.target as HTMLElement).closest?.('[contenteditable="true"]')) return;
+      const action = HistoryHelper.getShortcutAction(e);
+      const callback =
+        action === 'undo' ? callbacks.onUndo : action === 'redo' ? callbacks.onRedo : undefined;
+      if (callback) {
+        e.preventDefault();
+        callback();
+      }
+    });
+
+    // Inline editing of marked props
+    if (finalOptions.enableInlineEditing && callbacks.onInlineEdit) {
+      const onInlineEdit = callbacks.onInlineEdit;
+      iframeDoc.addEventListener('dblclick', e => {
+        const node = (e.target as HTMLElement).closest?.<HTMLElement>('[data-inline-path]');
+        const elementDiv = node?.closest('.preview-element');
+        if (!node || !elementDiv) return;
+
+        e.preventDefault();
+        const elementId = parseInt(elementDiv.getAttribute('data-element-id') || '0');
+        InlineEditHelper.start(node, (path, value) => onInlineEdit(elementId, path, value));
+      });
+    }
+
     // Drag & drop events
     if (finalOptions.enableDragDrop) {
       this.setupIframeDragDrop(iframe, callbacks);
@@ -333,6 +428,7 @@ export const IframePreviewHelper = {
     iframeDoc.addEventListener('dragend', e => {
       const target = e.target as HTMLElement;
       const previewElement = target.closest('.preview-element');
+      this.clearDropTargets(iframeDoc);
 
       if (previewElement) {
         previewElement.classList.remove('dragging');
@@ -351,29 +447,42 @@ export const IframePreviewHelper = {
         e.dataTransfer.dropEffect = 'move';
       }
 
-      const previewContent = iframeDoc.querySelector('.preview-content') as HTMLElement;
-      if (previewContent) {
-        const afterElement = this.getDragAfterElementInIframe(previewContent, e.clientY);
-        const draggedEl = previewContent.querySelector('.dragging');
+      const draggedEl = iframeDoc.querySelector('.preview-element.dragging');
+      const dropZone = this.getDropZone(e.target as Element, draggedEl);
+      if (draggedEl && dropZone) {
+        const afterElement = this.getDragAfterElementInIframe(dropZone, e.clientY);
 
-        if (draggedEl) {
-          if (afterElement == null) {
-            previewContent.appendChild(draggedEl);
-          } else {
-            previewContent.insertBefore(draggedEl, afterElement);
-          }
+        if (afterElement == null) {
+          dropZone.appendChild(draggedEl);
+        } else {
+          dropZone.insertBefore(draggedEl, afterElement);
         }
+
+        // Nesting-aware drop indicator
+        this.clearDropTargets(iframeDoc);
+        dropZone.classList.add('drop-target');
+        this.updateEmptySlots(iframeDoc);
       }
     });
 
     // Drop
     iframeDoc.addEventListener('drop', e => {
       e.preventDefault();
+      this.clearDropTargets(iframeDoc);
+
+      const draggedEl = iframeDoc.querySelector('.preview-element.dragging');
+      if (draggedEl && callbacks.onElementMove) {
+        const location = this.getElementLocation(draggedEl);
+        if (location) {
+          const elementId = parseInt(draggedEl.getAttribute('data-element-id') || '0');
+          callbacks.onElementMove(elementId, location);
+        }
+      }
 
       if (callbacks.onDrop) {
         const previewContent = iframeDoc.querySelector('.preview-content');
         if (previewContent) {
-          const previewElements = [...previewContent.querySelectorAll('.preview-element')];
+          const previewElements = [...previewContent.querySelectorAll(':scope > .preview-element')];
           const newOrder = previewElements.map(el => {
             const elementId = el.getAttribute('data-element-id');
             return parseInt(elementId || '0');
@@ -384,13 +493,72 @@ export const IframePreviewHelper = {
     });
   },
 
+  /**
+   * Get the drop zone (container slot or top-level content) under the pointer
+   * Slots inside the dragged element are skipped so an element cannot be dropped into itself.
+   * @param target Element under the pointer
+   * @param draggedEl Element being dragged
+   */
+  getDropZone(target: Element | null, draggedEl: Element | null): HTMLElement | null {
+    let zone = target?.closest('.preview-slot, .preview-content') || null;
+
+    while (zone && draggedEl && draggedEl.contains(zone)) {
+      zone = draggedEl.parentElement?.closest('.preview-slot, .preview-content') || null;
+    }
+
+    return zone as HTMLElement | null;
+  },
+
+  /**
+   * Read element location from its position in the preview DOM
+   * @param previewElement Preview element
+   */
+  getElementLocation(previewElement: Element): ElementLocation | null {
+    const zone = previewElement.parentElement;
+    if (!zone) return null;
+
+    const siblings = [...zone.querySelectorAll(':scope > .preview-element')];
+    const index = siblings.indexOf(previewElement);
+
+    if (zone.classList.contains('preview-content')) {
+      return { parentId: null, slot: 0, index };
+    }
+    if (zone.classList.contains('preview-slot')) {
+      return {
+        parentId: parseInt(zone.getAttribute('data-parent-id') || '0'),
+        slot: parseInt(zone.getAttribute('data-slot') || '0'),
+        index,
+      };
+    }
+
+    return null;
+  },
+
+  /**
+   * Remove drop indicators
+   */
+  clearDropTargets(iframeDoc: Document): void {
+    iframeDoc.querySelectorAll('.drop-target').forEach(el => el.classList.remove('drop-target'));
+  },
+
+  /**
+   * Refresh empty-slot placeholders after the DOM changed during dragging
+   */
+  updateEmptySlots(iframeDoc: Document): void {
+    iframeDoc.querySelectorAll('.preview-slot').forEach(slot => {
+      slot.classList.toggle('is-empty', !slot.querySelector(':scope > .preview-element'));
+    });
+  },
+
   /**
    * Get element position after drag within iframe
    * @param container Container element
    * @param y Y coordinate
    */
   getDragAfterElementInIframe(container: HTMLElement, y: number): Element | null {
-    const draggableElements = [...container.querySelectorAll('.preview-element:not(.dragging)')];
+    const draggableElements = [
+      ...container.querySelectorAll(':scope > .preview-element:not(.dragging)'),
+    ];
 
     return draggableElements.reduce(
       (closest: { offset: number; element?: Element }, child) => {
@@ -436,6 +604,24 @@ export const IframePreviewHelper = {
     head.appendChild(style);
   },
 
+  /**
+   * Set size and zoom of the preview frame
+   * @param iframe Target iframe
+   * @param size Frame size in pixels (100% for missing dimensions)
+   * @param scale Zoom factor (applied with a CSS transform)
+   */
+  setFrameSize(iframe: HTMLIFrameElement, size: FrameSize, scale: number = 1): void {
+    iframe.style.width = size.width === undefined ? '100%' : `${size.width}px`;
+    iframe.style.height = size.height === undefined ? '100%' : `${size.height}px`;
+    // A fixed height must not be stretched by the flex layout of the preview area
+    iframe.style.flex = size.height === undefined ? '' : 'none';
+    iframe.style.transform = scale === 1 ? '' : `scale(${scale})`;
+    iframe.style.transformOrigin = 'top center';
+    // Transforms do not change the layout box, so the margin takes up the height difference
+    iframe.style.marginBottom =
+      scale === 1 || size.height === undefined ? '' : `${(scale - 1) * size.height}px`;
+  },
+
   /**
    * Get iframe document
    * @param iframe Target iframe
@@ -0,0 +1,165 @@
+/**
+ * Inline edit helper for Visual HTML Builder
+ * Editing props in place in the preview: nodes holding inline-editable props are marked in the
+ * preview markup, and a double-clicked node becomes contentEditable until the edit is committed
+ * (Enter, leaving the node) or cancelled (Escape)
+ */
+import { RichTextHelper, type RichText } from './RichTextHelper';
+
+/** Prop edited in place in the preview, and the rendered node holding it */
+export interface InlineEditableProp {
+  /** Prop path (e.g. "text" or "items.0") */
+  path: string;
+  /** Selector of the node inside the rendered markup (the first match is used) */
+  selector: string;
+  /** Store the edit as rich text, keeping inline formatting (default: plain string) */
+  richText?: boolean;
+  /** Allow line breaks, typed with Shift+Enter (default: false) */
+  multiline?: boolean;
+}
+
+// Cleanup of the node being edited
+const activeEdits = new WeakMap<HTMLElement, () => void>();
+
+export const InlineEditHelper = {
+  /**
+   * Mark the nodes of inline-editable props in rendered markup
+   * @param html Rendered markup of an element
+   * @param props Inline-editable props of the element
+   */
+  markEditable(html: string, props: InlineEditableProp[]): string {
+    if (props.length === 0) return html;
+
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    props.forEach(prop => {
+      const node = template.content.querySelector(prop.selector);
+      if (!node || node.hasAttribute('data-inline-path')) return;
+
+      node.setAttribute('data-inline-path', prop.path);
+      if (prop.richText) node.setAttribute('data-inline-rich', '');
+      if (prop.multiline) node.setAttribute('data-inline-multiline', '');
+    });
+    return template.innerHTML;
+  },
+
+  /**
+   * Read the value of an edited node
+   * Plain props get the text only; line breaks of single-line props become spaces.
+   * @param node Node marked by markEditable
+   */
+  readValue(node: HTMLElement): RichText {
+    const multiline = node.hasAttribute('data-inline-multiline');
+    const spans = RichTextHelper.fromDOM(node).map(span => ({
+      ...span,
+      text: multiline ? span.text : span.text.replace(/\n/g, ' '),
+    }));
+    return node.hasAttribute('data-inline-rich')
+      ? RichTextHelper.simplify(spans)
+      : RichTextHelper.toPlainText(spans);
+  },
+
+  /**
+   * Replace the selection with plain text (pasted text, typed line breaks)
+   * @param node Edited node
+   * @param text Inserted text
+   */
+  insertPlainText(node: HTMLElement, text: string): void {
+    const doc = node.ownerDocument;
+    const selection = doc.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    if (!range || !node.contains(range.commonAncestorContainer)) return;
+
+    const lines = node.hasAttribute('data-inline-multiline')
+      ? text.split(/\r?\n/)
+      : [text.replace(/\s*\r?\n\s*/g, ' ')];
+    const fragment = doc.createDocumentFragment();
+    lines.forEach((line, index) => {
+      if (index > 0) fragment.appendChild(doc.createElement('br'));
+      if (line) fragment.appendChild(doc.createTextNode(line));
+    });
+    const last = fragment.lastChild;
+
+    range.deleteContents();
+    range.insertNode(fragment);
+    // A line break at the end needs a placeholder to show the empty line
+    if (last?.nodeName === 'BR' && !last.nextSibling) {
+      const placeholder = doc.createElement('br');
+      placeholder.setAttribute('data-placeholder', '');
+      node.appendChild(placeholder);
+    }
+    if (last) {
+      range.setStartAfter(last);
+      range.collapse(true);
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    }
+  },
+
+  /**
+   * Make a marked node editable until the edit is committed or cancelled
+   * @param node Node marked by markEditable
+   * @param onCommit Receives the prop path and the edited value
+   */
+  start(node: HTMLElement, onCommit: (path: string, value: RichText) => void): void {
+    const path = node.getAttribute('data-inline-path');
+    if (path === null || activeEdits.has(node)) return;
+
+    const original = node.innerHTML;
+    const previewElement = node.closest('.preview-element');
+
+    const finish = (commit: boolean) => {
+      activeEdits.get(node)?.();
+      if (commit) {
+        onCommit(path, this.readValue(node));
+      } else {
+        node.innerHTML = original;
+      }
+    };
+    const onKeydown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(false);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        if (e.shiftKey && node.hasAttribute('data-inline-multiline')) {
+          this.insertPlainText(node, '\n');
+        } else {
+          finish(true);
+        }
+      }
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      e.preventDefault();
+      this.insertPlainText(node, e.clipboardData?.getData('text/plain') ?? '');
+    };
+    const onBlur = () => finish(true);
+
+    node.addEventListener('keydown', onKeydown);
+    node.addEventListener('paste', onPaste);
+    node.addEventListener('blur', onBlur);
+    activeEdits.set(node, () => {
+      activeEdits.delete(node);
+      node.removeEventListener('keydown', onKeydown);
+      node.removeEventListener('paste', onPaste);
+      node.removeEventListener('blur', onBlur);
+      node.removeAttribute('contenteditable');
+      previewElement?.setAttribute('draggable', 'true');
+    });
+
+    // Dragging the element would take over text selection with the mouse
+    previewElement?.setAttribute('draggable', 'false');
+    node.setAttribute('contenteditable', 'true');
+    node.focus();
+
+    // Keep the word selected by the double click, otherwise select the whole text
+    const selection = node.ownerDocument.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    if (!range || !node.contains(range.commonAncestorContainer)) {
+      const all = node.ownerDocument.createRange();
+      all.selectNodeContents(node);
+      selection?.removeAllRanges();
+      selection?.addRange(all);
+    }
+  },
+};
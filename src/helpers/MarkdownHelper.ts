@@ -0,0 +1,316 @@
+/**
+ * Markdown helper for Visual HTML Builder
+ * Converts elements to CommonMark and parses Markdown back into elements
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+import { RichTextHelper } from './RichTextHelper';
+import type { AnyElementType } from './ElementTypesHelper';
+import type { SerializedElement } from './SerializationHelper';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM = /^ {0,3}([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const IMAGE_ONLY = /^!\[((?:\\.|[^\]])*)\]\(\s*(?:<([^>]*)>|([^\s)]*))(?:\s+"[^"]*")?\s*\)$/;
+const ESCAPABLE = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g;
+
+/**
+ * Check if a line starts a block other than a paragraph continuation
+ */
+const startsBlock = (line: string): boolean =>
+  ATX_HEADING.test(line) ||
+  THEMATIC_BREAK.test(line) ||
+  FENCE.test(line) ||
+  LIST_ITEM.test(line) ||
+  /^ {0,3}>/.test(line) ||
+  /^ {0,3}<[a-zA-Z/!]/.test(line);
+
+export const MarkdownHelper = {
+  /**
+   * Escape characters that Markdown would treat as markup
+   * @param text Plain text
+   */
+  escapeText(text: string): string {
+    return text
+      .replace(/[\\`*_[\]<>]/g, '\\$&')
+      .replace(/^(\s*)([#+\-=])(?=\s|$)/gm, '$1\\$2')
+      .replace(/^(\s*\d+)([.)])(?=\s|$)/gm, '$1\\$2')
+      .replace(/^(\s*)!(?=\[)/gm, '$1\\!');
+  },
+
+  /**
+   * Convert elements to Markdown
+   * Types without a toMarkdown hook are written as raw HTML blocks.
+   * @param elements Root elements
+   * @param elementTypes Registered element types
+   */
+  exportElements(
+    elements: SerializedElement[],
+    elementTypes: Record<string, AnyElementType>
+  ): string {
+    return elements
+      .map(element => this.elementToMarkdown(element, elementTypes))
+      .filter(block => block.trim() !== '')
+      .join('\n\n');
+  },
+
+  /**
+   * Convert single element (and its children) to Markdown
+   * @param element Element to convert
+   * @param elementTypes Registered element types
+   */
+  elementToMarkdown(
+    element: SerializedElement,
+    elementTypes: Record<string, AnyElementType>
+  ): string {
+    const elementType = elementTypes[element.type];
+    if (!elementType) return '';
+
+    if (elementType.toMarkdown) {
+      const children = element.children?.map(slot => this.exportElements(slot, elementTypes));
+      return elementType.toMarkdown(element.props, children);
+    }
+
+    const renderHTML = (item: SerializedElement): string =>
+      elementTypes[item.type]?.render(
+        item.props,
+        item.children?.map(slot => slot.map(renderHTML).join('\n'))
+      ) || '';
+    return renderHTML(element);
+  },
+
+  /**
+   * Parse Markdown into elements
+   * Headings, paragraphs, images and lists map to title/text/image/list (paragraphs with
+   * emphasis, code or links become rich text); other blocks (code, quotes, rules, HTML, and
+   * paragraphs with inline images or HTML) become raw HTML blocks.
+   * @param markdown Markdown source
+   * @param createId Element ID generator
+   */
+  parse(
+    markdown: string,
+    createId: () => number = MarkdownHelper.createIdGenerator()
+  ): SerializedElement[] {
+    const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+    const elements: SerializedElement[] = [];
+    const push = (type: string, props: Record<string, unknown>) =>
+      elements.push({ id: createId(), type, props });
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i]!;
+
+      if (line.trim() === '') {
+        i++;
+        continue;
+      }
+
+      const heading = ATX_HEADING.exec(line);
+      if (heading) {
+        push('title', { text: this.toPlainText(heading[2] ?? ''), level: heading[1]!.length });
+        i++;
+        continue;
+      }
+
+      const fence = FENCE.exec(line);
+      if (fence) {
+        const marker = fence[1]!;
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !lines[i]!.trim().startsWith(marker)) {
+          code.push(lines[i]!);
+          i++;
+        }
+        i++;
+        const language = fence[2]!.trim().split(/\s+/)[0];
+        const attributes = language
+          ? ` class="language-${UtilityHelpers.escapeAttribute(language)}"`
+          : '';
+        push('html', {
+          html: `<pre><code${attributes}>${UtilityHelpers.escapeHtml(code.join('\n'))}</code></pre>`,
+        });
+        continue;
+      }
+
+      if (THEMATIC_BREAK.test(line)) {
+        push('html', { html: '<hr>' });
+        i++;
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        const ordered = /\d/.test(LIST_ITEM.exec(line)![1]!);
+        const items: string[] = [];
+
+        while (i < lines.length) {
+          const current = lines[i]!;
+          const item = LIST_ITEM.exec(current);
+
+          if (item && /\d/.test(item[1]!) === ordered) {
+            items.push(item[2] ?? '');
+          } else if (current.trim() === '') {
+            // A blank line only continues the list when another item follows
+            const next = lines[i + 1];
+            const nextItem = next !== undefined ? LIST_ITEM.exec(next) : null;
+            if (!nextItem || /\d/.test(nextItem[1]!) !== ordered) break;
+          } else if (/^\s+/.test(current) || !startsBlock(current)) {
+            // Indented or lazy continuation lines belong to the previous item
+            items[items.length - 1] += ` ${current.trim()}`;
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        push('list', { items: items.map(item => this.toPlainText(item.trim())), ordered });
+        continue;
+      }
+
+      if (/^ {0,3}>/.test(line)) {
+        const quote: string[] = [];
+        while (i < lines.length && lines[i]!.trim() !== '') {
+          quote.push(lines[i]!.replace(/^ {0,3}> ?/, ''));
+          i++;
+        }
+        push('html', {
+          html: `<blockquote><p>${this.renderInline(quote.join('\n'))}</p></blockquote>`,
+        });
+        continue;
+      }
+
+      if (/^ {0,3}<[a-zA-Z/!]/.test(line)) {
+        const html: string[] = [];
+        while (i < lines.length && lines[i]!.trim() !== '') {
+          html.push(lines[i]!);
+          i++;
+        }
+        push('html', { html: html.join('\n') });
+        continue;
+      }
+
+      // Paragraph (or setext heading when underlined)
+      const paragraph: string[] = [];
+      let level = 0;
+      while (i < lines.length && lines[i]!.trim() !== '') {
+        const current = lines[i]!;
+        const underline = SETEXT_UNDERLINE.exec(current);
+        if (paragraph.length > 0 && underline) {
+          level = underline[1]!.startsWith('=') ? 1 : 2;
+          i++;
+          break;
+        }
+        if (paragraph.length > 0 && startsBlock(current)) break;
+        paragraph.push(current);
+        i++;
+      }
+
+      const text = paragraph.map(part => part.replace(/^ +/, '')).join('\n');
+      if (level > 0) {
+        push('title', { text: this.toPlainText(text.replace(/\n/g, ' ')), level });
+        continue;
+      }
+
+      const image = IMAGE_ONLY.exec(text.trim());
+      const src = image ? (image[2] ?? image[3] ?? '') : '';
+      if (image && RichTextHelper.isSafeHref(src)) {
+        push('image', { src, alt: this.unescape(image[1]!) });
+      } else if (this.hasInlineMarkup(text)) {
+        const html = `<p>${this.renderInline(text)}</p>`;
+        const template = document.createElement('template');
+        template.innerHTML = html;
+        const node = template.content.firstElementChild!;
+        if (RichTextHelper.canRepresent(node)) {
+          push('text', { content: RichTextHelper.simplify(RichTextHelper.fromDOM(node, true)) });
+        } else {
+          push('html', { html });
+        }
+      } else {
+        push('text', { content: this.toPlainText(text) });
+      }
+    }
+
+    return elements;
+  },
+
+  /**
+   * Check if text uses inline formatting that a plain text element cannot hold
+   * @param text Inline Markdown
+   */
+  hasInlineMarkup(text: string): boolean {
+    const unescaped = text.replace(ESCAPABLE, '');
+    return /[*_`]|\[[^\]]*\]\(|<[a-zA-Z/]/.test(unescaped);
+  },
+
+  /**
+   * Convert inline Markdown to plain text
+   * Hard line breaks (two trailing spaces or a backslash) are kept as newlines.
+   * @param text Inline Markdown
+   */
+  toPlainText(text: string): string {
+    return this.unescape(
+      text
+        // Mark hard breaks so they survive collapsing the soft ones
+        .replace(/(?: {2,}|\\)\n/g, '\uE000')
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/(?<!\\)(\*\*|__|\*|_|`)(.+?)(?<!\\)\1/g, '$2')
+        .replace(/\uE000/g, '\n')
+        .trim()
+    );
+  },
+
+  /**
+   * Remove backslash escapes
+   */
+  unescape(text: string): string {
+    return text.replace(ESCAPABLE, '$1');
+  },
+
+  /**
+   * Render inline Markdown (emphasis, code, links, images, line breaks) to HTML
+   * Links and images with disallowed URLs (javascript:, data:) are written as their text.
+   * @param text Inline Markdown
+   */
+  renderInline(text: string): string {
+    // Code spans and link/image markup are rendered first and kept out of the text escaping
+    const tokens: string[] = [];
+    const keep = (html: string) => {
+      tokens.push(html);
+      return `\uE000${tokens.length - 1}\uE000`;
+    };
+    const withoutTokens = text
+      .replace(/`([^`]+)`/g, (_, code: string) =>
+        keep(`<code>${UtilityHelpers.escapeHtml(code)}</code>`)
+      )
+      .replace(/!\[([^\]]*)\]\(([^)\s]*)\)/g, (_, alt: string, destination: string) => {
+        const src = this.unescape(destination);
+        return RichTextHelper.isSafeHref(src)
+          ? keep(
+              `<img src="${UtilityHelpers.escapeAttribute(src)}" alt="${UtilityHelpers.escapeAttribute(this.unescape(alt))}">`
+            )
+          : alt;
+      })
+      .replace(/\[([^\]]*)\]\(([^)\s]*)\)/g, (_, label: string, destination: string) => {
+        const href = this.unescape(destination);
+        return RichTextHelper.isSafeHref(href)
+          ? `${keep(`<a href="${UtilityHelpers.escapeAttribute(href)}">`)}${label}${keep('</a>')}`
+          : label;
+      });
+
+    return UtilityHelpers.escapeHtml(withoutTokens)
+      .replace(/(?<!\\)(\*\*|__)(.+?)(?<!\\)\1/g, '<strong>$2</strong>')
+      .replace(/(?<!\\)(\*|_)(.+?)(?<!\\)\1/g, '<em>$2</em>')
+      .replace(/(?: {2,}|\\)\n/g, '<br>\n')
+      .replace(ESCAPABLE, '$1')
+      .replace(/\uE000(\d+)\uE000/g, (_, index: string) => tokens[Number(index)] ?? '');
+  },
+
+  /**
+   * Create sequential ID generator
+   */
+  createIdGenerator(): () => number {
+    let id = 0;
+    return () => ++id;
+  },
+};
@@ -0,0 +1,208 @@
+/**
+ * Media helper for Visual HTML Builder
+ * MIME types of self-hosted video and audio files, and YouTube/Vimeo URLs read into the
+ * privacy-enhanced player, watch page and thumbnail URLs of embeds
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+
+export type MediaKind = 'video' | 'audio';
+
+export type EmbedProvider = 'youtube' | 'vimeo';
+
+/** Video recognized from a YouTube or Vimeo URL */
+export interface EmbedInfo {
+  provider: EmbedProvider;
+  id: string;
+  /** Start time in seconds */
+  start?: number;
+  /** Privacy hash of unlisted Vimeo videos */
+  hash?: string;
+}
+
+// MIME types of media files keyed by extension
+const MIME_TYPES: Record<MediaKind, Record<string, string>> = {
+  video: {
+    mp4: 'video/mp4',
+    m4v: 'video/mp4',
+    webm: 'video/webm',
+    ogv: 'video/ogg',
+    ogg: 'video/ogg',
+    mov: 'video/quicktime',
+  },
+  audio: {
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    aac: 'audio/aac',
+    oga: 'audio/ogg',
+    ogg: 'audio/ogg',
+    opus: 'audio/ogg',
+    wav: 'audio/wav',
+    weba: 'audio/webm',
+    flac: 'audio/flac',
+  },
+};
+
+const PROVIDER_NAMES: Record<EmbedProvider, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+};
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// Path prefixes of YouTube URLs that carry the video ID as the next segment
+const YOUTUBE_ID_PATHS = ['embed', 'shorts', 'live', 'v'];
+
+// Stylesheet of the click-to-play facade shown in embed iframes until the video is started
+const FACADE_STYLE =
+  '*{box-sizing:border-box;margin:0}html,body{height:100%;overflow:hidden;background:#000}' +
+  'a{position:relative;display:flex;align-items:center;justify-content:center;height:100%;color:#fff;font:600 16px/1.4 sans-serif;text-decoration:none}' +
+  'img{position:absolute;inset:0;width:100%;height:100%;object-fit:cover}' +
+  '.play{position:relative;width:68px;height:48px;border-radius:12px;background:rgba(0,0,0,.75);font-size:24px;line-height:48px;text-align:center}' +
+  'a:hover .play,a:focus .play{background:#f00}' +
+  '.title{position:absolute;top:0;left:0;right:0;padding:12px 16px;background:linear-gradient(rgba(0,0,0,.6),transparent);white-space:nowrap;overflow:hidden;text-overflow:ellipsis}';
+
+/**
+ * Read a start time given as seconds ("90") or in units ("1m30s", "1h2m")
+ */
+const parseStartTime = (value: string | null | undefined): number | undefined => {
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/.exec(value ?? '');
+  if (!value || !match) return undefined;
+  const seconds = Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  return seconds || undefined;
+};
+
+export const MediaHelper = {
+  /**
+   * Guess the MIME type of a media file from its extension
+   * @param src File URL
+   * @param kind Video or audio
+   * @returns MIME type, or an empty string for unknown extensions
+   */
+  getMimeType(src: string, kind: MediaKind): string {
+    const extension = /\.([a-z0-9]+)$/i.exec(src.trim().split(/[?#]/)[0] ?? '')?.[1];
+    return MIME_TYPES[kind][extension?.toLowerCase() ?? ''] ?? '';
+  },
+
+  /**
+   * Recognize a YouTube or Vimeo video from a watch page, share, embed or player URL
+   * @param url URL pasted by the user
+   * @returns Video info, or null for URLs of other sites
+   */
+  parseEmbedUrl(url: string): EmbedInfo | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return null;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+    const segments = parsed.pathname.split('/').filter(Boolean);
+
+    if (host === 'youtu.be' || host === 'youtube.com' || host === 'youtube-nocookie.com') {
+      const id =
+        host === 'youtu.be'
+          ? segments[0]
+          : segments[0] === 'watch'
+            ? parsed.searchParams.get('v')
+            : YOUTUBE_ID_PATHS.includes(segments[0] ?? '')
+              ? segments[1]
+              : undefined;
+      if (!id || !YOUTUBE_ID.test(id)) return null;
+
+      const start = parseStartTime(
+        parsed.searchParams.get('t') ?? parsed.searchParams.get('start')
+      );
+      return { provider: 'youtube', id, ...(start ? { start } : {}) };
+    }
+
+    if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+      // vimeo.com/ID[/hash], vimeo.com/channels/name/ID and player.vimeo.com/video/ID?h=hash
+      const index = segments.findIndex(segment => /^\d+$/.test(segment));
+      if (index === -1) return null;
+
+      const next = segments[index + 1];
+      const hash =
+        parsed.searchParams.get('h') ?? (next && /^[0-9a-f]+$/i.test(next) ? next : undefined);
+      const start = parseStartTime(/^#t=(.+)$/.exec(parsed.hash)?.[1]);
+      return {
+        provider: 'vimeo',
+        id: segments[index] as string,
+        ...(hash ? { hash } : {}),
+        ...(start ? { start } : {}),
+      };
+    }
+
+    return null;
+  },
+
+  /**
+   * Get display name of a video provider
+   * @param provider Video provider
+   */
+  getProviderName(provider: EmbedProvider): string {
+    return PROVIDER_NAMES[provider];
+  },
+
+  /**
+   * Get the privacy-enhanced player URL of a video
+   * YouTube videos play from youtube-nocookie.com and Vimeo videos with tracking disabled.
+   * @param info Recognized video
+   * @param autoplay Start playing once loaded (used when the facade is clicked)
+   */
+  getEmbedSrc(info: EmbedInfo, autoplay: boolean = false): string {
+    const params = new URLSearchParams();
+
+    if (info.provider === 'youtube') {
+      if (autoplay) params.set('autoplay', '1');
+      if (info.start) params.set('start', String(info.start));
+      const query = params.toString();
+      return `https://www.youtube-nocookie.com/embed/${info.id}${query ? `?${query}` : ''}`;
+    }
+
+    if (info.hash) params.set('h', info.hash);
+    params.set('dnt', '1');
+    if (autoplay) params.set('autoplay', '1');
+    return `https://player.vimeo.com/video/${info.id}?${params}${info.start ? `#t=${info.start}s` : ''}`;
+  },
+
+  /**
+   * Get the page URL of a video on its provider's site (used where iframes cannot be shown)
+   * @param info Recognized video
+   */
+  getWatchUrl(info: EmbedInfo): string {
+    if (info.provider === 'youtube') {
+      return `https://www.youtube.com/watch?v=${info.id}${info.start ? `&t=${info.start}s` : ''}`;
+    }
+    return `https://vimeo.com/${info.id}${info.hash ? `/${info.hash}` : ''}${info.start ? `#t=${info.start}s` : ''}`;
+  },
+
+  /**
+   * Get the thumbnail image URL of a video
+   * @param info Recognized video
+   * @returns Image URL, or null for providers whose thumbnails need an API request (Vimeo)
+   */
+  getThumbnailUrl(info: EmbedInfo): string | null {
+    return info.provider === 'youtube' ? `https://i.ytimg.com/vi/${info.id}/hqdefault.jpg` : null;
+  },
+
+  /**
+   * Build the click-to-play facade document of an embed iframe (its srcdoc)
+   * Only the thumbnail is loaded until the link is followed, which navigates the iframe to the
+   * player with autoplay, so no player scripts or cookies are loaded before the visitor opts in.
+   * @param info Recognized video
+   * @param title Video title
+   */
+  getFacadeDocument(info: EmbedInfo, title: string): string {
+    const thumbnail = this.getThumbnailUrl(info);
+    const label = `Play ${title || `${this.getProviderName(info.provider)} video`}`;
+    return [
+      `<style>${FACADE_STYLE}</style>`,
+      `<a href="${UtilityHelpers.escapeAttribute(this.getEmbedSrc(info, true))}" aria-label="${UtilityHelpers.escapeAttribute(label)}">`,
+      thumbnail ? `<img src="${UtilityHelpers.escapeAttribute(thumbnail)}" alt="">` : '',
+      title ? `<span class="title">${UtilityHelpers.escapeHtml(title)}</span>` : '',
+      '<span class="play">▶</span></a>',
+    ].join('');
+  },
+};
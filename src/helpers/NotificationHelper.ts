@@ -5,6 +5,11 @@
 
 export type NotificationType = 'success' | 'error' | 'warning' | 'info';
 
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface NotificationOptions {
   type?: NotificationType;
   duration?: number;
@@ -17,6 +22,10 @@ export interface NotificationOptions {
     | 'bottom-center';
   className?: string;
   container?: HTMLElement;
+  /** Buttons shown after the message; clicking one closes the notification */
+  actions?: NotificationAction[];
+  /** Editor theme of the notification colors (set as data-editor-theme) */
+  theme?: string;
 }
 
 export const NotificationHelper = {
@@ -30,6 +39,8 @@ export const NotificationHelper = {
       position: 'top-right',
       className: 'editor-notification',
       container: document.body,
+      actions: [],
+      theme: '',
     };
   },
 
@@ -66,6 +77,28 @@ export const NotificationHelper = {
 
     notification.className = classes.join(' ');
     notification.textContent = message;
+    if (options.theme) {
+      notification.dataset.editorTheme = options.theme;
+    }
+
+    if (options.actions.length > 0) {
+      const actions = document.createElement('div');
+      actions.className = 'editor-notification-actions';
+
+      options.actions.forEach(action => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'editor-notification-action';
+        button.textContent = action.label;
+        button.addEventListener('click', () => {
+          action.onClick();
+          this.remove(notification);
+        });
+        actions.appendChild(button);
+      });
+
+      notification.appendChild(actions);
+    }
 
     // Accessibility attributes
     notification.setAttribute('role', 'alert');
@@ -185,11 +218,12 @@ export const NotificationHelper = {
       .editor-notification {
         position: fixed;
         padding: 12px 16px;
-        border-radius: 4px;
-        font-size: 14px;
+        border-radius: var(--editor-radius-sm, 4px);
+        font-family: var(--editor-font-family, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
+        font-size: var(--editor-font-size, 14px);
         z-index: 1000;
         animation: slideIn 0.3s ease;
-        box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+        box-shadow: 0 4px 12px var(--shadow-color, rgba(0, 0, 0, 0.15));
         max-width: 300px;
         word-wrap: break-word;
         transition: opacity 0.3s ease, transform 0.3s ease;
@@ -228,25 +262,41 @@ export const NotificationHelper = {
         transform: translateX(-50%);
       }
 
+      .editor-notification-actions {
+        display: flex;
+        gap: 8px;
+        margin-top: 8px;
+      }
+
+      .editor-notification-action {
+        background: var(--notification-action-bg, rgba(255, 255, 255, 0.9));
+        color: var(--notification-action-text, #212529);
+        border: none;
+        border-radius: var(--editor-radius-sm, 4px);
+        padding: 4px 10px;
+        font-size: 13px;
+        cursor: pointer;
+      }
+
       /* Type variants */
       .editor-notification--success {
         background: var(--success-color, #28a745);
-        color: white;
+        color: var(--primary-text, #fff);
       }
 
       .editor-notification--error {
         background: var(--error-color, #dc3545);
-        color: white;
+        color: var(--primary-text, #fff);
       }
 
       .editor-notification--warning {
         background: var(--warning-color, #ffc107);
-        color: #212529;
+        color: var(--warning-contrast, #212529);
       }
 
       .editor-notification--info {
         background: var(--info-color, #17a2b8);
-        color: white;
+        color: var(--primary-text, #fff);
       }
 
       @keyframes slideIn {
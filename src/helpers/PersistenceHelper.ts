@@ -0,0 +1,214 @@
+/**
+ * Persistence helper for Visual HTML Builder
+ * Stores autosaved drafts and recovery snapshots through pluggable storage adapters
+ */
+import { SerializationHelper, type SerializedDocument } from './SerializationHelper';
+
+/**
+ * Async key/value storage (same shape as the Web Storage API, but promise based)
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface PersistenceOptions {
+  /** Storage adapter (default: localStorage) */
+  adapter?: StorageAdapter;
+  /** Storage key of the snapshots; use one key per document (e.g. `page-${page.id}`) */
+  key: string;
+  /** Milliseconds to wait after the last change before saving */
+  debounce?: number;
+  /** Number of recovery snapshots to keep */
+  snapshots?: number;
+  /** Minimum milliseconds between recovery snapshots; saves in between update the newest one */
+  snapshotInterval?: number;
+  /** Offer to restore a stored draft on construction */
+  promptRestore?: boolean;
+  /** When initialContent was last saved; only newer drafts are offered for restore */
+  initialContentUpdatedAt?: string | Date;
+}
+
+export interface RecoverySnapshot {
+  savedAt: string;
+  document: SerializedDocument;
+}
+
+/**
+ * Wrap IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Check that a stored entry is a snapshot of a valid document
+ */
+const isValidSnapshot = (value: unknown): value is RecoverySnapshot => {
+  if (!value || typeof value !== 'object') return false;
+  const { savedAt, document } = value as Record<string, unknown>;
+  return (
+    typeof savedAt === 'string' &&
+    !Number.isNaN(Date.parse(savedAt)) &&
+    SerializationHelper.validateEnvelope(document).length === 0
+  );
+};
+
+export const PersistenceHelper = {
+  /**
+   * Get default persistence options
+   */
+  getDefaultOptions(): Required<
+    Omit<PersistenceOptions, 'adapter' | 'key' | 'initialContentUpdatedAt'>
+  > {
+    return {
+      debounce: 1000,
+      snapshots: 5,
+      snapshotInterval: 5 * 60 * 1000,
+      promptRestore: true,
+    };
+  },
+
+  /**
+   * Create adapter backed by Web Storage
+   * @param storage Storage to use (defaults to window.localStorage)
+   */
+  createLocalStorageAdapter(storage: Storage = window.localStorage): StorageAdapter {
+    return {
+      getItem: async key => storage.getItem(key),
+      setItem: async (key, value) => storage.setItem(key, value),
+      removeItem: async key => storage.removeItem(key),
+    };
+  },
+
+  /**
+   * Create adapter backed by IndexedDB
+   * Suited to large documents that exceed the localStorage quota.
+   * @param dbName Database name
+   * @param storeName Object store name
+   * @param factory IndexedDB factory (defaults to window.indexedDB)
+   */
+  createIndexedDBAdapter(
+    dbName: string = 'visual-html-builder',
+    storeName: string = 'drafts',
+    factory: IDBFactory = window.indexedDB
+  ): StorageAdapter {
+    let database: Promise<IDBDatabase> | null = null;
+
+    const open = (): Promise<IDBDatabase> => {
+      if (!database) {
+        const request = factory.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        database = requestToPromise(request);
+      }
+      return database;
+    };
+
+    const run = async <T>(
+      mode: IDBTransactionMode,
+      operation: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> => {
+      const db = await open();
+      return requestToPromise(operation(db.transaction(storeName, mode).objectStore(storeName)));
+    };
+
+    return {
+      getItem: async key => {
+        const value = await run('readonly', store => store.get(key));
+        return typeof value === 'string' ? value : null;
+      },
+      setItem: async (key, value) => {
+        await run('readwrite', store => store.put(value, key));
+      },
+      removeItem: async key => {
+        await run('readwrite', store => store.delete(key));
+      },
+    };
+  },
+
+  /**
+   * Load recovery snapshots (newest first)
+   * Unreadable data is treated as no snapshots, and snapshots that are not valid documents
+   * are dropped.
+   * @param adapter Storage adapter
+   * @param key Storage key
+   */
+  async loadSnapshots(adapter: StorageAdapter, key: string): Promise<RecoverySnapshot[]> {
+    const stored = await adapter.getItem(key);
+    if (!stored) return [];
+
+    let snapshots: unknown;
+    try {
+      snapshots = JSON.parse(stored);
+    } catch {
+      return [];
+    }
+    return Array.isArray(snapshots) ? snapshots.filter(isValidSnapshot) : [];
+  },
+
+  /**
+   * Store document as the newest snapshot
+   * The newest snapshot is replaced until it is `interval` newer than the one before it, so
+   * older snapshots stay at least that far apart.
+   * @param adapter Storage adapter
+   * @param key Storage key
+   * @param document Document to store
+   * @param limit Number of snapshots to keep
+   * @param interval Minimum milliseconds between kept snapshots
+   * @returns Stored snapshots (newest first)
+   */
+  async saveSnapshot(
+    adapter: StorageAdapter,
+    key: string,
+    document: SerializedDocument,
+    limit: number,
+    interval: number = 0
+  ): Promise<RecoverySnapshot[]> {
+    const previous = await this.loadSnapshots(adapter, key);
+    const [newest, before] = previous;
+    if (newest && before && Date.parse(newest.savedAt) - Date.parse(before.savedAt) < interval) {
+      previous.shift();
+    }
+    const snapshots = [{ savedAt: new Date().toISOString(), document }, ...previous].slice(
+      0,
+      Math.max(1, limit)
+    );
+
+    await adapter.setItem(key, JSON.stringify(snapshots));
+    return snapshots;
+  },
+
+  /**
+   * Remove all snapshots
+   * @param adapter Storage adapter
+   * @param key Storage key
+   */
+  async clearSnapshots(adapter: StorageAdapter, key: string): Promise<void> {
+    await adapter.removeItem(key);
+  },
+
+  /**
+   * Check if snapshot should be offered for restore
+   * @param snapshot Newest snapshot
+   * @param currentElements Elements the editor started with
+   * @param since When the initial content was saved
+   */
+  isRestorable(
+    snapshot: RecoverySnapshot | undefined,
+    currentElements: unknown[],
+    since?: string | Date
+  ): snapshot is RecoverySnapshot {
+    if (!snapshot) return false;
+    if (since && new Date(snapshot.savedAt).getTime() <= new Date(since).getTime()) return false;
+
+    return JSON.stringify(snapshot.document.elements) !== JSON.stringify(currentElements);
+  },
+};
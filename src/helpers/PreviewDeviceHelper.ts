@@ -0,0 +1,121 @@
+/**
+ * Preview device helper for Visual HTML Builder
+ * Device presets, rotation and zoom of the preview frame
+ */
+
+export type PreviewDeviceName = 'responsive' | 'phone' | 'tablet' | 'laptop' | 'custom';
+export type PreviewOrientation = 'portrait' | 'landscape';
+export type PreviewZoom = 'fit' | 50 | 75 | 100 | 150;
+
+export interface PreviewDevice {
+  /** Device preset ('responsive' follows the active breakpoint) */
+  device: PreviewDeviceName;
+  /** Width of the custom device in pixels */
+  width?: number;
+  /** Height of the custom device in pixels */
+  height?: number;
+  orientation: PreviewOrientation;
+  zoom: PreviewZoom;
+}
+
+export interface DevicePreset {
+  label: string;
+  /** Portrait width in pixels */
+  width: number;
+  /** Portrait height in pixels */
+  height: number;
+}
+
+/** Size of the preview frame (full size of the preview area when a dimension is missing) */
+export interface FrameSize {
+  width?: number;
+  height?: number;
+}
+
+const ZOOM_LEVELS: PreviewZoom[] = ['fit', 50, 75, 100, 150];
+
+const DEVICE_PRESETS: Record<Exclude<PreviewDeviceName, 'responsive' | 'custom'>, DevicePreset> = {
+  phone: { label: 'Phone', width: 375, height: 667 },
+  tablet: { label: 'Tablet', width: 768, height: 1024 },
+  laptop: { label: 'Laptop', width: 1440, height: 900 },
+};
+
+export const PreviewDeviceHelper = {
+  /**
+   * Get default preview device (full width at 100%)
+   */
+  getDefault(): PreviewDevice {
+    return { device: 'responsive', orientation: 'portrait', zoom: 100 };
+  },
+
+  /**
+   * Get device presets
+   */
+  getPresets(): typeof DEVICE_PRESETS {
+    return DEVICE_PRESETS;
+  },
+
+  /**
+   * Get selectable zoom levels
+   */
+  getZoomLevels(): PreviewZoom[] {
+    return [...ZOOM_LEVELS];
+  },
+
+  /**
+   * Merge and validate a preview device change
+   * @param current Current device
+   * @param changes Changed settings
+   */
+  update(current: PreviewDevice, changes: Partial<PreviewDevice>): PreviewDevice {
+    const next = { ...current, ...changes };
+
+    if (next.device !== 'responsive' && next.device !== 'custom' && !DEVICE_PRESETS[next.device]) {
+      throw new Error(`Unknown preview device: ${next.device}`);
+    }
+    if (!ZOOM_LEVELS.includes(next.zoom)) {
+      throw new Error(`Unknown zoom level: ${next.zoom}`);
+    }
+    if (next.device === 'custom') {
+      const isSize = (value?: number) => Number.isInteger(value) && value! > 0;
+      if (!isSize(next.width) || !isSize(next.height)) {
+        throw new Error('Custom preview size must be positive integers');
+      }
+    }
+
+    return next;
+  },
+
+  /**
+   * Get size of the preview frame
+   * @param device Preview device
+   * @param breakpointWidth Width of the active breakpoint (used by the responsive device)
+   */
+  getFrameSize(device: PreviewDevice, breakpointWidth?: number): FrameSize {
+    if (device.device === 'responsive') {
+      return { width: breakpointWidth };
+    }
+
+    const { width, height } = device.device === 'custom' ? device : DEVICE_PRESETS[device.device];
+    return device.orientation === 'landscape'
+      ? { width: height, height: width }
+      : { width, height };
+  },
+
+  /**
+   * Get scale of the preview frame
+   * Fit shrinks the frame to the available space but never enlarges it.
+   * @param zoom Zoom level
+   * @param size Frame size
+   * @param available Size of the preview area (0 when unknown)
+   */
+  getScale(zoom: PreviewZoom, size: FrameSize, available: Required<FrameSize>): number {
+    if (zoom !== 'fit') return zoom / 100;
+
+    const ratios = [
+      size.width && available.width > 0 ? available.width / size.width : 1,
+      size.height && available.height > 0 ? available.height / size.height : 1,
+    ];
+    return Math.min(1, ...ratios);
+  },
+};
@@ -0,0 +1,104 @@
+/**
+ * Preview patch helper for Visual HTML Builder
+ * Updates the preview DOM in place: elements are matched by data-element-id and only
+ * elements whose markup changed are replaced, so untouched nodes (images, scroll position,
+ * classes added by the editor) survive edits
+ */
+
+export interface PreviewNode {
+  id: number;
+  /** Element markup with empty slots (children are patched into them from `slots`) */
+  html: string;
+  slots: PreviewNode[][];
+}
+
+// Markup each preview node was created from
+const renderedMarkup = new WeakMap<Element, string>();
+
+export const PreviewPatchHelper = {
+  /**
+   * Patch preview content to match nodes
+   * Nodes are reused across zones, so moving an element into a container keeps its DOM.
+   * @param root Preview content element
+   * @param nodes Root nodes in display order
+   */
+  patch(root: Element, nodes: PreviewNode[]): void {
+    const pool = new Map<number, Element>();
+    root.querySelectorAll('[data-element-id].preview-element').forEach(el => {
+      pool.set(Number(el.getAttribute('data-element-id')), el);
+    });
+
+    this.patchZone(root, nodes, pool);
+  },
+
+  /**
+   * Patch children of a zone (preview content or container slot)
+   * @param zone Element holding the nodes
+   * @param nodes Nodes in display order
+   * @param pool Existing preview elements by ID
+   */
+  patchZone(zone: Element, nodes: PreviewNode[], pool: Map<number, Element>): void {
+    nodes.forEach((node, index) => {
+      let el = pool.get(node.id);
+
+      if (!el || renderedMarkup.get(el) !== node.html) {
+        const created = this.createElement(zone.ownerDocument, node.html);
+        // Keep the replaced element in place until the new one is positioned below
+        el?.replaceWith(created);
+        el = created;
+        pool.set(node.id, el);
+      }
+
+      if (zone.children[index] !== el) {
+        zone.insertBefore(el, zone.children[index] || null);
+      }
+
+      const slots = this.getSlots(el, node.id);
+      node.slots.forEach((children, slot) => {
+        const slotEl = slots[slot];
+        if (slotEl) this.patchZone(slotEl, children, pool);
+      });
+    });
+
+    // Drop elements (and placeholders such as the empty state) that are no longer here
+    while (zone.children.length > nodes.length) {
+      zone.lastElementChild!.remove();
+    }
+
+    if (zone.classList.contains('preview-slot')) {
+      zone.classList.toggle('is-empty', nodes.length === 0);
+    }
+  },
+
+  /**
+   * Create preview element from markup and remember the markup for later comparison
+   * @param doc Document owning the preview
+   * @param html Element markup
+   */
+  createElement(doc: Document, html: string): Element {
+    const template = doc.createElement('template');
+    template.innerHTML = html.trim();
+
+    const el = template.content.firstElementChild;
+    if (!el) {
+      throw new Error('Preview markup must contain an element');
+    }
+
+    renderedMarkup.set(el, html);
+    return el;
+  },
+
+  /**
+   * Get slot elements of a container, indexed by slot number
+   * Slots of nested containers are skipped.
+   * @param el Preview element
+   * @param id Element ID
+   */
+  getSlots(el: Element, id: number): Element[] {
+    const slots: Element[] = [];
+    el.querySelectorAll(`.preview-slot[data-parent-id="${id}"]`).forEach(slot => {
+      slots[Number(slot.getAttribute('data-slot'))] = slot;
+    });
+    return slots;
+  },
+};
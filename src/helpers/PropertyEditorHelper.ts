@@ -0,0 +1,581 @@
+/**
+ * Property editor helper for Visual HTML Builder
+ * Generates property panels from declarative props schemas
+ *
+ * Inputs carry the dot-separated path of the value they edit in data-prop-path
+ * (e.g. "items.2" or "links.0.label"); array buttons carry data-array-path,
+ * data-array-action and data-index. Table grid buttons carry data-table-path,
+ * data-table-axis, data-table-action and data-index.
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+import { RichTextHelper } from './RichTextHelper';
+import { TableHelper, type TableAxis } from './TableHelper';
+
+export type BuiltInFieldKind =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'select'
+  | 'boolean'
+  | 'color'
+  | 'url'
+  | 'token'
+  | 'rich-text'
+  | 'string-array'
+  | 'object-array'
+  | 'object'
+  | 'table-grid';
+
+export interface SelectOption {
+  value: string | number;
+  label: string;
+}
+
+export interface PropField {
+  /** Built-in field kind or the name of a registered custom widget */
+  kind: BuiltInFieldKind | (string & {});
+  label?: string;
+  placeholder?: string;
+  /** Visible rows of textarea fields */
+  rows?: number;
+  /** Allow line breaks in rich-text fields (default: true) */
+  multiline?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Parse number fields as integers */
+  integer?: boolean;
+  /** Options of select fields; suggestions (e.g. design tokens) of token fields */
+  options?: SelectOption[];
+  /** Fields of object and object-array items */
+  fields?: PropsSchema;
+  /** Value of new array items */
+  itemDefault?: unknown;
+  /** Label of the add button of array fields */
+  addLabel?: string;
+  /** Free-form settings for custom widgets */
+  widgetOptions?: Record<string, unknown>;
+}
+
+/** Fields keyed by prop name */
+export type PropsSchema<P extends object = Record<string, unknown>> = {
+  [K in keyof P & string]?: PropField;
+};
+
+/** Input holding a value (rich-text fields use a contenteditable element instead) */
+export type PropertyInput = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+export type ArrayAction = 'add' | 'remove' | 'up' | 'down';
+
+export interface FieldWidget {
+  /**
+   * Render field markup
+   * Inputs holding the value must have the property-input class and data-prop-path="<path>".
+   */
+  render: (
+    field: PropField,
+    value: unknown,
+    path: string,
+    widgets: Record<string, FieldWidget>
+  ) => string;
+  /** Read value from input (defaults to the input's value) */
+  parse?: (input: PropertyInput, field: PropField) => unknown;
+}
+
+const escapeValue = (value: unknown): string =>
+  UtilityHelpers.escapeAttribute(value === undefined || value === null ? '' : String(value));
+
+const renderGroup = (field: PropField, path: string, control: string): string => `
+        <div class="property-group">
+          <label>${escapeValue(field.label ?? path.split('.').pop())}:</label>
+          ${control}
+        </div>`;
+
+const renderInput = (
+  type: string,
+  field: PropField,
+  value: unknown,
+  path: string,
+  extraAttributes: string[] = []
+): string => {
+  const attributes = [
+    ...extraAttributes,
+    field.placeholder !== undefined ? `placeholder="${escapeValue(field.placeholder)}"` : '',
+    field.min !== undefined ? `min="${field.min}"` : '',
+    field.max !== undefined ? `max="${field.max}"` : '',
+    field.step !== undefined ? `step="${field.step}"` : '',
+  ].filter(Boolean);
+
+  return `<input type="${type}" value="${escapeValue(value)}" class="property-input" data-prop-path="${escapeValue(path)}"${attributes.length ? ` ${attributes.join(' ')}` : ''}>`;
+};
+
+const renderArrayButtons = (path: string, index: number, length: number): string => `
+                <button type="button" class="move-list-item" data-array-path="${escapeValue(path)}" data-array-action="up" data-index="${index}" title="Move up"${index === 0 ? ' disabled' : ''}>↑</button>
+                <button type="button" class="move-list-item" data-array-path="${escapeValue(path)}" data-array-action="down" data-index="${index}" title="Move down"${index === length - 1 ? ' disabled' : ''}>↓</button>
+                <button type="button" class="remove-list-item" data-array-path="${escapeValue(path)}" data-array-action="remove" data-index="${index}" title="Remove">×</button>`;
+
+const renderAddButton = (field: PropField, path: string, length: number): string =>
+  `<button type="button" class="add-list-item" data-array-path="${escapeValue(path)}" data-array-action="add" data-index="${length}">${escapeValue(field.addLabel ?? '+ Add Item')}</button>`;
+
+const renderGridButton = (
+  path: string,
+  axis: TableAxis,
+  action: ArrayAction,
+  index: number,
+  label: string,
+  title: string,
+  disabled: boolean = false
+): string =>
+  `<button type="button" class="table-grid-button${action === 'remove' ? ' table-grid-remove' : ''}" data-table-path="${escapeValue(path)}" data-table-axis="${axis}" data-table-action="${action}" data-index="${index}" title="${title}" aria-label="${title}"${disabled ? ' disabled' : ''}>${label}</button>`;
+
+const textWidget = (type: string): FieldWidget => ({
+  render: (field, value, path) => renderGroup(field, path, renderInput(type, field, value, path)),
+});
+
+export const PropertyEditorHelper = {
+  /**
+   * Get widgets of the built-in field kinds
+   */
+  getBuiltInWidgets(): Record<string, FieldWidget> {
+    return {
+      text: textWidget('text'),
+      url: textWidget('url'),
+      color: {
+        render: (field, value, path) =>
+          renderGroup(field, path, renderInput('color', field, value || '#000000', path)),
+      },
+      // Free text with suggestions; numeric input is stored as a number
+      token: {
+        render: (field, value, path) => {
+          const listId = `token-options-${path.replace(/[^a-zA-Z0-9_-]/g, '-')}`;
+          const options = (field.options || [])
+            .map(
+              option =>
+                `<option value="${escapeValue(option.value)}">${escapeValue(option.label)}</option>`
+            )
+            .join('');
+          return renderGroup(
+            field,
+            path,
+            `${renderInput('text', field, value, path, [`list="${listId}"`])}<datalist id="${listId}">${options}</datalist>`
+          );
+        },
+        parse: input => {
+          const value = input.value.trim();
+          if (value === '') return undefined;
+          return /^\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+        },
+      },
+      // Formatted text edited in a contenteditable element; the toolbar is wired by the editor
+      'rich-text': {
+        render: (field, value, path) => {
+          const buttons = RichTextHelper.getCommands()
+            .map(
+              ({ command, label, icon, key, shift }) =>
+                `<button type="button" class="rich-text-button" data-rich-text-command="${command}" title="${label} (Ctrl+${shift ? 'Shift+' : ''}${key.toUpperCase()})" aria-label="${label}">${icon}</button>`
+            )
+            .join('');
+          const multiline = field.multiline !== false;
+          return renderGroup(
+            field,
+            path,
+            `<div class="rich-text-editor">
+            <div class="rich-text-toolbar" role="toolbar" aria-label="Formatting">${buttons}</div>
+            <div class="property-input rich-text-input" contenteditable="true" role="textbox" aria-multiline="${multiline}" data-prop-path="${escapeValue(path)}"${multiline ? '' : ' data-single-line'}>${RichTextHelper.toEditableHTML(value)}</div>
+            <div class="rich-text-link">
+              <input type="url" class="rich-text-link-url" placeholder="https://example.com" aria-label="Link URL">
+              <label class="checkbox-label"><input type="checkbox" class="rich-text-link-blank"> New tab</label>
+            </div>
+          </div>`
+          );
+        },
+        parse: input => RichTextHelper.simplify(RichTextHelper.fromDOM(input)),
+      },
+      textarea: {
+        render: (field, value, path) =>
+          renderGroup(
+            field,
+            path,
+            `<textarea rows="${field.rows ?? 4}" class="property-input" data-prop-path="${escapeValue(path)}"${field.placeholder !== undefined ? ` placeholder="${escapeValue(field.placeholder)}"` : ''}>${escapeValue(value)}</textarea>`
+          ),
+      },
+      number: {
+        render: (field, value, path) =>
+          renderGroup(
+            field,
+            path,
+            renderInput(
+              'number',
+              field,
+              typeof value === 'number' || typeof value === 'string' ? value : '',
+              path
+            )
+          ),
+        parse: (input, field) => {
+          if (input.value.trim() === '') return undefined;
+          const value = field.integer ? parseInt(input.value, 10) : parseFloat(input.value);
+          return isNaN(value) ? undefined : value;
+        },
+      },
+      select: {
+        render: (field, value, path) =>
+          renderGroup(
+            field,
+            path,
+            `<select class="property-input" data-prop-path="${escapeValue(path)}">
+            ${(field.options || []).map(option => `<option value="${escapeValue(option.value)}"${option.value === value ? ' selected' : ''}>${escapeValue(option.label)}</option>`).join('')}
+          </select>`
+          ),
+        parse: (input, field) => {
+          const option = (field.options || []).find(o => String(o.value) === input.value);
+          return option ? option.value : input.value;
+        },
+      },
+      boolean: {
+        render: (field, value, path) => `
+        <div class="property-group">
+          <label class="checkbox-label">
+            <input type="checkbox" ${value === true ? 'checked' : ''}
+                   class="property-input" data-prop-path="${escapeValue(path)}">
+            ${escapeValue(field.label ?? path.split('.').pop())}
+          </label>
+        </div>`,
+        parse: input => (input as HTMLInputElement).checked,
+      },
+      'string-array': {
+        render: (field, value, path) => {
+          const items = Array.isArray(value) ? value : [];
+          return renderGroup(
+            field,
+            path,
+            `<div class="list-editor">
+            ${items
+              .map(
+                (item, index) => `
+              <div class="list-item-editor">
+                <input type="text" value="${escapeValue(item)}"
+                       class="property-input" data-prop-path="${escapeValue(`${path}.${index}`)}">${renderArrayButtons(path, index, items.length)}
+              </div>`
+              )
+              .join('')}
+            ${renderAddButton(field, path, items.length)}
+          </div>`
+          );
+        },
+      },
+      'object-array': {
+        render: (field, value, path, widgets) => {
+          const items = Array.isArray(value) ? value : [];
+          return renderGroup(
+            field,
+            path,
+            `<div class="list-editor">
+            ${items
+              .map(
+                (item, index) => `
+              <div class="array-item-editor">
+                <div class="array-item-header">
+                  <span>#${index + 1}</span>${renderArrayButtons(path, index, items.length)}
+                </div>
+                ${PropertyEditorHelper.renderFields(field.fields || {}, item, `${path}.${index}`, widgets)}
+              </div>`
+              )
+              .join('')}
+            ${renderAddButton(field, path, items.length)}
+          </div>`
+          );
+        },
+      },
+      // Spreadsheet-like table editor; the editor wires Tab navigation and pasting of TSV/CSV
+      'table-grid': {
+        render: (field, value, path) => {
+          const grid = TableHelper.normalize(value);
+          const columnCount = TableHelper.getColumnCount(grid);
+          const alignOptions = TableHelper.getAlignments();
+
+          const columnHeaders = grid.align
+            .map(
+              (align, column) => `
+                <th scope="col">
+                  <select class="property-input table-grid-align" data-prop-path="${escapeValue(`${path}.align.${column}`)}" aria-label="Column ${column + 1} alignment">
+                    ${alignOptions.map(option => `<option value="${option}"${option === align ? ' selected' : ''}>${option[0]?.toUpperCase()}${option.slice(1)}</option>`).join('')}
+                  </select>
+                  <div class="table-grid-buttons">${renderGridButton(path, 'column', 'up', column, '←', `Move column ${column + 1} left`, column === 0)}${renderGridButton(path, 'column', 'down', column, '→', `Move column ${column + 1} right`, column === columnCount - 1)}${renderGridButton(path, 'column', 'remove', column, '×', `Remove column ${column + 1}`)}</div>
+                </th>`
+            )
+            .join('');
+          const rows = grid.cells
+            .map(
+              (cells, row) => `
+              <tr>
+                <th scope="row" class="table-grid-buttons">${renderGridButton(path, 'row', 'up', row, '↑', `Move row ${row + 1} up`, row === 0)}${renderGridButton(path, 'row', 'down', row, '↓', `Move row ${row + 1} down`, row === grid.cells.length - 1)}${renderGridButton(path, 'row', 'remove', row, '×', `Remove row ${row + 1}`)}</th>
+                ${Array.from({ length: columnCount }, (_, column) =>
+                  column < cells.length
+                    ? `<td><input type="text" value="${escapeValue(cells[column])}" class="property-input table-grid-cell" data-prop-path="${escapeValue(`${path}.cells.${row}.${column}`)}" data-row="${row}" data-column="${column}" aria-label="Row ${row + 1}, column ${column + 1}"></td>`
+                    : '<td class="table-grid-missing"></td>'
+                ).join('')}
+              </tr>`
+            )
+            .join('');
+
+          return renderGroup(
+            field,
+            path,
+            `<div class="table-grid-editor" data-table-path="${escapeValue(path)}">
+            <div class="table-grid-scroll">
+              <table class="table-grid">
+                <thead><tr><td></td>${columnHeaders}</tr></thead>
+                <tbody>${rows}</tbody>
+              </table>
+            </div>
+            <div class="table-grid-actions">${renderGridButton(path, 'row', 'add', grid.cells.length, '+ Row', 'Add row')}${renderGridButton(path, 'column', 'add', columnCount, '+ Column', 'Add column')}</div>
+          </div>`
+          );
+        },
+      },
+      object: {
+        render: (field, value, path, widgets) => `
+        <fieldset class="property-fieldset">
+          <legend>${escapeValue(field.label ?? path.split('.').pop())}</legend>
+          ${PropertyEditorHelper.renderFields(field.fields || {}, value, path, widgets)}
+        </fieldset>`,
+      },
+    };
+  },
+
+  /**
+   * Add custom field widget
+   * @param widgets Existing widgets
+   * @param kind Field kind the widget renders (overrides a built-in kind of the same name)
+   * @param widget Widget definition
+   */
+  registerWidget(
+    widgets: Record<string, FieldWidget>,
+    kind: string,
+    widget: FieldWidget
+  ): Record<string, FieldWidget> {
+    return {
+      ...widgets,
+      [kind]: widget,
+    };
+  },
+
+  /**
+   * Render property editor for props
+   * @param schema Props schema
+   * @param props Current props
+   * @param widgets Available widgets (defaults to built-in widgets)
+   */
+  renderEditor(
+    schema: PropsSchema,
+    props: Record<string, unknown>,
+    widgets: Record<string, FieldWidget> = PropertyEditorHelper.getBuiltInWidgets()
+  ): string {
+    return this.renderFields(schema, props, '', widgets);
+  },
+
+  /**
+   * Render fields of an object value
+   * @param schema Fields to render
+   * @param value Object holding the field values
+   * @param basePath Path of the object ('' for the props root)
+   * @param widgets Available widgets
+   */
+  renderFields(
+    schema: PropsSchema,
+    value: unknown,
+    basePath: string,
+    widgets: Record<string, FieldWidget>
+  ): string {
+    const record =
+      value !== null && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+    return Object.entries(schema)
+      .map(([key, field]) =>
+        field
+          ? this.renderField(field, record[key], basePath ? `${basePath}.${key}` : key, widgets)
+          : ''
+      )
+      .join('');
+  },
+
+  /**
+   * Render single field with its widget
+   * @param field Field definition
+   * @param value Current value
+   * @param path Path of the value
+   * @param widgets Available widgets
+   */
+  renderField(
+    field: PropField,
+    value: unknown,
+    path: string,
+    widgets: Record<string, FieldWidget>
+  ): string {
+    const widget = widgets[field.kind];
+    if (!widget) {
+      throw new Error(`No widget registered for field kind "${field.kind}"`);
+    }
+    return widget.render(field, value, path, widgets);
+  },
+
+  /**
+   * Split path into segments
+   */
+  parsePath(path: string): string[] {
+    return path.split('.').filter(segment => segment !== '');
+  },
+
+  /**
+   * Find field definition of a path
+   * @param schema Props schema
+   * @param path Value path
+   * @returns Field (null if the path is not described by the schema)
+   */
+  getFieldAtPath(schema: PropsSchema, path: string): PropField | null {
+    const [key, ...rest] = this.parsePath(path);
+    let field: PropField | undefined = key !== undefined ? schema[key] : undefined;
+
+    for (const segment of rest) {
+      if (!field) return null;
+
+      if (field.kind === 'string-array') {
+        field = { kind: 'text' };
+      } else if (field.kind === 'object-array' && /^\d+$/.test(segment)) {
+        field = { kind: 'object', fields: field.fields };
+      } else {
+        field = field.fields?.[segment];
+      }
+    }
+
+    return field || null;
+  },
+
+  /**
+   * Read value at path
+   * @param value Root value
+   * @param segments Path segments
+   */
+  getValueAtPath(value: unknown, segments: string[]): unknown {
+    return segments.reduce<unknown>(
+      (current, segment) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      value
+    );
+  },
+
+  /**
+   * Set value at path without mutating the root value
+   * @param value Root value
+   * @param segments Path segments
+   * @param newValue Value to set
+   * @returns Updated copy of the root value
+   */
+  setValueAtPath(value: unknown, segments: string[], newValue: unknown): unknown {
+    const [segment, ...rest] = segments;
+    if (segment === undefined) return newValue;
+
+    if (Array.isArray(value)) {
+      const copy = [...value];
+      const index = parseInt(segment, 10);
+      copy[index] = this.setValueAtPath(copy[index], rest, newValue);
+      return copy;
+    }
+
+    const record =
+      value !== null && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    return { ...record, [segment]: this.setValueAtPath(record[segment], rest, newValue) };
+  },
+
+  /**
+   * Read value from input using the field's widget
+   * @param input Input element
+   * @param field Field definition
+   * @param widgets Available widgets
+   */
+  readValue(input: PropertyInput, field: PropField, widgets: Record<string, FieldWidget>): unknown {
+    const widget = widgets[field.kind];
+    return widget?.parse ? widget.parse(input, field) : input.value;
+  },
+
+  /**
+   * Create default value of a field
+   */
+  createDefaultValue(field: PropField): unknown {
+    switch (field.kind) {
+      case 'number':
+        return undefined;
+      case 'boolean':
+        return false;
+      case 'color':
+        return '#000000';
+      case 'select':
+        return field.options?.[0]?.value;
+      case 'string-array':
+      case 'object-array':
+        return [];
+      case 'object':
+        return this.createDefaultProps(field.fields || {});
+      case 'table-grid':
+        return { align: ['left'], cells: [['']] };
+      default:
+        return '';
+    }
+  },
+
+  /**
+   * Create default props described by schema
+   */
+  createDefaultProps(schema: PropsSchema): Record<string, unknown> {
+    const props: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(schema)) {
+      if (field) props[key] = this.createDefaultValue(field);
+    }
+    return props;
+  },
+
+  /**
+   * Create new item of an array field
+   */
+  createArrayItem(field: PropField): unknown {
+    if (field.itemDefault !== undefined) return UtilityHelpers.deepClone(field.itemDefault);
+    return field.kind === 'object-array' ? this.createDefaultProps(field.fields || {}) : '';
+  },
+
+  /**
+   * Apply add/remove/reorder action to array value
+   * @param items Current items
+   * @param action Action to apply
+   * @param index Item index (insert position for 'add')
+   * @param field Array field definition (used to create new items)
+   * @returns New array (unchanged copy if the action is out of range)
+   */
+  applyArrayAction(
+    items: unknown[],
+    action: ArrayAction,
+    index: number,
+    field: PropField
+  ): unknown[] {
+    const result = [...items];
+
+    switch (action) {
+      case 'add':
+        result.splice(Math.max(0, Math.min(index, result.length)), 0, this.createArrayItem(field));
+        break;
+      case 'remove':
+        if (index >= 0 && index < result.length) result.splice(index, 1);
+        break;
+      case 'up':
+      case 'down': {
+        const target = action === 'up' ? index - 1 : index + 1;
+        if (index < 0 || index >= result.length || target < 0 || target >= result.length) break;
+        [result[index], result[target]] = [result[target], result[index]];
+        break;
+      }
+    }
+
+    return result;
+  },
+};
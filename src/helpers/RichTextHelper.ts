@@ -0,0 +1,657 @@
+/**
+ * Rich text helper for Visual HTML Builder
+ * Inline formatting model of text elements: runs of text with marks and links, rendered to
+ * HTML through a whitelist (text is always escaped, only known tags and link attributes are
+ * written) and read back from contenteditable markup.
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+import { MarkdownHelper } from './MarkdownHelper';
+
+export type InlineMark =
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'strike'
+  | 'code'
+  | 'superscript'
+  | 'subscript';
+
+export interface InlineLink {
+  href: string;
+  /** Only '_blank' is supported */
+  target?: '_blank';
+  rel?: string;
+}
+
+/** Run of text sharing the same formatting */
+export interface InlineSpan {
+  text: string;
+  marks?: InlineMark[];
+  link?: InlineLink;
+}
+
+/** Formatted text, or plain text (as stored by older versions and unformatted fields) */
+export type RichText = string | InlineSpan[];
+
+/** Formatting toolbar and keyboard shortcut commands */
+export type RichTextCommand = InlineMark | 'link' | 'clear';
+
+export interface RichTextCommandInfo {
+  command: RichTextCommand;
+  label: string;
+  /** Button content (static markup) */
+  icon: string;
+  /** Key pressed with Ctrl/Cmd */
+  key: string;
+  shift?: boolean;
+}
+
+// Marks in nesting order (outermost first); code is innermost so its text stays literal
+const MARKS: InlineMark[] = [
+  'bold',
+  'italic',
+  'underline',
+  'strike',
+  'superscript',
+  'subscript',
+  'code',
+];
+
+const MARK_TAGS: Record<InlineMark, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  strike: 's',
+  superscript: 'sup',
+  subscript: 'sub',
+  code: 'code',
+};
+
+// Tags read back into marks, including the presentational variants browsers produce
+const TAG_MARKS: Record<string, InlineMark> = {
+  STRONG: 'bold',
+  B: 'bold',
+  EM: 'italic',
+  I: 'italic',
+  U: 'underline',
+  S: 'strike',
+  STRIKE: 'strike',
+  DEL: 'strike',
+  SUP: 'superscript',
+  SUB: 'subscript',
+  CODE: 'code',
+};
+
+const BLOCK_TAGS = ['DIV', 'P', 'LI'];
+
+// Marks that cannot be combined
+const EXCLUSIVE_MARKS: Partial<Record<InlineMark, InlineMark>> = {
+  superscript: 'subscript',
+  subscript: 'superscript',
+};
+
+const COMMANDS: RichTextCommandInfo[] = [
+  { command: 'bold', label: 'Bold', icon: '<strong>B</strong>', key: 'b' },
+  { command: 'italic', label: 'Italic', icon: '<em>I</em>', key: 'i' },
+  { command: 'underline', label: 'Underline', icon: '<u>U</u>', key: 'u' },
+  { command: 'strike', label: 'Strikethrough', icon: '<s>S</s>', key: 'x', shift: true },
+  { command: 'code', label: 'Inline code', icon: '&lt;/&gt;', key: 'e' },
+  { command: 'superscript', label: 'Superscript', icon: 'x<sup>2</sup>', key: '.' },
+  { command: 'subscript', label: 'Subscript', icon: 'x<sub>2</sub>', key: ',' },
+  { command: 'link', label: 'Link', icon: '🔗', key: 'k' },
+  { command: 'clear', label: 'Clear formatting', icon: '⌫', key: '\\' },
+];
+
+// Schemes of allowed link URLs; URLs without a scheme (relative, #anchors) are allowed too
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const isSameLink = (a?: InlineLink, b?: InlineLink): boolean =>
+  a === b || (!!a && !!b && a.href === b.href && a.target === b.target && a.rel === b.rel);
+
+const hasSameFormat = (a: InlineSpan, b: InlineSpan): boolean =>
+  isSameLink(a.link, b.link) && (a.marks ?? []).join() === (b.marks ?? []).join();
+
+const createSpan = (text: string, marks: InlineMark[] = [], link?: InlineLink): InlineSpan => ({
+  text,
+  ...(marks.length > 0 ? { marks } : {}),
+  ...(link ? { link } : {}),
+});
+
+/**
+ * Nesting layer of a span: the link first, then the marks in MARKS order
+ */
+type Layer = 'link' | InlineMark;
+const LAYERS: Layer[] = ['link', ...MARKS];
+
+const hasLayer = (span: InlineSpan, layer: Layer): boolean =>
+  layer === 'link' ? !!span.link : !!span.marks?.includes(layer);
+
+/**
+ * Render spans as nested markup: consecutive spans sharing a layer are wrapped once
+ * @param spans Normalized spans
+ * @param wrap Wraps the rendered content of a layer (the first span carries its link)
+ * @param text Renders the text of a span
+ * @param layer Index of the layer to group by
+ */
+const renderNested = (
+  spans: InlineSpan[],
+  wrap: (layer: Layer, span: InlineSpan, content: string) => string,
+  text: (span: InlineSpan) => string,
+  layer: number = 0
+): string => {
+  const current = LAYERS[layer];
+  if (current === undefined) return spans.map(text).join('');
+
+  const groups: InlineSpan[][] = [];
+  spans.forEach((span, index) => {
+    const previous = spans[index - 1];
+    const continues =
+      previous &&
+      hasLayer(previous, current) === hasLayer(span, current) &&
+      (current !== 'link' || isSameLink(previous.link, span.link));
+    if (continues) groups[groups.length - 1]!.push(span);
+    else groups.push([span]);
+  });
+
+  return groups
+    .map(group => {
+      const content = renderNested(group, wrap, text, layer + 1);
+      return hasLayer(group[0]!, current) ? wrap(current, group[0]!, content) : content;
+    })
+    .join('');
+};
+
+/**
+ * Wrap Markdown emphasis delimiters around content, keeping outer whitespace outside
+ * (delimiters next to whitespace are not recognized as emphasis)
+ */
+const wrapDelimiter = (content: string, delimiter: string): string => {
+  const [, leading = '', body = '', trailing = ''] = /^(\s*)([\s\S]*?)(\s*)$/.exec(content) ?? [];
+  return body ? `${leading}${delimiter}${body}${delimiter}${trailing}` : content;
+};
+
+export const RichTextHelper = {
+  /**
+   * Get formatting commands with their labels and shortcuts
+   */
+  getCommands(): RichTextCommandInfo[] {
+    return COMMANDS;
+  },
+
+  /**
+   * Get the command of a keyboard shortcut (Ctrl/Cmd + key)
+   * @param event Keyboard event
+   */
+  getShortcutCommand(
+    event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>
+  ): RichTextCommand | null {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+    const key = event.key.toLowerCase();
+    const info = COMMANDS.find(item => item.key === key && !!item.shift === event.shiftKey);
+    return info ? info.command : null;
+  },
+
+  /**
+   * Check that a link URL uses an allowed scheme (javascript: and data: URLs are rejected)
+   * @param href Link URL
+   */
+  isSafeHref(href: string): boolean {
+    const scheme = UtilityHelpers.getUrlScheme(href);
+    return href.trim() !== '' && (scheme === null || SAFE_SCHEMES.includes(scheme));
+  },
+
+  /**
+   * Validate a link
+   * @param link Stored link
+   * @returns The link with only supported attributes, or undefined when it is not allowed
+   */
+  sanitizeLink(link: unknown): InlineLink | undefined {
+    if (!link || typeof link !== 'object') return undefined;
+    const { href, target, rel } = link as Record<string, unknown>;
+    if (typeof href !== 'string' || !this.isSafeHref(href.trim())) return undefined;
+
+    const relTokens =
+      typeof rel === 'string' ? rel.split(/\s+/).filter(token => /^[a-z-]+$/i.test(token)) : [];
+    return {
+      href: href.trim(),
+      ...(target === '_blank' ? { target: '_blank' as const } : {}),
+      ...(relTokens.length > 0 ? { rel: relTokens.join(' ') } : {}),
+    };
+  },
+
+  /**
+   * Convert stored rich text to spans
+   * Unknown marks and disallowed links are dropped, marks are put in canonical order and
+   * neighbouring spans with the same formatting are merged.
+   * @param value Stored rich text
+   */
+  normalize(value: unknown): InlineSpan[] {
+    if (typeof value === 'string') return value ? [{ text: value }] : [];
+    if (!Array.isArray(value)) return [];
+
+    const spans: InlineSpan[] = [];
+    value.forEach(item => {
+      if (!item || typeof item !== 'object') return;
+      const { text, marks, link } = item as Record<string, unknown>;
+      if (typeof text !== 'string' || text === '') return;
+
+      const known = MARKS.filter(mark => Array.isArray(marks) && marks.includes(mark));
+      const span = createSpan(
+        text,
+        known.filter(mark => mark !== 'subscript' || !known.includes('superscript')),
+        this.sanitizeLink(link)
+      );
+      const previous = spans[spans.length - 1];
+      if (previous && hasSameFormat(previous, span)) {
+        previous.text += span.text;
+      } else {
+        spans.push(span);
+      }
+    });
+    return spans;
+  },
+
+  /**
+   * Store spans as plain text when they carry no formatting
+   * @param spans Spans
+   */
+  simplify(spans: InlineSpan[]): RichText {
+    const normalized = this.normalize(spans);
+    return normalized.every(span => !span.marks && !span.link)
+      ? normalized.map(span => span.text).join('')
+      : normalized;
+  },
+
+  /**
+   * Get text without formatting
+   * @param value Stored rich text
+   */
+  toPlainText(value: unknown): string {
+    return this.normalize(value)
+      .map(span => span.text)
+      .join('');
+  },
+
+  /**
+   * Get URLs of links that are dropped because their scheme is not allowed
+   * @param value Stored rich text
+   */
+  getUnsafeLinks(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value
+      .map(item => (item && typeof item === 'object' ? (item as InlineSpan).link : undefined))
+      .filter((link): link is InlineLink => !!link && !this.sanitizeLink(link))
+      .map(link => String(link.href));
+  },
+
+  /**
+   * Render rich text to HTML (text is escaped; only whitelisted tags and attributes are written)
+   * @param value Stored rich text
+   * @param lineBreak Markup of line breaks (default: <br>)
+   */
+  toHTML(value: unknown, lineBreak: string = '<br>'): string {
+    return renderNested(
+      this.normalize(value),
+      (layer, span, content) => {
+        if (layer !== 'link') return `<${MARK_TAGS[layer]}>${content}</${MARK_TAGS[layer]}>`;
+        const { href, target, rel } = span.link!;
+        const attributes = [
+          `href="${UtilityHelpers.escapeAttribute(href)}"`,
+          target ? `target="${target}"` : '',
+          rel ? `rel="${UtilityHelpers.escapeAttribute(rel)}"` : '',
+        ].filter(Boolean);
+        return `<a ${attributes.join(' ')}>${content}</a>`;
+      },
+      span => UtilityHelpers.escapeHtml(span.text).replace(/\n/g, lineBreak)
+    );
+  },
+
+  /**
+   * Render rich text for a contenteditable element
+   * A trailing line break gets a placeholder <br> so the empty last line can hold the caret.
+   * @param value Stored rich text
+   */
+  toEditableHTML(value: unknown): string {
+    const html = this.toHTML(value);
+    return this.toPlainText(value).endsWith('\n') ? `${html}<br data-placeholder>` : html;
+  },
+
+  /**
+   * Render rich text to CommonMark
+   * Underline, superscript and subscript have no Markdown syntax and are written as inline HTML;
+   * strikethrough uses the GFM ~~ delimiter.
+   * @param value Stored rich text
+   * @param lineBreak Markdown of line breaks (default: a backslash hard break)
+   */
+  toMarkdown(value: unknown, lineBreak: string = '\\\n'): string {
+    return renderNested(
+      this.normalize(value),
+      (layer, span, content) => {
+        switch (layer) {
+          case 'link': {
+            const href = span.link!.href;
+            return `[${content}](${/[\s()<>]/.test(href) ? `<${href.replace(/[<>]/g, encodeURIComponent)}>` : href})`;
+          }
+          case 'bold':
+            return wrapDelimiter(content, '**');
+          case 'italic':
+            return wrapDelimiter(content, '*');
+          case 'strike':
+            return wrapDelimiter(content, '~~');
+          case 'code': {
+            const fence = '`'.repeat(
+              Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length)) + 1
+            );
+            const padding = /^`|`$/.test(content) ? ' ' : '';
+            return `${fence}${padding}${content}${padding}${fence}`;
+          }
+          default:
+            return `<${MARK_TAGS[layer]}>${content}</${MARK_TAGS[layer]}>`;
+        }
+      },
+      span =>
+        span.marks?.includes('code')
+          ? span.text.replace(/\n/g, ' ')
+          : MarkdownHelper.escapeText(span.text).replace(/~/g, '\\~').replace(/\n/g, lineBreak)
+    );
+  },
+
+  /**
+   * Read rich text from markup (contenteditable content or imported HTML)
+   * Whitelisted tags become marks and links; other elements only contribute their text.
+   * @param root Node whose children are read
+   * @param collapseWhitespace Collapse whitespace like a browser renders it (for imported HTML)
+   */
+  fromDOM(root: Node, collapseWhitespace: boolean = false): InlineSpan[] {
+    const spans: InlineSpan[] = [];
+    const endsLine = () => {
+      const last = spans[spans.length - 1];
+      return !last || last.text.endsWith('\n');
+    };
+
+    const visit = (node: Node, marks: InlineMark[], link?: InlineLink) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = (node.textContent ?? '').replace(/\u00a0/g, ' ');
+        spans.push(createSpan(collapseWhitespace ? text.replace(/\s+/g, ' ') : text, marks, link));
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = node as Element;
+      if (element.nodeName === 'BR') {
+        if (element.hasAttribute('data-placeholder')) return;
+        // Browsers keep empty blocks open with a trailing <br>
+        const isPlaceholder =
+          BLOCK_TAGS.includes(element.parentNode?.nodeName ?? '') &&
+          element.parentNode !== root &&
+          element.parentNode?.lastChild === element;
+        if (!isPlaceholder || endsLine()) spans.push(createSpan('\n', marks, link));
+        return;
+      }
+      if (BLOCK_TAGS.includes(element.nodeName) && !endsLine()) {
+        spans.push(createSpan('\n'));
+      }
+
+      const mark = TAG_MARKS[element.nodeName];
+      const nextMarks = mark && !marks.includes(mark) ? [...marks, mark] : marks;
+      const nextLink =
+        element.nodeName === 'A'
+          ? (this.sanitizeLink({
+              href: element.getAttribute('href'),
+              target: element.getAttribute('target') ?? undefined,
+              rel: element.getAttribute('rel') ?? undefined,
+            }) ?? link)
+          : link;
+      element.childNodes.forEach(child => visit(child, nextMarks, nextLink));
+    };
+
+    root.childNodes.forEach(child => visit(child, []));
+    const normalized = this.normalize(spans);
+    if (!collapseWhitespace) return normalized;
+
+    // Trim lines like a browser: one space between spans, none around line breaks or at the ends
+    let previousText = '';
+    const trimmed = normalized.map(span => {
+      let text = span.text.replace(/ *\n */g, '\n');
+      if (/[ \n]$/.test(previousText)) text = text.replace(/^ +/, '');
+      previousText = text || previousText;
+      return { ...span, text };
+    });
+    if (trimmed[0]) trimmed[0].text = trimmed[0].text.replace(/^\s+/, '');
+    const last = trimmed[trimmed.length - 1];
+    if (last) last.text = last.text.replace(/\s+$/, '');
+    return this.normalize(trimmed);
+  },
+
+  /**
+   * Check if imported markup can be stored as rich text without losing anything
+   * Only text, line breaks, formatting tags without attributes and links (href, target, rel)
+   * are accepted.
+   * @param node Element whose children are checked
+   * @param allowLineBreaks Accept <br> elements
+   */
+  canRepresent(node: Element, allowLineBreaks: boolean = true): boolean {
+    return Array.from(node.children).every(child => {
+      const attributes = Array.from(child.attributes, attribute => attribute.name);
+      if (child.nodeName === 'BR') return allowLineBreaks && attributes.length === 0;
+      if (child.nodeName === 'A') {
+        return (
+          attributes.every(name => ['href', 'target', 'rel'].includes(name)) &&
+          [null, '_blank'].includes(child.getAttribute('target')) &&
+          !!this.sanitizeLink({ href: child.getAttribute('href') }) &&
+          this.canRepresent(child, allowLineBreaks)
+        );
+      }
+      return (
+        child.nodeName in TAG_MARKS &&
+        attributes.length === 0 &&
+        this.canRepresent(child, allowLineBreaks)
+      );
+    });
+  },
+
+  /**
+   * Split spans so that each offset falls on a span boundary
+   * @param spans Normalized spans
+   * @param offsets Character offsets
+   */
+  splitAt(spans: InlineSpan[], offsets: number[]): InlineSpan[] {
+    let position = 0;
+    return spans.flatMap(span => {
+      const start = position;
+      position += span.text.length;
+      const cuts = offsets
+        .filter(offset => offset > start && offset < position)
+        .sort((a, b) => a - b)
+        .map(offset => offset - start);
+      return [0, ...cuts].map((cut, index) => ({
+        ...span,
+        text: span.text.slice(cut, cuts[index] ?? span.text.length),
+      }));
+    });
+  },
+
+  /**
+   * Apply a change to the spans inside a range
+   * @param value Stored rich text
+   * @param start Start offset
+   * @param end End offset
+   * @param change Change of a span inside the range (receives whether all of them match)
+   * @param isActive Whether a span inside the range already has the formatting
+   */
+  updateRange(
+    value: unknown,
+    start: number,
+    end: number,
+    change: (span: InlineSpan, active: boolean) => InlineSpan,
+    isActive: (span: InlineSpan) => boolean = () => false
+  ): InlineSpan[] {
+    const spans = this.splitAt(this.normalize(value), [start, end]);
+    let position = 0;
+    const inRange = spans.map(span => {
+      const spanStart = position;
+      position += span.text.length;
+      return start < end && spanStart >= start && position <= end;
+    });
+    const active = inRange.some(Boolean) && spans.every((span, i) => !inRange[i] || isActive(span));
+
+    return this.normalize(spans.map((span, i) => (inRange[i] ? change(span, active) : span)));
+  },
+
+  /**
+   * Add a mark to a range, or remove it when the whole range has it
+   * @param value Stored rich text
+   * @param start Start offset
+   * @param end End offset
+   * @param mark Mark to toggle
+   */
+  toggleMark(value: unknown, start: number, end: number, mark: InlineMark): InlineSpan[] {
+    const exclusive = EXCLUSIVE_MARKS[mark];
+    return this.updateRange(
+      value,
+      start,
+      end,
+      (span, active) => {
+        const marks = (span.marks ?? []).filter(item => item !== mark && item !== exclusive);
+        return createSpan(span.text, active ? marks : [...marks, mark], span.link);
+      },
+      span => !!span.marks?.includes(mark)
+    );
+  },
+
+  /**
+   * Link a range, or unlink it
+   * @param value Stored rich text
+   * @param start Start offset
+   * @param end End offset
+   * @param link Link (null removes links)
+   */
+  setLink(value: unknown, start: number, end: number, link: InlineLink | null): InlineSpan[] {
+    const sanitized = link ? this.sanitizeLink(link) : undefined;
+    return this.updateRange(value, start, end, span =>
+      createSpan(span.text, span.marks, sanitized)
+    );
+  },
+
+  /**
+   * Remove marks and links from a range
+   * @param value Stored rich text
+   * @param start Start offset
+   * @param end End offset
+   */
+  clearFormatting(value: unknown, start: number, end: number): InlineSpan[] {
+    return this.updateRange(value, start, end, span => createSpan(span.text));
+  },
+
+  /**
+   * Replace a range with plain text (typed line breaks, pasted text)
+   * The text takes the formatting of the character before the range.
+   * @param value Stored rich text
+   * @param start Start offset
+   * @param end End offset
+   * @param text Inserted text
+   */
+  insertText(value: unknown, start: number, end: number, text: string): InlineSpan[] {
+    const spans = this.splitAt(this.normalize(value), [start, end]);
+    const before: InlineSpan[] = [];
+    const after: InlineSpan[] = [];
+    let position = 0;
+
+    spans.forEach(span => {
+      const spanStart = position;
+      position += span.text.length;
+      if (position <= start) before.push(span);
+      else if (spanStart >= end) after.push(span);
+    });
+
+    const previous = before[before.length - 1] ?? after[0];
+    return this.normalize([...before, createSpan(text, previous?.marks, previous?.link), ...after]);
+  },
+
+  /**
+   * Get the selection inside a contenteditable element as character offsets
+   * @param root Contenteditable element
+   * @returns Start and end offsets, or null when the selection is outside the element
+   */
+  getSelectionOffsets(root: HTMLElement): [number, number] | null {
+    const selection = root.ownerDocument.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    if (!range || !root.contains(range.startContainer) || !root.contains(range.endContainer)) {
+      return null;
+    }
+
+    const measure = (container: Node, offset: number): number => {
+      const before = root.ownerDocument.createRange();
+      before.selectNodeContents(root);
+      before.setEnd(container, offset);
+      return this.toPlainText(this.fromDOM(before.cloneContents())).length;
+    };
+    return [
+      measure(range.startContainer, range.startOffset),
+      measure(range.endContainer, range.endOffset),
+    ];
+  },
+
+  /**
+   * Select a range of characters inside a contenteditable element rendered by toHTML
+   * @param root Contenteditable element
+   * @param start Start offset
+   * @param end End offset
+   */
+  setSelectionOffsets(root: HTMLElement, start: number, end: number): void {
+    const document = root.ownerDocument;
+    const locate = (offset: number): [Node, number] => {
+      const walker = document.createTreeWalker(
+        root,
+        NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT
+      );
+      let remaining = offset;
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (node.nodeType === Node.TEXT_NODE) {
+          const length = node.textContent?.length ?? 0;
+          if (remaining <= length) return [node, remaining];
+          remaining -= length;
+        } else if (node.nodeName === 'BR') {
+          const parent = node.parentNode!;
+          const index = Array.prototype.indexOf.call(parent.childNodes, node);
+          if (remaining === 0) return [parent, index];
+          remaining -= 1;
+          if (remaining === 0) return [parent, index + 1];
+        }
+      }
+      return [root, root.childNodes.length];
+    };
+
+    const range = document.createRange();
+    range.setStart(...locate(start));
+    range.setEnd(...locate(end));
+    const selection = document.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  },
+
+  /**
+   * Apply a formatting command to a range
+   * @param value Stored rich text
+   * @param start Start offset
+   * @param end End offset
+   * @param command Command
+   * @param link Link of the link command (null or an empty URL unlinks)
+   */
+  applyCommand(
+    value: unknown,
+    start: number,
+    end: number,
+    command: RichTextCommand,
+    link: InlineLink | null = null
+  ): InlineSpan[] {
+    switch (command) {
+      case 'link':
+        return this.setLink(value, start, end, link?.href.trim() ? link : null);
+      case 'clear':
+        return this.clearFormatting(value, start, end);
+      default:
+        return this.toggleMark(value, start, end, command);
+    }
+  },
+};
@@ -0,0 +1,366 @@
+/**
+ * Serialization helper for Visual HTML Builder
+ * Manages the versioned JSON document format, its schema and element migrations
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+import { ElementTreeHelper } from './ElementTreeHelper';
+import type { AnyElementType } from './ElementTypesHelper';
+import type { HTMLTemplate } from './HTMLTemplateHelper';
+
+export const DOCUMENT_FORMAT = 'visual-html-builder';
+export const DOCUMENT_VERSION = 1;
+
+export interface SerializedElement {
+  id: number;
+  type: string;
+  props: Record<string, unknown>;
+  children?: SerializedElement[][];
+}
+
+export interface DocumentMetadata {
+  createdAt: string;
+  updatedAt: string;
+  [key: string]: unknown;
+}
+
+export interface SerializedDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  elements: SerializedElement[];
+  elementVersions: Record<string, number>;
+  template: HTMLTemplate;
+  metadata: DocumentMetadata;
+}
+
+/**
+ * Subset of JSON Schema (draft 2020-12) understood by validateAgainstSchema
+ */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  minLength?: number;
+  required?: string[];
+  properties?: Record<string, JSONSchema>;
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+}
+
+export const SerializationHelper = {
+  /**
+   * Get the published JSON Schema of the document format
+   */
+  getDocumentSchema(): JSONSchema {
+    const stringMap: JSONSchema = { type: 'object', additionalProperties: { type: 'string' } };
+    const attributeList = (valueTypes: string[]): JSONSchema => ({
+      type: 'array',
+      items: { type: 'object', additionalProperties: { type: valueTypes } },
+    });
+
+    return {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: `https://github.com/naoki85/visual-html-builder/schemas/document-v${DOCUMENT_VERSION}.json`,
+      title: 'Visual HTML Builder document',
+      type: 'object',
+      required: ['format', 'version', 'elements', 'elementVersions', 'template', 'metadata'],
+      properties: {
+        format: { const: DOCUMENT_FORMAT },
+        version: { type: 'integer', minimum: 1 },
+        elements: { type: 'array', items: { $ref: '#/$defs/element' } },
+        elementVersions: {
+          type: 'object',
+          additionalProperties: { type: 'integer', minimum: 1 },
+        },
+        template: { $ref: '#/$defs/template' },
+        metadata: {
+          type: 'object',
+          required: ['createdAt', 'updatedAt'],
+          properties: {
+            createdAt: { type: 'string' },
+            updatedAt: { type: 'string' },
+          },
+        },
+      },
+      $defs: {
+        element: {
+          type: 'object',
+          required: ['id', 'type', 'props'],
+          properties: {
+            id: { type: 'number' },
+            type: { type: 'string', minLength: 1 },
+            props: { type: 'object' },
+            children: {
+              type: 'array',
+              items: { type: 'array', items: { $ref: '#/$defs/element' } },
+            },
+          },
+        },
+        template: {
+          type: 'object',
+          properties: {
+            doctype: { type: 'string' },
+            htmlAttributes: stringMap,
+            head: {
+              type: 'object',
+              properties: {
+                title: { type: 'string' },
+                meta: attributeList(['string']),
+                links: attributeList(['string']),
+                scripts: attributeList(['string', 'boolean']),
+                customHead: { type: 'string' },
+              },
+            },
+            bodyAttributes: stringMap,
+          },
+        },
+      },
+    };
+  },
+
+  /**
+   * Validate value against JSON Schema
+   * @param value Value to validate
+   * @param schema Schema to validate against
+   * @param rootSchema Schema used to resolve $ref (defaults to schema)
+   * @param path Path of the value used in error messages
+   * @returns List of error messages (empty if valid)
+   */
+  validateAgainstSchema(
+    value: unknown,
+    schema: JSONSchema,
+    rootSchema: JSONSchema = schema,
+    path: string = '$'
+  ): string[] {
+    if (schema.$ref) {
+      const defName = schema.$ref.replace(/^#\/\$defs\//, '');
+      const resolved = rootSchema.$defs?.[defName];
+      if (!resolved) return [`${path}: unresolvable reference ${schema.$ref}`];
+      return this.validateAgainstSchema(value, resolved, rootSchema, path);
+    }
+
+    if (schema.const !== undefined && value !== schema.const) {
+      return [`${path}: must be ${JSON.stringify(schema.const)}`];
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      return [`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`];
+    }
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesType(value, type))) {
+        return [`${path}: must be of type ${types.join(' or ')}`];
+      }
+    }
+
+    const errors: string[] = [];
+
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+
+    if (typeof value === 'string' && schema.minLength !== undefined) {
+      if (value.length < schema.minLength) {
+        errors.push(`${path}: must have at least ${schema.minLength} character(s)`);
+      }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => {
+        errors.push(
+          ...this.validateAgainstSchema(item, schema.items!, rootSchema, `${path}[${index}]`)
+        );
+      });
+    }
+
+    if (this.matchesType(value, 'object')) {
+      const record = value as Record<string, unknown>;
+
+      schema.required?.forEach(key => {
+        if (!(key in record)) errors.push(`${path}: missing required property "${key}"`);
+      });
+
+      for (const [key, item] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[key];
+        const itemPath = `${path}.${key}`;
+
+        if (propertySchema) {
+          errors.push(...this.validateAgainstSchema(item, propertySchema, rootSchema, itemPath));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}: unexpected property "${key}"`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          errors.push(
+            ...this.validateAgainstSchema(item, schema.additionalProperties, rootSchema, itemPath)
+          );
+        }
+      }
+    }
+
+    return errors;
+  },
+
+  /**
+   * Check value against JSON Schema primitive type
+   */
+  matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  },
+
+  /**
+   * Validate document envelope
+   * @param doc Value to validate
+   * @returns List of error messages (empty if valid)
+   */
+  validateEnvelope(doc: unknown): string[] {
+    const schema = this.getDocumentSchema();
+    const errors = this.validateAgainstSchema(doc, schema);
+
+    if (errors.length === 0) {
+      const version = (doc as SerializedDocument).version;
+      if (version > DOCUMENT_VERSION) {
+        errors.push(
+          `$.version: document version ${version} is newer than supported version ${DOCUMENT_VERSION}`
+        );
+      }
+    }
+
+    return errors;
+  },
+
+  /**
+   * Get current version of element type
+   */
+  getElementTypeVersion(elementType: AnyElementType | undefined): number {
+    return elementType?.version ?? 1;
+  },
+
+  /**
+   * Create document envelope
+   * @param elements Editor elements
+   * @param template HTML template
+   * @param elementTypes Registered element types (used to record prop shape versions)
+   * @param metadata Additional metadata (createdAt is preserved when given)
+   */
+  serialize(
+    elements: SerializedElement[],
+    template: HTMLTemplate,
+    elementTypes: Record<string, AnyElementType>,
+    metadata: Partial<DocumentMetadata> = {}
+  ): SerializedDocument {
+    const now = new Date().toISOString();
+    const elementVersions: Record<string, number> = {};
+
+    ElementTreeHelper.flatten(elements).forEach(element => {
+      elementVersions[element.type] = this.getElementTypeVersion(elementTypes[element.type]);
+    });
+
+    return {
+      format: DOCUMENT_FORMAT,
+      version: DOCUMENT_VERSION,
+      elements: UtilityHelpers.deepClone(elements),
+      elementVersions,
+      template: UtilityHelpers.deepClone(template),
+      metadata: {
+        ...metadata,
+        createdAt: metadata.createdAt || now,
+        updatedAt: now,
+      },
+    };
+  },
+
+  /**
+   * Upgrade props from an older element type version
+   * Migrations are keyed by the version they upgrade from: migrations[1] turns v1 props into v2.
+   * @param props Props in the stored shape
+   * @param fromVersion Version the props were stored with
+   * @param elementType Current element type definition
+   * @param typeName Element type name used in error messages
+   */
+  migrateProps(
+    props: Record<string, unknown>,
+    fromVersion: number,
+    elementType: AnyElementType,
+    typeName: string
+  ): Record<string, unknown> {
+    const targetVersion = this.getElementTypeVersion(elementType);
+
+    if (fromVersion > targetVersion) {
+      throw new Error(
+        `Element type "${typeName}" version ${fromVersion} is newer than registered version ${targetVersion}`
+      );
+    }
+
+    if (fromVersion === targetVersion) return props;
+
+    // The reserved style prop belongs to the editor, so migrations only see the type's own props
+    const { style, ...typeProps } = props;
+    let migrated: Record<string, unknown> = typeProps;
+    for (let version = fromVersion; version < targetVersion; version++) {
+      const migration = elementType.migrations?.[version];
+      if (!migration) {
+        throw new Error(`Missing migration for element type "${typeName}" from version ${version}`);
+      }
+      migrated = migration(migrated);
+    }
+
+    return style === undefined ? migrated : { ...migrated, style };
+  },
+
+  /**
+   * Validate document and upgrade its elements to the registered element type versions
+   * @param doc Document to load
+   * @param elementTypes Registered element types
+   * @returns Validated document with migrated elements
+   */
+  deserialize(doc: unknown, elementTypes: Record<string, AnyElementType>): SerializedDocument {
+    const errors = this.validateEnvelope(doc);
+    if (errors.length > 0) {
+      throw new Error(`Invalid document: ${errors.join('; ')}`);
+    }
+
+    const source = UtilityHelpers.deepClone(doc as SerializedDocument);
+    const elementVersions: Record<string, number> = {};
+
+    const migrateElement = (element: SerializedElement): SerializedElement => {
+      const elementType = elementTypes[element.type];
+      const fromVersion = source.elementVersions[element.type] ?? 1;
+      const migrated = element.children
+        ? { ...element, children: element.children.map(slot => slot.map(migrateElement)) }
+        : element;
+
+      // Unknown types are kept untouched so they survive a load/save round trip
+      if (!elementType) {
+        elementVersions[element.type] = fromVersion;
+        return migrated;
+      }
+
+      elementVersions[element.type] = this.getElementTypeVersion(elementType);
+      return {
+        ...migrated,
+        props: this.migrateProps(element.props, fromVersion, elementType, element.type),
+      };
+    };
+
+    const elements = source.elements.map(migrateElement);
+
+    return { ...source, elements, elementVersions };
+  },
+};
@@ -27,16 +27,18 @@ export const StylesHelper = {
         grid-template-columns: 250px 1fr 300px;
         height: 600px;
         border: 1px solid var(--editor-border-color, #ddd);
-        border-radius: 8px;
+        border-radius: var(--editor-radius, 8px);
         overflow: hidden;
         font-family: var(--editor-font-family, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
         background: var(--editor-bg, #fff);
+        color: var(--text-color, #333);
+        font-size: var(--editor-font-size, 14px);
       }
 
       .editor-sidebar {
         background: var(--sidebar-bg, #f8f9fa);
         border-right: 1px solid var(--editor-border-color, #ddd);
-        padding: 20px;
+        padding: var(--editor-panel-padding, 20px);
         overflow-y: auto;
       }
 
@@ -55,14 +57,15 @@ export const StylesHelper = {
       .element-button {
         display: flex;
         align-items: center;
-        gap: 10px;
+        gap: var(--editor-gap, 10px);
         padding: 12px;
         border: 1px solid var(--button-border, #ddd);
-        border-radius: 6px;
+        border-radius: var(--editor-radius-sm, 4px);
         background: var(--button-bg, #fff);
         cursor: pointer;
+        color: var(--text-color, #333);
         transition: all 0.2s;
-        font-size: 14px;
+        font-size: var(--editor-font-size, 14px);
       }
 
       .element-button:hover {
@@ -89,7 +92,7 @@ export const StylesHelper = {
         padding: 0 20px;
         border-bottom: 1px solid var(--editor-border-color, #ddd);
         background: var(--tabs-bg, #f8f9fa);
-        gap: 10px;
+        gap: var(--editor-gap, 10px);
       }
 
       .tab-button {
@@ -98,7 +101,7 @@ export const StylesHelper = {
         background: transparent;
         cursor: pointer;
         border-bottom: 2px solid transparent;
-        font-size: 14px;
+        font-size: var(--editor-font-size, 14px);
         color: var(--text-color, #666);
         transition: all 0.2s;
       }
@@ -116,11 +119,11 @@ export const StylesHelper = {
         margin-left: auto;
         padding: 8px 12px;
         border: 1px solid var(--primary-color, #007bff);
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         background: var(--primary-color, #007bff);
-        color: white;
+        color: var(--primary-text, #fff);
         cursor: pointer;
-        font-size: 12px;
+        font-size: var(--editor-font-size-sm, 12px);
       }
 
       .copy-html-button:hover {
@@ -144,7 +147,7 @@ export const StylesHelper = {
       }
 
       .preview-area {
-        padding: 20px;
+        padding: var(--editor-panel-padding, 20px);
         min-height: 100%;
       }
 
@@ -153,15 +156,15 @@ export const StylesHelper = {
         color: var(--text-muted, #999);
         font-style: italic;
         padding: 40px;
-        border: 2px dashed #ddd;
-        border-radius: 8px;
+        border: 2px dashed var(--editor-border-color, #ddd);
+        border-radius: var(--editor-radius, 8px);
         margin: 20px;
       }
 
       .preview-element {
         margin-bottom: 15px;
         border: 2px solid transparent;
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         position: relative;
         cursor: pointer;
         transition: all 0.2s;
@@ -170,17 +173,21 @@ export const StylesHelper = {
 
       .preview-element:hover {
         border-color: var(--hover-border, #007bff);
-        background: rgba(0, 123, 255, 0.02);
+        background: var(--highlight-bg, rgba(0, 123, 255, 0.05));
       }
 
       .preview-element.selected {
         border-color: var(--primary-color, #007bff);
-        background: rgba(0, 123, 255, 0.05);
+        background: var(--highlight-bg, rgba(0, 123, 255, 0.05));
       }
 
       .preview-element.has-error {
         border-color: var(--error-color, #dc3545);
-        background: rgba(220, 53, 69, 0.05);
+        background: var(--error-bg, rgba(220, 53, 69, 0.05));
+      }
+
+      .preview-element.has-warning {
+        border-color: var(--warning-color, #ffc107);
       }
 
       .preview-element.dragging {
@@ -194,14 +201,14 @@ export const StylesHelper = {
         top: -35px;
         right: 0;
         background: var(--primary-color, #007bff);
-        color: white;
+        color: var(--primary-text, #fff);
         padding: 6px 10px;
-        border-radius: 4px;
-        font-size: 12px;
+        border-radius: var(--editor-radius-sm, 4px);
+        font-size: var(--editor-font-size-sm, 12px);
         align-items: center;
         gap: 8px;
         z-index: 10;
-        box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+        box-shadow: 0 2px 8px var(--shadow-color, rgba(0, 0, 0, 0.15));
       }
 
       .preview-element:hover .element-controls,
@@ -212,7 +219,7 @@ export const StylesHelper = {
       .delete-element {
         background: rgba(255,255,255,0.2);
         border: none;
-        color: white;
+        color: var(--primary-text, #fff);
         cursor: pointer;
         font-size: 16px;
         padding: 2px;
@@ -221,7 +228,7 @@ export const StylesHelper = {
         display: flex;
         align-items: center;
         justify-content: center;
-        border-radius: 3px;
+        border-radius: var(--editor-radius-sm, 4px);
         transition: background 0.2s;
       }
 
@@ -234,34 +241,41 @@ export const StylesHelper = {
         user-select: none;
       }
 
-      .html-tab-controls {
+      .html-tab-controls,
+      .breakpoint-switcher,
+      .preview-toolbar {
         display: flex;
         align-items: center;
-        gap: 10px;
+        gap: var(--editor-gap, 10px);
         padding: 15px 20px 10px 20px;
         border-bottom: 1px solid var(--editor-border-color, #ddd);
         background: var(--tabs-bg, #f8f9fa);
       }
 
-      .html-mode-button {
+      .html-mode-button,
+      .breakpoint-button,
+      .preview-rotate-button {
         padding: 6px 12px;
         border: 1px solid var(--button-border, #ddd);
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         background: var(--button-bg, #fff);
         cursor: pointer;
-        font-size: 12px;
+        font-size: var(--editor-font-size-sm, 12px);
         color: var(--text-color, #666);
         transition: all 0.2s;
       }
 
-      .html-mode-button:hover {
+      .html-mode-button:hover,
+      .breakpoint-button:hover,
+      .preview-rotate-button:hover:not(:disabled) {
         background: var(--button-hover-bg, #f0f0f0);
         border-color: var(--button-hover-border, #ccc);
       }
 
-      .html-mode-button.active {
+      .html-mode-button.active,
+      .breakpoint-button.active {
         background: var(--primary-color, #007bff);
-        color: white;
+        color: var(--primary-text, #fff);
         border-color: var(--primary-color, #007bff);
       }
 
@@ -269,35 +283,100 @@ export const StylesHelper = {
         margin-left: auto;
         padding: 6px 10px;
         border: 1px solid var(--success-color, #28a745);
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         background: var(--success-color, #28a745);
-        color: white;
+        color: var(--primary-text, #fff);
         cursor: pointer;
         font-size: 11px;
         transition: all 0.2s;
       }
 
       .copy-current-html-button:hover {
-        background: #218838;
+        background: var(--success-hover, #218838);
         transform: translateY(-1px);
       }
 
-      .html-output {
+      .html-output,
+      .markdown-output,
+      .react-output,
+      .vue-output {
         width: 100%;
         height: calc(100% - 60px);
         border: none;
-        padding: 20px;
-        font-family: 'Monaco', 'Menlo', 'Consolas', monospace;
-        font-size: 14px;
+        padding: var(--editor-panel-padding, 20px);
+        font-family: var(--code-font-family, 'Monaco', 'Menlo', 'Consolas', monospace);
+        font-size: var(--editor-font-size, 14px);
         resize: none;
         background: var(--code-bg, #f8f9fa);
+        color: var(--code-text, #333);
         line-height: 1.5;
       }
 
+      .code-export-toolbar {
+        display: flex;
+        justify-content: flex-end;
+        padding: 8px 20px 0;
+      }
+
+      .copy-code-button {
+        padding: 6px 10px;
+        border: 1px solid var(--button-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        background: var(--button-bg, #fff);
+        color: var(--text-color, #333);
+        cursor: pointer;
+        font-size: var(--editor-font-size-sm, 12px);
+      }
+
+      .copy-code-button:hover {
+        border-color: var(--primary-color, #007bff);
+        color: var(--primary-color, #007bff);
+      }
+
+      .document-checks {
+        padding: var(--editor-panel-padding, 20px);
+        overflow-y: auto;
+      }
+
+      .document-report-status {
+        font-weight: 500;
+        margin-bottom: 10px;
+      }
+
+      .document-report.is-ready .document-report-status {
+        color: var(--success-color, #28a745);
+      }
+
+      .document-report.has-errors .document-report-status {
+        color: var(--error-color, #dc3545);
+      }
+
+      .document-issue {
+        padding: 6px 8px;
+        border-radius: var(--editor-radius-sm, 4px);
+      }
+
+      .document-issue[data-element-id] {
+        cursor: pointer;
+      }
+
+      .document-issue[data-element-id]:hover,
+      .document-issue[data-element-id]:focus {
+        background: var(--hover-bg, #f8f9fa);
+      }
+
+      .checks-count:not(:empty) {
+        background: var(--error-color, #dc3545);
+        color: var(--primary-text, #fff);
+        border-radius: var(--editor-radius, 8px);
+        padding: 0 6px;
+        font-size: 11px;
+      }
+
       .editor-properties {
         background: var(--sidebar-bg, #f8f9fa);
         border-left: 1px solid var(--editor-border-color, #ddd);
-        padding: 20px;
+        padding: var(--editor-panel-padding, 20px);
         overflow-y: auto;
       }
 
@@ -311,7 +390,7 @@ export const StylesHelper = {
         color: var(--text-muted, #999);
         font-style: italic;
         text-align: center;
-        padding: 20px;
+        padding: var(--editor-panel-padding, 20px);
       }
 
       .properties-header h4 {
@@ -326,7 +405,7 @@ export const StylesHelper = {
       .property-group label {
         display: block;
         margin-bottom: 5px;
-        font-size: 14px;
+        font-size: var(--editor-font-size, 14px);
         font-weight: 500;
         color: var(--text-color, #333);
       }
@@ -337,8 +416,10 @@ export const StylesHelper = {
         width: 100%;
         padding: 8px;
         border: 1px solid var(--input-border, #ddd);
-        border-radius: 4px;
-        font-size: 14px;
+        border-radius: var(--editor-radius-sm, 4px);
+        background: var(--input-bg, #fff);
+        color: var(--input-text, #333);
+        font-size: var(--editor-font-size, 14px);
         box-sizing: border-box;
       }
 
@@ -347,7 +428,7 @@ export const StylesHelper = {
       .property-group textarea:focus {
         outline: none;
         border-color: var(--primary-color, #007bff);
-        box-shadow: 0 0 0 2px rgba(0, 123, 255, 0.1);
+        box-shadow: 0 0 0 2px var(--focus-ring, rgba(0, 123, 255, 0.1));
       }
 
       /* Checkbox labels should be displayed inline */
@@ -370,11 +451,73 @@ export const StylesHelper = {
         cursor: pointer;
       }
 
+      .rich-text-toolbar {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+        margin-bottom: 6px;
+      }
+
+      .rich-text-button {
+        min-width: 28px;
+        height: 28px;
+        padding: 0 6px;
+        border: 1px solid var(--button-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        background: var(--button-bg, #fff);
+        color: var(--text-color, #333);
+        cursor: pointer;
+        font-size: var(--editor-font-size-sm, 12px);
+      }
+
+      .rich-text-button:hover {
+        background: var(--button-hover-bg, #f0f0f0);
+        border-color: var(--button-hover-border, #ccc);
+      }
+
+      .rich-text-input {
+        min-height: 60px;
+        padding: 8px;
+        border: 1px solid var(--input-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        background: var(--input-bg, #fff);
+        color: var(--input-text, #333);
+        font-size: var(--editor-font-size, 14px);
+        white-space: pre-wrap;
+        word-break: break-word;
+      }
+
+      .rich-text-input[data-single-line] {
+        min-height: 0;
+      }
+
+      .rich-text-input:focus {
+        outline: none;
+        border-color: var(--primary-color, #007bff);
+        box-shadow: 0 0 0 2px var(--focus-ring, rgba(0, 123, 255, 0.1));
+      }
+
+      .rich-text-link {
+        display: flex;
+        gap: 8px;
+        align-items: center;
+        margin-top: 6px;
+      }
+
+      .rich-text-link input[type="url"] {
+        flex: 1;
+      }
+
+      .property-group .rich-text-link label.checkbox-label {
+        margin-bottom: 0;
+        white-space: nowrap;
+      }
+
       .list-editor {
         border: 1px solid var(--input-border, #ddd);
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         padding: 10px;
-        background: white;
+        background: var(--input-bg, #fff);
       }
 
       .list-item-editor {
@@ -391,58 +534,250 @@ export const StylesHelper = {
 
       .list-item-editor button {
         background: var(--error-color, #dc3545);
-        color: white;
+        color: var(--primary-text, #fff);
         border: none;
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         width: 24px;
         height: 24px;
         cursor: pointer;
         display: flex;
         align-items: center;
         justify-content: center;
-        font-size: 14px;
+        font-size: var(--editor-font-size, 14px);
         transition: background 0.2s;
       }
 
       .list-item-editor button:hover {
-        background: #c82333;
+        background: var(--error-hover, #c82333);
+      }
+
+      .list-item-editor button.move-list-item,
+      .array-item-header button.move-list-item {
+        background: var(--secondary-color, #6c757d);
+      }
+
+      .list-item-editor button.move-list-item:hover,
+      .array-item-header button.move-list-item:hover {
+        background: var(--secondary-hover, #5a6268);
       }
 
+      .list-item-editor button:disabled,
+      .array-item-header button:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+
+      .array-item-editor {
+        border: 1px solid var(--input-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        padding: 8px;
+        margin-bottom: 8px;
+      }
+
+      .array-item-header {
+        display: flex;
+        gap: 8px;
+        align-items: center;
+        margin-bottom: 8px;
+        font-size: var(--editor-font-size-sm, 12px);
+        color: var(--text-muted, #999);
+      }
+
+      .array-item-header span {
+        flex: 1;
+      }
+
+      .array-item-header button {
+        background: var(--error-color, #dc3545);
+        color: var(--primary-text, #fff);
+        border: none;
+        border-radius: var(--editor-radius-sm, 4px);
+        width: 24px;
+        height: 24px;
+        cursor: pointer;
+      }
+
+      .table-grid-editor {
+        border: 1px solid var(--input-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        padding: 10px;
+        background: var(--input-bg, #fff);
+      }
+
+      .table-grid-scroll {
+        overflow-x: auto;
+      }
+
+      .table-grid {
+        border-collapse: collapse;
+      }
+
+      .table-grid th,
+      .table-grid td {
+        padding: 2px;
+        vertical-align: middle;
+      }
+
+      .table-grid input.table-grid-cell,
+      .table-grid select.table-grid-align {
+        min-width: 80px;
+        margin: 0;
+      }
+
+      .table-grid-missing {
+        background: repeating-linear-gradient(
+          45deg,
+          transparent,
+          transparent 4px,
+          var(--input-border, #ddd) 4px,
+          var(--input-border, #ddd) 5px
+        );
+      }
+
+      .table-grid-buttons {
+        display: flex;
+        gap: 2px;
+        justify-content: center;
+        margin-top: 2px;
+      }
+
+      .table-grid-button {
+        background: var(--secondary-color, #6c757d);
+        color: var(--primary-text, #fff);
+        border: none;
+        border-radius: var(--editor-radius-sm, 4px);
+        min-width: 22px;
+        height: 22px;
+        cursor: pointer;
+        font-size: var(--editor-font-size-sm, 12px);
+      }
+
+      .table-grid-button:hover {
+        background: var(--secondary-hover, #5a6268);
+      }
+
+      .table-grid-button.table-grid-remove {
+        background: var(--error-color, #dc3545);
+      }
+
+      .table-grid-button.table-grid-remove:hover {
+        background: var(--error-hover, #c82333);
+      }
+
+      .table-grid-button:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+
+      .table-grid-actions {
+        display: flex;
+        gap: 8px;
+        margin-top: 8px;
+      }
+
+      .table-grid-actions .table-grid-button {
+        background: var(--success-color, #28a745);
+        padding: 0 12px;
+        height: 28px;
+      }
+
+      .table-grid-actions .table-grid-button:hover {
+        background: var(--success-hover, #218838);
+      }
+
+      .property-fieldset {
+        border: 1px solid var(--input-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        padding: 10px;
+        margin: 0 0 15px 0;
+      }
+
+      .property-fieldset legend {
+        font-size: var(--editor-font-size, 14px);
+        font-weight: 500;
+        color: var(--text-color, #333);
+      }
+
+      .list-editor .add-list-item,
       .list-editor button[onclick*="addListItem"] {
         background: var(--success-color, #28a745);
-        color: white;
+        color: var(--primary-text, #fff);
         border: none;
-        border-radius: 4px;
+        border-radius: var(--editor-radius-sm, 4px);
         padding: 8px 12px;
         cursor: pointer;
-        font-size: 12px;
+        font-size: var(--editor-font-size-sm, 12px);
         margin-top: 8px;
         transition: background 0.2s;
       }
 
+      .list-editor .add-list-item:hover,
       .list-editor button[onclick*="addListItem"]:hover {
-        background: #218838;
+        background: var(--success-hover, #218838);
       }
 
       .validation-error {
         color: var(--error-color, #dc3545);
-        font-size: 12px;
+        font-size: var(--editor-font-size-sm, 12px);
         margin-top: 5px;
         font-weight: 500;
       }
 
+      .validation-list {
+        list-style: none;
+        margin: 5px 0 0;
+        padding: 0;
+      }
+
+      .validation-warning {
+        color: var(--warning-text, #856404);
+        font-size: var(--editor-font-size-sm, 12px);
+        margin-top: 5px;
+      }
+
+      .validation-info {
+        color: var(--secondary-color, #6c757d);
+        font-size: var(--editor-font-size-sm, 12px);
+        margin-top: 5px;
+      }
+
+      .property-group .has-error {
+        border-color: var(--error-color, #dc3545);
+      }
+
+      .property-group .has-warning {
+        border-color: var(--warning-color, #ffc107);
+      }
+
       .editor-notification {
         position: fixed;
         top: 20px;
         right: 20px;
         background: var(--success-color, #28a745);
-        color: white;
+        color: var(--primary-text, #fff);
         padding: 12px 16px;
-        border-radius: 4px;
-        font-size: 14px;
+        border-radius: var(--editor-radius-sm, 4px);
+        font-family: var(--editor-font-family, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
+        font-size: var(--editor-font-size, 14px);
         z-index: 1000;
         animation: slideIn 0.3s ease;
-        box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+        box-shadow: 0 4px 12px var(--shadow-color, rgba(0, 0, 0, 0.15));
+      }
+
+      .editor-notification-actions {
+        display: flex;
+        gap: 8px;
+        margin-top: 8px;
+      }
+
+      .editor-notification-action {
+        background: var(--notification-action-bg, rgba(255, 255, 255, 0.9));
+        color: var(--notification-action-text, #212529);
+        border: none;
+        border-radius: var(--editor-radius-sm, 4px);
+        padding: 4px 10px;
+        font-size: 13px;
+        cursor: pointer;
       }
 
       @keyframes slideIn {
@@ -496,7 +831,7 @@ export const StylesHelper = {
 
       /* Drag and drop visual feedback */
       .preview-area.drag-over {
-        background: rgba(0, 123, 255, 0.05);
+        background: var(--highlight-bg, rgba(0, 123, 255, 0.05));
       }
 
       .preview-element.drag-target {
@@ -508,8 +843,8 @@ export const StylesHelper = {
         width: 100%;
         height: 100%;
         border: none;
-        border-radius: 4px;
-        background: white;
+        border-radius: var(--editor-radius-sm, 4px);
+        background: var(--preview-bg, #fff);
         box-shadow: inset 0 0 0 1px rgba(0,0,0,0.1);
         display: block;
       }
@@ -536,6 +871,52 @@ export const StylesHelper = {
       .preview-area.iframe-mode .preview-iframe {
         flex: 1;
         min-height: 0;
+        /* Centered when narrowed to a breakpoint width */
+        align-self: center;
+        transition: width 0.2s;
+      }
+
+      .breakpoint-button small {
+        opacity: 0.7;
+      }
+
+      .preview-device-select,
+      .preview-zoom-select,
+      .preview-size-input {
+        padding: 5px 6px;
+        border: 1px solid var(--button-border, #ddd);
+        border-radius: var(--editor-radius-sm, 4px);
+        background: var(--button-bg, #fff);
+        font-size: var(--editor-font-size-sm, 12px);
+        color: var(--text-color, #666);
+      }
+
+      .preview-size-input {
+        width: 72px;
+      }
+
+      .preview-rotate-button:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+
+      /* Ruler above the preview frame; background-size sets the tick spacing */
+      .preview-ruler {
+        height: 18px;
+        margin: 0 auto;
+        max-width: 100%;
+        border-bottom: 1px solid var(--editor-border-color, #ddd);
+        background-image: linear-gradient(to right, var(--editor-border-color, #bbb) 1px, transparent 1px);
+        background-repeat: repeat-x;
+        font-size: 10px;
+        line-height: 18px;
+        text-align: center;
+        color: var(--text-muted, #999);
+      }
+
+      .preview-ruler-label {
+        padding: 0 4px;
+        background: var(--tabs-bg, #f8f9fa);
       }
 
       /* Loading state for iframe */
@@ -543,8 +924,8 @@ export const StylesHelper = {
         display: flex;
         align-items: center;
         justify-content: center;
-        background: #f8f9fa;
-        color: #666;
+        background: var(--tabs-bg, #f8f9fa);
+        color: var(--text-muted, #999);
       }
 
       .preview-area.iframe-loading::after {
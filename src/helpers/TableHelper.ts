@@ -0,0 +1,212 @@
+/**
+ * Table helper for Visual HTML Builder
+ * Grid operations of table elements: rows and columns are added, removed and moved with the
+ * alignment of each column, and blocks copied from spreadsheets (TSV or CSV) are pasted in
+ */
+import type { ArrayAction } from './PropertyEditorHelper';
+
+export type TableAlignment = 'left' | 'center' | 'right';
+
+export type TableAxis = 'row' | 'column';
+
+/** Table content: rows of cell text and the alignment of each column */
+export interface TableGrid {
+  align: TableAlignment[];
+  cells: string[][];
+}
+
+const ALIGNMENTS: TableAlignment[] = ['left', 'center', 'right'];
+
+/**
+ * Move an item one step within a copy of an array ('up' moves toward the start)
+ */
+const swap = <T>(items: T[], index: number, action: 'up' | 'down'): T[] => {
+  const result = [...items];
+  const target = action === 'up' ? index - 1 : index + 1;
+  if (index < 0 || index >= result.length || target < 0 || target >= result.length) return result;
+
+  [result[index], result[target]] = [result[target] as T, result[index] as T];
+  return result;
+};
+
+/**
+ * Pad a row with empty cells up to a length
+ */
+const pad = (row: string[], length: number): string[] => [
+  ...row,
+  ...Array.from({ length: length - row.length }, () => ''),
+];
+
+export const TableHelper = {
+  /**
+   * Get alignment options of table columns
+   */
+  getAlignments(): TableAlignment[] {
+    return [...ALIGNMENTS];
+  },
+
+  /**
+   * Read table content from an untrusted value (e.g. loaded JSON)
+   * Cells become strings and unknown alignments become 'left'; ragged rows are kept.
+   * @param value Stored grid
+   */
+  normalize(value: unknown): TableGrid {
+    const record =
+      value !== null && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    const cells = Array.isArray(record.cells)
+      ? record.cells.map(row =>
+          Array.isArray(row)
+            ? row.map(cell => (cell === null || cell === undefined ? '' : String(cell)))
+            : []
+        )
+      : [];
+    const align = Array.isArray(record.align) ? record.align : [];
+
+    return {
+      align: Array.from({ length: this.getColumnCount({ align: [], cells }) }, (_, index) =>
+        ALIGNMENTS.includes(align[index] as TableAlignment)
+          ? (align[index] as TableAlignment)
+          : 'left'
+      ),
+      cells,
+    };
+  },
+
+  /**
+   * Get number of columns (the length of the longest row)
+   * @param grid Table content
+   */
+  getColumnCount(grid: TableGrid): number {
+    return Math.max(grid.align.length, ...grid.cells.map(row => row.length), 0);
+  },
+
+  /**
+   * Apply add/remove/reorder action to the rows or columns of a grid
+   * Added rows and columns are empty; column alignment follows its column.
+   * @param grid Table content
+   * @param axis Rows or columns
+   * @param action Action to apply ('up' and 'down' move columns left and right)
+   * @param index Row or column index (insert position for 'add')
+   * @returns New grid (unchanged copy if the action is out of range)
+   */
+  applyGridAction(grid: TableGrid, axis: TableAxis, action: ArrayAction, index: number): TableGrid {
+    const columnCount = this.getColumnCount(grid);
+    const align = Array.from({ length: columnCount }, (_, i) => grid.align[i] ?? 'left');
+    const cells = grid.cells.map(row => [...row]);
+
+    if (axis === 'row') {
+      switch (action) {
+        case 'add':
+          cells.splice(Math.max(0, Math.min(index, cells.length)), 0, pad([], columnCount || 1));
+          if (columnCount === 0) align.push('left');
+          return { align, cells };
+        case 'remove':
+          if (index >= 0 && index < cells.length) cells.splice(index, 1);
+          return { align, cells };
+        default:
+          return { align, cells: swap(cells, index, action) };
+      }
+    }
+
+    switch (action) {
+      case 'add': {
+        const position = Math.max(0, Math.min(index, columnCount));
+        align.splice(position, 0, 'left');
+        return {
+          align,
+          cells: cells.map(row => [...row.slice(0, position), '', ...row.slice(position)]),
+        };
+      }
+      case 'remove':
+        if (index < 0 || index >= columnCount) return { align, cells };
+        align.splice(index, 1);
+        return { align, cells: cells.map(row => row.filter((_, i) => i !== index)) };
+      default:
+        return {
+          align: swap(align, index, action),
+          // Ragged rows only move the cells they have
+          cells: cells.map(row => swap(row, index, action)),
+        };
+    }
+  },
+
+  /**
+   * Parse text copied from a spreadsheet into rows of cells
+   * Tab-separated text is read as TSV, other multi-line text as CSV; quoted cells may hold
+   * delimiters, line breaks and doubled quotes.
+   * @param text Pasted text
+   * @returns Rows of cells (null for text that fits in a single cell)
+   */
+  parseClipboard(text: string): string[][] | null {
+    const source = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+    if (!source.includes('\t') && !source.includes('\n')) return null;
+
+    const delimiter = source.includes('\t') ? '\t' : ',';
+    const rows: string[][] = [[]];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      const row = rows[rows.length - 1] as string[];
+
+      if (quoted) {
+        if (char === '"' && source[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n') {
+        row.push(cell);
+        rows.push([]);
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    (rows[rows.length - 1] as string[]).push(cell);
+
+    return rows;
+  },
+
+  /**
+   * Write pasted rows into a grid, starting at a cell
+   * The grid grows to fit the pasted block; rows shorter than the new width are padded.
+   * @param grid Table content
+   * @param row Row of the top-left pasted cell
+   * @param column Column of the top-left pasted cell
+   * @param pasted Rows of pasted cells
+   * @returns New grid
+   */
+  pasteCells(grid: TableGrid, row: number, column: number, pasted: string[][]): TableGrid {
+    const pastedWidth = Math.max(0, ...pasted.map(cells => cells.length));
+    const columnCount = Math.max(this.getColumnCount(grid), column + pastedWidth);
+    const cells = grid.cells.map(cells => [...cells]);
+
+    while (cells.length < row + pasted.length) cells.push([]);
+    pasted.forEach((pastedRow, r) => {
+      const target = cells[row + r] as string[];
+      pastedRow.forEach((text, c) => {
+        while (target.length < column + c) target.push('');
+        target[column + c] = text;
+      });
+    });
+
+    // New rows get the full width; existing rows only when the block widens the table
+    const widened = columnCount > this.getColumnCount(grid);
+    return {
+      align: Array.from({ length: columnCount }, (_, i) => grid.align[i] ?? 'left'),
+      cells: cells.map((cells, index) =>
+        widened || index >= grid.cells.length ? pad(cells, columnCount) : cells
+      ),
+    };
+  },
+};
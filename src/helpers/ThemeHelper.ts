@@ -0,0 +1,189 @@
+/**
+ * Theme helper for Visual HTML Builder
+ * Design tokens (colors, fonts, type scale, spacing, radii) emitted as CSS custom properties
+ */
+import type { SelectOption } from './PropertyEditorHelper';
+
+export interface Theme {
+  name: string;
+  label?: string;
+  /** Color palette */
+  colors: Record<string, string>;
+  /** Font stacks */
+  fonts: Record<string, string>;
+  /** Type scale in pixels */
+  fontSizes: Record<string, number>;
+  /** Spacing scale in pixels */
+  spacing: Record<string, number>;
+  /** Border radii in pixels */
+  radii: Record<string, number>;
+}
+
+/** Theme as configured: groups that are left out come from the default theme */
+export type ThemeInput = Pick<Theme, 'name' | 'label'> & Partial<Omit<Theme, 'name' | 'label'>>;
+
+export type TokenGroup = 'colors' | 'fonts' | 'fontSizes' | 'spacing' | 'radii';
+
+// Custom property prefix of each token group
+const TOKEN_PREFIXES: Record<TokenGroup, string> = {
+  colors: '--color-',
+  fonts: '--font-',
+  fontSizes: '--font-size-',
+  spacing: '--space-',
+  radii: '--radius-',
+};
+
+const TOKEN_NAME = /^[a-zA-Z0-9_-]+$/;
+
+// Characters that would end the declaration or an inline style attribute
+const UNSAFE_VALUE = /[;{}<>"\\]/;
+
+export const ThemeHelper = {
+  /**
+   * Get default theme (matches the former look of the preview)
+   */
+  getDefaultTheme(): Theme {
+    return {
+      name: 'default',
+      label: 'Default',
+      colors: {
+        primary: '#007bff',
+        secondary: '#6c757d',
+        text: '#333333',
+        muted: '#999999',
+        background: '#ffffff',
+        surface: '#f8f9fa',
+        border: '#dddddd',
+      },
+      fonts: {
+        body: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+        heading: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+        mono: 'SFMono-Regular, Menlo, Consolas, monospace',
+      },
+      fontSizes: { sm: 14, base: 16, lg: 20, xl: 24, '2xl': 32, '3xl': 40 },
+      spacing: { xs: 4, sm: 8, md: 16, lg: 24, xl: 32 },
+      radii: { sm: 4, md: 8, lg: 16, full: 9999 },
+    };
+  },
+
+  /**
+   * Complete and validate a configured theme
+   * @param input Configured theme
+   */
+  createTheme(input: ThemeInput): Theme {
+    const defaults = this.getDefaultTheme();
+    const theme: Theme = {
+      name: input.name,
+      label: input.label ?? input.name,
+      colors: input.colors ?? defaults.colors,
+      fonts: input.fonts ?? defaults.fonts,
+      fontSizes: input.fontSizes ?? defaults.fontSizes,
+      spacing: input.spacing ?? defaults.spacing,
+      radii: input.radii ?? defaults.radii,
+    };
+
+    (Object.keys(TOKEN_PREFIXES) as TokenGroup[]).forEach(group => {
+      Object.entries(theme[group]).forEach(([key, value]) => {
+        if (!TOKEN_NAME.test(key)) {
+          throw new Error(`Invalid token name "${key}" in theme "${theme.name}"`);
+        }
+        if (UNSAFE_VALUE.test(String(value))) {
+          throw new Error(`Invalid value of token "${group}.${key}" in theme "${theme.name}"`);
+        }
+      });
+    });
+
+    return theme;
+  },
+
+  /**
+   * Complete and validate configured themes
+   * @param inputs Configured themes (the default theme when empty)
+   */
+  createThemes(inputs: ThemeInput[]): Theme[] {
+    const themes = inputs.length
+      ? inputs.map(input => this.createTheme(input))
+      : [this.getDefaultTheme()];
+    if (new Set(themes.map(theme => theme.name)).size !== themes.length) {
+      throw new Error('Theme names must be unique');
+    }
+    return themes;
+  },
+
+  /**
+   * Get custom property name of a token
+   * @param group Token group
+   * @param key Token name
+   */
+  getVariableName(group: TokenGroup, key: string): string {
+    return `${TOKEN_PREFIXES[group]}${key}`;
+  },
+
+  /**
+   * Get custom properties of a theme
+   * @param theme Theme
+   * @returns Property names and CSS values
+   */
+  getVariables(theme: Theme): Record<string, string> {
+    return Object.fromEntries(
+      (Object.keys(TOKEN_PREFIXES) as TokenGroup[]).flatMap(group =>
+        Object.entries(theme[group]).map(([key, value]) => [
+          this.getVariableName(group, key),
+          typeof value === 'number' ? `${value}px` : value,
+        ])
+      )
+    );
+  },
+
+  /**
+   * Build stylesheet of a theme: custom properties on :root and base page typography
+   * @param theme Theme
+   */
+  toStylesheet(theme: Theme): string {
+    const variables = Object.entries(this.getVariables(theme)).map(
+      ([name, value]) => `  ${name}: ${value};`
+    );
+    const body = [
+      theme.fonts.body ? 'font-family: var(--font-body)' : '',
+      theme.colors.text ? 'color: var(--color-text)' : '',
+      theme.colors.background ? 'background-color: var(--color-background)' : '',
+    ].filter(Boolean);
+
+    return [
+      ':root {',
+      ...variables,
+      '}',
+      ...(body.length ? [`body { ${body.join('; ')}; }`] : []),
+      ...(theme.fonts.heading
+        ? ['h1, h2, h3, h4, h5, h6 { font-family: var(--font-heading); }']
+        : []),
+    ].join('\n');
+  },
+
+  /**
+   * Get tokens of a group as options of style pickers
+   * @param theme Theme
+   * @param group Token group
+   */
+  getTokenOptions(theme: Theme, group: TokenGroup): SelectOption[] {
+    return Object.entries(theme[group]).map(([key, value]) => ({
+      value: `var(${this.getVariableName(group, key)})`,
+      label: `${key} (${typeof value === 'number' ? `${value}px` : value})`,
+    }));
+  },
+
+  /**
+   * Replace theme custom properties with their values
+   * Used for outputs whose consumers do not support custom properties (email clients).
+   * Unknown variables resolve to their fallback value when they have one.
+   * @param text Markup or CSS
+   * @param theme Theme
+   */
+  resolveVariables(text: string, theme: Theme): string {
+    const variables = this.getVariables(theme);
+    return text.replace(
+      /var\(\s*(--[a-zA-Z0-9_-]+)\s*(?:,\s*([^()]*?)\s*)?\)/g,
+      (match, name: string, fallback: string | undefined) => variables[name] ?? (fallback || match)
+    );
+  },
+};
@@ -13,17 +13,59 @@ export const UtilityHelpers = {
     return div.innerHTML;
   },
 
+  /**
+   * Escape text for a double-quoted attribute value (escapeHtml leaves quotes alone)
+   * @param text The string to escape
+   * @returns The escaped string
+   */
+  escapeAttribute(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;');
+  },
+
   /**
    * Check if a string is a valid URL format
    * @param string The string to check
+   * @param base Base URL that relative URLs are resolved against (absolute URLs only if omitted)
    * @returns True if the string is a valid URL
    */
-  isValidUrl(string: string): boolean {
+  isValidUrl(string: string, base?: string): boolean {
     try {
-      new URL(string);
+      new URL(string, base);
       return true;
     } catch {
       return false;
     }
   },
+
+  /**
+   * Get the scheme of a URL the way browsers read it (control characters and whitespace inside
+   * the scheme are ignored)
+   * @param url The URL to check
+   * @returns Lowercase scheme with its colon (e.g. "https:"), or null for relative URLs
+   */
+  getUrlScheme(url: string): string | null {
+    const compact = Array.from(url)
+      .filter(char => char.charCodeAt(0) > 32)
+      .join('');
+    return /^([a-zA-Z][a-zA-Z0-9+.-]*:)/.exec(compact)?.[1]?.toLowerCase() ?? null;
+  },
+
+  /**
+   * Deep copy plain data (objects, arrays and primitives)
+   * @param value The value to copy
+   * @returns A copy sharing no object references with the original
+   */
+  deepClone<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.deepClone(item)) as T;
+    }
+    if (value !== null && typeof value === 'object') {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        copy[key] = this.deepClone(item);
+      }
+      return copy as T;
+    }
+    return value;
+  },
 };
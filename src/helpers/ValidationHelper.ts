@@ -0,0 +1,140 @@
+/**
+ * Validation helper for Visual HTML Builder
+ * Normalizes validation results and displays them in the properties panel
+ */
+import { UtilityHelpers } from './UtilityHelpers';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  /** Dot-separated prop path (e.g. "items.1"), '' for the element as a whole */
+  path: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+/** Issue list, or a single error message / null (legacy validators) */
+export type ValidationResult = ValidationIssue[] | string | null;
+
+const SEVERITIES: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+export const ValidationHelper = {
+  /**
+   * Create error issue
+   * @param path Prop path ('' for the whole element)
+   * @param message Message shown to the user
+   */
+  error(path: string, message: string): ValidationIssue {
+    return { path, message, severity: 'error' };
+  },
+
+  /**
+   * Create warning issue
+   * @param path Prop path ('' for the whole element)
+   * @param message Message shown to the user
+   */
+  warning(path: string, message: string): ValidationIssue {
+    return { path, message, severity: 'warning' };
+  },
+
+  /**
+   * Create info issue
+   * @param path Prop path ('' for the whole element)
+   * @param message Message shown to the user
+   */
+  info(path: string, message: string): ValidationIssue {
+    return { path, message, severity: 'info' };
+  },
+
+  /**
+   * Convert validation result to issue list
+   * A legacy string result becomes a single element-level error.
+   */
+  normalize(result: ValidationResult | undefined): ValidationIssue[] {
+    if (!result) return [];
+    if (typeof result === 'string') return [this.error('', result)];
+    return result;
+  },
+
+  /**
+   * Check if any issue is an error
+   */
+  hasErrors(issues: ValidationIssue[]): boolean {
+    return issues.some(issue => issue.severity === 'error');
+  },
+
+  /**
+   * Get issues of a severity
+   */
+  filterBySeverity(issues: ValidationIssue[], severity: ValidationSeverity): ValidationIssue[] {
+    return issues.filter(issue => issue.severity === severity);
+  },
+
+  /**
+   * Get issues affecting an input
+   * Issues on a parent path (e.g. "items") apply to all nested inputs ("items.0", "items.1").
+   * @param issues Issues to search
+   * @param path Input value path
+   */
+  getIssuesForPath(issues: ValidationIssue[], path: string): ValidationIssue[] {
+    return issues.filter(
+      issue => issue.path !== '' && (path === issue.path || path.startsWith(`${issue.path}.`))
+    );
+  },
+
+  /**
+   * Get the most severe level of issues
+   * @returns Severity (null if there are no issues)
+   */
+  getHighestSeverity(issues: ValidationIssue[]): ValidationSeverity | null {
+    return SEVERITIES.find(severity => issues.some(issue => issue.severity === severity)) || null;
+  },
+
+  /**
+   * Render issue summary for the properties panel (errors, warnings and info listed separately)
+   */
+  renderSummary(issues: ValidationIssue[]): string {
+    const lists = SEVERITIES.map(severity => {
+      const matching = this.filterBySeverity(issues, severity);
+      if (matching.length === 0) return '';
+
+      return `<ul class="validation-list validation-${severity}s">${matching
+        .map(
+          issue =>
+            `<li class="validation-${severity}" data-issue-path="${UtilityHelpers.escapeHtml(issue.path)}">${UtilityHelpers.escapeHtml(issue.message)}</li>`
+        )
+        .join('')}</ul>`;
+    }).join('');
+
+    return `<div class="validation-summary">${lists}</div>`;
+  },
+
+  /**
+   * Highlight inputs that have issues
+   * Schema inputs are matched by data-prop-path, hand-written inputs by data-property.
+   * @param container Properties panel content
+   * @param issues Current issues
+   */
+  applyToInputs(container: Element, issues: ValidationIssue[]): void {
+    container
+      .querySelectorAll<HTMLElement>('[data-prop-path], .property-input[data-property]')
+      .forEach(input => {
+        const path = input.dataset.propPath ?? input.dataset.property ?? '';
+        const inputIssues = this.getIssuesForPath(issues, path);
+        const severity = this.getHighestSeverity(inputIssues);
+
+        SEVERITIES.forEach(s => input.classList.toggle(`has-${s}`, s === severity));
+        if (severity === 'error') {
+          input.setAttribute('aria-invalid', 'true');
+        } else {
+          input.removeAttribute('aria-invalid');
+        }
+
+        if (inputIssues.length > 0) {
+          input.title = inputIssues.map(issue => issue.message).join('\n');
+        } else {
+          input.removeAttribute('title');
+        }
+      });
+  },
+};
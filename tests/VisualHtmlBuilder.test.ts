@@ -1,5 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import VisualHtmlBuilder from '@/VisualHtmlBuilder';
+import { NotificationHelper } from '@helpers/NotificationHelper';
+import VisualHtmlBuilder, {
+  type EditorOptions,
+  type HyperlinkProps,
+  type PersistenceOptions,
+  type StorageAdapter,
+} from '@/VisualHtmlBuilder';
+
+// Custom element types used by the tests below
+declare module '@/VisualHtmlBuilder' {
+  interface ElementPropsMap {
+    nav: { links: { label: string; url: string }[]; tags: string[] };
+    review: { stars: number };
+    badge: { label: string; size: number };
+  }
+}
 
 describe('VisualHtmlBuilder', () => {
   let container: HTMLElement;
@@ -39,7 +54,7 @@ describe('VisualHtmlBuilder', () => {
     });
 
     it('should initialize editor with custom options', () => {
-      const options = {
+      const options: EditorOptions = {
         enabledElements: ['title', 'text'],
         initialContent: [{ id: 1, type: 'title', props: { text: 'Test Title', level: 1 } }],
       };
@@ -56,8 +71,6 @@ describe('VisualHtmlBuilder', () => {
         new VisualHtmlBuilder('non-existent-container');
       }).toThrow('could not find a element: non-existent-container');
     });
-
-
   });
 
   describe('setupUI', () => {
@@ -249,7 +262,7 @@ describe('VisualHtmlBuilder', () => {
     it('should update properties of selected element', () => {
       editor.updateProperty('text', 'Updated Title');
 
-      expect(editor.selectedElement?.props.text).toBe('Updated Title');
+      expect(editor.getElement(editor.elements[0]!.id, 'title')?.props.text).toBe('Updated Title');
     });
 
     it('should do nothing when no element is selected', () => {
@@ -269,25 +282,2415 @@ describe('VisualHtmlBuilder', () => {
     });
   });
 
-  describe('error handling', () => {
-    it('should not throw error with invalid settings', () => {
-      expect(() => {
-        new VisualHtmlBuilder('test-editor-container', {
-          enabledElements: ['invalid-type'],
-          initialContent: [],
-        });
-      }).not.toThrow();
+  describe('undo / redo', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
     });
 
-    it('should catch DOM manipulation errors', () => {
-      const editor = new VisualHtmlBuilder('test-editor-container');
+    afterEach(() => {
+      editor.destroy();
+    });
 
-      // Remove container to cause DOM manipulation failure
-      container.remove();
+    it('should have nothing to undo initially', () => {
+      expect(editor.canUndo()).toBe(false);
+      expect(editor.canRedo()).toBe(false);
+      expect(editor.undo()).toBe(false);
+    });
 
-      expect(() => {
-        editor.updatePreview();
-      }).not.toThrow();
+    it('should undo and redo adding an element', () => {
+      editor.addElement('title');
+
+      expect(editor.undo()).toBe(true);
+      expect(editor.elements).toHaveLength(0);
+      expect(editor.canRedo()).toBe(true);
+
+      expect(editor.redo()).toBe(true);
+      expect(editor.elements).toHaveLength(1);
+      expect(editor.elements[0]?.type).toBe('title');
+    });
+
+    it('should restore a deleted element', () => {
+      editor.addElement('title');
+      editor.addElement('text');
+      const deletedId = editor.elements[0]!.id;
+
+      editor.deleteElement(deletedId);
+      editor.undo();
+
+      expect(editor.elements.map(el => el.id)[0]).toBe(deletedId);
+      expect(editor.elements).toHaveLength(2);
+    });
+
+    it('should coalesce consecutive property updates into one step', () => {
+      editor.addElement('title');
+      editor.updateProperty('text', 'H');
+      editor.updateProperty('text', 'He');
+      editor.updateProperty('text', 'Hello');
+
+      editor.undo();
+
+      expect(editor.getElementsByType('title')[0]?.props.text).toBe('New Title');
+      expect(editor.selectedElement).toBe(editor.elements[0]);
+    });
+
+    it('should not mutate history snapshots when editing after undo', () => {
+      editor.addElement('list');
+      editor.addListItem();
+      editor.undo();
+
+      expect(editor.getElementsByType('list')[0]?.props.items).toHaveLength(3);
+
+      editor.redo();
+
+      expect(editor.getElementsByType('list')[0]?.props.items).toHaveLength(4);
+    });
+
+    it('should undo setElements', () => {
+      editor.addElement('title');
+      editor.setElements([]);
+
+      editor.undo();
+
+      expect(editor.elements).toHaveLength(1);
+    });
+
+    it('should respond to keyboard shortcuts inside the editor', () => {
+      editor.addElement('title');
+      const target = container.querySelector('.html-gui-editor')!;
+
+      target.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true })
+      );
+      expect(editor.elements).toHaveLength(0);
+
+      target.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, shiftKey: true, bubbles: true })
+      );
+      expect(editor.elements).toHaveLength(1);
+    });
+
+    it('should leave undo in property fields to the browser', () => {
+      editor.addElement('title');
+      const field = document.createElement('textarea');
+      container.querySelector('.html-gui-editor')!.appendChild(field);
+
+      const event = new KeyboardEvent('keydown', {
+        key: 'z',
+        ctrlKey: true,
+        bubbles: true,
+        cancelable: true,
+      });
+      field.dispatchEvent(event);
+
+      expect(editor.elements).toHaveLength(1);
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('should ignore keyboard shortcuts from outside the editor', () => {
+      editor.addElement('title');
+      const outside = document.createElement('input');
+      document.body.appendChild(outside);
+
+      outside.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true })
+      );
+
+      expect(editor.elements).toHaveLength(1);
+      outside.remove();
+    });
+  });
+
+  describe('events', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should emit elementAdded and change when adding', () => {
+      const added = vi.fn();
+      const change = vi.fn();
+      editor.on('elementAdded', added);
+      editor.on('change', change);
+
+      editor.addElement('title');
+
+      expect(added).toHaveBeenCalledWith({
+        element: editor.elements[0],
+        parentId: null,
+        slot: 0,
+        index: 0,
+      });
+      expect(change).toHaveBeenCalledWith(expect.objectContaining({ reason: 'add' }));
+    });
+
+    it('should let beforeElementAdd veto adding', () => {
+      editor.on('beforeElementAdd', event => {
+        if (event.type === 'image') event.preventDefault();
+      });
+
+      editor.addElement('image');
+      editor.addElement('text');
+
+      expect(editor.elements.map(el => el.type)).toEqual(['text']);
+      expect(editor.canUndo()).toBe(true);
+      editor.undo();
+      expect(editor.canUndo()).toBe(false);
+    });
+
+    it('should refuse to add into a slot the parent does not have', () => {
+      editor.setElements([{ id: 1, type: 'title', props: { text: 'A', level: 1 } }]);
+      editor.on('beforeElementAdd', event => {
+        event.location.parentId = 1;
+      });
+
+      expect(() => editor.addElement('text')).toThrow('Element 1 has no slot 0');
+      expect(editor.elements).toHaveLength(1);
+      expect(editor.canUndo()).toBe(true);
+      editor.undo();
+      expect(editor.canUndo()).toBe(false);
+    });
+
+    it('should let beforeElementDelete veto deleting', () => {
+      editor.addElement('title');
+      const deleted = vi.fn();
+      editor.on('beforeElementDelete', event => event.preventDefault());
+      editor.on('elementDeleted', deleted);
+
+      editor.deleteElement(editor.elements[0]!.id);
+
+      expect(editor.elements).toHaveLength(1);
+      expect(deleted).not.toHaveBeenCalled();
+    });
+
+    it('should emit elementDeleted with removed element and index', () => {
+      editor.addElement('title');
+      editor.addElement('text');
+      const element = editor.elements[1]!;
+      const deleted = vi.fn();
+      editor.on('elementDeleted', deleted);
+
+      editor.deleteElement(element.id);
+
+      expect(deleted).toHaveBeenCalledWith({ element, parentId: null, slot: 0, index: 1 });
+    });
+
+    it('should emit elementUpdated with key and values', () => {
+      editor.addElement('title');
+      const updated = vi.fn();
+      editor.on('elementUpdated', updated);
+
+      editor.updateProperty('text', 'Hello');
+
+      expect(updated).toHaveBeenCalledWith({
+        element: editor.elements[0],
+        key: 'text',
+        oldValue: 'New Title',
+        newValue: 'Hello',
+      });
+    });
+
+    it('should let beforeElementUpdate veto updates', () => {
+      editor.addElement('list');
+      editor.on('beforeElementUpdate', event => event.preventDefault());
+
+      editor.updateProperty('ordered', true);
+      editor.addListItem();
+
+      expect(editor.getElementsByType('list')[0]?.props.ordered).toBe(false);
+      expect(editor.getElementsByType('list')[0]?.props.items).toHaveLength(3);
+    });
+
+    it('should emit elementUpdated for list item changes', () => {
+      editor.addElement('list');
+      const updated = vi.fn();
+      editor.on('elementUpdated', updated);
+
+      editor.removeListItem(0);
+
+      expect(updated).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'items',
+          oldValue: ['Item 1', 'Item 2', 'Item 3'],
+          newValue: ['Item 2', 'Item 3'],
+        })
+      );
+    });
+
+    it('should emit selectionChanged only when selection changes', () => {
+      editor.addElement('title');
+      editor.addElement('text');
+      const selectionChanged = vi.fn();
+      editor.on('selectionChanged', selectionChanged);
+
+      editor.selectElement(editor.elements[0]!.id);
+      editor.selectElement(editor.elements[0]!.id);
+
+      expect(selectionChanged).toHaveBeenCalledTimes(1);
+      expect(selectionChanged).toHaveBeenCalledWith({
+        element: editor.elements[0],
+        previousElement: editor.elements[1],
+      });
+    });
+
+    it('should emit templateChanged when template is updated', () => {
+      const templateChanged = vi.fn();
+      editor.on('templateChanged', templateChanged);
+
+      editor.updateHTMLTemplate({ head: { title: 'New Page' } });
+
+      expect(templateChanged).toHaveBeenCalledWith(
+        expect.objectContaining({
+          template: expect.objectContaining({
+            head: expect.objectContaining({ title: 'New Page' }),
+          }),
+        })
+      );
+    });
+
+    it('should emit change on undo and redo', () => {
+      editor.addElement('title');
+      const change = vi.fn();
+      editor.on('change', change);
+
+      editor.undo();
+      editor.redo();
+
+      expect(change.mock.calls.map(call => call[0].reason)).toEqual(['undo', 'redo']);
+    });
+
+    it('should stop calling handler after off', () => {
+      const handler = vi.fn();
+      editor.on('elementAdded', handler);
+      editor.off('elementAdded', handler);
+
+      editor.addElement('title');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('serialize / load', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        htmlTemplate: { head: { title: 'Saved Page' } },
+      });
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should round trip elements and template', () => {
+      editor.addElement('title');
+      editor.updateProperty('text', 'Stored');
+      const doc = JSON.parse(JSON.stringify(editor.serialize()));
+
+      editor.setElements([]);
+      editor.updateHTMLTemplate({ head: { title: 'Other' } });
+      editor.load(doc);
+
+      expect(editor.getHTML()).toBe('<h1>Stored</h1>');
+      expect(editor.getHTMLTemplate().head?.title).toBe('Saved Page');
+    });
+
+    it('should preserve createdAt of a loaded document', () => {
+      const doc = editor.serialize({ createdAt: '2024-01-01T00:00:00.000Z' });
+
+      editor.load(doc);
+
+      expect(editor.serialize().metadata.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should migrate elements using registered element type versions', () => {
+      const doc = editor.serialize();
+      doc.elements = [{ id: 1, type: 'banner', props: { caption: 'Old' } }];
+      doc.elementVersions = { banner: 1 };
+      editor.registerElementType('banner', {
+        name: 'Banner',
+        icon: 'B',
+        version: 2,
+        migrations: { 1: props => ({ text: props.caption }) },
+        defaultProps: { text: '' },
+        render: props => `<div>${props.text}</div>`,
+        renderEditor: () => '',
+        validate: () => null,
+      });
+
+      editor.load(doc);
+
+      expect(editor.elements[0]?.props).toEqual({ text: 'Old' });
+    });
+
+    it('should reject invalid documents without changing current content', () => {
+      editor.addElement('title');
+
+      expect(() => editor.load([{ id: 1, type: 'title', props: {} }])).toThrow('Invalid document');
+      expect(editor.elements).toHaveLength(1);
+    });
+
+    it('should make load undoable and emit change', () => {
+      const doc = editor.serialize();
+      editor.addElement('title');
+      const change = vi.fn();
+      editor.on('change', change);
+
+      editor.load(doc);
+      expect(editor.elements).toHaveLength(0);
+      expect(change).toHaveBeenCalledWith(expect.objectContaining({ reason: 'load' }));
+
+      editor.undo();
+      expect(editor.elements).toHaveLength(1);
+    });
+
+    it('should expose the document schema', () => {
+      expect(editor.getDocumentSchema()).toBe(VisualHtmlBuilder.documentSchema);
+      expect(VisualHtmlBuilder.documentSchema.required).toContain('version');
+    });
+  });
+
+  describe('nested containers', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should create empty slots for container types', () => {
+      editor.addElement('two-columns');
+
+      expect(editor.elements[0]?.children).toEqual([[], []]);
+    });
+
+    it('should add elements into the selected container', () => {
+      editor.addElement('section');
+      const section = editor.elements[0]!;
+
+      editor.addElement('title');
+      editor.selectElement(section.id);
+      editor.addElement('text');
+
+      expect(editor.elements).toHaveLength(1);
+      expect(section.children?.[0]?.map(el => el.type)).toEqual(['title', 'text']);
+    });
+
+    it('should render nested HTML recursively', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'two-columns',
+          props: { gap: 8 },
+          children: [
+            [{ id: 2, type: 'title', props: { text: 'Left', level: 2 } }],
+            [{ id: 3, type: 'text', props: { content: 'Right' } }],
+          ],
+        },
+      ]);
+
+      expect(editor.getHTML()).toBe(
+        '<div style="display: flex; gap: 8px;">' +
+          '<div style="flex: 1; min-width: 0;"><h2>Left</h2></div>' +
+          '<div style="flex: 1; min-width: 0;"><p>Right</p></div></div>'
+      );
+    });
+
+    it('should select and update nested elements', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'section',
+          props: { ariaLabel: '' },
+          children: [[{ id: 2, type: 'title', props: { text: 'Inner', level: 1 } }]],
+        },
+      ]);
+
+      editor.selectElement(2);
+      editor.updateProperty('text', 'Changed');
+
+      expect(editor.getHTML()).toBe('<section><h1>Changed</h1></section>');
+    });
+
+    it('should delete containers with their children', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'section',
+          props: { ariaLabel: '' },
+          children: [[{ id: 2, type: 'title', props: { text: 'Inner', level: 1 } }]],
+        },
+      ]);
+      editor.selectElement(2);
+
+      editor.deleteElement(1);
+
+      expect(editor.elements).toHaveLength(0);
+      expect(editor.selectedElement).toBeNull();
+    });
+
+    it('should move elements into and out of containers', () => {
+      editor.setElements([
+        { id: 1, type: 'section', props: { ariaLabel: '' }, children: [[]] },
+        { id: 2, type: 'title', props: { text: 'Moved', level: 1 } },
+      ]);
+      const reordered = vi.fn();
+      editor.on('elementsReordered', reordered);
+
+      expect(editor.moveElement(2, { parentId: 1, slot: 0, index: 0 })).toBe(true);
+      expect(editor.elements).toHaveLength(1);
+      expect(editor.elements[0]?.children?.[0]?.[0]?.id).toBe(2);
+      expect(reordered).toHaveBeenCalledWith(
+        expect.objectContaining({
+          elementId: 2,
+          from: { parentId: null, slot: 0, index: 1 },
+          to: { parentId: 1, slot: 0, index: 0 },
+          previousOrder: [1, 2],
+          newOrder: [1, 2],
+        })
+      );
+
+      editor.moveElement(2, { parentId: null, slot: 0, index: 0 });
+      expect(editor.elements.map(el => el.id)).toEqual([2, 1]);
+
+      editor.undo();
+      expect(editor.elements.map(el => el.id)).toEqual([1]);
+    });
+
+    it('should refuse to move a container into itself', () => {
+      editor.setElements([{ id: 1, type: 'section', props: { ariaLabel: '' }, children: [[]] }]);
+
+      expect(editor.moveElement(1, { parentId: 1, slot: 0, index: 0 })).toBe(false);
+      expect(editor.canUndo()).toBe(true);
+      editor.undo();
+      expect(editor.canUndo()).toBe(false);
+    });
+
+    it('should refuse to move into non-containers and missing slots', () => {
+      editor.setElements([
+        { id: 1, type: 'section', props: { ariaLabel: '' }, children: [[]] },
+        { id: 2, type: 'title', props: { text: 'A', level: 1 } },
+        { id: 3, type: 'title', props: { text: 'B', level: 1 } },
+      ]);
+
+      expect(editor.moveElement(3, { parentId: 2, slot: 0, index: 0 })).toBe(false);
+      expect(editor.moveElement(3, { parentId: 1, slot: 1, index: 0 })).toBe(false);
+      expect(editor.elements.map(el => el.id)).toEqual([1, 2, 3]);
+      expect(editor.elements[0]?.children).toHaveLength(1);
+      expect(editor.elements[1]?.children).toBeUndefined();
+    });
+
+    it('should let beforeElementsReorder veto moves', () => {
+      editor.setElements([
+        { id: 1, type: 'title', props: { text: 'A', level: 1 } },
+        { id: 2, type: 'title', props: { text: 'B', level: 1 } },
+      ]);
+      editor.on('beforeElementsReorder', event => event.preventDefault());
+
+      expect(editor.moveElement(2, { parentId: null, slot: 0, index: 0 })).toBe(false);
+      expect(editor.elements.map(el => el.id)).toEqual([1, 2]);
+    });
+
+    it('should render slots as drop zones in the preview', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'two-columns',
+          props: { gap: 16 },
+          children: [[{ id: 2, type: 'title', props: { text: 'A', level: 1 } }], []],
+        },
+      ]);
+
+      const html = editor.renderPreviewElement(editor.elements[0]!);
+
+      expect(html).toContain('preview-container');
+      expect(html).toContain('data-parent-id="1" data-slot="0"');
+      expect(html).toContain('data-element-id="2"');
+      expect(html).toMatch(/class="preview-slot is-empty"\s+data-parent-id="1" data-slot="1"/);
+    });
+  });
+
+  describe('property editors', () => {
+    let editor: VisualHtmlBuilder;
+
+    const getPanel = () => container.querySelector('.properties-content')!;
+
+    const typeInto = (selector: string, value: string) => {
+      const input = getPanel().querySelector<HTMLInputElement>(selector)!;
+      if (input.hasAttribute('contenteditable')) {
+        input.textContent = value;
+      } else {
+        input.value = value;
+      }
+      input.dispatchEvent(new Event('input'));
+    };
+
+    const click = (selector: string) => {
+      getPanel().querySelector<HTMLButtonElement>(selector)!.click();
+    };
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should generate panel from propsSchema', () => {
+      editor.addElement('title');
+
+      typeInto('[data-prop-path="text"]', 'From panel');
+      const select = getPanel().querySelector<HTMLSelectElement>('[data-prop-path="level"]')!;
+      select.value = '3';
+      select.dispatchEvent(new Event('input'));
+
+      expect(editor.elements[0]?.props).toEqual({ text: 'From panel', level: 3 });
+    });
+
+    it('should edit, add, remove and reorder list items through the panel', () => {
+      editor.addElement('list');
+
+      typeInto('[data-prop-path="items.1"]', 'Second');
+      click('[data-array-path="items"][data-array-action="down"][data-index="0"]');
+      click('[data-array-path="items"][data-array-action="remove"][data-index="2"]');
+      click('[data-array-path="items"][data-array-action="add"]');
+
+      expect(editor.getElementsByType('list')[0]?.props.items).toEqual([
+        'Second',
+        'Item 1',
+        'New item',
+      ]);
+      expect(getPanel().querySelectorAll('.list-item-editor')).toHaveLength(3);
+    });
+
+    it('should support array and object fields of custom element types', () => {
+      editor.registerElementType('nav', {
+        name: 'Navigation',
+        icon: 'N',
+        defaultProps: { links: [{ label: 'Home', url: '/' }], tags: [] },
+        propsSchema: {
+          links: {
+            kind: 'object-array',
+            label: 'Links',
+            fields: { label: { kind: 'text' }, url: { kind: 'url' } },
+          },
+          tags: { kind: 'string-array', itemDefault: 'tag' },
+        },
+        render: () => '<nav></nav>',
+        validate: () => null,
+      });
+      editor.addElement('nav');
+
+      typeInto('[data-prop-path="links.0.label"]', 'Start');
+      click('[data-array-path="links"][data-array-action="add"]');
+      typeInto('[data-prop-path="links.1.url"]', '/about');
+      editor.addListItem('tags');
+
+      expect(editor.elements[0]?.props).toEqual({
+        links: [
+          { label: 'Start', url: '/' },
+          { label: '', url: '/about' },
+        ],
+        tags: ['tag'],
+      });
+    });
+
+    it('should not share defaultProps arrays between elements', () => {
+      editor.addElement('list');
+      editor.addElement('list');
+
+      editor.removeListItem(0);
+
+      expect(editor.getElementsByType('list')[0]?.props.items).toHaveLength(3);
+    });
+
+    it('should render registered custom field widgets', () => {
+      editor.registerFieldWidget('rating', {
+        render: (_field, value, path) =>
+          `<input type="range" class="property-input" data-prop-path="${path}" value="${value}">`,
+        parse: input => Number(input.value),
+      });
+      editor.registerElementType('review', {
+        name: 'Review',
+        icon: '★',
+        defaultProps: { stars: 3 },
+        propsSchema: { stars: { kind: 'rating' } },
+        render: props => `<p>${props.stars}</p>`,
+        validate: () => null,
+      });
+      editor.addElement('review');
+
+      typeInto('input[type="range"]', '5');
+
+      expect(editor.getElementsByType('review')[0]?.props.stars).toBe(5);
+    });
+
+    it('should keep supporting hand-written renderEditor markup', () => {
+      editor.registerElementType('badge', {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: 'New', size: 1 },
+        render: props => `<span>${props.label}</span>`,
+        renderEditor: () =>
+          '<input class="property-input" data-property="label">' +
+          '<input class="property-input" data-property="size" data-value-type="int">',
+        validate: () => null,
+      });
+      editor.addElement('badge');
+
+      typeInto('[data-property="label"]', 'Hot');
+      typeInto('[data-property="size"]', '2');
+
+      expect(editor.elements[0]?.props).toEqual({ label: 'Hot', size: 2 });
+    });
+
+    it('should make array actions undoable in one step each', () => {
+      editor.addElement('list');
+
+      editor.updateArrayProperty('items', 'up', 1);
+      editor.updateArrayProperty('items', 'add');
+      editor.undo();
+
+      expect(editor.getElementsByType('list')[0]?.props.items).toEqual([
+        'Item 2',
+        'Item 1',
+        'Item 3',
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    let editor: VisualHtmlBuilder;
+
+    const getPanel = () => container.querySelector('.properties-content')!;
+
+    const typeInto = (selector: string, value: string) => {
+      const input = getPanel().querySelector<HTMLInputElement>(selector)!;
+      if (input.hasAttribute('contenteditable')) {
+        input.textContent = value;
+      } else {
+        input.value = value;
+      }
+      input.dispatchEvent(new Event('input'));
+    };
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should list every error and highlight the affected inputs', () => {
+      editor.addElement('list');
+
+      typeInto('[data-prop-path="items.0"]', '');
+      typeInto('[data-prop-path="items.2"]', ' ');
+
+      const errors = getPanel().querySelectorAll('.validation-errors .validation-error');
+      expect(Array.from(errors, error => error.textContent)).toEqual([
+        'Item 1 cannot be empty',
+        'Item 3 cannot be empty',
+      ]);
+      expect(getPanel().querySelector('[data-prop-path="items.0"]')?.className).toContain(
+        'has-error'
+      );
+      expect(getPanel().querySelector('[data-prop-path="items.1"]')?.className).not.toContain(
+        'has-error'
+      );
+      expect(
+        getPanel().querySelector('[data-prop-path="items.2"]')?.getAttribute('aria-invalid')
+      ).toBe('true');
+      expect(editor.renderPreviewElement(editor.elements[0]!)).toContain(
+        '<span class="validation-error">Item 1 cannot be empty (+1 more)</span>'
+      );
+    });
+
+    it('should show warnings separately from errors', () => {
+      editor.addElement('image');
+
+      typeInto('[data-prop-path="alt"]', '');
+
+      expect(getPanel().querySelector('.validation-errors')).toBeNull();
+      expect(getPanel().querySelector('.validation-warnings')?.textContent).toBe(
+        'Alt text is recommended for accessibility'
+      );
+      expect(getPanel().querySelector('[data-prop-path="alt"]')?.className).toContain(
+        'has-warning'
+      );
+      const preview = editor.renderPreviewElement(editor.elements[0]!);
+      expect(preview).toContain('has-warning');
+      expect(preview).not.toContain('validation-error');
+    });
+
+    it('should clear issues once props become valid', () => {
+      editor.addElement('title');
+
+      typeInto('[data-prop-path="text"]', '');
+      expect(getPanel().querySelectorAll('.validation-error')).toHaveLength(1);
+
+      typeInto('[data-prop-path="text"]', 'Back again');
+      expect(getPanel().querySelector('.validation-summary')?.innerHTML).toBe('');
+      expect(getPanel().querySelector('[data-prop-path="text"]')?.className).not.toContain(
+        'has-error'
+      );
+    });
+
+    it('should keep supporting string results of legacy validators', () => {
+      editor.registerElementType('badge', {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: '', size: 1 },
+        render: props => `<span>${props.label}</span>`,
+        validate: props => (props.label ? null : 'Label is required'),
+      });
+      editor.addElement('badge');
+
+      expect(editor.validateElement(editor.elements[0]!)).toEqual([
+        { path: '', message: 'Label is required', severity: 'error' },
+      ]);
+      expect(getPanel().querySelector('.validation-error')?.textContent).toBe('Label is required');
+    });
+
+    it('should add issues from validateAsync once they resolve', async () => {
+      editor.registerElementType('review', {
+        name: 'Review',
+        icon: 'R',
+        defaultProps: { stars: 6 },
+        propsSchema: { stars: { kind: 'number' } },
+        render: props => `<p>${props.stars}</p>`,
+        validate: () => [],
+        validateAsync: async props =>
+          props.stars > 5 ? [{ path: 'stars', message: 'At most 5 stars', severity: 'error' }] : [],
+      });
+      editor.addElement('review');
+
+      expect(getPanel().querySelector('.validation-error')).toBeNull();
+      await expect(editor.validateElementAsync(editor.elements[0]!)).resolves.toHaveLength(1);
+      await vi.waitFor(() => {
+        expect(getPanel().querySelector('.validation-error')?.textContent).toBe('At most 5 stars');
+      });
+      expect(getPanel().querySelector('[data-prop-path="stars"]')?.className).toContain(
+        'has-error'
+      );
+    });
+
+    it('should report async validators that fail as warnings', async () => {
+      editor.registerElementType('review', {
+        name: 'Review',
+        icon: 'R',
+        defaultProps: { stars: 3 },
+        render: props => `<p>${props.stars}</p>`,
+        validate: () => null,
+        validateAsync: () => Promise.reject(new Error('offline')),
+      });
+      editor.addElement('review');
+
+      await vi.waitFor(() => {
+        expect(getPanel().querySelector('.validation-warning')?.textContent).toBe(
+          'Validation could not complete: offline'
+        );
+      });
+    });
+  });
+
+  describe('document checks', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.render();
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should report document rule issues', () => {
+      editor.addElement('title');
+      editor.updateProperty('level', 2);
+      editor.addElement('title');
+      editor.updateProperty('level', 4);
+
+      const report = editor.validateDocument();
+
+      expect(report.ready).toBe(false);
+      expect(report.issues.map(issue => issue.ruleId)).toEqual([
+        'single-h1',
+        'heading-order',
+        'head-description',
+      ]);
+      expect(report.issues[1]?.elementId).toBe(editor.elements[1]?.id);
+    });
+
+    it('should include head metadata from the template', () => {
+      editor.addElement('title');
+      editor.updateHTMLTemplate({
+        head: { title: 'Home', meta: [{ name: 'description', content: 'Welcome' }] },
+      });
+
+      expect(editor.validateDocument()).toMatchObject({ issues: [], ready: true });
+    });
+
+    it('should list issues in the checks tab and select elements on click', () => {
+      editor.addElement('image');
+      editor.updateProperty('alt', '');
+      const image = editor.elements[0]!;
+      editor.addElement('text');
+      editor.switchTab('checks');
+
+      const panel = container.querySelector('[data-panel="checks"]')!;
+      expect(panel.classList.contains('active')).toBe(true);
+      // Only errors are counted; the missing alt text is a warning
+      expect(container.querySelector('.checks-count')?.textContent).toBe('1');
+
+      const issue = panel.querySelector<HTMLElement>('[data-rule-id="image-alt"]')!;
+      expect(issue.textContent).toBe('Image has no alt text');
+      issue.click();
+
+      expect(editor.selectedElement).toBe(image);
+    });
+
+    it('should run custom rules and allow removing rules', () => {
+      editor.registerDocumentRule({
+        id: 'max-elements',
+        description: 'At most one element',
+        check: ({ elements }) =>
+          elements.length > 1
+            ? [{ path: '', message: 'Too many elements', severity: 'error', elementId: null }]
+            : [],
+      });
+      editor.addElement('title');
+      editor.addElement('text');
+
+      expect(editor.validateDocument().issues.map(issue => issue.ruleId)).toEqual([
+        'head-description',
+        'max-elements',
+      ]);
+
+      expect(editor.removeDocumentRule('head-description')).toBe(true);
+      expect(editor.removeDocumentRule('unknown')).toBe(false);
+      expect(editor.validateDocument().issues.map(issue => issue.ruleId)).toEqual(['max-elements']);
+    });
+
+    it('should accept rules through options', () => {
+      editor.destroy();
+      editor = new VisualHtmlBuilder('test-editor-container', { documentRules: [] });
+
+      expect(editor.validateDocument()).toEqual({
+        issues: [],
+        errorCount: 0,
+        warningCount: 0,
+        ready: true,
+      });
+    });
+  });
+
+  describe('preview updates', () => {
+    let editor: VisualHtmlBuilder;
+
+    const getPreviewNode = (id: number | undefined) =>
+      editor.previewIframe?.contentDocument?.querySelector(
+        `.preview-element[data-element-id="${id}"]`
+      );
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.render();
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should batch updates into one animation frame', () => {
+      const frameSpy = vi.spyOn(window, 'requestAnimationFrame');
+
+      editor.addElement('title');
+      editor.addElement('text');
+      editor.updateProperty('content', 'Typed');
+
+      expect(frameSpy).toHaveBeenCalledTimes(1);
+      frameSpy.mockRestore();
+    });
+
+    it('should patch only the element that changed', () => {
+      editor.addElement('title');
+      editor.addElement('image');
+      editor.flushPreview();
+      const [title, image] = editor.elements;
+      const imageNode = getPreviewNode(image?.id);
+
+      editor.selectElement(title!.id);
+      editor.updateProperty('text', 'Patched');
+      editor.flushPreview();
+
+      expect(getPreviewNode(image?.id)).toBe(imageNode);
+      expect(getPreviewNode(title?.id)?.textContent).toContain('Patched');
+      expect(getPreviewNode(title?.id)?.classList.contains('selected')).toBe(true);
+    });
+
+    it('should keep element nodes when reordering', () => {
+      editor.addElement('title');
+      editor.addElement('text');
+      editor.flushPreview();
+      const [title, text] = editor.elements;
+      const titleNode = getPreviewNode(title?.id);
+
+      editor.moveElement(title!.id, { parentId: null, slot: 0, index: 1 });
+      editor.flushPreview();
+
+      const order = Array.from(
+        editor.previewIframe!.contentDocument!.querySelectorAll(
+          '.preview-content > .preview-element'
+        ),
+        el => Number(el.getAttribute('data-element-id'))
+      );
+      expect(order).toEqual([text?.id, title?.id]);
+      expect(getPreviewNode(title?.id)).toBe(titleNode);
+    });
+
+    it('should show the empty state after the last element is removed', () => {
+      editor.addElement('text');
+      editor.flushPreview();
+
+      editor.deleteElement(editor.elements[0]!.id);
+      editor.flushPreview();
+
+      const content = editor.previewIframe?.contentDocument?.querySelector('.preview-content');
+      expect(content?.querySelector('.empty-state')).not.toBeNull();
+      expect(content?.querySelector('.preview-element')).toBeNull();
+    });
+  });
+
+  describe('persistence', () => {
+    let editor: VisualHtmlBuilder;
+    let store: Map<string, string>;
+    let adapter: StorageAdapter;
+
+    const createEditor = (
+      options: Omit<EditorOptions, 'persistence'> & {
+        persistence?: Partial<PersistenceOptions>;
+      } = {}
+    ) => {
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        ...options,
+        persistence: { adapter, key: 'page-1', debounce: 500, ...options.persistence },
+      });
+      return editor;
+    };
+
+    const storeDraft = async (text: string) => {
+      const draftEditor = new VisualHtmlBuilder('test-editor-container', {
+        initialContent: [{ id: 1, type: 'title', props: { text, level: 1 } }],
+        persistence: { adapter, key: 'page-1', promptRestore: false },
+      });
+      await draftEditor.saveDraft();
+      draftEditor.destroy();
+    };
+
+    beforeEach(() => {
+      store = new Map();
+      adapter = {
+        getItem: async key => store.get(key) ?? null,
+        setItem: async (key, value) => {
+          store.set(key, value);
+        },
+        removeItem: async key => {
+          store.delete(key);
+        },
+      };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      editor?.destroy();
+      NotificationHelper.removeAll();
+      document.querySelectorAll('.editor-notification').forEach(el => el.remove());
+    });
+
+    it('should autosave changes after the debounce delay', async () => {
+      vi.useFakeTimers();
+      createEditor({ persistence: { promptRestore: false } });
+
+      editor.addElement('title');
+      editor.updateProperty('text', 'Draft');
+      await vi.advanceTimersByTimeAsync(400);
+      expect(store.size).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(100);
+      const snapshots = await editor.getRecoverySnapshots();
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0]?.document.elements[0]?.props).toEqual({ text: 'Draft', level: 1 });
+    });
+
+    it('should keep a limited number of recovery snapshots', async () => {
+      createEditor({ persistence: { snapshots: 2, snapshotInterval: 0, promptRestore: false } });
+
+      editor.addElement('text');
+      await editor.saveDraft();
+      editor.addElement('text');
+      await editor.saveDraft();
+      editor.addElement('text');
+      await editor.saveDraft();
+
+      const snapshots = await editor.getRecoverySnapshots();
+      expect(snapshots.map(snapshot => snapshot.document.elements.length)).toEqual([3, 2]);
+    });
+
+    it('should offer to restore a newer draft', async () => {
+      await storeDraft('Recovered');
+      createEditor();
+
+      const restore = await vi.waitFor(() => {
+        const button = document.querySelector<HTMLButtonElement>('.editor-notification-action');
+        expect(button?.textContent).toBe('Restore');
+        return button!;
+      });
+      restore.click();
+
+      expect(editor.getElementsByType('title')[0]?.props.text).toBe('Recovered');
+    });
+
+    it('should discard the draft', async () => {
+      await storeDraft('Unwanted');
+      createEditor();
+
+      const discard = await vi.waitFor(() => {
+        const buttons = document.querySelectorAll<HTMLButtonElement>('.editor-notification-action');
+        expect(buttons).toHaveLength(2);
+        return buttons[1]!;
+      });
+      discard.click();
+
+      await vi.waitFor(() => expect(store.size).toBe(0));
+      expect(editor.elements).toHaveLength(0);
+    });
+
+    it('should report drafts that cannot be restored or discarded', async () => {
+      await storeDraft('Broken');
+      const [key, stored] = Array.from(store.entries())[0]!;
+      store.set(
+        key,
+        stored.replace('"elementVersions":{"title":1}', '"elementVersions":{"title":99}')
+      );
+      adapter.removeItem = async () => {
+        throw new Error('Storage failed');
+      };
+      const showError = vi.spyOn(NotificationHelper, 'showError');
+      createEditor();
+
+      const [restore, discard] = await vi.waitFor(() => {
+        const buttons = document.querySelectorAll<HTMLButtonElement>('.editor-notification-action');
+        expect(buttons).toHaveLength(2);
+        return Array.from(buttons);
+      });
+      expect(() => restore!.click()).not.toThrow();
+      expect(showError).toHaveBeenCalledWith('Could not restore draft', expect.anything());
+
+      discard!.click();
+      await vi.waitFor(() =>
+        expect(showError).toHaveBeenCalledWith('Could not discard draft', expect.anything())
+      );
+      showError.mockRestore();
+    });
+
+    it('should not read localStorage when an adapter is given', () => {
+      const storage = vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+        throw new DOMException('The operation is insecure.', 'SecurityError');
+      });
+
+      expect(() => createEditor({ persistence: { promptRestore: false } })).not.toThrow();
+      expect(storage).not.toHaveBeenCalled();
+      storage.mockRestore();
+    });
+
+    it('should not offer drafts older than or equal to the initial content', async () => {
+      await storeDraft('Old');
+      createEditor({ persistence: { initialContentUpdatedAt: new Date(Date.now() + 1000) } });
+      await expect(editor.findRestorableDraft()).resolves.toBeNull();
+
+      editor.destroy();
+      createEditor({
+        initialContent: [{ id: 1, type: 'title', props: { text: 'Old', level: 1 } }],
+      });
+      await expect(editor.findRestorableDraft()).resolves.toBeNull();
+    });
+
+    it('should update the newest snapshot within the snapshot interval', async () => {
+      createEditor({ persistence: { promptRestore: false } });
+
+      editor.addElement('text');
+      await editor.saveDraft();
+      editor.addElement('text');
+      await editor.saveDraft();
+      editor.addElement('text');
+      await editor.saveDraft();
+
+      const snapshots = await editor.getRecoverySnapshots();
+      expect(snapshots.map(snapshot => snapshot.document.elements.length)).toEqual([3, 1]);
+    });
+
+    it('should keep drafts of different documents apart', async () => {
+      await storeDraft('Page one');
+      createEditor({ persistence: { key: 'page-2' } });
+
+      await expect(editor.findRestorableDraft()).resolves.toBeNull();
+    });
+
+    it('should require a storage key', () => {
+      expect(
+        () =>
+          new VisualHtmlBuilder('test-editor-container', {
+            persistence: { adapter, key: '' },
+          })
+      ).toThrow('Persistence requires a storage key per document');
+    });
+
+    it('should require persistence to save drafts', async () => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+
+      await expect(editor.saveDraft()).rejects.toThrow('Persistence is not enabled');
+      await expect(editor.getRecoverySnapshots()).resolves.toEqual([]);
+    });
+  });
+
+  describe('importHTML', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should replace elements and template from a full document', () => {
+      const changes: string[] = [];
+      editor.on('change', ({ reason }) => changes.push(reason));
+
+      const elements = editor.importHTML(`<!DOCTYPE html>
+        <html lang="fr">
+        <head>
+          <title>Accueil</title>
+          <meta name="description" content="Bienvenue">
+        </head>
+        <body>
+          <h1>Bonjour</h1>
+          <div class="card"><p>Texte</p></div>
+          <table class="grid"><tr><td>1</td></tr></table>
+        </body>
+        </html>`);
+
+      expect(elements.map(element => element.type)).toEqual(['title', 'div', 'html']);
+      expect(editor.getHTMLTemplate().head?.title).toBe('Accueil');
+      expect(editor.getHTMLTemplate().htmlAttributes).toEqual({ lang: 'fr' });
+      expect(changes).toEqual(['import']);
+
+      const html = editor.getFullHTML();
+      expect(html).toContain('<html lang="fr">');
+      expect(html).toContain('<meta name="description" content="Bienvenue">');
+      expect(html).toContain('<h1>Bonjour</h1>');
+      expect(html).toContain('<div class="card"><p>Texte</p></div>');
+      expect(html).toContain('<table class="grid"><tbody><tr><td>1</td></tr></tbody></table>');
+    });
+
+    it('should not run event handlers of imported markup in the preview', () => {
+      editor.importHTML(
+        '<p>Safe</p><div onclick="alert(1)"><img src="x" onerror="alert(2)"></div>'
+      );
+      editor.flushPreview();
+
+      const preview = editor.previewIframe!.contentDocument!.querySelector('.preview-content')!;
+      expect(preview.querySelector('img')).not.toBeNull();
+      expect(preview.querySelector('[onclick], [onerror]')).toBeNull();
+      expect(editor.getHTML()).toContain('onerror="alert(2)"');
+    });
+
+    it('should escape quotes in imported image sources', () => {
+      editor.importHTML('<img src=\'x" onerror="alert(1)\' alt="a">');
+      editor.flushPreview();
+
+      expect(editor.getElementsByType('image')[0]?.props.src).toBe('x" onerror="alert(1)');
+      expect(editor.getHTML()).toContain('<img src="x&quot; onerror=&quot;alert(1)" alt="a">');
+      const preview = editor.previewIframe!.contentDocument!.querySelector('.preview-content')!;
+      expect(preview.querySelector('[onerror]')).toBeNull();
+    });
+
+    it('should keep the template when importing a fragment', () => {
+      const template = editor.getHTMLTemplate();
+
+      editor.importHTML('<h2>Fragment</h2>');
+
+      expect(editor.getHTMLTemplate()).toEqual(template);
+      expect(editor.getElementsByType('title')[0]?.props).toEqual({ text: 'Fragment', level: 2 });
+    });
+
+    it('should be undoable', () => {
+      editor.addElement('text');
+
+      editor.importHTML('<h1>Imported</h1>');
+      editor.undo();
+
+      expect(editor.elements.map(element => element.type)).toEqual(['text']);
+    });
+
+    it('should use parse hooks of registered types', () => {
+      editor.registerElementType('badge', {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: '', size: 1 },
+        render: props => `<span class="badge">${props.label}</span>`,
+        validate: () => [],
+        matches: node => node.matches('span.badge'),
+        parse: node => ({ props: { label: node.textContent ?? '', size: 1 } }),
+      });
+
+      editor.importHTML('<span class="badge">New</span>');
+
+      expect(editor.getElementsByType('badge')[0]?.props.label).toBe('New');
+    });
+  });
+
+  describe('markdown', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should export elements as Markdown', () => {
+      editor.setElements([
+        { id: 1, type: 'title', props: { text: 'Hello', level: 2 } },
+        { id: 2, type: 'list', props: { items: ['One', 'Two'], ordered: false } },
+      ]);
+
+      expect(editor.exportMarkdown()).toBe('## Hello\n\n- One\n- Two');
+    });
+
+    it('should replace elements with imported Markdown', () => {
+      const changes: string[] = [];
+      editor.on('change', ({ reason }) => changes.push(reason));
+      editor.addElement('text');
+
+      const elements = editor.importMarkdown('# Title\n\nBody text\n\n1. First\n2. Second');
+
+      expect(elements.map(element => element.type)).toEqual(['title', 'text', 'list']);
+      expect(editor.getElementsByType('list')[0]?.props).toEqual({
+        items: ['First', 'Second'],
+        ordered: true,
+      });
+      expect(changes).toEqual(['add', 'import']);
+
+      editor.undo();
+      expect(editor.elements.map(element => element.type)).toEqual(['text']);
+    });
+
+    it('should show Markdown in the Markdown tab', () => {
+      editor.setElements([{ id: 1, type: 'title', props: { text: 'Tabbed', level: 1 } }]);
+
+      editor.switchTab('markdown');
+
+      const output = document.querySelector('.markdown-output') as HTMLTextAreaElement;
+      expect(output.value).toBe('# Tabbed');
+      expect(document.querySelector('[data-panel="markdown"]')?.classList.contains('active')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('code export', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.setElements([{ id: 1, type: 'text', props: { content: 'Hi' } }]);
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should export a React component', () => {
+      const code = editor.exportReact('Hero');
+
+      expect(code).toContain('export default function Hero() {');
+      expect(code).toContain('<p>Hi</p>');
+    });
+
+    it('should export a Vue component', () => {
+      expect(editor.exportVue()).toBe('<template>\n  <p>Hi</p>\n</template>\n');
+    });
+
+    it('should show the code in the React and Vue tabs', () => {
+      editor.switchTab('react');
+      expect((document.querySelector('.react-output') as HTMLTextAreaElement).value).toBe(
+        editor.exportReact()
+      );
+
+      editor.switchTab('vue');
+      expect((document.querySelector('.vue-output') as HTMLTextAreaElement).value).toBe(
+        editor.exportVue()
+      );
+    });
+
+    it('should copy the code from the tab buttons', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      editor.render();
+
+      (document.querySelector('[data-copy="vue"]') as HTMLButtonElement).click();
+      await vi.waitFor(() => expect(writeText).toHaveBeenCalledWith(editor.exportVue()));
+    });
+  });
+
+  describe('exportEmailHTML', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should export the document with the template preheader', () => {
+      editor.setElements([
+        { id: 1, type: 'title', props: { text: 'Newsletter', level: 1 } },
+        {
+          id: 2,
+          type: 'image',
+          props: { src: 'https://example.com/a.png', alt: 'A', width: 560, height: undefined },
+        },
+      ]);
+      editor.updateHTMLTemplate({ head: { title: 'March issue' }, preheader: 'What is new' });
+
+      const html = editor.exportEmailHTML({ width: 640 });
+
+      expect(html).toContain('<title>March issue</title>');
+      expect(html).toContain('>What is new</div>');
+      expect(html).toContain('width="640"');
+      expect(html).toMatch(/<h1 style="[^"]+">Newsletter<\/h1>/);
+      expect(html).toContain('alt="A" width="560" border="0"');
+      expect(editor.getFullHTML()).not.toContain('What is new');
+    });
+
+    it('should escape quotes in image attributes', () => {
+      editor.importHTML("<img src='x\" onerror=\"alert(1)' alt='a\" b'>");
+
+      const html = editor.exportEmailHTML();
+
+      expect(html).toContain('<img src="x&quot; onerror=&quot;alert(1)" alt="a&quot; b"');
+      expect(html).not.toContain('onerror="');
+    });
+  });
+
+  describe('HTML format', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.setElements([
+        {
+          id: 1,
+          type: 'section',
+          props: { ariaLabel: '' },
+          children: [[{ id: 2, type: 'text', props: { content: 'Hello' } }]],
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should format getHTML and getFullHTML output', () => {
+      expect(editor.getHTML()).toBe('<section><p>Hello</p></section>');
+      expect(editor.getHTML({ format: 'pretty', indent: 4 })).toBe(
+        '<section>\n    <p>Hello</p>\n</section>'
+      );
+      expect(editor.getFullHTML({ format: 'minify' })).toContain(
+        '<body><section><p>Hello</p></section></body>'
+      );
+    });
+
+    it('should show pretty HTML in the HTML tab and switch format with the toggle', () => {
+      editor.render();
+      editor.switchTab('html');
+      const output = document.querySelector('.html-output') as HTMLTextAreaElement;
+
+      expect(output.value).toBe(editor.getFullHTML({ format: 'pretty' }));
+      expect(document.querySelector('[data-format="pretty"]')?.classList.contains('active')).toBe(
+        true
+      );
+
+      (document.querySelector('[data-format="minify"]') as HTMLButtonElement).click();
+
+      expect(output.value).toBe(editor.getFullHTML({ format: 'minify' }));
+      expect(document.querySelector('[data-format="minify"]')?.classList.contains('active')).toBe(
+        true
+      );
+    });
+
+    it('should copy HTML in the chosen format', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+      editor.setHTMLFormat('minify');
+      await editor.copyHTML();
+      await editor.copyHTML({ format: 'none' });
+
+      expect(writeText).toHaveBeenNthCalledWith(1, editor.getFullHTML({ format: 'minify' }));
+      expect(writeText).toHaveBeenNthCalledWith(2, editor.getFullHTML());
+    });
+  });
+
+  describe('element style', () => {
+    let editor: VisualHtmlBuilder;
+
+    const styled = () => [
+      {
+        id: 1,
+        type: 'title' as const,
+        props: { text: 'Hello', level: 2, style: { fontSize: 28, color: '#ff0000' } },
+      },
+    ];
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should inline the style prop in HTML output and the preview', () => {
+      editor.setElements(styled());
+
+      expect(editor.getHTML()).toBe('<h2 style="font-size: 28px; color: #ff0000">Hello</h2>');
+      expect(editor.renderPreviewElement(editor.elements[0]!)).toContain(
+        'style="font-size: 28px; color: #ff0000"'
+      );
+    });
+
+    it('should write a stylesheet keyed by class when styleOutput is stylesheet', () => {
+      editor.destroy();
+      editor = new VisualHtmlBuilder('test-editor-container', { styleOutput: 'stylesheet' });
+      editor.setElements(styled());
+
+      expect(editor.getHTML()).toBe('<h2 class="vhb-el-1">Hello</h2>');
+      expect(editor.getStylesheet()).toBe('.vhb-el-1 { font-size: 28px; color: #ff0000; }');
+      expect(editor.getFullHTML()).toContain(
+        '    .vhb-el-1 { font-size: 28px; color: #ff0000; }\n  </style>'
+      );
+      // The preview inlines styles of elements without breakpoint rules
+      expect(editor.renderPreviewElement(editor.elements[0]!)).toContain('style="font-size: 28px');
+    });
+
+    it('should edit the style through the Style section of the properties panel', () => {
+      editor.addElement('text');
+      const panel = container.querySelector('.properties-content')!;
+      const input = panel.querySelector<HTMLInputElement>('[data-prop-path="style.padding"]')!;
+
+      expect(panel.querySelector('.style-section legend')?.textContent).toBe('Style');
+
+      input.value = '8px 16px';
+      input.dispatchEvent(new Event('input'));
+
+      expect(editor.elements[0]?.props.style).toEqual({ padding: '8px 16px' });
+      expect(editor.getHTML()).toContain('style="padding: 8px 16px"');
+    });
+
+    it('should report invalid style values', () => {
+      editor.setElements([
+        { id: 1, type: 'text', props: { content: 'Hi', style: { color: 'red; x: y' } } },
+      ]);
+
+      expect(editor.validateElement(editor.elements[0]!)).toEqual([
+        { path: 'style.color', message: 'Value contains invalid characters', severity: 'error' },
+      ]);
+    });
+  });
+
+  describe('breakpoints', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        breakpoints: [
+          { name: 'desktop', label: 'Desktop' },
+          { name: 'phone', label: 'Phone', width: 600 },
+        ],
+      });
+      editor.setElements([
+        {
+          id: 1,
+          type: 'title',
+          props: {
+            text: 'Hello',
+            level: 1,
+            style: { fontSize: 40, breakpoints: { phone: { fontSize: 24 } } },
+          },
+        },
+        { id: 2, type: 'text', props: { content: 'Desktop only', style: { color: 'red' } } },
+      ]);
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should write breakpoint overrides as media queries in the head', () => {
+      editor.selectElement(2);
+      editor.setActiveBreakpoint('phone');
+      editor.updatePropertyAtPath('style.breakpoints.phone.hidden', true);
+
+      expect(editor.getHTML()).toBe(
+        '<h1 class="vhb-el-1">Hello</h1>\n<p class="vhb-el-2">Desktop only</p>'
+      );
+      expect(editor.getFullHTML()).toContain(
+        [
+          '    .vhb-el-1 { font-size: 40px; }',
+          '    .vhb-el-2 { color: red; }',
+          '    @media (max-width: 600px) {',
+          '      .vhb-el-1 { font-size: 24px; }',
+          '      .vhb-el-2 { display: none !important; }',
+          '    }',
+          '  </style>',
+        ].join('\n')
+      );
+    });
+
+    it('should keep inline styles for elements without breakpoint rules', () => {
+      expect(editor.getHTML()).toContain('<p style="color: red">Desktop only</p>');
+      expect(editor.getStylesheet()).not.toContain('vhb-el-2');
+    });
+
+    it('should resize the preview and edit overrides of the active breakpoint', () => {
+      editor.render();
+      editor.flushPreview();
+      editor.selectElement(1);
+
+      (container.querySelector('[data-breakpoint="phone"]') as HTMLButtonElement).click();
+
+      expect(editor.getActiveBreakpoint().name).toBe('phone');
+      expect(editor.previewIframe?.style.width).toBe('600px');
+      expect(container.querySelector('.style-section legend')?.textContent).toBe('Style (Phone)');
+
+      const input = container.querySelector<HTMLInputElement>(
+        '[data-prop-path="style.breakpoints.phone.color"]'
+      )!;
+      input.value = 'blue';
+      input.dispatchEvent(new Event('input'));
+
+      expect(editor.elements[0]?.props.style?.breakpoints?.phone).toEqual({
+        fontSize: 24,
+        color: 'blue',
+      });
+
+      editor.setActiveBreakpoint('desktop');
+      expect(editor.previewIframe?.style.width).toBe('100%');
+      expect(
+        container.querySelector<HTMLInputElement>('[data-prop-path="style.fontSize"]')?.value
+      ).toBe('40');
+    });
+
+    it('should throw for unknown breakpoints', () => {
+      expect(() => editor.setActiveBreakpoint('watch')).toThrow('Unknown breakpoint: watch');
+    });
+  });
+
+  describe('preview device', () => {
+    let editor: VisualHtmlBuilder;
+
+    const select = (selector: string, value: string) => {
+      const input = container.querySelector<HTMLSelectElement>(selector)!;
+      input.value = value;
+      input.dispatchEvent(new Event('change'));
+    };
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.render();
+      editor.flushPreview();
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should size the frame to a device preset and rotate it', () => {
+      select('.preview-device-select', 'phone');
+
+      expect(editor.getPreviewDevice()).toEqual({
+        device: 'phone',
+        orientation: 'portrait',
+        zoom: 100,
+      });
+      expect(editor.previewIframe?.style.width).toBe('375px');
+      expect(editor.previewIframe?.style.height).toBe('667px');
+      expect(container.querySelector('.preview-ruler-label')?.textContent).toBe('375px');
+
+      (container.querySelector('.preview-rotate-button') as HTMLButtonElement).click();
+
+      expect(editor.getPreviewDevice().orientation).toBe('landscape');
+      expect(editor.previewIframe?.style.width).toBe('667px');
+    });
+
+    it('should zoom the frame with a CSS transform', () => {
+      editor.setPreviewDevice({ device: 'tablet' });
+      select('.preview-zoom-select', '50');
+
+      expect(editor.getPreviewDevice().zoom).toBe(50);
+      expect(editor.previewIframe?.style.transform).toBe('scale(0.5)');
+      expect((container.querySelector('.preview-ruler') as HTMLElement).style.width).toBe('384px');
+    });
+
+    it('should switch to a custom size from the size inputs', () => {
+      editor.setPreviewDevice({ device: 'phone' });
+      const width = container.querySelector<HTMLInputElement>('[data-dimension="width"]')!;
+      width.value = '414';
+      width.dispatchEvent(new Event('change'));
+
+      expect(editor.getPreviewDevice()).toMatchObject({
+        device: 'custom',
+        width: 414,
+        height: 667,
+      });
+      expect(editor.previewIframe?.style.width).toBe('414px');
+    });
+
+    it('should keep the device across render calls', () => {
+      editor.setPreviewDevice({ device: 'laptop', zoom: 75 });
+      editor.render();
+
+      expect(container.querySelector<HTMLSelectElement>('.preview-device-select')?.value).toBe(
+        'laptop'
+      );
+      expect(container.querySelector<HTMLSelectElement>('.preview-zoom-select')?.value).toBe('75');
+      expect(editor.previewIframe?.style.width).toBe('1440px');
+    });
+
+    it('should follow the active breakpoint on the responsive device', () => {
+      editor.setActiveBreakpoint('mobile');
+      expect(editor.previewIframe?.style.width).toBe('767px');
+
+      editor.setPreviewDevice({ device: 'tablet' });
+      expect(editor.previewIframe?.style.width).toBe('768px');
+    });
+
+    it('should take the initial device from the options', () => {
+      editor.destroy();
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        previewDevice: { device: 'custom', width: 320, height: 568, zoom: 150 },
+      });
+
+      expect(editor.getPreviewDevice()).toEqual({
+        device: 'custom',
+        width: 320,
+        height: 568,
+        orientation: 'portrait',
+        zoom: 150,
+      });
+    });
+  });
+
+  describe('typed elements', () => {
+    let editor: VisualHtmlBuilder;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        initialContent: [
+          { id: 1, type: 'title', props: { text: 'Hello', level: 2 } },
+          {
+            id: 2,
+            type: 'section',
+            props: { ariaLabel: '' },
+            children: [
+              [{ id: 3, type: 'image', props: { src: 'https://example.com/a.png', alt: 'A' } }],
+            ],
+          },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should get elements by ID anywhere in the tree', () => {
+      const image = editor.getElement(3, 'image');
+
+      expect(image?.props.src).toBe('https://example.com/a.png');
+      expect(editor.getElement(1)?.type).toBe('title');
+      expect(editor.getElement(99)).toBeNull();
+    });
+
+    it('should return null when the element has another type', () => {
+      expect(editor.getElement(1, 'image')).toBeNull();
+    });
+
+    it('should get elements by type', () => {
+      const titles = editor.getElementsByType('title');
+
+      expect(titles.map(title => title.props.text)).toEqual(['Hello']);
+      expect(editor.getElementsByType('image').map(image => image.id)).toEqual([3]);
+    });
+
+    it('should check props of initial content at compile time', () => {
+      const options: EditorOptions = {
+        initialContent: [
+          // @ts-expect-error -- "txt" is not a title prop
+          { id: 1, type: 'title', props: { txt: 'Typo', level: 1 } },
+        ],
+      };
+
+      expect(options.initialContent).toHaveLength(1);
+    });
+
+    it('should infer props of registered element types', () => {
+      editor.registerElementType('badge', {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: 'New', size: 1 },
+        render: props => `<span>${props.label.toUpperCase()}</span>`,
+        validate: props => (props.size > 0 ? null : 'Size must be positive'),
+      });
+
+      editor.setElements([{ id: 5, type: 'badge', props: { label: 'hot', size: 2 } }]);
+
+      expect(editor.getHTML()).toBe('<span>HOT</span>');
+    });
+
+    it('should require matching props when overriding known element types', () => {
+      expect(() =>
+        editor.registerElementType('title', {
+          name: 'Title',
+          icon: 'H',
+          // @ts-expect-error -- title props need text and level
+          defaultProps: { heading: 'Missing text' },
+          render: () => '',
+          validate: () => null,
+        })
+      ).not.toThrow();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should not throw error with invalid settings', () => {
+      expect(() => {
+        new VisualHtmlBuilder('test-editor-container', {
+          enabledElements: ['invalid-type'],
+          initialContent: [],
+        });
+      }).not.toThrow();
+    });
+
+    it('should catch DOM manipulation errors', () => {
+      const editor = new VisualHtmlBuilder('test-editor-container');
+
+      // Remove container to cause DOM manipulation failure
+      container.remove();
+
+      expect(() => {
+        editor.updatePreview();
+      }).not.toThrow();
+    });
+  });
+
+  describe('themes', () => {
+    let editor: VisualHtmlBuilder;
+
+    const themes = [
+      { name: 'light', label: 'Light', colors: { primary: '#0055ff', text: '#222222' } },
+      { name: 'dark', label: 'Dark', colors: { primary: '#66aaff', text: '#eeeeee' } },
+    ];
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container', { themes, theme: 'dark' });
+      editor.setElements([
+        {
+          id: 1,
+          type: 'text',
+          props: { content: 'Hi', style: { color: 'var(--color-primary)' } },
+        },
+      ]);
+      editor.render();
+      editor.flushPreview();
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should write theme variables into the head of the page', () => {
+      const html = editor.getFullHTML();
+
+      expect(editor.getTheme().name).toBe('dark');
+      expect(html).toContain('    :root {\n      --color-primary: #66aaff;');
+      expect(html).toContain('body { font-family: var(--font-body); color: var(--color-text); }');
+      expect(html).toContain('style="color: var(--color-primary)"');
+    });
+
+    it('should inject theme variables into the preview', () => {
+      const style = editor.previewIframe?.contentDocument?.getElementById('theme-styles');
+
+      expect(style?.textContent).toContain('--color-text: #eeeeee;');
+    });
+
+    it('should switch themes from the preview toolbar', () => {
+      const themeChanged = vi.fn();
+      editor.on('themeChanged', themeChanged);
+
+      const select = container.querySelector<HTMLSelectElement>('.theme-select')!;
+      select.value = 'light';
+      select.dispatchEvent(new Event('change'));
+      editor.flushPreview();
+
+      expect(editor.getTheme().name).toBe('light');
+      expect(themeChanged).toHaveBeenCalledWith(
+        expect.objectContaining({
+          theme: expect.objectContaining({ name: 'light' }),
+          previousTheme: expect.objectContaining({ name: 'dark' }),
+        })
+      );
+      expect(
+        editor.previewIframe?.contentDocument?.getElementById('theme-styles')?.textContent
+      ).toContain('--color-primary: #0055ff;');
+      expect(() => editor.setTheme('sepia')).toThrow('Unknown theme: sepia');
+    });
+
+    it('should offer theme tokens in the style section', () => {
+      editor.selectElement(1);
+      const options = Array.from(
+        container.querySelectorAll<HTMLOptionElement>('.properties-content datalist option')
+      ).map(option => option.value);
+
+      expect(options).toContain('var(--color-primary)');
+      expect(options).toContain('var(--space-md)');
+    });
+
+    it('should resolve theme variables in email exports', () => {
+      expect(editor.exportEmailHTML()).toContain('color: #66aaff');
+      expect(editor.exportEmailHTML()).not.toContain('var(--color-primary)');
+    });
+
+    it('should reject an unknown initial theme', () => {
+      expect(
+        () => new VisualHtmlBuilder('test-editor-container', { themes, theme: 'sepia' })
+      ).toThrow('Unknown theme: sepia');
+    });
+  });
+
+  describe('editor theme', () => {
+    let editor: VisualHtmlBuilder;
+
+    const root = () => container.querySelector<HTMLElement>('.html-gui-editor');
+
+    afterEach(() => {
+      editor.destroy();
+      document.querySelectorAll('style[id^="html-gui-editor-theme-"]').forEach(el => el.remove());
+    });
+
+    it('should use the light theme by default', () => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+
+      expect(editor.getEditorTheme()).toBe('light');
+      expect(root()?.dataset.editorTheme).toBe('light');
+      expect(document.getElementById('html-gui-editor-theme-light')?.textContent).toContain(
+        '--editor-bg: #ffffff;'
+      );
+    });
+
+    it('should switch themes at runtime', () => {
+      editor = new VisualHtmlBuilder('test-editor-container', { editorTheme: 'dark' });
+      expect(root()?.dataset.editorTheme).toBe('dark');
+
+      editor.setEditorTheme('high-contrast');
+      editor.render();
+
+      expect(root()?.dataset.editorTheme).toBe('high-contrast');
+      expect(document.getElementById('html-gui-editor-theme-high-contrast')).not.toBeNull();
+      expect(() => editor.setEditorTheme('sepia' as 'light')).toThrow(
+        'Unknown editor theme: sepia'
+      );
+    });
+
+    it('should apply custom themes', () => {
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        editorTheme: { name: 'admin', extends: 'dark', colors: { primaryColor: '#e91e63' } },
+      });
+
+      expect(editor.getEditorTheme()).toMatchObject({ name: 'admin', colorScheme: 'dark' });
+      expect(root()?.dataset.editorTheme).toBe('admin');
+      expect(document.getElementById('html-gui-editor-theme-admin')?.textContent).toContain(
+        '--primary-color: #e91e63;'
+      );
+    });
+
+    it('should theme notifications of the editor', async () => {
+      document.querySelectorAll('.editor-notification').forEach(el => el.remove());
+      editor = new VisualHtmlBuilder('test-editor-container', { editorTheme: 'auto' });
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+      await editor.copyHTML();
+      const notification = document.querySelector<HTMLElement>('.editor-notification');
+
+      expect(notification?.dataset.editorTheme).toBe('auto');
+      notification?.remove();
+    });
+  });
+
+  describe('rich text', () => {
+    let editor: VisualHtmlBuilder;
+
+    const field = () =>
+      container.querySelector<HTMLElement>('.rich-text-input[data-prop-path="content"]')!;
+
+    const select = (start: number, end: number) => {
+      const range = document.createRange();
+      range.setStart(field().firstChild!, start);
+      range.setEnd(field().firstChild!, end);
+      document.getSelection()?.removeAllRanges();
+      document.getSelection()?.addRange(range);
+    };
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.setElements([{ id: 1, type: 'text', props: { content: 'Hello world' } }]);
+      editor.selectElement(1);
+    });
+
+    afterEach(() => {
+      editor.destroy();
+      document.querySelectorAll('.editor-notification').forEach(el => el.remove());
+    });
+
+    it('should format the selection from the toolbar', () => {
+      select(0, 5);
+      container.querySelector<HTMLButtonElement>('[data-rich-text-command="bold"]')!.click();
+
+      expect(editor.elements[0]?.props).toEqual({
+        content: [{ text: 'Hello', marks: ['bold'] }, { text: ' world' }],
+      });
+      expect(field().innerHTML).toBe('<strong>Hello</strong> world');
+      expect(editor.generateHTML()).toContain('<p><strong>Hello</strong> world</p>');
+    });
+
+    it('should format the selection with keyboard shortcuts', () => {
+      select(6, 11);
+      field().dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'i', ctrlKey: true, cancelable: true })
+      );
+
+      expect(editor.elements[0]?.props).toEqual({
+        content: [{ text: 'Hello ' }, { text: 'world', marks: ['italic'] }],
+      });
+      expect(editor.exportMarkdown()).toContain('Hello *world*');
+    });
+
+    it('should insert line breaks on Enter except in single-line fields', () => {
+      select(5, 6);
+      field().dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', cancelable: true }));
+      expect(editor.elements[0]?.props).toEqual({ content: 'Hello\nworld' });
+
+      editor.addElement('title');
+      const title = container.querySelector<HTMLElement>('[data-prop-path="text"]')!;
+      expect(title.hasAttribute('data-single-line')).toBe(true);
+      title.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', cancelable: true }));
+      expect(editor.getElementsByType('title')[0]?.props.text).toBe('New Title');
+    });
+
+    it('should link the last selection with the URL of the link input', () => {
+      select(6, 11);
+      field().dispatchEvent(new MouseEvent('mouseup'));
+      document.getSelection()?.removeAllRanges();
+
+      const url = container.querySelector<HTMLInputElement>('.rich-text-link-url')!;
+      url.value = 'https://example.com';
+      container.querySelector<HTMLInputElement>('.rich-text-link-blank')!.checked = true;
+      url.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', cancelable: true }));
+
+      expect(editor.generateHTML()).toContain(
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer">world</a>'
+      );
+    });
+
+    it('should refuse unsafe link URLs', () => {
+      select(0, 5);
+      container.querySelector<HTMLInputElement>('.rich-text-link-url')!.value =
+        'javascript:alert(1)';
+      container.querySelector<HTMLButtonElement>('[data-rich-text-command="link"]')!.click();
+
+      expect(editor.elements[0]?.props).toEqual({ content: 'Hello world' });
+      expect(document.querySelector('.editor-notification')?.textContent).toContain(
+        'Link URL is not allowed: javascript:alert(1)'
+      );
+    });
+
+    it('should report unsafe links stored in the content', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'text',
+          props: { content: [{ text: 'x', link: { href: 'javascript:alert(1)' } }] },
+        },
+      ]);
+
+      expect(editor.validateElement(editor.elements[0]!)).toEqual([
+        {
+          path: 'content',
+          message: 'Link URL is not allowed: javascript:alert(1)',
+          severity: 'error',
+        },
+      ]);
+      expect(editor.generateHTML()).not.toContain('javascript:');
+    });
+  });
+
+  describe('inline editing', () => {
+    let editor: VisualHtmlBuilder;
+
+    const previewNode = (selector: string) =>
+      editor.previewIframe!.contentDocument!.querySelector<HTMLElement>(selector)!;
+
+    const edit = (selector: string, text: string, key = 'Enter') => {
+      const node = previewNode(selector);
+      node.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+      node.textContent = text;
+      node.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+    };
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.setElements([
+        { id: 1, type: 'title', props: { text: 'Hello', level: 2 } },
+        { id: 2, type: 'list', props: { items: ['One', 'Two'], ordered: false } },
+      ]);
+      editor.flushPreview();
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should mark inline-editable props in the preview only', () => {
+      expect(previewNode('h2').dataset.inlinePath).toBe('text');
+      expect(previewNode('li:nth-child(2)').dataset.inlinePath).toBe('items.1');
+      expect(editor.getHTML()).not.toContain('data-inline-path');
+    });
+
+    it('should sync edits back to props and the properties panel', () => {
+      edit('h2', 'Edited');
+      expect(editor.elements[0]?.props).toEqual({ text: 'Edited', level: 2 });
+      expect(
+        container.querySelector('.properties-content [data-prop-path="text"]')?.textContent
+      ).toBe('Edited');
+
+      edit('li:nth-child(2)', 'Second');
+      expect(editor.getElementsByType('list')[0]?.props.items).toEqual(['One', 'Second']);
+
+      editor.undo();
+      expect(editor.getElementsByType('list')[0]?.props.items).toEqual(['One', 'Two']);
+    });
+
+    it('should cancel edits with Escape', () => {
+      const listener = vi.fn();
+      editor.on('elementUpdated', listener);
+
+      edit('h2', 'Discarded', 'Escape');
+
+      expect(editor.elements[0]?.props).toEqual({ text: 'Hello', level: 2 });
+      expect(previewNode('h2').textContent).toBe('Hello');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should not make elements editable when inline editing is disabled', () => {
+      editor.destroy();
+      editor = new VisualHtmlBuilder('test-editor-container', {
+        iframePreviewOptions: { enableInlineEditing: false },
+      });
+      editor.setElements([{ id: 1, type: 'title', props: { text: 'Hello', level: 2 } }]);
+      editor.flushPreview();
+
+      previewNode('h2').dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+      expect(previewNode('h2').hasAttribute('contenteditable')).toBe(false);
+    });
+
+    it('should support inline-editable props of custom element types', () => {
+      editor.registerElementType('badge', {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: 'New', size: 1 },
+        render: props => `<span class="badge"><b>${props.label}</b></span>`,
+        validate: () => null,
+        inlineEditable: () => [{ path: 'label', selector: 'b' }],
+      });
+      editor.addElement('badge');
+      editor.flushPreview();
+
+      edit('.badge b', 'Sale');
+      expect(editor.getElementsByType('badge')[0]?.props).toEqual({ label: 'Sale', size: 1 });
+    });
+  });
+
+  describe('links and buttons', () => {
+    let editor: VisualHtmlBuilder;
+
+    const hyperlink: HyperlinkProps = {
+      href: 'https://example.com',
+      label: 'Go',
+      target: '_self',
+      rel: '',
+      title: '',
+      download: false,
+    };
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should offer link and button in the default palette', () => {
+      editor.render();
+
+      expect(container.querySelector('.element-button[data-type="link"]')?.textContent).toContain(
+        'Link'
+      );
+      expect(container.querySelector('.element-button[data-type="button"]')?.textContent).toContain(
+        'Button'
+      );
+    });
+
+    it('should export links opening a new tab with a safe rel', () => {
+      editor.setElements([
+        { id: 1, type: 'link', props: { ...hyperlink, target: '_blank', variant: 'default' } },
+      ]);
+
+      expect(editor.getHTML()).toBe(
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer">Go</a>'
+      );
+    });
+
+    it('should resolve button colors to theme values in email export', () => {
+      editor.setElements([{ id: 1, type: 'button', props: { ...hyperlink, variant: 'primary' } }]);
+
+      const html = editor.exportEmailHTML();
+      expect(html).toContain('background-color: #007bff');
+      expect(html).not.toContain('var(--');
+    });
+
+    it('should warn about anchor links to missing sections', () => {
+      editor.setElements([
+        { id: 1, type: 'button', props: { ...hyperlink, href: '#pricing', variant: 'primary' } },
+      ]);
+      expect(editor.validateDocument().issues.map(issue => issue.ruleId)).toContain(
+        'anchor-target'
+      );
+
+      editor.setElements([
+        ...editor.elements,
+        { id: 2, type: 'section', props: { ariaLabel: '', anchorId: 'pricing' }, children: [[]] },
+      ]);
+      expect(editor.validateDocument().issues.map(issue => issue.ruleId)).not.toContain(
+        'anchor-target'
+      );
+    });
+  });
+
+  describe('tables', () => {
+    let editor: VisualHtmlBuilder;
+
+    const panel = () => container.querySelector('.properties-content')!;
+    const cell = (row: number, column: number) =>
+      panel().querySelector<HTMLInputElement>(`[data-prop-path="grid.cells.${row}.${column}"]`)!;
+    const grid = () => editor.getElementsByType('table')[0]?.props.grid;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+      editor.setElements([
+        {
+          id: 1,
+          type: 'table',
+          props: {
+            caption: '',
+            headerRow: true,
+            headerColumn: false,
+            grid: {
+              align: ['left', 'center'],
+              cells: [
+                ['Plan', 'Price'],
+                ['Pro', '$10'],
+              ],
+            },
+          },
+        },
+      ]);
+      editor.selectElement(1);
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should update cells typed in the grid', () => {
+      cell(1, 1).value = '$12';
+      cell(1, 1).dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(grid()?.cells).toEqual([
+        ['Plan', 'Price'],
+        ['Pro', '$12'],
+      ]);
+      expect(editor.getHTML()).toContain('<td style="text-align: center">$12</td>');
+    });
+
+    it('should add, move and remove columns with their alignment', () => {
+      panel()
+        .querySelector<HTMLButtonElement>(
+          '[data-table-axis="column"][data-table-action="up"][data-index="1"]'
+        )!
+        .click();
+      expect(grid()).toEqual({
+        align: ['center', 'left'],
+        cells: [
+          ['Price', 'Plan'],
+          ['$10', 'Pro'],
+        ],
+      });
+
+      panel()
+        .querySelector<HTMLButtonElement>('[data-table-axis="column"][data-table-action="add"]')!
+        .click();
+      expect(cell(0, 2).value).toBe('');
+
+      editor.undo();
+      editor.undo();
+      expect(grid()?.cells[0]).toEqual(['Plan', 'Price']);
+    });
+
+    it('should move between cells with Tab and add a row after the last cell', () => {
+      const tab = (input: HTMLInputElement, shiftKey = false) =>
+        input.dispatchEvent(
+          new KeyboardEvent('keydown', { key: 'Tab', shiftKey, bubbles: true, cancelable: true })
+        );
+
+      tab(cell(0, 1));
+      expect(document.activeElement).toBe(cell(1, 0));
+      tab(cell(1, 0), true);
+      expect(document.activeElement).toBe(cell(0, 1));
+
+      tab(cell(1, 1));
+      expect(grid()?.cells).toHaveLength(3);
+      expect(document.activeElement).toBe(cell(2, 0));
+    });
+
+    it('should paste spreadsheet rows into the grid', () => {
+      const event = new Event('paste', { bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'clipboardData', {
+        value: { getData: () => 'Team\t$30\nEnterprise\t$99\n' },
+      });
+      cell(1, 0).dispatchEvent(event);
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(grid()?.cells).toEqual([
+        ['Plan', 'Price'],
+        ['Team', '$30'],
+        ['Enterprise', '$99'],
+      ]);
+      expect(document.activeElement).toBe(cell(1, 0));
+    });
+  });
+
+  describe('media', () => {
+    let editor: VisualHtmlBuilder;
+
+    const previewContent = () =>
+      editor.previewIframe!.contentDocument!.querySelector('.preview-content')!;
+
+    beforeEach(() => {
+      editor = new VisualHtmlBuilder('test-editor-container');
+    });
+
+    afterEach(() => {
+      editor.destroy();
+    });
+
+    it('should offer video, audio and embed elements', () => {
+      editor.render();
+      const types = Array.from(container.querySelectorAll<HTMLElement>('.element-button')).map(
+        button => button.dataset.type
+      );
+      expect(types).toEqual(expect.arrayContaining(['video', 'audio', 'embed']));
+    });
+
+    it('should show a placeholder in the preview and the facade iframe in the output', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'embed',
+          props: { url: 'https://vimeo.com/76979871', title: 'Launch', aspectRatio: '16:9' },
+        },
+      ]);
+      editor.flushPreview();
+
+      expect(previewContent().querySelector('.embed-placeholder')?.textContent).toContain(
+        'Vimeo video'
+      );
+      expect(previewContent().querySelector('iframe')).toBeNull();
+      expect(editor.getHTML()).toContain(
+        '<iframe src="https://player.vimeo.com/video/76979871?dnt=1" srcdoc="'
+      );
+    });
+
+    it('should edit video sources in the properties panel', () => {
+      editor.setElements([
+        {
+          id: 1,
+          type: 'video',
+          props: {
+            sources: [{ src: '', type: '' }],
+            poster: '',
+            controls: true,
+            autoplay: true,
+            muted: true,
+            loop: false,
+            captions: { src: '', srclang: '', label: '' },
+          },
+        },
+      ]);
+      editor.selectElement(1);
+
+      const input = container.querySelector<HTMLInputElement>('[data-prop-path="sources.0.src"]')!;
+      input.value = '/clips/intro.webm';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      editor.flushPreview();
+
+      expect(editor.getHTML()).toContain(
+        '<video controls autoplay muted playsinline preload="metadata"><source src="/clips/intro.webm" type="video/webm">'
+      );
+      expect(previewContent().querySelector('video')?.hasAttribute('autoplay')).toBe(false);
     });
   });
 });
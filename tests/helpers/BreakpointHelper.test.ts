@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { BreakpointHelper } from '@helpers/BreakpointHelper';
+
+describe('BreakpointHelper', () => {
+  const breakpoints = BreakpointHelper.getDefaultBreakpoints();
+
+  describe('normalize', () => {
+    it('should sort breakpoints from the base to the narrowest', () => {
+      const normalized = BreakpointHelper.normalize([
+        { name: 'mobile', label: 'Mobile', width: 480 },
+        { name: 'desktop', label: 'Desktop' },
+        { name: 'tablet', label: 'Tablet', width: 900 },
+      ]);
+
+      expect(normalized.map(breakpoint => breakpoint.name)).toEqual([
+        'desktop',
+        'tablet',
+        'mobile',
+      ]);
+      expect(BreakpointHelper.getBase(normalized).name).toBe('desktop');
+    });
+
+    it('should throw for invalid breakpoints', () => {
+      expect(() =>
+        BreakpointHelper.normalize([
+          { name: 'desktop', label: 'Desktop' },
+          { name: 'desktop', label: 'Tablet', width: 900 },
+        ])
+      ).toThrow('Breakpoint names must be unique');
+      expect(() =>
+        BreakpointHelper.normalize([{ name: 'tablet', label: 'Tablet', width: 900 }])
+      ).toThrow('Exactly one breakpoint must have no width (the base breakpoint)');
+      expect(() =>
+        BreakpointHelper.normalize([
+          { name: 'desktop', label: 'Desktop' },
+          { name: 'tablet', label: 'Tablet', width: -1 },
+        ])
+      ).toThrow('Width of breakpoint "tablet" must be a positive integer');
+    });
+  });
+
+  describe('queries', () => {
+    it('should build override queries for the breakpoint and narrower viewports', () => {
+      expect(BreakpointHelper.getOverrideQuery(breakpoints[1]!)).toBe('(max-width: 1024px)');
+      expect(BreakpointHelper.getOverrideQuery(breakpoints[0]!)).toBe('');
+    });
+
+    it('should build range queries covering only the breakpoint', () => {
+      expect(BreakpointHelper.getRangeQuery(breakpoints, 'desktop')).toBe('(min-width: 1025px)');
+      expect(BreakpointHelper.getRangeQuery(breakpoints, 'tablet')).toBe(
+        '(min-width: 768px) and (max-width: 1024px)'
+      );
+      expect(BreakpointHelper.getRangeQuery(breakpoints, 'mobile')).toBe('(max-width: 767px)');
+    });
+  });
+
+  describe('buildStylesheet', () => {
+    it('should group media rules per query in cascade order', () => {
+      const stylesheet = BreakpointHelper.buildStylesheet(
+        breakpoints,
+        ['.a { color: red; }'],
+        [
+          ['(max-width: 767px)', '.a { color: blue; }'],
+          ['(min-width: 1025px)', '.b { display: none !important; }'],
+          ['(max-width: 1024px)', '.b { padding: 0; }'],
+          ['(max-width: 767px)', '.b { padding: 4px; }'],
+        ]
+      );
+
+      expect(stylesheet).toBe(
+        [
+          '.a { color: red; }',
+          '@media (max-width: 1024px) {',
+          '  .b { padding: 0; }',
+          '}',
+          '@media (max-width: 767px) {',
+          '  .a { color: blue; }',
+          '  .b { padding: 4px; }',
+          '}',
+          '@media (min-width: 1025px) {',
+          '  .b { display: none !important; }',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should return an empty stylesheet without rules', () => {
+      expect(BreakpointHelper.buildStylesheet(breakpoints, [], [])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { CodeExportHelper } from '@helpers/CodeExportHelper';
+import { ElementTypesHelper, type ElementType } from '@helpers/ElementTypesHelper';
+import type { SerializedElement } from '@helpers/SerializationHelper';
+
+describe('CodeExportHelper', () => {
+  const elementTypes = ElementTypesHelper.getAllElementTypes();
+
+  const elements: SerializedElement[] = [
+    { id: 1, type: 'title', props: { text: 'Hello {name}', level: 1 } },
+    {
+      id: 2,
+      type: 'div',
+      props: { className: 'card' },
+      children: [
+        [
+          { id: 3, type: 'text', props: { content: 'A < B\nC' } },
+          {
+            id: 4,
+            type: 'image',
+            props: { src: 'https://example.com/a.png', alt: 'A', width: 100 },
+          },
+        ],
+      ],
+    },
+  ];
+
+  describe('toReactComponent', () => {
+    it('should generate a function component', () => {
+      expect(CodeExportHelper.toReactComponent(elements, elementTypes, 'Landing')).toBe(
+        [
+          'export default function Landing() {',
+          '  return (',
+          '    <>',
+          '      <h1>Hello &#123;name&#125;</h1>',
+          '      <div className="card">',
+          '        <p>A &lt; B<br />C</p>',
+          '        <img src="https://example.com/a.png" alt="A" style={{ width: \'100px\' }} />',
+          '      </div>',
+          '    </>',
+          '  );',
+          '}',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should return null for an empty document', () => {
+      expect(CodeExportHelper.toReactComponent([], elementTypes)).toContain('return null;');
+    });
+
+    it('should reject invalid component names', () => {
+      expect(() => CodeExportHelper.toReactComponent([], elementTypes, 'my-page')).toThrow(
+        'Component name must be a PascalCase identifier'
+      );
+    });
+  });
+
+  describe('toVueComponent', () => {
+    it('should generate a template', () => {
+      expect(CodeExportHelper.toVueComponent(elements, elementTypes)).toBe(
+        [
+          '<template>',
+          '  <h1>Hello {name}</h1>',
+          '  <div class="card">',
+          '    <p>A &lt; B<br />C</p>',
+          '    <img src="https://example.com/a.png" alt="A" style="width: 100px" />',
+          '  </div>',
+          '</template>',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should escape interpolation delimiters in text', () => {
+      expect(CodeExportHelper.convertHTML('<p>{{ secret }}</p>', 'vue')).toBe(
+        '<p>&#123;&#123; secret }}</p>'
+      );
+    });
+  });
+
+  describe('elementToCode', () => {
+    it('should prefer renderJSX and renderVue hooks', () => {
+      const counter: ElementType<{ start: number }> = {
+        name: 'Counter',
+        icon: '#',
+        defaultProps: { start: 0 },
+        render: props => `<span>${props.start}</span>`,
+        validate: () => [],
+        renderJSX: props => `<Counter start={${props.start}} />`,
+        renderVue: props => `<Counter :start="${props.start}" />`,
+      };
+      const element: SerializedElement = { id: 1, type: 'counter', props: { start: 5 } };
+
+      expect(CodeExportHelper.elementToCode(element, { counter }, 'jsx')).toBe(
+        '<Counter start={5} />'
+      );
+      expect(CodeExportHelper.elementToCode(element, { counter }, 'vue')).toBe(
+        '<Counter :start="5" />'
+      );
+    });
+
+    it('should put hook output of children into converted containers', () => {
+      const badge: ElementType<{ label: string }> = {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: '' },
+        render: props => `<span>${props.label}</span>`,
+        validate: () => [],
+        renderJSX: props => `<Badge label="${props.label}" />`,
+      };
+      const section: SerializedElement = {
+        id: 1,
+        type: 'section',
+        props: { ariaLabel: 'Intro' },
+        children: [[{ id: 2, type: 'badge', props: { label: 'New' } }]],
+      };
+
+      expect(CodeExportHelper.elementToCode(section, { ...elementTypes, badge }, 'jsx')).toBe(
+        '<section aria-label="Intro">\n  <Badge label="New" />\n</section>'
+      );
+    });
+  });
+
+  describe('convertHTML', () => {
+    it('should map attributes to JSX props', () => {
+      expect(
+        CodeExportHelper.convertHTML(
+          '<label for="q" class="x" onclick="go()">Q</label><video controls="" tabindex="0"></video>',
+          'jsx'
+        )
+      ).toBe('<label htmlFor="q" className="x">Q</label>\n<video controls tabIndex="0"></video>');
+    });
+
+    it('should keep whitespace of preformatted text', () => {
+      expect(CodeExportHelper.convertHTML('<pre>a\n  b</pre>', 'jsx')).toBe(
+        "<pre>{'a\\n  b'}</pre>"
+      );
+    });
+
+    it('should convert inline styles to objects', () => {
+      expect(
+        CodeExportHelper.styleToObject('display: flex; -webkit-line-clamp: 2; --gap: 4px')
+      ).toBe("{ display: 'flex', WebkitLineClamp: '2', '--gap': '4px' }");
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentRulesHelper, type DocumentRule } from '@helpers/DocumentRulesHelper';
+import { HTMLTemplateHelper, type HTMLTemplate } from '@helpers/HTMLTemplateHelper';
+import type { SerializedElement } from '@helpers/SerializationHelper';
+
+describe('DocumentRulesHelper', () => {
+  const title = (id: number, level: number): SerializedElement => ({
+    id,
+    type: 'title',
+    props: { text: `Heading ${id}`, level },
+  });
+
+  const template: HTMLTemplate = {
+    head: {
+      title: 'Page',
+      meta: [{ name: 'description', content: 'About the page' }],
+    },
+  };
+
+  const run = (elements: SerializedElement[], html: HTMLTemplate = template) =>
+    DocumentRulesHelper.runRules(DocumentRulesHelper.getBuiltInRules(), elements, html);
+
+  describe('built-in rules', () => {
+    it('should pass a well-formed document', () => {
+      const report = run([title(1, 1), title(2, 2), title(3, 3), title(4, 2)]);
+
+      expect(report).toEqual({ issues: [], errorCount: 0, warningCount: 0, ready: true });
+    });
+
+    it('should require exactly one H1', () => {
+      expect(run([title(1, 2)]).issues).toEqual([
+        {
+          path: '',
+          message: 'Page has no H1 heading',
+          severity: 'error',
+          elementId: null,
+          ruleId: 'single-h1',
+        },
+      ]);
+
+      const issues = run([title(1, 1), title(2, 1), title(3, 1)]).issues;
+      expect(issues.map(issue => issue.elementId)).toEqual([2, 3]);
+      expect(issues[0]?.message).toBe('Page already has an H1 heading');
+    });
+
+    it('should report skipped heading levels', () => {
+      const report = run([title(1, 1), title(2, 2), title(3, 4)]);
+
+      expect(report.issues).toEqual([
+        {
+          path: 'level',
+          message: 'Heading level skips from H2 to H4',
+          severity: 'warning',
+          elementId: 3,
+          ruleId: 'heading-order',
+        },
+      ]);
+      expect(report.ready).toBe(true);
+    });
+
+    it('should check headings and images inside containers', () => {
+      const report = run([
+        title(1, 1),
+        {
+          id: 2,
+          type: 'two-columns',
+          props: { gap: 0 },
+          children: [[title(3, 3)], [{ id: 4, type: 'image', props: { src: 'a.png', alt: ' ' } }]],
+        },
+      ]);
+
+      expect(report.issues.map(issue => [issue.ruleId, issue.elementId])).toEqual([
+        ['heading-order', 3],
+        ['image-alt', 4],
+      ]);
+    });
+
+    it('should check headings inside raw HTML blocks', () => {
+      const html = (id: number, markup: string): SerializedElement => ({
+        id,
+        type: 'html',
+        props: { html: markup },
+      });
+
+      expect(run([html(1, '<header><h1>Brand</h1></header>'), title(2, 2)]).issues).toEqual([]);
+
+      const report = run([
+        title(1, 1),
+        html(2, '<h2>Intro</h2><h4>Detail</h4>'),
+        html(3, '<h1>Again</h1>'),
+      ]);
+      expect(report.issues).toEqual([
+        {
+          path: 'html',
+          message: 'Page already has an H1 heading',
+          severity: 'error',
+          elementId: 3,
+          ruleId: 'single-h1',
+        },
+        {
+          path: 'html',
+          message: 'Heading level skips from H2 to H4',
+          severity: 'warning',
+          elementId: 2,
+          ruleId: 'heading-order',
+        },
+      ]);
+    });
+
+    it('should warn about images without alt text', () => {
+      const report = run([title(1, 1), { id: 2, type: 'image', props: { src: 'a.png', alt: '' } }]);
+
+      expect(report.issues).toEqual([
+        {
+          path: 'alt',
+          message: 'Image has no alt text',
+          severity: 'warning',
+          elementId: 2,
+          ruleId: 'image-alt',
+        },
+      ]);
+      expect(report.ready).toBe(true);
+    });
+
+    it('should report anchor links to missing IDs', () => {
+      const link = (id: number, href: string): SerializedElement => ({
+        id,
+        type: 'link',
+        props: { href, label: 'Jump' },
+      });
+      const report = run([
+        title(1, 1),
+        {
+          id: 2,
+          type: 'section',
+          props: { ariaLabel: '', anchorId: 'pricing' },
+          children: [[link(3, '#pricing'), link(4, '#faq'), link(5, '#top')]],
+        },
+        { id: 6, type: 'html', props: { html: '<div><span id="faq"></span></div>' } },
+        link(7, '#contact'),
+        { id: 8, type: 'button', props: { href: '#', label: 'Top' } },
+      ]);
+
+      expect(report.issues).toEqual([
+        {
+          path: 'href',
+          message: 'No element has the anchor ID "contact"',
+          severity: 'warning',
+          elementId: 7,
+          ruleId: 'anchor-target',
+        },
+      ]);
+    });
+
+    it('should require a title and a description in the head', () => {
+      const report = run([title(1, 1)], HTMLTemplateHelper.getDefaultTemplate());
+      expect(report.issues.map(issue => issue.ruleId)).toEqual(['head-description']);
+
+      const empty = run([title(1, 1)], { head: { title: ' ' } });
+      expect(empty.issues.map(issue => [issue.ruleId, issue.severity])).toEqual([
+        ['head-title', 'error'],
+        ['head-description', 'warning'],
+      ]);
+      expect(empty.ready).toBe(false);
+    });
+  });
+
+  describe('registerRule', () => {
+    const rule: DocumentRule = {
+      id: 'no-text',
+      description: 'No text elements',
+      check: ({ elements }) =>
+        elements
+          .filter(element => element.type === 'text')
+          .map(element => ({
+            path: '',
+            message: 'Text is not allowed',
+            severity: 'info',
+            elementId: element.id,
+          })),
+    };
+
+    it('should add and replace rules by ID', () => {
+      const rules = DocumentRulesHelper.registerRule(DocumentRulesHelper.getBuiltInRules(), rule);
+      expect(rules.map(r => r.id)).toContain('no-text');
+
+      const replaced = DocumentRulesHelper.registerRule(rules, { ...rule, check: () => [] });
+      expect(replaced).toHaveLength(rules.length);
+      expect(replaced[replaced.length - 1]?.check({ elements: [], template })).toEqual([]);
+    });
+
+    it('should run custom rules', () => {
+      const report = DocumentRulesHelper.runRules(
+        [rule],
+        [{ id: 1, type: 'text', props: { content: 'x' } }],
+        template
+      );
+
+      expect(report.issues[0]).toMatchObject({ ruleId: 'no-text', elementId: 1 });
+      expect(report.ready).toBe(true);
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() =>
+        DocumentRulesHelper.registerRule([], { id: '', description: '', check: () => [] })
+      ).toThrow('Document rule requires an id and a check function');
+    });
+  });
+
+  describe('renderReport', () => {
+    it('should render status and clickable element issues', () => {
+      const html = DocumentRulesHelper.renderReport(run([title(1, 2)], { head: { title: 'x' } }));
+
+      expect(html).toContain('1 error(s), 1 warning(s)');
+      expect(html).toContain('data-rule-id="single-h1">Page has no H1 heading</li>');
+      expect(html).not.toContain('data-element-id');
+
+      const withElement = DocumentRulesHelper.renderReport(run([title(1, 1), title(2, 3)]));
+      expect(withElement).toContain('Ready to publish (1 warning(s))');
+      expect(withElement).toContain('data-element-id="2"');
+    });
+  });
+});
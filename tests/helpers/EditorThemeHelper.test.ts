@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { EditorThemeHelper } from '@helpers/EditorThemeHelper';
+
+describe('EditorThemeHelper', () => {
+  describe('getVariableName', () => {
+    it('should convert token names to the custom properties of the editor styles', () => {
+      expect(EditorThemeHelper.getVariableName('editorBg')).toBe('--editor-bg');
+      expect(EditorThemeHelper.getVariableName('buttonHoverBg')).toBe('--button-hover-bg');
+      expect(EditorThemeHelper.getVariableName('editorFontSizeSm')).toBe('--editor-font-size-sm');
+    });
+  });
+
+  describe('getBuiltInThemes', () => {
+    it('should define the same tokens in every built-in theme', () => {
+      const themes = Object.values(EditorThemeHelper.getBuiltInThemes());
+      const names = themes.map(theme => Object.keys(EditorThemeHelper.getVariables(theme)));
+
+      expect(themes.map(theme => theme.name)).toEqual(['light', 'dark', 'high-contrast']);
+      expect(names[1]).toEqual(names[0]);
+      expect(names[2]).toEqual(names[0]);
+    });
+  });
+
+  describe('createTheme', () => {
+    it('should extend a built-in theme', () => {
+      const theme = EditorThemeHelper.createTheme({
+        name: 'brand',
+        extends: 'dark',
+        colors: { primaryColor: '#e91e63' },
+      });
+
+      expect(theme.colorScheme).toBe('dark');
+      expect(theme.colors.primaryColor).toBe('#e91e63');
+      expect(theme.colors.editorBg).toBe(EditorThemeHelper.getBuiltInThemes().dark.colors.editorBg);
+    });
+
+    it('should reject invalid names and values', () => {
+      expect(() => EditorThemeHelper.createTheme({ name: 'dark' })).toThrow(
+        'Invalid editor theme name: dark'
+      );
+      expect(() =>
+        EditorThemeHelper.createTheme({ name: 'x', colors: { textColor: 'red; }' } })
+      ).toThrow('Invalid value of --text-color in editor theme "x"');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should keep built-in names and complete custom themes', () => {
+      expect(EditorThemeHelper.resolve('auto')).toBe('auto');
+      expect(EditorThemeHelper.resolve({ name: 'brand' })).toMatchObject({ name: 'brand' });
+      expect(() => EditorThemeHelper.resolve('sepia' as 'light')).toThrow(
+        'Unknown editor theme: sepia'
+      );
+    });
+  });
+
+  describe('toStylesheet', () => {
+    it('should scope the variables to the data-editor-theme attribute', () => {
+      const css = EditorThemeHelper.toStylesheet('dark');
+
+      expect(css).toMatch(/^\[data-editor-theme="dark"\] \{\n {2}color-scheme: dark;/);
+      expect(css).toContain('  --editor-bg: #1e1f22;');
+      expect(css).toContain('  --editor-radius: 8px;');
+    });
+
+    it('should switch auto to the dark theme with prefers-color-scheme', () => {
+      const css = EditorThemeHelper.toStylesheet('auto');
+
+      expect(css).toContain('[data-editor-theme="auto"] {\n  color-scheme: light;');
+      expect(css).toContain(
+        '@media (prefers-color-scheme: dark) {\n  [data-editor-theme="auto"] {\n    color-scheme: dark;'
+      );
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { ElementStyleHelper } from '@helpers/ElementStyleHelper';
+import { BreakpointHelper } from '@helpers/BreakpointHelper';
+
+describe('ElementStyleHelper', () => {
+  describe('getField', () => {
+    it('should return the Style section as an object field', () => {
+      const field = ElementStyleHelper.getField();
+
+      expect(field.kind).toBe('object');
+      expect(field.label).toBe('Style');
+      expect(Object.keys(field.kind === 'object' ? (field.fields ?? {}) : {})).toEqual([
+        'fontSize',
+        'fontWeight',
+        'fontFamily',
+        'textAlign',
+        'color',
+        'backgroundColor',
+        'margin',
+        'padding',
+        'border',
+        'borderRadius',
+        'hidden',
+      ]);
+    });
+  });
+
+  describe('getPropField', () => {
+    it('should describe the overrides of every breakpoint other than the base', () => {
+      const field = ElementStyleHelper.getPropField(BreakpointHelper.getDefaultBreakpoints());
+      const overrides = field.kind === 'object' ? field.fields?.breakpoints : undefined;
+      const tablet = overrides?.kind === 'object' ? overrides.fields?.tablet : undefined;
+
+      expect(Object.keys(overrides?.kind === 'object' ? (overrides.fields ?? {}) : {})).toEqual([
+        'tablet',
+        'mobile',
+      ]);
+      expect(tablet?.label).toBe('Style (Tablet)');
+      expect(tablet?.kind === 'object' ? tablet.fields?.hidden?.label : '').toBe('Hide on Tablet');
+    });
+  });
+
+  describe('fromProps', () => {
+    it('should read the style prop or fall back to an empty style', () => {
+      expect(ElementStyleHelper.fromProps({ text: 'A', style: { color: 'red' } })).toEqual({
+        color: 'red',
+      });
+      expect(ElementStyleHelper.fromProps({ text: 'A' })).toEqual({});
+      expect(ElementStyleHelper.fromProps({ style: null })).toEqual({});
+    });
+  });
+
+  describe('toCSS', () => {
+    it('should convert style to declarations with pixel units for numbers', () => {
+      expect(
+        ElementStyleHelper.toCSS({
+          fontSize: 18,
+          fontWeight: '700',
+          textAlign: 'center',
+          backgroundColor: '#eeeeee',
+          borderRadius: 4,
+        })
+      ).toBe(
+        'font-size: 18px; font-weight: 700; text-align: center; background-color: #eeeeee; border-radius: 4px'
+      );
+    });
+
+    it('should skip empty and unsafe values', () => {
+      expect(
+        ElementStyleHelper.toCSS({
+          fontSize: undefined,
+          fontWeight: '',
+          color: 'red; display: none',
+          margin: '</style>',
+          padding: ' 8px ',
+        })
+      ).toBe('padding: 8px');
+      expect(ElementStyleHelper.toCSS({})).toBe('');
+    });
+  });
+
+  describe('validate', () => {
+    it('should report unsafe and negative values', () => {
+      expect(ElementStyleHelper.validate({ color: 'red}', fontSize: -1, padding: '8px' })).toEqual([
+        { path: 'style.fontSize', message: 'Value cannot be negative', severity: 'error' },
+        { path: 'style.color', message: 'Value contains invalid characters', severity: 'error' },
+      ]);
+    });
+  });
+
+  describe('breakpoint rules', () => {
+    const breakpoints = BreakpointHelper.getDefaultBreakpoints();
+
+    it('should detect styles that need media queries', () => {
+      expect(ElementStyleHelper.hasBreakpointRules({ color: 'red' })).toBe(false);
+      expect(ElementStyleHelper.hasBreakpointRules({ breakpoints: { mobile: {} } })).toBe(false);
+      expect(
+        ElementStyleHelper.hasBreakpointRules({ breakpoints: { mobile: { fontSize: 14 } } })
+      ).toBe(true);
+      expect(ElementStyleHelper.hasBreakpointRules({ hidden: true })).toBe(true);
+    });
+
+    it('should build override and hiding rules', () => {
+      expect(
+        ElementStyleHelper.toMediaRules(
+          3,
+          {
+            fontSize: 32,
+            hidden: true,
+            breakpoints: {
+              tablet: { fontSize: 24 },
+              mobile: { fontSize: 18, hidden: true },
+            },
+          },
+          breakpoints
+        )
+      ).toEqual([
+        ['(min-width: 1025px)', '.vhb-el-3 { display: none !important; }'],
+        ['(max-width: 1024px)', '.vhb-el-3 { font-size: 24px; }'],
+        ['(max-width: 767px)', '.vhb-el-3 { font-size: 18px; }'],
+        ['(max-width: 767px)', '.vhb-el-3 { display: none !important; }'],
+      ]);
+    });
+
+    it('should validate breakpoint overrides', () => {
+      expect(ElementStyleHelper.validate({ breakpoints: { mobile: { padding: '{' } } })).toEqual([
+        {
+          path: 'style.breakpoints.mobile.padding',
+          message: 'Value contains invalid characters',
+          severity: 'error',
+        },
+      ]);
+    });
+  });
+
+  describe('toRule', () => {
+    it('should build a rule keyed by the element class', () => {
+      expect(ElementStyleHelper.getClassName(7)).toBe('vhb-el-7');
+      expect(ElementStyleHelper.toRule(7, { color: 'red', padding: '8px' })).toBe(
+        '.vhb-el-7 { color: red; padding: 8px; }'
+      );
+      expect(ElementStyleHelper.toRule(7, {})).toBe('');
+    });
+  });
+
+  describe('apply', () => {
+    it('should merge declarations into the root style attribute', () => {
+      expect(ElementStyleHelper.apply('<div style="gap: 8px;"><p>A</p></div>', 'color: red')).toBe(
+        '<div style="gap: 8px; color: red"><p>A</p></div>'
+      );
+    });
+
+    it('should add a class to the root element', () => {
+      expect(ElementStyleHelper.apply('<p class="lead">A</p>', '', 'vhb-el-1')).toBe(
+        '<p class="lead vhb-el-1">A</p>'
+      );
+    });
+
+    it('should wrap markup without a single root element', () => {
+      expect(ElementStyleHelper.apply('<p>A</p><p>B</p>', 'color: red')).toBe(
+        '<div style="color: red"><p>A</p><p>B</p></div>'
+      );
+      expect(ElementStyleHelper.apply('Plain text', 'color: red')).toBe(
+        '<div style="color: red">Plain text</div>'
+      );
+    });
+
+    it('should return markup unchanged when there is nothing to apply', () => {
+      expect(ElementStyleHelper.apply('<p>A</p>', '')).toBe('<p>A</p>');
+    });
+  });
+});
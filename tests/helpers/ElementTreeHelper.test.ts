@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ElementTreeHelper } from '@helpers/ElementTreeHelper';
+
+interface Node {
+  id: number;
+  children?: Node[][];
+}
+
+describe('ElementTreeHelper', () => {
+  let tree: Node[];
+
+  beforeEach(() => {
+    tree = [
+      { id: 1 },
+      {
+        id: 2,
+        children: [[{ id: 3 }, { id: 4, children: [[{ id: 5 }]] }], [{ id: 6 }]],
+      },
+    ];
+  });
+
+  describe('findElement', () => {
+    it('should find root and nested elements', () => {
+      expect(ElementTreeHelper.findElement(tree, 1)?.id).toBe(1);
+      expect(ElementTreeHelper.findElement(tree, 5)?.id).toBe(5);
+      expect(ElementTreeHelper.findElement(tree, 6)?.id).toBe(6);
+    });
+
+    it('should return null for unknown IDs', () => {
+      expect(ElementTreeHelper.findElement(tree, 99)).toBeNull();
+    });
+  });
+
+  describe('findLocation', () => {
+    it('should return parent, slot and index', () => {
+      expect(ElementTreeHelper.findLocation(tree, 2)).toEqual({
+        parentId: null,
+        slot: 0,
+        index: 1,
+      });
+      expect(ElementTreeHelper.findLocation(tree, 4)).toEqual({ parentId: 2, slot: 0, index: 1 });
+      expect(ElementTreeHelper.findLocation(tree, 6)).toEqual({ parentId: 2, slot: 1, index: 0 });
+    });
+
+    it('should return null for unknown IDs', () => {
+      expect(ElementTreeHelper.findLocation(tree, 99)).toBeNull();
+    });
+  });
+
+  describe('getSiblings', () => {
+    it('should return root list for null parent', () => {
+      expect(ElementTreeHelper.getSiblings(tree, null, 0)).toBe(tree);
+    });
+
+    it('should create missing slot lists', () => {
+      const siblings = ElementTreeHelper.getSiblings(tree, 1, 1);
+
+      expect(siblings).toEqual([]);
+      expect(tree[0]?.children).toEqual([[], []]);
+    });
+
+    it('should return null for unknown parent', () => {
+      expect(ElementTreeHelper.getSiblings(tree, 99, 0)).toBeNull();
+    });
+
+    it('should return null for slots past the slot count of the parent', () => {
+      const slotCount = (node: Node) => (node.id === 2 ? 2 : 0);
+
+      expect(ElementTreeHelper.getSiblings(tree, 2, 1, slotCount)).toEqual([{ id: 6 }]);
+      expect(ElementTreeHelper.getSiblings(tree, 2, 2, slotCount)).toBeNull();
+      expect(ElementTreeHelper.getSiblings(tree, 1, 0, slotCount)).toBeNull();
+      expect(tree[0]?.children).toBeUndefined();
+    });
+  });
+
+  describe('insertElement / removeElement', () => {
+    it('should insert into nested slot at index', () => {
+      expect(
+        ElementTreeHelper.insertElement(tree, { id: 7 }, { parentId: 2, slot: 1, index: 0 })
+      ).toBe(true);
+
+      expect(ElementTreeHelper.findLocation(tree, 7)).toEqual({ parentId: 2, slot: 1, index: 0 });
+    });
+
+    it('should clamp index to sibling list length', () => {
+      ElementTreeHelper.insertElement(tree, { id: 7 }, { parentId: null, slot: 0, index: 50 });
+
+      expect(tree.map(node => node.id)).toEqual([1, 2, 7]);
+    });
+
+    it('should remove element with its descendants', () => {
+      const removed = ElementTreeHelper.removeElement(tree, 4);
+
+      expect(removed?.id).toBe(4);
+      expect(ElementTreeHelper.findElement(tree, 5)).toBeNull();
+    });
+
+    it('should return null when removing unknown element', () => {
+      expect(ElementTreeHelper.removeElement(tree, 99)).toBeNull();
+    });
+  });
+
+  describe('moveElement', () => {
+    it('should move element between containers', () => {
+      expect(ElementTreeHelper.moveElement(tree, 1, { parentId: 4, slot: 0, index: 0 })).toBe(true);
+
+      expect(tree.map(node => node.id)).toEqual([2]);
+      expect(ElementTreeHelper.findLocation(tree, 1)).toEqual({ parentId: 4, slot: 0, index: 0 });
+    });
+
+    it('should refuse to move element into its own descendant', () => {
+      expect(ElementTreeHelper.moveElement(tree, 2, { parentId: 4, slot: 0, index: 0 })).toBe(
+        false
+      );
+      expect(ElementTreeHelper.moveElement(tree, 2, { parentId: 2, slot: 0, index: 0 })).toBe(
+        false
+      );
+
+      expect(ElementTreeHelper.findLocation(tree, 2)).toEqual({
+        parentId: null,
+        slot: 0,
+        index: 1,
+      });
+    });
+
+    it('should refuse to move into elements without the target slot', () => {
+      const slotCount = (node: Node) => (node.id === 2 ? 2 : 0);
+
+      expect(
+        ElementTreeHelper.moveElement(tree, 6, { parentId: 1, slot: 0, index: 0 }, slotCount)
+      ).toBe(false);
+      expect(
+        ElementTreeHelper.moveElement(tree, 1, { parentId: 2, slot: 2, index: 0 }, slotCount)
+      ).toBe(false);
+      expect(ElementTreeHelper.findLocation(tree, 6)).toEqual({ parentId: 2, slot: 1, index: 0 });
+      expect(tree).toHaveLength(2);
+    });
+
+    it('should refuse to move into unknown parent', () => {
+      expect(ElementTreeHelper.moveElement(tree, 1, { parentId: 99, slot: 0, index: 0 })).toBe(
+        false
+      );
+      expect(tree).toHaveLength(2);
+    });
+  });
+
+  describe('flatten', () => {
+    it('should list elements depth-first', () => {
+      expect(ElementTreeHelper.flatten(tree).map(node => node.id)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+  });
+
+  describe('contains', () => {
+    it('should detect element itself and descendants', () => {
+      const container = tree[1]!;
+
+      expect(ElementTreeHelper.contains(container, 2)).toBe(true);
+      expect(ElementTreeHelper.contains(container, 5)).toBe(true);
+      expect(ElementTreeHelper.contains(container, 1)).toBe(false);
+    });
+  });
+});
@@ -31,24 +31,29 @@ describe('ElementTypesHelper', () => {
     });
 
     it('should generate editor HTML', () => {
-      const editor = titleElement.renderEditor({ text: 'Test', level: 2 });
-      expect(editor).toContain('input type="text"');
-      expect(editor).toContain('value="Test"');
+      const editor = titleElement.renderEditor!({ text: 'Test', level: 2 });
+      expect(editor).toContain('contenteditable="true"');
+      expect(editor).toContain('data-single-line');
+      expect(editor).toContain('>Test</div>');
       expect(editor).toContain('select');
       expect(editor).toContain('option value="2" selected');
     });
 
     it('should treat empty title as validation error', () => {
       const error = titleElement.validate({ text: '', level: 1 });
-      expect(error).toBe('Title cannot be empty');
+      expect(error).toEqual([
+        { path: 'text', message: 'Title cannot be empty', severity: 'error' },
+      ]);
 
       const error2 = titleElement.validate({ text: '   ', level: 1 });
-      expect(error2).toBe('Title cannot be empty');
+      expect(error2).toEqual([
+        { path: 'text', message: 'Title cannot be empty', severity: 'error' },
+      ]);
     });
 
     it('should pass validation for valid title', () => {
       const error = titleElement.validate({ text: 'Valid Title', level: 1 });
-      expect(error).toBeNull();
+      expect(error).toEqual([]);
     });
   });
 
@@ -81,22 +86,27 @@ describe('ElementTypesHelper', () => {
     });
 
     it('should generate editor HTML', () => {
-      const editor = textElement.renderEditor({ content: 'Test content' });
-      expect(editor).toContain('textarea');
+      const editor = textElement.renderEditor!({ content: 'Test content' });
+      expect(editor).toContain('rich-text-toolbar');
+      expect(editor).toContain('aria-multiline="true"');
       expect(editor).toContain('Test content');
     });
 
     it('should treat empty content as validation error', () => {
       const error = textElement.validate({ content: '' });
-      expect(error).toBe('Text content cannot be empty');
+      expect(error).toEqual([
+        { path: 'content', message: 'Text content cannot be empty', severity: 'error' },
+      ]);
 
       const error2 = textElement.validate({ content: '   ' });
-      expect(error2).toBe('Text content cannot be empty');
+      expect(error2).toEqual([
+        { path: 'content', message: 'Text content cannot be empty', severity: 'error' },
+      ]);
     });
 
     it('should pass validation for valid content', () => {
       const error = textElement.validate({ content: 'Valid content' });
-      expect(error).toBeNull();
+      expect(error).toEqual([]);
     });
   });
 
@@ -135,12 +145,12 @@ describe('ElementTypesHelper', () => {
     it('should perform HTML escaping', () => {
       const props = { src: 'test"evil.jpg', alt: 'Test"evil', width: '', height: '' };
       const html = imageElement.render(props);
-      expect(html).toBe('<img src="test"evil.jpg" alt="Test"evil">'); // Double quotes are not escaped
+      expect(html).toBe('<img src="test&quot;evil.jpg" alt="Test&quot;evil">');
     });
 
     it('should generate editor HTML', () => {
       const props = { src: 'test.jpg', alt: 'Test', width: '300', height: '200' };
-      const editor = imageElement.renderEditor(props);
+      const editor = imageElement.renderEditor!(props);
       expect(editor).toContain('type="url"');
       expect(editor).toContain('value="test.jpg"');
       expect(editor).toContain('value="Test"');
@@ -150,20 +160,31 @@ describe('ElementTypesHelper', () => {
 
     it('should treat empty src as validation error', () => {
       const error = imageElement.validate({ src: '', alt: 'Test' });
-      expect(error).toBe('Image URL is required');
+      expect(error).toEqual([{ path: 'src', message: 'Image URL is required', severity: 'error' }]);
 
       const error2 = imageElement.validate({ src: '   ', alt: 'Test' });
-      expect(error2).toBe('Image URL is required');
+      expect(error2).toEqual([
+        { path: 'src', message: 'Image URL is required', severity: 'error' },
+      ]);
     });
 
     it('should treat invalid URL as validation error', () => {
       const error = imageElement.validate({ src: 'not-a-url', alt: 'Test' });
-      expect(error).toBe('Please enter a valid URL');
+      expect(error).toEqual([
+        { path: 'src', message: 'Please enter a valid URL', severity: 'error' },
+      ]);
+    });
+
+    it('should warn about missing alt text', () => {
+      const issues = imageElement.validate({ src: 'https://example.com/image.jpg', alt: ' ' });
+      expect(issues).toEqual([
+        { path: 'alt', message: 'Alt text is recommended for accessibility', severity: 'warning' },
+      ]);
     });
 
     it('should pass validation for valid URL', () => {
       const error = imageElement.validate({ src: 'https://example.com/image.jpg', alt: 'Test' });
-      expect(error).toBeNull();
+      expect(error).toEqual([]);
     });
   });
 
@@ -203,7 +224,7 @@ describe('ElementTypesHelper', () => {
 
     it('should generate editor HTML', () => {
       const props = { items: ['Item 1', 'Item 2'], ordered: false };
-      const editor = listElement.renderEditor(props);
+      const editor = listElement.renderEditor!(props);
       expect(editor).toContain('type="checkbox"');
       expect(editor).toContain('Item 1');
       expect(editor).toContain('Item 2');
@@ -212,33 +233,653 @@ describe('ElementTypesHelper', () => {
 
     it('should have checked checkbox in ordered list editor', () => {
       const props = { items: ['Item 1'], ordered: true };
-      const editor = listElement.renderEditor(props);
+      const editor = listElement.renderEditor!(props);
       expect(editor).toContain('checked');
     });
 
     it('should treat empty array as validation error', () => {
       const error = listElement.validate({ items: [], ordered: false });
-      expect(error).toBe('List must have at least one item');
+      expect(error).toEqual([
+        { path: 'items', message: 'List must have at least one item', severity: 'error' },
+      ]);
     });
 
     it('should treat empty items as validation error', () => {
       const error = listElement.validate({ items: ['Item 1', '', 'Item 3'], ordered: false });
-      expect(error).toBe('List items cannot be empty');
+      expect(error).toEqual([
+        { path: 'items.1', message: 'Item 2 cannot be empty', severity: 'error' },
+      ]);
 
       const error2 = listElement.validate({ items: ['Item 1', '   ', 'Item 3'], ordered: false });
-      expect(error2).toBe('List items cannot be empty');
+      expect(error2).toEqual([
+        { path: 'items.1', message: 'Item 2 cannot be empty', severity: 'error' },
+      ]);
+    });
+
+    it('should report every empty item', () => {
+      const issues = listElement.validate({ items: ['', 'Item 2', ''], ordered: false });
+      expect(issues).toEqual([
+        { path: 'items.0', message: 'Item 1 cannot be empty', severity: 'error' },
+        { path: 'items.2', message: 'Item 3 cannot be empty', severity: 'error' },
+      ]);
     });
 
     it('should pass validation for valid list', () => {
       const error = listElement.validate({ items: ['Item 1', 'Item 2'], ordered: false });
-      expect(error).toBeNull();
+      expect(error).toEqual([]);
+    });
+  });
+
+  describe('link and button element types', () => {
+    const link = ElementTypesHelper.createLinkElement();
+    const button = ElementTypesHelper.createButtonElement();
+    const props = { ...link.defaultProps, href: '/docs', label: 'Docs' };
+
+    it('should render links with escaped attributes', () => {
+      expect(link.render(props)).toBe('<a href="/docs">Docs</a>');
+      expect(
+        link.render({ ...props, href: '/a?b="c"', label: '<Docs>', title: 'Read', download: true })
+      ).toBe('<a href="/a?b=&quot;c&quot;" title="Read" download>&lt;Docs&gt;</a>');
+      expect(link.render({ ...props, variant: 'plain' })).toBe(
+        '<a href="/docs" style="color: inherit; text-decoration: none">Docs</a>'
+      );
+    });
+
+    it('should add noopener noreferrer to links opening a new tab', () => {
+      expect(link.render({ ...props, target: '_blank', rel: 'nofollow noopener' })).toBe(
+        '<a href="/docs" target="_blank" rel="nofollow noopener noreferrer">Docs</a>'
+      );
+    });
+
+    it('should render blocked URLs without href', () => {
+      expect(link.render({ ...props, href: 'javascript:alert(1)' })).toBe('<a>Docs</a>');
+    });
+
+    it('should render buttons as styled anchors', () => {
+      const html = button.render({ ...button.defaultProps, href: '#signup' });
+      expect(html).toMatch(
+        /^<a href="#signup" style="display: inline-block;[^"]+">Get started<\/a>$/
+      );
+      expect(html).toContain('var(--color-primary, #007bff)');
+    });
+
+    it('should accept absolute, relative, mailto, tel and anchor URLs', () => {
+      [
+        'https://example.com/a?b=1',
+        '/pricing',
+        '../docs/page.html',
+        '?page=2',
+        'mailto:team@example.com',
+        'tel:+15551234',
+        '#pricing',
+        '#',
+      ].forEach(href => expect(link.validate({ ...props, href })).toEqual([]));
+    });
+
+    it('should reject javascript: and data: URLs', () => {
+      ['javascript:alert(1)', ' JavaScript:alert(1)', 'java\tscript:x', 'data:text/html,x'].forEach(
+        href =>
+          expect(button.validate({ ...button.defaultProps, href })).toEqual([
+            {
+              path: 'href',
+              message: 'javascript: and data: URLs are not allowed',
+              severity: 'error',
+            },
+          ])
+      );
+    });
+
+    it('should report empty text, missing and invalid URLs', () => {
+      expect(link.validate({ ...props, label: ' ', href: '' })).toEqual([
+        { path: 'label', message: 'Link text cannot be empty', severity: 'error' },
+        { path: 'href', message: 'Link URL is required', severity: 'error' },
+      ]);
+      expect(link.validate({ ...props, href: 'https://' })).toEqual([
+        { path: 'href', message: 'Please enter a valid URL', severity: 'error' },
+      ]);
+      expect(link.validate({ ...props, href: '/my page' })).toEqual([
+        { path: 'href', message: 'Please enter a valid URL', severity: 'error' },
+      ]);
+      expect(link.validate({ ...props, href: '#my anchor' })).toEqual([
+        { path: 'href', message: 'Anchor cannot contain spaces', severity: 'error' },
+      ]);
+    });
+
+    it('should export Markdown links', () => {
+      expect(link.toMarkdown!({ ...props, label: 'A [b]', title: 'T' })).toBe(
+        '[A \\[b\\]](/docs "T")'
+      );
+      expect(button.toMarkdown!({ ...button.defaultProps, href: '/a b' })).toBe(
+        '[Get started](</a b>)'
+      );
+    });
+  });
+
+  describe('createTableElement', () => {
+    const table = ElementTypesHelper.createTableElement();
+    const props = {
+      caption: 'Plans',
+      headerRow: true,
+      headerColumn: true,
+      grid: {
+        align: ['left', 'right'] as ('left' | 'right')[],
+        cells: [
+          ['Plan', 'Price'],
+          ['Pro <b>', '$10'],
+        ],
+      },
+    };
+
+    it('should render thead, tbody and scoped header cells', () => {
+      expect(table.render(props)).toBe(
+        '<table><caption>Plans</caption>' +
+          '<thead><tr><th scope="col" style="text-align: left">Plan</th><th scope="col" style="text-align: right">Price</th></tr></thead>' +
+          '<tbody><tr><th scope="row" style="text-align: left">Pro &lt;b&gt;</th><td style="text-align: right">$10</td></tr></tbody></table>'
+      );
+    });
+
+    it('should render tables without headers', () => {
+      expect(
+        table.render({
+          caption: '',
+          headerRow: false,
+          headerColumn: false,
+          grid: { align: ['left'], cells: [['a\nb']] },
+        })
+      ).toBe('<table><tbody><tr><td>a<br>b</td></tr></tbody></table>');
+    });
+
+    it('should flag ragged rows and empty headers', () => {
+      expect(table.validate(props)).toEqual([]);
+      expect(
+        table.validate({
+          ...props,
+          grid: { align: ['left', 'left'], cells: [['', ' '], [''], ['x', 'y']] },
+        })
+      ).toEqual([
+        { path: 'grid.cells.1', message: 'Row 2 has 1 of 2 cells', severity: 'error' },
+        { path: 'grid.cells.0.1', message: 'Header of column 2 is empty', severity: 'error' },
+        { path: 'grid.cells.1.0', message: 'Header of row 2 is empty', severity: 'error' },
+      ]);
+      expect(table.validate({ ...props, grid: { align: [], cells: [] } })).toEqual([
+        { path: 'grid', message: 'Table must have at least one row', severity: 'error' },
+      ]);
+    });
+
+    it('should render email tables with inline cell styles', () => {
+      const html = table.renderEmail!(props);
+      expect(html).toContain('style="border-collapse: collapse; margin: 0 0 16px;"');
+      expect(html).toMatch(
+        /<td style="padding: 8px; border: 1px solid #dddddd;[^"]*text-align: right">\$10<\/td>/
+      );
+    });
+
+    it('should make captions and cells inline-editable', () => {
+      expect(table.inlineEditable!(props)).toEqual([
+        { path: 'caption', selector: 'caption' },
+        { path: 'grid.cells.0.0', selector: 'thead tr > :nth-child(1)', multiline: true },
+        { path: 'grid.cells.0.1', selector: 'thead tr > :nth-child(2)', multiline: true },
+        {
+          path: 'grid.cells.1.0',
+          selector: 'tbody tr:nth-child(1) > :nth-child(1)',
+          multiline: true,
+        },
+        {
+          path: 'grid.cells.1.1',
+          selector: 'tbody tr:nth-child(1) > :nth-child(2)',
+          multiline: true,
+        },
+      ]);
+    });
+  });
+
+  describe('media element types', () => {
+    const video = ElementTypesHelper.createVideoElement();
+    const audio = ElementTypesHelper.createAudioElement();
+    const embed = ElementTypesHelper.createEmbedElement();
+    const videoProps = {
+      sources: [
+        { src: '/clips/intro.webm', type: '' },
+        { src: '/clips/intro.mp4', type: 'video/mp4' },
+      ],
+      poster: '/clips/intro.jpg',
+      controls: true,
+      autoplay: true,
+      muted: true,
+      loop: false,
+      captions: { src: '/clips/intro.vtt', srclang: 'en', label: '' },
+    };
+    const embedProps = {
+      url: 'https://youtu.be/M7lc1UVf-VE',
+      title: 'Product tour',
+      aspectRatio: '16:9' as const,
+    };
+
+    it('should render video sources, captions and a download link', () => {
+      expect(video.render(videoProps)).toBe(
+        '<video controls autoplay muted playsinline poster="/clips/intro.jpg" preload="metadata">' +
+          '<source src="/clips/intro.webm" type="video/webm">' +
+          '<source src="/clips/intro.mp4" type="video/mp4">' +
+          '<track kind="captions" src="/clips/intro.vtt" srclang="en" label="en" default>' +
+          '<a href="/clips/intro.webm">Download the video</a></video>'
+      );
+    });
+
+    it('should leave autoplay out of the preview', () => {
+      expect(video.renderPreview!(videoProps)).toMatch(/^<video controls muted poster=/);
+    });
+
+    it('should render audio without video-only attributes', () => {
+      expect(
+        audio.render({
+          sources: [
+            { src: 'javascript:alert(1)', type: '' },
+            { src: 'song.mp3', type: '' },
+          ],
+          controls: true,
+          autoplay: false,
+          muted: false,
+          loop: true,
+        })
+      ).toBe(
+        '<audio controls loop preload="metadata"><source src="song.mp3" type="audio/mpeg">' +
+          '<a href="song.mp3">Download the audio</a></audio>'
+      );
+    });
+
+    it('should validate sources, MIME types, captions and autoplay', () => {
+      expect(video.validate(videoProps)).toEqual([]);
+      expect(
+        video.validate({
+          ...videoProps,
+          sources: [
+            { src: '', type: '' },
+            { src: 'data:video/mp4;base64,AAAA', type: 'audio/mpeg' },
+          ],
+          muted: false,
+          captions: { src: '/clips/intro.vtt', srclang: ' ', label: '' },
+        })
+      ).toEqual([
+        { path: 'sources.0.src', message: 'File URL is required', severity: 'error' },
+        {
+          path: 'sources.1.src',
+          message: 'javascript: and data: URLs are not allowed',
+          severity: 'error',
+        },
+        {
+          path: 'sources.1.type',
+          message: 'MIME type should start with "video/"',
+          severity: 'warning',
+        },
+        {
+          path: 'muted',
+          message: 'Autoplay only works reliably when muted',
+          severity: 'warning',
+        },
+        { path: 'captions.srclang', message: 'Captions need a language', severity: 'error' },
+      ]);
+      expect(audio.validate({ ...audio.defaultProps, sources: [] })).toEqual([
+        { path: 'sources', message: 'Add at least one source file', severity: 'error' },
+      ]);
+    });
+
+    it('should render embeds as a lazy privacy-enhanced iframe with a click-to-play facade', () => {
+      const html = embed.render(embedProps);
+      const iframe = new DOMParser()
+        .parseFromString(html, 'text/html')
+        .querySelector('iframe') as HTMLIFrameElement;
+
+      expect(iframe.getAttribute('src')).toBe('https://www.youtube-nocookie.com/embed/M7lc1UVf-VE');
+      expect(iframe.getAttribute('loading')).toBe('lazy');
+      expect(iframe.getAttribute('title')).toBe('Product tour');
+      expect(iframe.hasAttribute('allowfullscreen')).toBe(true);
+      expect(iframe.getAttribute('style')).toContain('aspect-ratio: 16 / 9');
+      expect(iframe.getAttribute('srcdoc')).toContain(
+        'href="https://www.youtube-nocookie.com/embed/M7lc1UVf-VE?autoplay=1"'
+      );
+      expect(embed.render({ ...embedProps, url: 'https://example.com/video' })).toBe('');
+    });
+
+    it('should preview embeds without third-party requests', () => {
+      const html = embed.renderPreview!(embedProps);
+
+      expect(html).toContain('class="embed-placeholder"');
+      expect(html).toContain('<strong>Product tour</strong>');
+      expect(html).toContain('YouTube video');
+      expect(html).not.toMatch(/<(iframe|img)|youtube|ytimg/);
+      expect(embed.renderPreview!({ ...embedProps, url: '' })).toContain(
+        'Enter a YouTube or Vimeo URL'
+      );
+    });
+
+    it('should validate embed URLs and titles', () => {
+      expect(embed.validate(embedProps)).toEqual([]);
+      expect(embed.validate({ ...embedProps, url: 'https://example.com', title: '' })).toEqual([
+        { path: 'url', message: 'Enter a YouTube or Vimeo video URL', severity: 'error' },
+        { path: 'title', message: 'Title is required for screen readers', severity: 'error' },
+      ]);
+    });
+
+    it('should export embeds as watch links in Markdown and email', () => {
+      expect(embed.toMarkdown!(embedProps)).toBe(
+        '[Product tour](https://www.youtube.com/watch?v=M7lc1UVf-VE)'
+      );
+      expect(embed.renderEmail!(embedProps)).toContain(
+        '<a href="https://www.youtube.com/watch?v=M7lc1UVf-VE"><img src="https://i.ytimg.com/vi/M7lc1UVf-VE/hqdefault.jpg" alt="Play Product tour"'
+      );
+      expect(video.renderEmail!({ ...videoProps, poster: '' })).toContain(
+        '<a href="/clips/intro.webm">▶ Watch the video</a>'
+      );
+    });
+
+    it('should link email exports to the first non-empty source', () => {
+      const sources = [{ src: ' ', type: '' }, ...videoProps.sources];
+
+      expect(video.renderEmail!({ ...videoProps, poster: '', sources })).toContain(
+        '<a href="/clips/intro.webm">▶ Watch the video</a>'
+      );
+      expect(audio.renderEmail!({ ...audio.defaultProps, sources })).toContain(
+        '<a href="/clips/intro.webm">▶ Listen to the audio</a>'
+      );
+      expect(video.renderEmail!({ ...videoProps, sources: [{ src: '', type: '' }] })).toBe('');
+    });
+  });
+
+  describe('container element types', () => {
+    it('should render section with child content and optional label', () => {
+      const section = ElementTypesHelper.createSectionElement();
+
+      expect(section.slots).toEqual(['Content']);
+      expect(section.render({ ariaLabel: '', anchorId: '' }, ['<p>Child</p>'])).toBe(
+        '<section><p>Child</p></section>'
+      );
+      expect(section.render({ ariaLabel: 'Intro & more', anchorId: '' })).toBe(
+        '<section aria-label="Intro &amp; more"></section>'
+      );
+    });
+
+    it('should escape quotes in section labels and div classes', () => {
+      const section = ElementTypesHelper.createSectionElement();
+      const div = ElementTypesHelper.createDivElement();
+
+      expect(section.render({ ariaLabel: 'a" onclick="alert(1)', anchorId: '' })).toBe(
+        '<section aria-label="a&quot; onclick=&quot;alert(1)"></section>'
+      );
+      expect(div.render({ className: 'a" onclick="alert(1)' }, ['x'])).toBe(
+        '<div class="a&quot; onclick=&quot;alert(1)">x</div>'
+      );
+    });
+
+    it('should render section anchor ID and reject IDs with spaces', () => {
+      const section = ElementTypesHelper.createSectionElement();
+
+      expect(section.render({ ariaLabel: '', anchorId: ' pricing ' })).toBe(
+        '<section id="pricing"></section>'
+      );
+      expect(section.validate({ ariaLabel: '', anchorId: 'pricing' })).toEqual([]);
+      expect(section.validate({ ariaLabel: '', anchorId: 'our pricing' })).toEqual([
+        { path: 'anchorId', message: 'Anchor ID cannot contain spaces', severity: 'error' },
+      ]);
+    });
+
+    it('should render div with optional class', () => {
+      const div = ElementTypesHelper.createDivElement();
+
+      expect(div.render({ className: 'card' }, ['x'])).toBe('<div class="card">x</div>');
+      expect(div.validate({ className: 'card wide' })).toEqual([]);
+      expect(div.validate({ className: 'card" onclick="x' })).toEqual([
+        { path: 'className', message: 'CSS class contains invalid characters', severity: 'error' },
+      ]);
+    });
+
+    it('should render column rows with one slot per column', () => {
+      const threeColumns = ElementTypesHelper.createColumnsElement(3);
+
+      expect(threeColumns.slots).toEqual(['Column 1', 'Column 2', 'Column 3']);
+      const html = threeColumns.render({ gap: 10 }, ['a', 'b']);
+      expect(html).toContain('gap: 10px;');
+      expect(html.match(/flex: 1;/g)).toHaveLength(3);
+      expect(threeColumns.validate({ gap: -1 })).toEqual([
+        { path: 'gap', message: 'Gap must be zero or a positive number', severity: 'error' },
+      ]);
+    });
+
+    it('should detect container types', () => {
+      expect(ElementTypesHelper.isContainer(ElementTypesHelper.createSectionElement())).toBe(true);
+      expect(ElementTypesHelper.isContainer(ElementTypesHelper.createTitleElement())).toBe(false);
+      expect(ElementTypesHelper.isContainer(undefined)).toBe(false);
+    });
+  });
+
+  describe('raw HTML element type', () => {
+    const raw = ElementTypesHelper.createRawHtmlElement();
+
+    it('should render markup as is', () => {
+      expect(raw.render({ html: '<hr class="fancy">' })).toBe('<hr class="fancy">');
+    });
+
+    it('should strip scripts from the preview only', () => {
+      const html =
+        '<img src="x" onerror="alert(1)"><script>alert(2)</script>' +
+        '<a href="javascript:alert(3)" class="x">a</a><iframe srcdoc="<script>alert(4)</script>"></iframe>';
+
+      expect(raw.renderPreview!({ html })).toBe('<img src="x"><a class="x">a</a><iframe></iframe>');
+      expect(raw.render({ html })).toBe(html);
+    });
+
+    it('should treat empty markup as validation error', () => {
+      expect(raw.validate({ html: ' ' })).toEqual([
+        { path: 'html', message: 'HTML cannot be empty', severity: 'error' },
+      ]);
+    });
+  });
+
+  describe('HTML parse hooks', () => {
+    const types = ElementTypesHelper.getAllElementTypes();
+
+    const node = (html: string) => {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      return doc.body.firstElementChild!;
+    };
+
+    it('should parse headings', () => {
+      expect(types.title.matches!(node('<h3>Hello</h3>'))).toBe(true);
+      expect(types.title.parse!(node('<h3> Hello\n  world </h3>'))).toEqual({
+        props: { text: 'Hello world', level: 3 },
+      });
+      expect(types.title.matches!(node('<h2>Hi <a href="/">link</a></h2>'))).toBe(true);
+      expect(types.title.matches!(node('<h2>Line<br>break</h2>'))).toBe(false);
+      expect(types.title.matches!(node('<h2 id="top">Hi</h2>'))).toBe(false);
+    });
+
+    it('should parse paragraphs with line breaks', () => {
+      expect(types.text.parse!(node('<p>Line 1<br>\n   Line 2</p>')).props).toEqual({
+        content: 'Line 1\nLine 2',
+      });
+      expect(types.text.matches!(node('<p>Some <strong>bold</strong></p>'))).toBe(true);
+      expect(types.text.parse!(node('<p>Some <b>bold</b></p>')).props).toEqual({
+        content: [{ text: 'Some ' }, { text: 'bold', marks: ['bold'] }],
+      });
+      expect(types.text.matches!(node('<p>Some <span style="color: red">red</span></p>'))).toBe(
+        false
+      );
+      expect(types.text.matches!(node('<p><a href="javascript:alert(1)">x</a></p>'))).toBe(false);
+    });
+
+    it('should parse images with sizes from attributes or styles', () => {
+      expect(types.image.parse!(node('<img src="a.png" alt="A" width="120">')).props).toEqual({
+        src: 'a.png',
+        alt: 'A',
+        width: 120,
+        height: undefined,
+      });
+      expect(types.image.parse!(node('<img src="a.png" style="height: 40px">')).props).toEqual({
+        src: 'a.png',
+        alt: '',
+        width: undefined,
+        height: 40,
+      });
+      expect(types.image.matches!(node('<img src="a.png" class="hero">'))).toBe(false);
+      expect(types.image.matches!(node('<img src="a.png" style="border: 1px solid">'))).toBe(false);
+    });
+
+    it('should escape quotes in image attributes and skip blocked sources', () => {
+      const image = node('<img src=\'x" onerror="alert(1)\' alt="a">');
+      expect(types.image.matches!(image)).toBe(true);
+      expect(types.image.render(types.image.parse!(image).props)).toBe(
+        '<img src="x&quot; onerror=&quot;alert(1)" alt="a">'
+      );
+      expect(types.image.matches!(node('<img src="javascript:alert(1)" alt="a">'))).toBe(false);
+      expect(types.image.parse!(node('<img src="javascript:alert(1)">')).props.src).toBe('');
+    });
+
+    it('should parse plain lists', () => {
+      expect(types.list.parse!(node('<ol><li>One</li> <li> Two </li></ol>')).props).toEqual({
+        items: ['One', 'Two'],
+        ordered: true,
+      });
+      expect(types.list.matches!(node('<ul><li><a href="/">Link</a></li></ul>'))).toBe(false);
+    });
+
+    it('should parse links and buttons rendered by the editor', () => {
+      const anchor = node(
+        '<a href="/docs" target="_blank" rel="nofollow noopener noreferrer" download>Docs</a>'
+      );
+      expect(types.link.matches!(anchor)).toBe(true);
+      expect(types.link.parse!(anchor).props).toEqual({
+        href: '/docs',
+        label: 'Docs',
+        target: '_blank',
+        rel: 'nofollow',
+        title: '',
+        download: true,
+        variant: 'default',
+      });
+
+      const buttonHtml = types.button.render({ ...types.button.defaultProps, variant: 'outline' });
+      expect(types.button.matches!(node(buttonHtml))).toBe(true);
+      expect(types.link.matches!(node(buttonHtml))).toBe(false);
+      expect(types.button.parse!(node(buttonHtml)).props.variant).toBe('outline');
+
+      expect(types.link.matches!(node('<a href="javascript:x">x</a>'))).toBe(false);
+      expect(types.link.matches!(node('<a href="/"><img src="a.png"></a>'))).toBe(false);
+      expect(types.link.matches!(node('<a href="/" class="btn">x</a>'))).toBe(false);
+    });
+
+    it('should parse tables the table type can represent', () => {
+      const table = node(
+        '<table><caption>Plans</caption><thead><tr><th>Plan</th><th>Price</th></tr></thead>' +
+          '<tbody><tr><th scope="row">Pro</th><td style="text-align: right">$10</td></tr></tbody></table>'
+      );
+      expect(types.table.matches!(table)).toBe(true);
+      expect(types.table.parse!(table).props).toEqual({
+        caption: 'Plans',
+        headerRow: true,
+        headerColumn: true,
+        grid: {
+          align: ['left', 'right'],
+          cells: [
+            ['Plan', 'Price'],
+            ['Pro', '$10'],
+          ],
+        },
+      });
+
+      const rendered = types.table.render(types.table.defaultProps);
+      expect(types.table.parse!(node(rendered)).props).toEqual(types.table.defaultProps);
+
+      expect(types.table.matches!(node('<table><tr><td colspan="2">x</td></tr></table>'))).toBe(
+        false
+      );
+      expect(types.table.matches!(node('<table><tr><td><b>x</b></td></tr></table>'))).toBe(false);
+      expect(types.table.matches!(node('<table><tr><td>a</td><th>b</th></tr></table>'))).toBe(
+        false
+      );
+    });
+
+    it('should parse video, audio and embeds rendered by the editor', () => {
+      const video = node(
+        '<video controls muted poster="a.jpg"><source src="a.webm" type="video/webm">' +
+          '<track kind="captions" src="a.vtt" srclang="de" label="Deutsch"><a href="a.webm">Download</a></video>'
+      );
+      expect(types.video.matches!(video)).toBe(true);
+      expect(types.video.parse!(video).props).toEqual({
+        sources: [{ src: 'a.webm', type: 'video/webm' }],
+        controls: true,
+        autoplay: false,
+        muted: true,
+        loop: false,
+        poster: 'a.jpg',
+        captions: { src: 'a.vtt', srclang: 'de', label: 'Deutsch' },
+      });
+      expect(types.audio.parse!(node('<audio src="a.mp3" controls></audio>')).props).toEqual({
+        sources: [{ src: 'a.mp3', type: '' }],
+        controls: true,
+        autoplay: false,
+        muted: false,
+        loop: false,
+      });
+      expect(types.video.matches!(node('<video width="320"></video>'))).toBe(false);
+      expect(types.video.matches!(node('<video>Not supported</video>'))).toBe(false);
+      expect(types.audio.matches!(node('<video></video>'))).toBe(false);
+
+      const embed = node(types.embed.render({ ...types.embed.defaultProps, aspectRatio: '4:3' }));
+      expect(types.embed.matches!(embed)).toBe(true);
+      expect(types.embed.parse!(embed).props).toEqual({
+        ...types.embed.defaultProps,
+        aspectRatio: '4:3',
+      });
+      expect(
+        types.embed.matches!(node('<iframe src="https://example.com/embed/x"></iframe>'))
+      ).toBe(false);
+    });
+
+    it('should parse containers with their slot nodes', () => {
+      const section = types.section.parse!(node('<section aria-label="Intro"><p>x</p></section>'));
+      expect(section.props).toEqual({ ariaLabel: 'Intro', anchorId: '' });
+      expect(types.section.parse!(node('<section id="top"></section>')).props).toEqual({
+        ariaLabel: '',
+        anchorId: 'top',
+      });
+      expect(section.slots?.[0]).toHaveLength(1);
+
+      expect(types.div.matches!(node('<div class="card"><p>x</p></div>'))).toBe(true);
+      expect(types.div.matches!(node('<div>Loose text</div>'))).toBe(false);
+      expect(types.div.matches!(node('<div style="color: red"></div>'))).toBe(false);
+    });
+
+    it('should recognize rendered column rows', () => {
+      const html = types['two-columns'].render({ gap: 24 }, ['<p>a</p>', '<p>b</p>']);
+
+      expect(types['two-columns'].matches!(node(html))).toBe(true);
+      expect(types['three-columns'].matches!(node(html))).toBe(false);
+
+      const parsed = types['two-columns'].parse!(node(html));
+      expect(parsed.props).toEqual({ gap: 24 });
+      expect(parsed.slots?.map(slot => slot.length)).toEqual([1, 1]);
     });
   });
 
   describe('getAllElementTypes', () => {
     it('should return all element types', () => {
       const elementTypes = ElementTypesHelper.getAllElementTypes();
-      expect(Object.keys(elementTypes)).toEqual(['title', 'text', 'image', 'list']);
+      expect(Object.keys(elementTypes)).toEqual([
+        'title',
+        'text',
+        'image',
+        'list',
+        'link',
+        'button',
+        'table',
+        'video',
+        'audio',
+        'embed',
+        'section',
+        'div',
+        'two-columns',
+        'three-columns',
+        'html',
+      ]);
       expect(elementTypes.title.name).toBe('Title');
       expect(elementTypes.text.name).toBe('Text');
       expect(elementTypes.image.name).toBe('Image');
@@ -259,6 +900,23 @@ describe('ElementTypesHelper', () => {
         expect(typeof elementType.validate).toBe('function');
       });
     });
+
+    it('should describe every default prop in propsSchema', () => {
+      const elementTypes = ElementTypesHelper.getAllElementTypes();
+      Object.values(elementTypes).forEach(elementType => {
+        expect(Object.keys(elementType.propsSchema || {}).sort()).toEqual(
+          Object.keys(elementType.defaultProps).sort()
+        );
+      });
+    });
+
+    it('should derive renderEditor from propsSchema', () => {
+      const listElement = ElementTypesHelper.createListElement();
+      const editor = listElement.renderEditor!({ items: ['A'], ordered: false });
+
+      expect(editor).toContain('data-prop-path="items.0"');
+      expect(editor).toContain('data-array-action="add"');
+    });
   });
 
   describe('registerElementType', () => {
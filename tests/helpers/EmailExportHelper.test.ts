@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { EmailExportHelper, EMAIL_DOCTYPES } from '@helpers/EmailExportHelper';
+import { ElementTypesHelper, type ElementType } from '@helpers/ElementTypesHelper';
+import type { SerializedElement } from '@helpers/SerializationHelper';
+
+describe('EmailExportHelper', () => {
+  const elementTypes = ElementTypesHelper.getAllElementTypes();
+
+  describe('elementToEmail', () => {
+    it('should give image sizes as attributes instead of CSS', () => {
+      const html = EmailExportHelper.elementToEmail(
+        {
+          id: 1,
+          type: 'image',
+          props: { src: 'https://example.com/a.png', alt: 'A', width: 300, height: 200 },
+        },
+        elementTypes
+      );
+
+      expect(html).toContain('width="300" height="200"');
+      expect(html).not.toMatch(/width:\s*300px/);
+    });
+
+    it('should inline text styles', () => {
+      const html = EmailExportHelper.elementToEmail(
+        { id: 1, type: 'text', props: { content: 'Hello\nWorld' } },
+        elementTypes
+      );
+
+      expect(html).toMatch(/^<p style="[^"]*font-family: Arial/);
+      expect(html).toContain('Hello<br />World');
+    });
+
+    it('should lay out columns as table cells', () => {
+      const element: SerializedElement = {
+        id: 1,
+        type: 'two-columns',
+        props: { gap: 20 },
+        children: [
+          [{ id: 2, type: 'text', props: { content: 'Left' } }],
+          [{ id: 3, type: 'text', props: { content: 'Right' } }],
+        ],
+      };
+
+      const html = EmailExportHelper.elementToEmail(element, elementTypes);
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const cells = doc.querySelectorAll('td');
+
+      expect(html).not.toContain('display: flex');
+      expect(cells).toHaveLength(2);
+      expect(cells[0]?.getAttribute('width')).toBe('50%');
+      expect(cells[1]?.getAttribute('style')).toBe('padding-left: 20px;');
+      expect(cells[1]?.textContent).toBe('Right');
+    });
+
+    it('should prefer renderEmail hooks', () => {
+      const button: ElementType<{ label: string }> = {
+        name: 'Button',
+        icon: 'B',
+        defaultProps: { label: '' },
+        render: props => `<button class="btn">${props.label}</button>`,
+        renderEmail: props => `<a style="padding: 12px;">${props.label}</a>`,
+        validate: () => [],
+      };
+
+      expect(
+        EmailExportHelper.elementToEmail(
+          { id: 1, type: 'button', props: { label: 'Buy' } },
+          { button }
+        )
+      ).toBe('<a style="padding: 12px;">Buy</a>');
+    });
+
+    it('should make render output of other types email safe', () => {
+      const card: ElementType<{ src: string }> = {
+        name: 'Card',
+        icon: 'C',
+        defaultProps: { src: '' },
+        render: props =>
+          `<div class="card"><img src="${props.src}" style="width: 120px; border-radius: 4px;"></div>`,
+        validate: () => [],
+      };
+
+      expect(
+        EmailExportHelper.elementToEmail({ id: 1, type: 'card', props: { src: 'a.png' } }, { card })
+      ).toBe('<div><img src="a.png" style="border-radius: 4px;" width="120" border="0"></div>');
+    });
+  });
+
+  describe('generateDocument', () => {
+    it('should wrap rows in a fixed-width layout table', () => {
+      const html = EmailExportHelper.generateDocument(['<p>One</p>'], {
+        head: { title: 'News' },
+      });
+
+      expect(html.startsWith(EMAIL_DOCTYPES['xhtml-transitional'])).toBe(true);
+      expect(html).toContain('<html xmlns="http://www.w3.org/1999/xhtml" lang="en">');
+      expect(html).toContain('<title>News</title>');
+      expect(html).toContain('<table role="presentation" width="600"');
+      expect(html).toContain('<td style="padding: 0 24px;">\n<p>One</p>\n</td>');
+    });
+
+    it('should add the preheader and honor the doctype and width', () => {
+      const html = EmailExportHelper.generateDocument(
+        [],
+        { preheader: 'Big news inside', emailDoctype: 'html5' },
+        { width: 480 }
+      );
+
+      expect(html.startsWith('<!DOCTYPE html>\n')).toBe(true);
+      expect(html).not.toContain('xmlns');
+      expect(html).toContain('mso-hide: all;">Big news inside</div>');
+      expect(html).toContain('width="480"');
+    });
+
+    it('should leave out scripts and links', () => {
+      const html = EmailExportHelper.generateDocument([], {
+        head: {
+          links: [{ rel: 'stylesheet', href: 'style.css' }],
+          scripts: [{ src: 'app.js' }],
+        },
+      });
+
+      expect(html).not.toContain('<link');
+      expect(html).not.toContain('<script');
+    });
+  });
+});
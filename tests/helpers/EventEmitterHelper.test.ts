@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  EventEmitterHelper,
+  type CancelableEvent,
+  type ListenerRegistry,
+} from '@helpers/EventEmitterHelper';
+
+interface TestEventMap {
+  saved: { id: number };
+  beforeSave: CancelableEvent & { id: number };
+}
+
+describe('EventEmitterHelper', () => {
+  let registry: ListenerRegistry<TestEventMap>;
+
+  beforeEach(() => {
+    registry = EventEmitterHelper.createRegistry<TestEventMap>();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('on / emit', () => {
+    it('should call subscribed handlers with payload', () => {
+      const handler = vi.fn();
+      EventEmitterHelper.on(registry, 'saved', handler);
+
+      EventEmitterHelper.emit(registry, 'saved', { id: 1 });
+
+      expect(handler).toHaveBeenCalledWith({ id: 1 });
+    });
+
+    it('should do nothing for events without handlers', () => {
+      expect(() => EventEmitterHelper.emit(registry, 'saved', { id: 1 })).not.toThrow();
+    });
+
+    it('should return unsubscribe function', () => {
+      const handler = vi.fn();
+      const unsubscribe = EventEmitterHelper.on(registry, 'saved', handler);
+
+      unsubscribe();
+      EventEmitterHelper.emit(registry, 'saved', { id: 1 });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should keep calling other handlers when one throws', () => {
+      vi.useFakeTimers();
+      const failing = vi.fn(() => {
+        throw new Error('handler failure');
+      });
+      const handler = vi.fn();
+      EventEmitterHelper.on(registry, 'saved', failing);
+      EventEmitterHelper.on(registry, 'saved', handler);
+
+      EventEmitterHelper.emit(registry, 'saved', { id: 1 });
+
+      expect(handler).toHaveBeenCalled();
+      expect(() => vi.runAllTimers()).toThrow('handler failure');
+    });
+  });
+
+  describe('off', () => {
+    it('should remove specific handler', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      EventEmitterHelper.on(registry, 'saved', first);
+      EventEmitterHelper.on(registry, 'saved', second);
+
+      EventEmitterHelper.off(registry, 'saved', first);
+      EventEmitterHelper.emit(registry, 'saved', { id: 1 });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalled();
+    });
+
+    it('should remove all handlers of an event when handler is omitted', () => {
+      const handler = vi.fn();
+      EventEmitterHelper.on(registry, 'saved', handler);
+
+      EventEmitterHelper.off(registry, 'saved');
+      EventEmitterHelper.emit(registry, 'saved', { id: 1 });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('emitCancelable', () => {
+    it('should return true when no handler prevents default', () => {
+      EventEmitterHelper.on(registry, 'beforeSave', vi.fn());
+
+      expect(EventEmitterHelper.emitCancelable(registry, 'beforeSave', { id: 1 })).toBe(true);
+    });
+
+    it('should return false when a handler prevents default', () => {
+      EventEmitterHelper.on(registry, 'beforeSave', event => {
+        if (event.id === 2) event.preventDefault();
+      });
+
+      expect(EventEmitterHelper.emitCancelable(registry, 'beforeSave', { id: 1 })).toBe(true);
+      expect(EventEmitterHelper.emitCancelable(registry, 'beforeSave', { id: 2 })).toBe(false);
+    });
+  });
+
+  describe('createCancelableEvent', () => {
+    it('should expose defaultPrevented state', () => {
+      const event = EventEmitterHelper.createCancelableEvent({ id: 1 });
+
+      expect(event.defaultPrevented).toBe(false);
+      event.preventDefault();
+      expect(event.defaultPrevented).toBe(true);
+      expect(event.id).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { HTMLFormatHelper } from '@helpers/HTMLFormatHelper';
+
+describe('HTMLFormatHelper', () => {
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head><title>Page</title><meta charset="UTF-8"></head>',
+    '<body>',
+    '<section aria-label="Intro"><div class="card"><p>Hello   <b>big</b>\n world<br>again</p>',
+    '<img src="a.png" alt="A picture"></div></section>',
+    '<!-- editor note -->',
+    '<pre>  keep\n   this</pre>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+
+  describe('pretty', () => {
+    it('should put block elements on their own lines with nested indentation', () => {
+      expect(HTMLFormatHelper.pretty(html)).toBe(
+        [
+          '<!DOCTYPE html>',
+          '<html lang="en">',
+          '  <head>',
+          '    <title>Page</title>',
+          '    <meta charset="UTF-8">',
+          '  </head>',
+          '  <body>',
+          '    <section aria-label="Intro">',
+          '      <div class="card">',
+          '        <p>Hello <b>big</b> world<br>again</p>',
+          '        <img src="a.png" alt="A picture">',
+          '      </div>',
+          '    </section>',
+          '    <!-- editor note -->',
+          '    <pre>  keep\n   this</pre>',
+          '  </body>',
+          '</html>',
+        ].join('\n')
+      );
+    });
+
+    it('should use the configured indent', () => {
+      expect(HTMLFormatHelper.pretty('<ul><li>One</li></ul>', 4)).toBe(
+        '<ul>\n    <li>One</li>\n</ul>'
+      );
+      expect(HTMLFormatHelper.pretty('<ul><li>One</li></ul>', '\t')).toBe(
+        '<ul>\n\t<li>One</li>\n</ul>'
+      );
+    });
+  });
+
+  describe('minify', () => {
+    it('should collapse whitespace, strip comments and drop optional quotes', () => {
+      expect(HTMLFormatHelper.minify(html)).toBe(
+        '<!DOCTYPE html><html lang=en><head><title>Page</title><meta charset=UTF-8></head>' +
+          '<body><section aria-label=Intro><div class=card><p>Hello <b>big</b> world<br>again</p>' +
+          '<img src=a.png alt="A picture"></div></section><pre>  keep\n   this</pre></body></html>'
+      );
+    });
+
+    it('should keep the space around removed comments in text', () => {
+      expect(HTMLFormatHelper.minify('<p>Hello <!-- note --> world</p>')).toBe(
+        '<p>Hello world</p>'
+      );
+      expect(HTMLFormatHelper.minify('<p>Hello<!-- note -->world <b>x<!-- y --></b></p>')).toBe(
+        '<p>Helloworld <b>x</b></p>'
+      );
+    });
+
+    it('should keep conditional comments and script content', () => {
+      const source =
+        '<!--[if mso]><table><tr><td><![endif]-->\n<script>\n  if (a  <  b) go();\n</script>';
+
+      expect(HTMLFormatHelper.minify(source)).toBe(
+        '<!--[if mso]><table><tr><td><![endif]--><script>\n  if (a  <  b) go();\n</script>'
+      );
+    });
+
+    it('should keep spaces between inline elements', () => {
+      expect(HTMLFormatHelper.minify('<p><b>Bold</b>  <i>italic</i></p>')).toBe(
+        '<p><b>Bold</b> <i>italic</i></p>'
+      );
+    });
+  });
+
+  describe('format', () => {
+    it('should return the markup unchanged by default', () => {
+      expect(HTMLFormatHelper.format(html)).toBe(html);
+      expect(HTMLFormatHelper.format(html, { format: 'none' })).toBe(html);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { HTMLImportHelper, RAW_HTML_TYPE } from '@helpers/HTMLImportHelper';
+import { ElementTypesHelper, type ElementType } from '@helpers/ElementTypesHelper';
+
+describe('HTMLImportHelper', () => {
+  const elementTypes = ElementTypesHelper.getAllElementTypes();
+
+  describe('parse', () => {
+    it('should map built-in markup to elements', () => {
+      const { elements, template } = HTMLImportHelper.parse(
+        `<h1>Welcome</h1>
+         <p>Intro text</p>
+         <img src="https://example.com/a.png" alt="A">
+         <ul><li>One</li><li>Two</li></ul>`,
+        elementTypes
+      );
+
+      expect(elements).toEqual([
+        { id: 1, type: 'title', props: { text: 'Welcome', level: 1 } },
+        { id: 2, type: 'text', props: { content: 'Intro text' } },
+        {
+          id: 3,
+          type: 'image',
+          props: {
+            src: 'https://example.com/a.png',
+            alt: 'A',
+            width: undefined,
+            height: undefined,
+          },
+        },
+        { id: 4, type: 'list', props: { items: ['One', 'Two'], ordered: false } },
+      ]);
+      expect(template).toBeNull();
+    });
+
+    it('should map nested containers', () => {
+      const { elements } = HTMLImportHelper.parse(
+        '<section aria-label="Main"><div class="card"><h2>Card</h2></div></section>',
+        elementTypes
+      );
+
+      expect(elements).toEqual([
+        {
+          id: 1,
+          type: 'section',
+          props: { ariaLabel: 'Main', anchorId: '' },
+          children: [
+            [
+              {
+                id: 2,
+                type: 'div',
+                props: { className: 'card' },
+                children: [[{ id: 3, type: 'title', props: { text: 'Card', level: 2 } }]],
+              },
+            ],
+          ],
+        },
+      ]);
+    });
+
+    it('should keep unrecognized markup in raw HTML blocks', () => {
+      const { elements } = HTMLImportHelper.parse(
+        '<p>Hello <mark>world</mark></p><!-- note --><hr>',
+        elementTypes
+      );
+
+      expect(elements).toEqual([
+        { id: 1, type: RAW_HTML_TYPE, props: { html: '<p>Hello <mark>world</mark></p>' } },
+        { id: 2, type: RAW_HTML_TYPE, props: { html: '<hr>' } },
+      ]);
+    });
+
+    it('should turn loose text into text elements', () => {
+      const { elements } = HTMLImportHelper.parse('Just   some text', elementTypes);
+
+      expect(elements).toEqual([{ id: 1, type: 'text', props: { content: 'Just some text' } }]);
+    });
+
+    it('should read the template of full documents', () => {
+      const { elements, template } = HTMLImportHelper.parse(
+        '<html><head><title>Page</title></head><body><h1>Hi</h1></body></html>',
+        elementTypes
+      );
+
+      expect(elements).toHaveLength(1);
+      expect(template?.head?.title).toBe('Page');
+    });
+
+    it('should use the given ID generator', () => {
+      let next = 100;
+      const { elements } = HTMLImportHelper.parse(
+        '<h1>A</h1><h2>B</h2>',
+        elementTypes,
+        () => next++
+      );
+
+      expect(elements.map(element => element.id)).toEqual([100, 101]);
+    });
+  });
+
+  describe('findElementType', () => {
+    it('should let custom types take precedence over built-in ones', () => {
+      const callout: ElementType<{ text: string }> = {
+        name: 'Callout',
+        icon: '!',
+        defaultProps: { text: '' },
+        render: props => `<p class="callout">${props.text}</p>`,
+        validate: () => [],
+        matches: node => node.nodeName === 'P',
+        parse: node => ({ props: { text: node.textContent ?? '' } }),
+      };
+      const types = ElementTypesHelper.registerElementType(elementTypes, 'callout', callout);
+      const node = new DOMParser().parseFromString('<p>Hi</p>', 'text/html').body
+        .firstElementChild!;
+
+      expect(HTMLImportHelper.findElementType(node, types)?.[0]).toBe('callout');
+      expect(HTMLImportHelper.findElementType(node, elementTypes)?.[0]).toBe('text');
+    });
+
+    it('should skip types without a parse hook', () => {
+      const node = document.createElement('hr');
+      expect(HTMLImportHelper.findElementType(node, elementTypes)).toBeNull();
+    });
+  });
+});
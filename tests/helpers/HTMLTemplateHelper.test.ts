@@ -121,6 +121,26 @@ describe('HTMLTemplateHelper', () => {
       expect(result).toContain('<link rel="stylesheet" href="style.css">');
     });
 
+    it('should write generated styles after custom head elements', () => {
+      const result = HTMLTemplateHelper.buildHeadSection(
+        { customHead: '<meta name="x" content="y">' },
+        '.a { color: red; }\n@media (max-width: 767px) {\n  .a { color: blue; }\n}'
+      );
+
+      expect(result).toBe(
+        [
+          '  <meta name="x" content="y">',
+          '  <style>',
+          '    .a { color: red; }',
+          '    @media (max-width: 767px) {',
+          '      .a { color: blue; }',
+          '    }',
+          '  </style>',
+        ].join('\n')
+      );
+      expect(HTMLTemplateHelper.buildHeadSection({}, '  ')).toBe('');
+    });
+
     it('should build inline script', () => {
       const headConfig: HeadConfig = {
         scripts: [
@@ -255,6 +275,51 @@ describe('HTMLTemplateHelper', () => {
     });
   });
 
+  describe('parseTemplate', () => {
+    const parse = (html: string) =>
+      HTMLTemplateHelper.parseTemplate(new DOMParser().parseFromString(html, 'text/html'));
+
+    it('should read head, html and body settings', () => {
+      const template = parse(`<!DOCTYPE html>
+        <html lang="ja" data-theme="dark">
+        <head>
+          <meta charset="UTF-8">
+          <meta name="description" content="About us">
+          <title> About </title>
+          <link rel="stylesheet" href="/site.css">
+          <script src="/app.js" defer></script>
+          <script>window.ready = true;</script>
+          <style>body { margin: 0; }</style>
+        </head>
+        <body class="page"></body>
+        </html>`);
+
+      expect(template).toEqual({
+        doctype: '<!DOCTYPE html>',
+        htmlAttributes: { lang: 'ja', 'data-theme': 'dark' },
+        head: {
+          title: 'About',
+          meta: [{ charset: 'UTF-8' }, { name: 'description', content: 'About us' }],
+          links: [{ rel: 'stylesheet', href: '/site.css' }],
+          scripts: [{ src: '/app.js', defer: true }, { content: 'window.ready = true;' }],
+          customHead: '<style>body { margin: 0; }</style>',
+        },
+        bodyAttributes: { class: 'page' },
+      });
+    });
+
+    it('should round trip through generateFullHTML', () => {
+      const template = parse(
+        '<html lang="en"><head><title>T</title><script src="/a.js" async></script></head></html>'
+      );
+      const html = HTMLTemplateHelper.generateFullHTML('', template);
+
+      expect(html).toContain('<title>T</title>');
+      expect(html).toContain('<script src="/a.js" async></script>');
+      expect(parse(html).head).toEqual(template.head);
+    });
+  });
+
   describe('updateTemplate', () => {
     it('should update template', () => {
       const currentTemplate: HTMLTemplate = {
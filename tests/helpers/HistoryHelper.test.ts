@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HistoryHelper, type HistoryState } from '@helpers/HistoryHelper';
+
+describe('HistoryHelper', () => {
+  let history: HistoryState<string>;
+
+  beforeEach(() => {
+    history = HistoryHelper.createHistory<string>();
+  });
+
+  describe('createHistory', () => {
+    it('should create empty history with default options', () => {
+      expect(history.undoStack).toEqual([]);
+      expect(history.redoStack).toEqual([]);
+      expect(history.limit).toBe(100);
+      expect(history.coalesceDelay).toBe(1000);
+    });
+
+    it('should accept custom options', () => {
+      const custom = HistoryHelper.createHistory<string>({ limit: 5, coalesceDelay: 0 });
+
+      expect(custom.limit).toBe(5);
+      expect(custom.coalesceDelay).toBe(0);
+    });
+  });
+
+  describe('record', () => {
+    it('should push snapshot onto undo stack', () => {
+      expect(HistoryHelper.record(history, 'a')).toBe(true);
+
+      expect(HistoryHelper.canUndo(history)).toBe(true);
+      expect(history.undoStack[0]?.snapshot).toBe('a');
+    });
+
+    it('should clear redo stack on new record', () => {
+      HistoryHelper.record(history, 'a');
+      HistoryHelper.undo(history, 'b');
+      expect(HistoryHelper.canRedo(history)).toBe(true);
+
+      HistoryHelper.record(history, 'a');
+
+      expect(HistoryHelper.canRedo(history)).toBe(false);
+    });
+
+    it('should drop oldest entries beyond the limit', () => {
+      const bounded = HistoryHelper.createHistory<string>({ limit: 2 });
+      HistoryHelper.record(bounded, 'a');
+      HistoryHelper.record(bounded, 'b');
+      HistoryHelper.record(bounded, 'c');
+
+      expect(bounded.undoStack.map(entry => entry.snapshot)).toEqual(['b', 'c']);
+    });
+
+    it('should coalesce records with the same key within the delay', () => {
+      expect(HistoryHelper.record(history, 'a', 'typing', 1000)).toBe(true);
+      expect(HistoryHelper.record(history, 'ab', 'typing', 1500)).toBe(false);
+      expect(HistoryHelper.record(history, 'abc', 'typing', 2400)).toBe(false);
+
+      expect(history.undoStack).toHaveLength(1);
+      expect(history.undoStack[0]?.snapshot).toBe('a');
+    });
+
+    it('should not coalesce records after the delay has passed', () => {
+      HistoryHelper.record(history, 'a', 'typing', 1000);
+      HistoryHelper.record(history, 'ab', 'typing', 2500);
+
+      expect(history.undoStack).toHaveLength(2);
+    });
+
+    it('should not coalesce records with different keys', () => {
+      HistoryHelper.record(history, 'a', 'title', 1000);
+      HistoryHelper.record(history, 'b', 'level', 1100);
+      HistoryHelper.record(history, 'c', undefined, 1200);
+      HistoryHelper.record(history, 'd', undefined, 1300);
+
+      expect(history.undoStack).toHaveLength(4);
+    });
+  });
+
+  describe('undo / redo', () => {
+    it('should return null when stacks are empty', () => {
+      expect(HistoryHelper.undo(history, 'current')).toBeNull();
+      expect(HistoryHelper.redo(history, 'current')).toBeNull();
+    });
+
+    it('should move between undo and redo stacks', () => {
+      HistoryHelper.record(history, 'v1');
+
+      expect(HistoryHelper.undo(history, 'v2')).toBe('v1');
+      expect(HistoryHelper.canUndo(history)).toBe(false);
+      expect(HistoryHelper.canRedo(history)).toBe(true);
+
+      expect(HistoryHelper.redo(history, 'v1')).toBe('v2');
+      expect(HistoryHelper.canUndo(history)).toBe(true);
+      expect(HistoryHelper.canRedo(history)).toBe(false);
+    });
+  });
+
+  describe('clear', () => {
+    it('should empty both stacks', () => {
+      HistoryHelper.record(history, 'a');
+      HistoryHelper.record(history, 'b');
+      HistoryHelper.undo(history, 'c');
+
+      HistoryHelper.clear(history);
+
+      expect(HistoryHelper.canUndo(history)).toBe(false);
+      expect(HistoryHelper.canRedo(history)).toBe(false);
+    });
+  });
+
+  describe('getShortcutAction', () => {
+    it('should map Ctrl+Z and Cmd+Z to undo', () => {
+      expect(
+        HistoryHelper.getShortcutAction(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }))
+      ).toBe('undo');
+      expect(
+        HistoryHelper.getShortcutAction(new KeyboardEvent('keydown', { key: 'z', metaKey: true }))
+      ).toBe('undo');
+    });
+
+    it('should map Shift+Ctrl+Z and Ctrl+Y to redo', () => {
+      expect(
+        HistoryHelper.getShortcutAction(
+          new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true })
+        )
+      ).toBe('redo');
+      expect(
+        HistoryHelper.getShortcutAction(new KeyboardEvent('keydown', { key: 'y', ctrlKey: true }))
+      ).toBe('redo');
+    });
+
+    it('should ignore keys without modifier', () => {
+      expect(
+        HistoryHelper.getShortcutAction(new KeyboardEvent('keydown', { key: 'z' }))
+      ).toBeNull();
+      expect(
+        HistoryHelper.getShortcutAction(new KeyboardEvent('keydown', { key: 'a', ctrlKey: true }))
+      ).toBeNull();
+    });
+  });
+});
@@ -20,6 +20,7 @@ describe('IframePreviewHelper', () => {
 
       expect(options.enableDragDrop).toBe(true);
       expect(options.enableElementSelection).toBe(true);
+      expect(options.enableInlineEditing).toBe(true);
       expect(options.customStyles).toBe('');
       expect(options.sandboxPermissions).toEqual(['allow-scripts', 'allow-same-origin']);
     });
@@ -183,6 +184,34 @@ describe('IframePreviewHelper', () => {
     });
   });
 
+  describe('setFrameSize', () => {
+    it('should set the iframe width to a breakpoint width or back to full width', () => {
+      const iframe = IframePreviewHelper.createIframePreview(container);
+
+      IframePreviewHelper.setFrameSize(iframe, { width: 767 });
+      expect(iframe.style.width).toBe('767px');
+      expect(iframe.style.height).toBe('100%');
+
+      IframePreviewHelper.setFrameSize(iframe, {});
+      expect(iframe.style.width).toBe('100%');
+    });
+
+    it('should size the frame to a device and zoom it with a transform', () => {
+      const iframe = IframePreviewHelper.createIframePreview(container);
+
+      IframePreviewHelper.setFrameSize(iframe, { width: 375, height: 600 }, 0.5);
+
+      expect(iframe.style.width).toBe('375px');
+      expect(iframe.style.height).toBe('600px');
+      expect(iframe.style.transform).toBe('scale(0.5)');
+      expect(iframe.style.marginBottom).toBe('-300px');
+
+      IframePreviewHelper.setFrameSize(iframe, { width: 375, height: 600 });
+      expect(iframe.style.transform).toBe('');
+      expect(iframe.style.marginBottom).toBe('');
+    });
+  });
+
   describe('getIframeDocument', () => {
     let iframe: HTMLIFrameElement;
 
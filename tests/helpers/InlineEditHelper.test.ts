@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InlineEditHelper } from '@helpers/InlineEditHelper';
+
+describe('InlineEditHelper', () => {
+  describe('markEditable', () => {
+    it('should mark the first node matching each prop', () => {
+      const html = InlineEditHelper.markEditable('<ul><li>a</li><li>b</li></ul>', [
+        { path: 'items.0', selector: 'li:nth-child(1)' },
+        { path: 'items.1', selector: 'li:nth-child(2)', multiline: true },
+      ]);
+
+      expect(html).toBe(
+        '<ul><li data-inline-path="items.0">a</li>' +
+          '<li data-inline-path="items.1" data-inline-multiline="">b</li></ul>'
+      );
+    });
+
+    it('should skip props without a node and nodes that are already marked', () => {
+      const html = InlineEditHelper.markEditable('<p>Text</p>', [
+        { path: 'content', selector: 'p', richText: true },
+        { path: 'other', selector: 'p' },
+        { path: 'missing', selector: 'h1' },
+      ]);
+
+      expect(html).toBe('<p data-inline-path="content" data-inline-rich="">Text</p>');
+    });
+
+    it('should return markup unchanged when nothing is editable', () => {
+      expect(InlineEditHelper.markEditable('<hr >', [])).toBe('<hr >');
+    });
+  });
+
+  describe('readValue', () => {
+    const node = (html: string) => {
+      const template = document.createElement('template');
+      template.innerHTML = html;
+      return template.content.firstElementChild as HTMLElement;
+    };
+
+    it('should read rich text or plain text', () => {
+      expect(
+        InlineEditHelper.readValue(node('<p data-inline-path="c" data-inline-rich>a <b>b</b></p>'))
+      ).toEqual([{ text: 'a ' }, { text: 'b', marks: ['bold'] }]);
+      expect(InlineEditHelper.readValue(node('<li data-inline-path="i">a <b>b</b></li>'))).toBe(
+        'a b'
+      );
+    });
+
+    it('should keep line breaks of multiline props only', () => {
+      expect(
+        InlineEditHelper.readValue(node('<p data-inline-path="c" data-inline-multiline>a<br>b</p>'))
+      ).toBe('a\nb');
+      expect(InlineEditHelper.readValue(node('<h1 data-inline-path="t">a<br>b</h1>'))).toBe('a b');
+    });
+  });
+
+  describe('start', () => {
+    let element: HTMLElement;
+    let node: HTMLElement;
+    let onCommit: ReturnType<typeof vi.fn>;
+
+    const key = (value: string, init: KeyboardEventInit = {}) =>
+      node.dispatchEvent(new KeyboardEvent('keydown', { key: value, cancelable: true, ...init }));
+
+    const paste = (text: string) => {
+      const event = new Event('paste', { cancelable: true });
+      Object.defineProperty(event, 'clipboardData', { value: { getData: () => text } });
+      node.dispatchEvent(event);
+    };
+
+    const placeCaretAtEnd = () => {
+      const range = document.createRange();
+      range.selectNodeContents(node);
+      range.collapse(false);
+      document.getSelection()?.removeAllRanges();
+      document.getSelection()?.addRange(range);
+    };
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      element.className = 'preview-element';
+      element.setAttribute('draggable', 'true');
+      element.innerHTML = '<p data-inline-path="content" data-inline-multiline>Hello</p>';
+      document.body.appendChild(element);
+      node = element.querySelector('p')!;
+      onCommit = vi.fn();
+    });
+
+    afterEach(() => {
+      element.remove();
+    });
+
+    it('should make the node editable and commit on Enter', () => {
+      InlineEditHelper.start(node, onCommit);
+
+      expect(node.getAttribute('contenteditable')).toBe('true');
+      expect(element.getAttribute('draggable')).toBe('false');
+
+      node.textContent = 'Changed';
+      key('Enter');
+
+      expect(onCommit).toHaveBeenCalledWith('content', 'Changed');
+      expect(node.hasAttribute('contenteditable')).toBe(false);
+      expect(element.getAttribute('draggable')).toBe('true');
+    });
+
+    it('should restore the node on Escape', () => {
+      InlineEditHelper.start(node, onCommit);
+      node.innerHTML = 'Changed <b>text</b>';
+      key('Escape');
+
+      expect(onCommit).not.toHaveBeenCalled();
+      expect(node.innerHTML).toBe('Hello');
+      expect(node.hasAttribute('contenteditable')).toBe(false);
+    });
+
+    it('should commit when the node loses focus, once', () => {
+      InlineEditHelper.start(node, onCommit);
+      node.dispatchEvent(new Event('blur'));
+      key('Enter');
+
+      expect(onCommit).toHaveBeenCalledTimes(1);
+      expect(onCommit).toHaveBeenCalledWith('content', 'Hello');
+    });
+
+    it('should insert line breaks with Shift+Enter in multiline props', () => {
+      InlineEditHelper.start(node, onCommit);
+      placeCaretAtEnd();
+      key('Enter', { shiftKey: true });
+      paste('World');
+      key('Enter');
+
+      expect(onCommit).toHaveBeenCalledWith('content', 'Hello\nWorld');
+    });
+
+    it('should paste markup as plain text', () => {
+      node.removeAttribute('data-inline-multiline');
+      InlineEditHelper.start(node, onCommit);
+      placeCaretAtEnd();
+      paste(' <b>big</b>\n  world');
+
+      expect(node.innerHTML).toBe('Hello &lt;b&gt;big&lt;/b&gt; world');
+      key('Enter');
+      expect(onCommit).toHaveBeenCalledWith('content', 'Hello <b>big</b> world');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownHelper } from '@helpers/MarkdownHelper';
+import { ElementTypesHelper, type ElementType } from '@helpers/ElementTypesHelper';
+import type { SerializedElement } from '@helpers/SerializationHelper';
+
+describe('MarkdownHelper', () => {
+  const elementTypes = ElementTypesHelper.getAllElementTypes();
+
+  describe('escapeText', () => {
+    it('should escape inline markup characters', () => {
+      expect(MarkdownHelper.escapeText('2 * 3 = _six_ [x] `y`')).toBe(
+        '2 \\* 3 = \\_six\\_ \\[x\\] \\`y\\`'
+      );
+    });
+
+    it('should escape block markers at the start of a line', () => {
+      expect(MarkdownHelper.escapeText('# Not a heading')).toBe('\\# Not a heading');
+      expect(MarkdownHelper.escapeText('- not a list\n1. nor this')).toBe(
+        '\\- not a list\n1\\. nor this'
+      );
+    });
+  });
+
+  describe('exportElements', () => {
+    it('should export built-in elements as CommonMark', () => {
+      const elements: SerializedElement[] = [
+        { id: 1, type: 'title', props: { text: 'Welcome', level: 2 } },
+        { id: 2, type: 'text', props: { content: 'Line one\nLine two' } },
+        { id: 3, type: 'image', props: { src: 'https://example.com/a.png', alt: 'A' } },
+        { id: 4, type: 'list', props: { items: ['One', 'Two'], ordered: true } },
+      ];
+
+      expect(MarkdownHelper.exportElements(elements, elementTypes)).toBe(
+        [
+          '## Welcome',
+          'Line one\\\nLine two',
+          '![A](https://example.com/a.png)',
+          '1. One\n2. Two',
+        ].join('\n\n')
+      );
+    });
+
+    it('should write container children one after another', () => {
+      const elements: SerializedElement[] = [
+        {
+          id: 1,
+          type: 'two-columns',
+          props: { gap: 16 },
+          children: [
+            [{ id: 2, type: 'text', props: { content: 'Left' } }],
+            [{ id: 3, type: 'text', props: { content: 'Right' } }],
+          ],
+        },
+      ];
+
+      expect(MarkdownHelper.exportElements(elements, elementTypes)).toBe('Left\n\nRight');
+    });
+
+    it('should use toMarkdown hooks and fall back to HTML', () => {
+      const quote: ElementType<{ text: string }> = {
+        name: 'Quote',
+        icon: '"',
+        defaultProps: { text: '' },
+        render: props => `<blockquote>${props.text}</blockquote>`,
+        validate: () => [],
+        toMarkdown: props => `> ${props.text}`,
+      };
+      const badge: ElementType<{ label: string }> = {
+        name: 'Badge',
+        icon: 'B',
+        defaultProps: { label: '' },
+        render: props => `<span class="badge">${props.label}</span>`,
+        validate: () => [],
+      };
+
+      const markdown = MarkdownHelper.exportElements(
+        [
+          { id: 1, type: 'quote', props: { text: 'Wise words' } },
+          { id: 2, type: 'badge', props: { label: 'New' } },
+        ],
+        { ...elementTypes, quote, badge }
+      );
+
+      expect(markdown).toBe('> Wise words\n\n<span class="badge">New</span>');
+    });
+  });
+
+  describe('parse', () => {
+    it('should map headings, paragraphs, images and lists to elements', () => {
+      const elements = MarkdownHelper.parse(
+        [
+          '# Welcome',
+          '',
+          'Intro text',
+          'continues here.',
+          '',
+          '![A cat](https://example.com/cat.png "Cat")',
+          '',
+          '- One',
+          '- Two',
+          '',
+          '1. First',
+          '2. Second',
+          '',
+          'Subtitle',
+          '--------',
+        ].join('\n')
+      );
+
+      expect(elements).toEqual([
+        { id: 1, type: 'title', props: { text: 'Welcome', level: 1 } },
+        { id: 2, type: 'text', props: { content: 'Intro text continues here.' } },
+        { id: 3, type: 'image', props: { src: 'https://example.com/cat.png', alt: 'A cat' } },
+        { id: 4, type: 'list', props: { items: ['One', 'Two'], ordered: false } },
+        { id: 5, type: 'list', props: { items: ['First', 'Second'], ordered: true } },
+        { id: 6, type: 'title', props: { text: 'Subtitle', level: 2 } },
+      ]);
+    });
+
+    it('should keep hard line breaks in text', () => {
+      const [element] = MarkdownHelper.parse('Line one  \nLine two\\\nLine three');
+
+      expect(element?.props).toEqual({ content: 'Line one\nLine two\nLine three' });
+    });
+
+    it('should keep other blocks as raw HTML', () => {
+      const elements = MarkdownHelper.parse(
+        ['```js', 'const a = 1 < 2;', '```', '', '---', '', 'See ![a cat](cat.png) here'].join('\n')
+      );
+
+      expect(elements.map(element => element.props)).toEqual([
+        { html: '<pre><code class="language-js">const a = 1 &lt; 2;</code></pre>' },
+        { html: '<hr>' },
+        { html: '<p>See <img src="cat.png" alt="a cat"> here</p>' },
+      ]);
+    });
+
+    it('should map paragraphs with inline formatting to rich text', () => {
+      const [element] = MarkdownHelper.parse(
+        'Some **bold** and [`code` link](https://example.com)'
+      );
+
+      expect(element).toEqual({
+        id: 1,
+        type: 'text',
+        props: {
+          content: [
+            { text: 'Some ' },
+            { text: 'bold', marks: ['bold'] },
+            { text: ' and ' },
+            { text: 'code', marks: ['code'], link: { href: 'https://example.com' } },
+            { text: ' link', link: { href: 'https://example.com' } },
+          ],
+        },
+      });
+    });
+
+    it('should drop unsafe URLs and escape quotes in links and images', () => {
+      const elements = MarkdownHelper.parse(
+        [
+          '[x](javascript:alert)',
+          '',
+          '![a](data:image/svg+xml,x)',
+          '',
+          'See ![a](x"onerror="alert(1))',
+        ].join('\n')
+      );
+
+      expect(elements.map(element => element.props)).toEqual([
+        { content: 'x' },
+        { content: 'a' },
+        { html: '<p>See <img src="x&quot;onerror=&quot;alert(1" alt="a">)</p>' },
+      ]);
+      expect(MarkdownHelper.renderInline('[a](x"y) [b](data:text/html,c)')).toBe(
+        '<a href="x&quot;y">a</a> b'
+      );
+    });
+
+    it('should round-trip exported elements', () => {
+      const elements: SerializedElement[] = [
+        { id: 1, type: 'title', props: { text: '# Price * 2', level: 3 } },
+        { id: 2, type: 'text', props: { content: '1. Not a list\n_literal_ [text]' } },
+        { id: 3, type: 'image', props: { src: 'https://example.com/my image.png', alt: 'Pic' } },
+        { id: 4, type: 'list', props: { items: ['a * b', '- c'], ordered: false } },
+      ];
+
+      const markdown = MarkdownHelper.exportElements(elements, elementTypes);
+
+      expect(MarkdownHelper.parse(markdown)).toEqual(elements);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { MediaHelper } from '@helpers/MediaHelper';
+
+describe('MediaHelper', () => {
+  describe('getMimeType', () => {
+    it('should guess MIME types from file extensions', () => {
+      expect(MediaHelper.getMimeType('/clips/intro.WEBM', 'video')).toBe('video/webm');
+      expect(MediaHelper.getMimeType('https://cdn.test/a.mp4?v=2#t=10', 'video')).toBe('video/mp4');
+      expect(MediaHelper.getMimeType('song.ogg', 'audio')).toBe('audio/ogg');
+      expect(MediaHelper.getMimeType('song.mp3', 'audio')).toBe('audio/mpeg');
+    });
+
+    it('should return an empty string for unknown extensions', () => {
+      expect(MediaHelper.getMimeType('/stream', 'video')).toBe('');
+      expect(MediaHelper.getMimeType('song.mp3', 'video')).toBe('');
+    });
+  });
+
+  describe('parseEmbedUrl', () => {
+    it('should recognize YouTube watch, share, embed and shorts URLs', () => {
+      const video = { provider: 'youtube', id: 'M7lc1UVf-VE' };
+      expect(MediaHelper.parseEmbedUrl('https://www.youtube.com/watch?v=M7lc1UVf-VE')).toEqual(
+        video
+      );
+      expect(
+        MediaHelper.parseEmbedUrl('https://m.youtube.com/watch?feature=x&v=M7lc1UVf-VE')
+      ).toEqual(video);
+      expect(MediaHelper.parseEmbedUrl(' https://youtu.be/M7lc1UVf-VE ')).toEqual(video);
+      expect(MediaHelper.parseEmbedUrl('https://www.youtube.com/shorts/M7lc1UVf-VE')).toEqual(
+        video
+      );
+      expect(
+        MediaHelper.parseEmbedUrl('https://www.youtube-nocookie.com/embed/M7lc1UVf-VE')
+      ).toEqual(video);
+    });
+
+    it('should read YouTube start times', () => {
+      expect(MediaHelper.parseEmbedUrl('https://youtu.be/M7lc1UVf-VE?t=90')?.start).toBe(90);
+      expect(
+        MediaHelper.parseEmbedUrl('https://www.youtube.com/watch?v=M7lc1UVf-VE&t=1m30s')?.start
+      ).toBe(90);
+      expect(
+        MediaHelper.parseEmbedUrl('https://www.youtube.com/embed/M7lc1UVf-VE?start=5')?.start
+      ).toBe(5);
+    });
+
+    it('should recognize Vimeo page and player URLs', () => {
+      expect(MediaHelper.parseEmbedUrl('https://vimeo.com/76979871')).toEqual({
+        provider: 'vimeo',
+        id: '76979871',
+      });
+      expect(MediaHelper.parseEmbedUrl('https://vimeo.com/76979871/8272103f6e#t=30s')).toEqual({
+        provider: 'vimeo',
+        id: '76979871',
+        hash: '8272103f6e',
+        start: 30,
+      });
+      expect(
+        MediaHelper.parseEmbedUrl('https://player.vimeo.com/video/76979871?h=8272103f6e')
+      ).toEqual({ provider: 'vimeo', id: '76979871', hash: '8272103f6e' });
+      expect(MediaHelper.parseEmbedUrl('https://vimeo.com/channels/staffpicks/76979871')?.id).toBe(
+        '76979871'
+      );
+    });
+
+    it('should reject other sites and malformed IDs', () => {
+      expect(MediaHelper.parseEmbedUrl('https://example.com/watch?v=M7lc1UVf-VE')).toBeNull();
+      expect(MediaHelper.parseEmbedUrl('https://www.youtube.com/watch?v=short')).toBeNull();
+      expect(MediaHelper.parseEmbedUrl('https://www.youtube.com/@channel')).toBeNull();
+      expect(MediaHelper.parseEmbedUrl('https://vimeo.com/about')).toBeNull();
+      expect(MediaHelper.parseEmbedUrl('javascript://youtu.be/M7lc1UVf-VE')).toBeNull();
+      expect(MediaHelper.parseEmbedUrl('not a url')).toBeNull();
+    });
+  });
+
+  describe('getEmbedSrc', () => {
+    it('should use the privacy-enhanced YouTube domain', () => {
+      expect(MediaHelper.getEmbedSrc({ provider: 'youtube', id: 'M7lc1UVf-VE' })).toBe(
+        'https://www.youtube-nocookie.com/embed/M7lc1UVf-VE'
+      );
+      expect(
+        MediaHelper.getEmbedSrc({ provider: 'youtube', id: 'M7lc1UVf-VE', start: 90 }, true)
+      ).toBe('https://www.youtube-nocookie.com/embed/M7lc1UVf-VE?autoplay=1&start=90');
+    });
+
+    it('should disable Vimeo tracking and keep the privacy hash', () => {
+      expect(
+        MediaHelper.getEmbedSrc({ provider: 'vimeo', id: '76979871', hash: 'abc', start: 30 }, true)
+      ).toBe('https://player.vimeo.com/video/76979871?h=abc&dnt=1&autoplay=1#t=30s');
+    });
+  });
+
+  describe('getWatchUrl and getThumbnailUrl', () => {
+    it('should link to the provider pages', () => {
+      expect(MediaHelper.getWatchUrl({ provider: 'youtube', id: 'M7lc1UVf-VE', start: 5 })).toBe(
+        'https://www.youtube.com/watch?v=M7lc1UVf-VE&t=5s'
+      );
+      expect(MediaHelper.getWatchUrl({ provider: 'vimeo', id: '76979871', hash: 'abc' })).toBe(
+        'https://vimeo.com/76979871/abc'
+      );
+    });
+
+    it('should only give static thumbnails of YouTube videos', () => {
+      expect(MediaHelper.getThumbnailUrl({ provider: 'youtube', id: 'M7lc1UVf-VE' })).toBe(
+        'https://i.ytimg.com/vi/M7lc1UVf-VE/hqdefault.jpg'
+      );
+      expect(MediaHelper.getThumbnailUrl({ provider: 'vimeo', id: '76979871' })).toBeNull();
+    });
+  });
+
+  describe('getFacadeDocument', () => {
+    it('should link the thumbnail to the autoplaying player', () => {
+      const html = MediaHelper.getFacadeDocument(
+        { provider: 'youtube', id: 'M7lc1UVf-VE', start: 5 },
+        'Tour <2>'
+      );
+
+      expect(html).toContain(
+        '<a href="https://www.youtube-nocookie.com/embed/M7lc1UVf-VE?autoplay=1&amp;start=5" aria-label="Play Tour &lt;2&gt;">'
+      );
+      expect(html).toContain('<img src="https://i.ytimg.com/vi/M7lc1UVf-VE/hqdefault.jpg" alt="">');
+      expect(html).toContain('<span class="title">Tour &lt;2&gt;</span>');
+      expect(html).not.toContain('<script');
+    });
+
+    it('should fall back to a plain play button without a thumbnail', () => {
+      const html = MediaHelper.getFacadeDocument({ provider: 'vimeo', id: '76979871' }, '');
+
+      expect(html).toContain('aria-label="Play Vimeo video"');
+      expect(html).not.toContain('<img');
+      expect(html).not.toContain('class="title"');
+    });
+  });
+});
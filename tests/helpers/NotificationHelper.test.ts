@@ -121,6 +121,40 @@ describe('NotificationHelper', () => {
       expect(element.getAttribute('role')).toBe('alert');
       expect(element.getAttribute('aria-live')).toBe('polite');
     });
+
+    it('should render action buttons that run their handler and close the notification', () => {
+      const onRestore = vi.fn();
+      const element = NotificationHelper.show('Draft found', {
+        container,
+        duration: 0,
+        actions: [
+          { label: 'Restore', onClick: onRestore },
+          { label: 'Discard', onClick: vi.fn() },
+        ],
+      });
+
+      const buttons = element.querySelectorAll<HTMLButtonElement>('.editor-notification-action');
+      expect(Array.from(buttons, button => button.textContent)).toEqual(['Restore', 'Discard']);
+
+      buttons[0]!.click();
+
+      expect(onRestore).toHaveBeenCalledTimes(1);
+      expect(element.style.opacity).toBe('0');
+    });
+
+    it('should mark the notification with the editor theme', () => {
+      const options = NotificationHelper.getDefaultOptions();
+
+      expect(
+        NotificationHelper.createNotificationElement('Test', { ...options, theme: 'dark' }).dataset
+          .editorTheme
+      ).toBe('dark');
+      expect(
+        NotificationHelper.createNotificationElement('Test', options).hasAttribute(
+          'data-editor-theme'
+        )
+      ).toBe(false);
+    });
   });
 
   describe('show', () => {
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  PersistenceHelper,
+  type RecoverySnapshot,
+  type StorageAdapter,
+} from '@helpers/PersistenceHelper';
+import { SerializationHelper, type SerializedDocument } from '@helpers/SerializationHelper';
+import { HTMLTemplateHelper } from '@helpers/HTMLTemplateHelper';
+
+describe('PersistenceHelper', () => {
+  const createDocument = (text: string): SerializedDocument =>
+    SerializationHelper.serialize(
+      [{ id: 1, type: 'title', props: { text, level: 1 } }],
+      HTMLTemplateHelper.getDefaultTemplate(),
+      {}
+    );
+
+  describe('getDefaultOptions', () => {
+    it('should return default options', () => {
+      expect(PersistenceHelper.getDefaultOptions()).toEqual({
+        debounce: 1000,
+        snapshots: 5,
+        snapshotInterval: 300000,
+        promptRestore: true,
+      });
+    });
+  });
+
+  describe('createLocalStorageAdapter', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should read and write localStorage', async () => {
+      const adapter = PersistenceHelper.createLocalStorageAdapter();
+
+      await adapter.setItem('draft', 'value');
+      expect(localStorage.getItem('draft')).toBe('value');
+      await expect(adapter.getItem('draft')).resolves.toBe('value');
+
+      await adapter.removeItem('draft');
+      await expect(adapter.getItem('draft')).resolves.toBeNull();
+    });
+  });
+
+  describe('createIndexedDBAdapter', () => {
+    it('should read and write IndexedDB', async () => {
+      const adapter = PersistenceHelper.createIndexedDBAdapter(
+        'test-db',
+        'drafts',
+        new IDBFactory()
+      );
+
+      await expect(adapter.getItem('draft')).resolves.toBeNull();
+      await adapter.setItem('draft', 'first');
+      await adapter.setItem('draft', 'second');
+      await expect(adapter.getItem('draft')).resolves.toBe('second');
+
+      await adapter.removeItem('draft');
+      await expect(adapter.getItem('draft')).resolves.toBeNull();
+    });
+
+    it('should share data between adapters of the same database', async () => {
+      const factory = new IDBFactory();
+      await PersistenceHelper.createIndexedDBAdapter('shared', 'drafts', factory).setItem('a', '1');
+
+      const other = PersistenceHelper.createIndexedDBAdapter('shared', 'drafts', factory);
+      await expect(other.getItem('a')).resolves.toBe('1');
+    });
+  });
+
+  describe('snapshots', () => {
+    let adapter: StorageAdapter;
+    let store: Map<string, string>;
+
+    beforeEach(() => {
+      store = new Map();
+      adapter = {
+        getItem: async key => store.get(key) ?? null,
+        setItem: async (key, value) => {
+          store.set(key, value);
+        },
+        removeItem: async key => {
+          store.delete(key);
+        },
+      };
+    });
+
+    it('should keep the newest snapshots first', async () => {
+      await PersistenceHelper.saveSnapshot(adapter, 'k', createDocument('One'), 2);
+      await PersistenceHelper.saveSnapshot(adapter, 'k', createDocument('Two'), 2);
+      const snapshots = await PersistenceHelper.saveSnapshot(
+        adapter,
+        'k',
+        createDocument('Three'),
+        2
+      );
+
+      expect(snapshots.map(snapshot => snapshot.document.elements[0]?.props.text)).toEqual([
+        'Three',
+        'Two',
+      ]);
+      await expect(PersistenceHelper.loadSnapshots(adapter, 'k')).resolves.toEqual(snapshots);
+    });
+
+    it('should treat unreadable data as no snapshots', async () => {
+      store.set('k', '{not json');
+      await expect(PersistenceHelper.loadSnapshots(adapter, 'k')).resolves.toEqual([]);
+
+      store.set('k', '{"snapshots": 1}');
+      await expect(PersistenceHelper.loadSnapshots(adapter, 'k')).resolves.toEqual([]);
+    });
+
+    it('should drop snapshots that are not valid documents', async () => {
+      const valid = { savedAt: '2024-05-01T12:00:00.000Z', document: createDocument('One') };
+      store.set(
+        'k',
+        JSON.stringify([
+          { savedAt: '2024-05-01T12:05:00.000Z', document: { format: 'other' } },
+          { savedAt: 'yesterday', document: createDocument('Two') },
+          null,
+          valid,
+        ])
+      );
+
+      await expect(PersistenceHelper.loadSnapshots(adapter, 'k')).resolves.toEqual([valid]);
+    });
+
+    it('should replace the newest snapshot until the interval has passed', async () => {
+      vi.useFakeTimers({ now: new Date('2024-05-01T12:00:00.000Z') });
+      const save = (text: string) =>
+        PersistenceHelper.saveSnapshot(adapter, 'k', createDocument(text), 5, 60000);
+
+      await save('One');
+      await save('Two');
+      vi.advanceTimersByTime(30000);
+      await save('Three');
+      vi.advanceTimersByTime(30000);
+      await save('Four');
+      const snapshots = await save('Five');
+      vi.useRealTimers();
+
+      expect(snapshots.map(snapshot => snapshot.document.elements[0]?.props.text)).toEqual([
+        'Five',
+        'Four',
+        'One',
+      ]);
+    });
+
+    it('should clear snapshots', async () => {
+      await PersistenceHelper.saveSnapshot(adapter, 'k', createDocument('One'), 5);
+      await PersistenceHelper.clearSnapshots(adapter, 'k');
+
+      await expect(PersistenceHelper.loadSnapshots(adapter, 'k')).resolves.toEqual([]);
+    });
+  });
+
+  describe('isRestorable', () => {
+    const snapshot: RecoverySnapshot = {
+      savedAt: '2024-05-01T12:00:00.000Z',
+      document: createDocument('Draft'),
+    };
+
+    it('should offer drafts that differ from the initial content', () => {
+      expect(PersistenceHelper.isRestorable(snapshot, [])).toBe(true);
+      expect(PersistenceHelper.isRestorable(snapshot, snapshot.document.elements)).toBe(false);
+      expect(PersistenceHelper.isRestorable(undefined, [])).toBe(false);
+    });
+
+    it('should only offer drafts newer than the initial content', () => {
+      expect(PersistenceHelper.isRestorable(snapshot, [], '2024-04-30T00:00:00.000Z')).toBe(true);
+      expect(PersistenceHelper.isRestorable(snapshot, [], new Date('2024-05-02'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { PreviewDeviceHelper } from '@helpers/PreviewDeviceHelper';
+
+describe('PreviewDeviceHelper', () => {
+  const defaults = PreviewDeviceHelper.getDefault();
+
+  describe('update', () => {
+    it('should merge changes into the current device', () => {
+      expect(PreviewDeviceHelper.update(defaults, { device: 'phone', zoom: 75 })).toEqual({
+        device: 'phone',
+        orientation: 'portrait',
+        zoom: 75,
+      });
+    });
+
+    it('should throw for unknown devices and zoom levels', () => {
+      expect(() => PreviewDeviceHelper.update(defaults, { device: 'watch' as 'phone' })).toThrow(
+        'Unknown preview device: watch'
+      );
+      expect(() => PreviewDeviceHelper.update(defaults, { zoom: 42 as 50 })).toThrow(
+        'Unknown zoom level: 42'
+      );
+    });
+
+    it('should require a size for custom devices', () => {
+      expect(() => PreviewDeviceHelper.update(defaults, { device: 'custom', width: 320 })).toThrow(
+        'Custom preview size must be positive integers'
+      );
+      expect(
+        PreviewDeviceHelper.update(defaults, { device: 'custom', width: 320, height: 480 }).width
+      ).toBe(320);
+    });
+  });
+
+  describe('getFrameSize', () => {
+    it('should follow the breakpoint width on the responsive device', () => {
+      expect(PreviewDeviceHelper.getFrameSize(defaults, 767)).toEqual({ width: 767 });
+      expect(PreviewDeviceHelper.getFrameSize(defaults)).toEqual({ width: undefined });
+    });
+
+    it('should use preset and custom sizes and swap them in landscape', () => {
+      const phone = PreviewDeviceHelper.update(defaults, { device: 'phone' });
+      const custom = PreviewDeviceHelper.update(defaults, {
+        device: 'custom',
+        width: 320,
+        height: 480,
+        orientation: 'landscape',
+      });
+
+      expect(PreviewDeviceHelper.getFrameSize(phone)).toEqual({ width: 375, height: 667 });
+      expect(PreviewDeviceHelper.getFrameSize({ ...phone, orientation: 'landscape' })).toEqual({
+        width: 667,
+        height: 375,
+      });
+      expect(PreviewDeviceHelper.getFrameSize(custom)).toEqual({ width: 480, height: 320 });
+    });
+  });
+
+  describe('getScale', () => {
+    const available = { width: 800, height: 600 };
+
+    it('should convert zoom percentages', () => {
+      expect(PreviewDeviceHelper.getScale(150, { width: 375 }, available)).toBe(1.5);
+    });
+
+    it('should shrink to fit the preview area without enlarging', () => {
+      expect(PreviewDeviceHelper.getScale('fit', { width: 1600, height: 900 }, available)).toBe(
+        0.5
+      );
+      expect(
+        PreviewDeviceHelper.getScale('fit', { width: 375, height: 667 }, available)
+      ).toBeCloseTo(600 / 667);
+      expect(PreviewDeviceHelper.getScale('fit', { width: 375 }, available)).toBe(1);
+      expect(PreviewDeviceHelper.getScale('fit', { width: 1600 }, { width: 0, height: 0 })).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PreviewPatchHelper, type PreviewNode } from '@helpers/PreviewPatchHelper';
+
+describe('PreviewPatchHelper', () => {
+  let root: HTMLElement;
+
+  const leaf = (id: number, text = `Element ${id}`): PreviewNode => ({
+    id,
+    html: `<div class="preview-element" data-element-id="${id}">${text}</div>`,
+    slots: [],
+  });
+
+  const container = (id: number, children: PreviewNode[][]): PreviewNode => ({
+    id,
+    html: `<div class="preview-element" data-element-id="${id}">${children
+      .map(
+        (_, slot) =>
+          `<div class="preview-slot is-empty" data-parent-id="${id}" data-slot="${slot}"></div>`
+      )
+      .join('')}</div>`,
+    slots: children,
+  });
+
+  const getNode = (id: number) => root.querySelector(`[data-element-id="${id}"]`);
+  const getOrder = (zone: Element = root) =>
+    Array.from(zone.children, el => Number(el.getAttribute('data-element-id')));
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    root.innerHTML = '<div class="empty-state">Empty</div>';
+  });
+
+  it('should render nodes and remove placeholders', () => {
+    PreviewPatchHelper.patch(root, [leaf(1), leaf(2)]);
+
+    expect(getOrder()).toEqual([1, 2]);
+    expect(root.querySelector('.empty-state')).toBeNull();
+  });
+
+  it('should replace only nodes whose markup changed', () => {
+    PreviewPatchHelper.patch(root, [leaf(1), leaf(2)]);
+    const first = getNode(1);
+    const second = getNode(2);
+    first!.classList.add('selected');
+
+    PreviewPatchHelper.patch(root, [leaf(1), leaf(2, 'Changed')]);
+
+    expect(getNode(1)).toBe(first);
+    expect(getNode(1)?.classList.contains('selected')).toBe(true);
+    expect(getNode(2)).not.toBe(second);
+    expect(getNode(2)?.textContent).toBe('Changed');
+  });
+
+  it('should move, insert and delete keyed nodes', () => {
+    PreviewPatchHelper.patch(root, [leaf(1), leaf(2), leaf(3)]);
+    const [first, , third] = [getNode(1), getNode(2), getNode(3)];
+
+    PreviewPatchHelper.patch(root, [leaf(3), leaf(4), leaf(1)]);
+
+    expect(getOrder()).toEqual([3, 4, 1]);
+    expect(getNode(1)).toBe(first);
+    expect(getNode(3)).toBe(third);
+    expect(getNode(2)).toBeNull();
+  });
+
+  it('should patch container slots and keep moved children', () => {
+    PreviewPatchHelper.patch(root, [container(1, [[], []]), leaf(2)]);
+    const child = getNode(2);
+
+    PreviewPatchHelper.patch(root, [container(1, [[leaf(2)], []])]);
+
+    const [firstSlot, secondSlot] = PreviewPatchHelper.getSlots(getNode(1)!, 1);
+    expect(getOrder()).toEqual([1]);
+    expect(getOrder(firstSlot)).toEqual([2]);
+    expect(getNode(2)).toBe(child);
+    expect(firstSlot?.classList.contains('is-empty')).toBe(false);
+    expect(secondSlot?.classList.contains('is-empty')).toBe(true);
+  });
+
+  it('should keep children when their container is re-rendered', () => {
+    PreviewPatchHelper.patch(root, [container(1, [[leaf(2)]])]);
+    const child = getNode(2);
+
+    const changed = container(1, [[leaf(2)]]);
+    changed.html = changed.html.replace('preview-element', 'preview-element has-error');
+    PreviewPatchHelper.patch(root, [changed]);
+
+    expect(getNode(1)?.classList.contains('has-error')).toBe(true);
+    expect(getNode(2)).toBe(child);
+  });
+
+  it('should reject markup without an element', () => {
+    expect(() => PreviewPatchHelper.createElement(document, 'text only')).toThrow(
+      'Preview markup must contain an element'
+    );
+  });
+});
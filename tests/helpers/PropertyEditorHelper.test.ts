@@ -0,0 +1,362 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PropertyEditorHelper,
+  type FieldWidget,
+  type PropsSchema,
+} from '@helpers/PropertyEditorHelper';
+
+const createContainer = (html: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+describe('PropertyEditorHelper', () => {
+  const schema: PropsSchema = {
+    title: { kind: 'text', label: 'Title', placeholder: 'Untitled' },
+    body: { kind: 'textarea', label: 'Body', rows: 6 },
+    size: { kind: 'number', label: 'Size', integer: true, min: 0 },
+    align: {
+      kind: 'select',
+      label: 'Align',
+      options: [
+        { value: 'left', label: 'Left' },
+        { value: 'right', label: 'Right' },
+      ],
+    },
+    visible: { kind: 'boolean', label: 'Visible' },
+    color: { kind: 'color', label: 'Color' },
+    href: { kind: 'url', label: 'Link' },
+    tags: { kind: 'string-array', label: 'Tags', itemDefault: 'tag' },
+    links: {
+      kind: 'object-array',
+      label: 'Links',
+      fields: {
+        label: { kind: 'text', label: 'Label' },
+        url: { kind: 'url', label: 'URL' },
+      },
+    },
+    author: {
+      kind: 'object',
+      label: 'Author',
+      fields: { name: { kind: 'text', label: 'Name' } },
+    },
+  };
+
+  describe('renderEditor', () => {
+    const props = {
+      title: 'Hello <b>',
+      body: 'Text',
+      size: 3,
+      align: 'right',
+      visible: true,
+      color: '#ff0000',
+      href: 'https://example.com',
+      tags: ['a', 'b'],
+      links: [{ label: 'Home', url: '/' }],
+      author: { name: 'Ann' },
+    };
+
+    it('should render one input per field with value paths', () => {
+      const container = createContainer(PropertyEditorHelper.renderEditor(schema, props));
+      const paths = Array.from(container.querySelectorAll<HTMLElement>('[data-prop-path]')).map(
+        input => input.dataset.propPath
+      );
+
+      expect(paths).toEqual([
+        'title',
+        'body',
+        'size',
+        'align',
+        'visible',
+        'color',
+        'href',
+        'tags.0',
+        'tags.1',
+        'links.0.label',
+        'links.0.url',
+        'author.name',
+      ]);
+    });
+
+    it('should render current values with escaping', () => {
+      const html = PropertyEditorHelper.renderEditor(schema, props);
+
+      expect(html).toContain('value="Hello &lt;b&gt;"');
+      expect(html).toContain('placeholder="Untitled"');
+      expect(html).toContain('<textarea rows="6"');
+      expect(html).toContain('<option value="right" selected>Right</option>');
+      expect(html).toContain('checked');
+      expect(html).toContain('type="color" value="#ff0000"');
+      expect(html).toContain('<legend>Author</legend>');
+    });
+
+    it('should escape quotes in attribute values', () => {
+      const container = createContainer(
+        PropertyEditorHelper.renderEditor(schema, {
+          ...props,
+          title: 'a" autofocus onfocus="alert(1)',
+        })
+      );
+      const input = container.querySelector<HTMLInputElement>('[data-prop-path="title"]')!;
+
+      expect(input.value).toBe('a" autofocus onfocus="alert(1)');
+      expect(input.hasAttribute('onfocus')).toBe(false);
+      expect(input.hasAttribute('autofocus')).toBe(false);
+    });
+
+    it('should render array controls', () => {
+      const container = createContainer(PropertyEditorHelper.renderEditor(schema, props));
+      const buttons = Array.from(
+        container.querySelectorAll<HTMLButtonElement>('[data-array-path="tags"]')
+      );
+
+      expect(buttons.map(button => button.dataset.arrayAction)).toEqual([
+        'up',
+        'down',
+        'remove',
+        'up',
+        'down',
+        'remove',
+        'add',
+      ]);
+      expect(buttons[0]?.disabled).toBe(true);
+      expect(buttons[4]?.disabled).toBe(true);
+      expect(buttons[6]?.dataset.index).toBe('2');
+    });
+
+    it('should render table grids with cell, alignment and row/column controls', () => {
+      const container = createContainer(
+        PropertyEditorHelper.renderEditor(
+          { grid: { kind: 'table-grid', label: 'Cells' } },
+          { grid: { align: ['left', 'right'], cells: [['a', 'b'], ['c']] } }
+        )
+      );
+      const paths = Array.from(container.querySelectorAll<HTMLElement>('[data-prop-path]')).map(
+        input => input.dataset.propPath
+      );
+
+      expect(paths).toEqual([
+        'grid.align.0',
+        'grid.align.1',
+        'grid.cells.0.0',
+        'grid.cells.0.1',
+        'grid.cells.1.0',
+      ]);
+      expect(
+        container.querySelector<HTMLSelectElement>('[data-prop-path="grid.align.1"]')?.value
+      ).toBe('right');
+      expect(container.querySelectorAll('.table-grid-missing')).toHaveLength(1);
+
+      const button = (axis: string, action: string, index: number) =>
+        container.querySelector<HTMLButtonElement>(
+          `[data-table-path="grid"][data-table-axis="${axis}"][data-table-action="${action}"][data-index="${index}"]`
+        );
+      expect(button('column', 'up', 0)?.disabled).toBe(true);
+      expect(button('column', 'down', 0)?.disabled).toBe(false);
+      expect(button('row', 'down', 1)?.disabled).toBe(true);
+      expect(button('row', 'add', 2)?.textContent).toBe('+ Row');
+      expect(button('column', 'add', 2)?.textContent).toBe('+ Column');
+    });
+
+    it('should throw for unknown field kinds', () => {
+      expect(() => PropertyEditorHelper.renderEditor({ x: { kind: 'stars' } }, {})).toThrow(
+        'No widget registered for field kind "stars"'
+      );
+    });
+
+    it('should render custom widgets', () => {
+      const stars: FieldWidget = {
+        render: (field, value, path) =>
+          `<input type="range" class="property-input" data-prop-path="${path}" max="${field.widgetOptions?.max}" value="${value}">`,
+        parse: input => Number(input.value),
+      };
+      const widgets = PropertyEditorHelper.registerWidget(
+        PropertyEditorHelper.getBuiltInWidgets(),
+        'stars',
+        stars
+      );
+
+      const html = PropertyEditorHelper.renderEditor(
+        { rating: { kind: 'stars', widgetOptions: { max: 5 } } },
+        { rating: 4 },
+        widgets
+      );
+
+      expect(html).toBe(
+        '<input type="range" class="property-input" data-prop-path="rating" max="5" value="4">'
+      );
+    });
+  });
+
+  describe('registerWidget', () => {
+    it('should return new widget map', () => {
+      const widgets = PropertyEditorHelper.getBuiltInWidgets();
+      const custom: FieldWidget = { render: () => '' };
+
+      const result = PropertyEditorHelper.registerWidget(widgets, 'text', custom);
+
+      expect(result.text).toBe(custom);
+      expect(widgets.text).not.toBe(custom);
+    });
+  });
+
+  describe('readValue', () => {
+    const widgets = PropertyEditorHelper.getBuiltInWidgets();
+
+    it('should parse numbers and treat empty input as undefined', () => {
+      const input = document.createElement('input');
+      input.value = '12.7';
+
+      expect(
+        PropertyEditorHelper.readValue(input, { kind: 'number', integer: true }, widgets)
+      ).toBe(12);
+      expect(PropertyEditorHelper.readValue(input, { kind: 'number' }, widgets)).toBe(12.7);
+
+      input.value = '';
+      expect(PropertyEditorHelper.readValue(input, { kind: 'number' }, widgets)).toBeUndefined();
+    });
+
+    it('should return typed select option values', () => {
+      const container = createContainer(
+        PropertyEditorHelper.renderEditor(
+          { level: { kind: 'select', options: [1, 2].map(i => ({ value: i, label: `H${i}` })) } },
+          { level: 1 }
+        )
+      );
+      const select = container.querySelector('select')!;
+      select.value = '2';
+
+      expect(
+        PropertyEditorHelper.readValue(
+          select,
+          { kind: 'select', options: [1, 2].map(i => ({ value: i, label: `H${i}` })) },
+          widgets
+        )
+      ).toBe(2);
+    });
+
+    it('should render token suggestions and parse plain numbers', () => {
+      const field = {
+        kind: 'token',
+        options: [{ value: 'var(--space-md)', label: 'md (16px)' }],
+      };
+      const container = createContainer(
+        PropertyEditorHelper.renderEditor(
+          { style: { kind: 'object', fields: { padding: field } } },
+          {
+            style: { padding: 'var(--space-md)' },
+          }
+        )
+      );
+      const input = container.querySelector<HTMLInputElement>('[data-prop-path="style.padding"]')!;
+
+      expect(input.getAttribute('list')).toBe('token-options-style-padding');
+      expect(container.querySelector('datalist option')?.getAttribute('value')).toBe(
+        'var(--space-md)'
+      );
+      expect(PropertyEditorHelper.readValue(input, field, widgets)).toBe('var(--space-md)');
+
+      input.value = '12';
+      expect(PropertyEditorHelper.readValue(input, field, widgets)).toBe(12);
+      input.value = ' ';
+      expect(PropertyEditorHelper.readValue(input, field, widgets)).toBeUndefined();
+    });
+
+    it('should read checkbox state', () => {
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.checked = true;
+
+      expect(PropertyEditorHelper.readValue(input, { kind: 'boolean' }, widgets)).toBe(true);
+    });
+  });
+
+  describe('paths', () => {
+    it('should find fields of nested paths', () => {
+      expect(PropertyEditorHelper.getFieldAtPath(schema, 'tags.1')).toEqual({ kind: 'text' });
+      expect(PropertyEditorHelper.getFieldAtPath(schema, 'links.0.url')?.label).toBe('URL');
+      expect(PropertyEditorHelper.getFieldAtPath(schema, 'author.name')?.label).toBe('Name');
+      expect(PropertyEditorHelper.getFieldAtPath(schema, 'links')?.kind).toBe('object-array');
+      expect(PropertyEditorHelper.getFieldAtPath(schema, 'missing.0')).toBeNull();
+    });
+
+    it('should read values at path', () => {
+      const value = { links: [{ label: 'Home' }] };
+
+      expect(PropertyEditorHelper.getValueAtPath(value, ['links', '0', 'label'])).toBe('Home');
+      expect(PropertyEditorHelper.getValueAtPath(value, ['links', '3', 'label'])).toBeUndefined();
+    });
+
+    it('should set values without mutating the original', () => {
+      const links = [{ label: 'Home', url: '/' }];
+
+      const result = PropertyEditorHelper.setValueAtPath(links, ['0', 'label'], 'Start');
+
+      expect(result).toEqual([{ label: 'Start', url: '/' }]);
+      expect(links[0]?.label).toBe('Home');
+    });
+  });
+
+  describe('applyArrayAction', () => {
+    const field = { kind: 'string-array', itemDefault: 'new' };
+
+    it('should add items at index', () => {
+      expect(PropertyEditorHelper.applyArrayAction(['a', 'b'], 'add', 1, field)).toEqual([
+        'a',
+        'new',
+        'b',
+      ]);
+    });
+
+    it('should remove items', () => {
+      expect(PropertyEditorHelper.applyArrayAction(['a', 'b'], 'remove', 0, field)).toEqual(['b']);
+    });
+
+    it('should move items and ignore moves past the ends', () => {
+      expect(PropertyEditorHelper.applyArrayAction(['a', 'b', 'c'], 'up', 2, field)).toEqual([
+        'a',
+        'c',
+        'b',
+      ]);
+      expect(PropertyEditorHelper.applyArrayAction(['a', 'b'], 'down', 0, field)).toEqual([
+        'b',
+        'a',
+      ]);
+      expect(PropertyEditorHelper.applyArrayAction(['a', 'b'], 'up', 0, field)).toEqual(['a', 'b']);
+    });
+
+    it('should create object items from fields', () => {
+      const linksField = schema.links!;
+
+      expect(PropertyEditorHelper.applyArrayAction([], 'add', 0, linksField)).toEqual([
+        { label: '', url: '' },
+      ]);
+    });
+
+    it('should not share itemDefault between items', () => {
+      const objectField = { kind: 'object-array', itemDefault: { label: 'x' } };
+      const items = PropertyEditorHelper.applyArrayAction([], 'add', 0, objectField);
+
+      expect(items[0]).toEqual({ label: 'x' });
+      expect(items[0]).not.toBe(objectField.itemDefault);
+    });
+  });
+
+  describe('createDefaultProps', () => {
+    it('should derive defaults from field kinds', () => {
+      expect(PropertyEditorHelper.createDefaultProps(schema)).toEqual({
+        title: '',
+        body: '',
+        size: undefined,
+        align: 'left',
+        visible: false,
+        color: '#000000',
+        href: '',
+        tags: [],
+        links: [],
+        author: { name: '' },
+      });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { RichTextHelper, type InlineSpan } from '@helpers/RichTextHelper';
+
+const fragment = (html: string): HTMLElement => {
+  const element = document.createElement('div');
+  element.innerHTML = html;
+  return element;
+};
+
+describe('RichTextHelper', () => {
+  describe('normalize', () => {
+    it('should turn plain text into a single span', () => {
+      expect(RichTextHelper.normalize('Hello')).toEqual([{ text: 'Hello' }]);
+      expect(RichTextHelper.normalize('')).toEqual([]);
+      expect(RichTextHelper.normalize(42)).toEqual([]);
+    });
+
+    it('should order marks, drop unknown ones and merge spans with the same format', () => {
+      expect(
+        RichTextHelper.normalize([
+          { text: 'a', marks: ['italic', 'bold', 'blink'] },
+          { text: 'b', marks: ['bold', 'italic'] },
+          { text: '' },
+          { text: 'c' },
+        ])
+      ).toEqual([{ text: 'ab', marks: ['bold', 'italic'] }, { text: 'c' }]);
+    });
+
+    it('should keep only one of superscript and subscript', () => {
+      expect(
+        RichTextHelper.normalize([{ text: 'x', marks: ['subscript', 'superscript'] }])
+      ).toEqual([{ text: 'x', marks: ['superscript'] }]);
+    });
+
+    it('should drop links with disallowed schemes', () => {
+      expect(
+        RichTextHelper.normalize([
+          { text: 'a', link: { href: 'javascript:alert(1)' } },
+          { text: 'b', link: { href: ' java\tscript:alert(1)' } },
+        ])
+      ).toEqual([{ text: 'ab' }]);
+    });
+  });
+
+  describe('isSafeHref', () => {
+    it('should allow web, mail and phone links and links without a scheme', () => {
+      ['https://example.com', 'mailto:a@b.c', 'tel:+123', '/about', '#top', 'page.html'].forEach(
+        href => expect(RichTextHelper.isSafeHref(href)).toBe(true)
+      );
+    });
+
+    it('should reject script and data URLs and empty links', () => {
+      ['javascript:alert(1)', 'JavaScript:x', 'data:text/html,x', 'vbscript:x', ''].forEach(href =>
+        expect(RichTextHelper.isSafeHref(href)).toBe(false)
+      );
+    });
+  });
+
+  describe('simplify', () => {
+    it('should store unformatted spans as plain text', () => {
+      expect(RichTextHelper.simplify([{ text: 'a' }, { text: 'b' }])).toBe('ab');
+      expect(RichTextHelper.simplify([{ text: 'a', marks: ['bold'] }])).toEqual([
+        { text: 'a', marks: ['bold'] },
+      ]);
+    });
+  });
+
+  describe('toHTML', () => {
+    it('should escape text and render line breaks', () => {
+      expect(RichTextHelper.toHTML('<b>a</b>\nb')).toBe('&lt;b&gt;a&lt;/b&gt;<br>b');
+      expect(RichTextHelper.toHTML('a\nb', '\n')).toBe('a\nb');
+    });
+
+    it('should nest marks and wrap consecutive spans once', () => {
+      const value: InlineSpan[] = [
+        { text: 'a', marks: ['bold'] },
+        { text: 'b', marks: ['bold', 'italic'] },
+        { text: 'c' },
+      ];
+      expect(RichTextHelper.toHTML(value)).toBe('<strong>a<em>b</em></strong>c');
+    });
+
+    it('should render links with escaped attributes and skip unsafe ones', () => {
+      expect(
+        RichTextHelper.toHTML([
+          {
+            text: 'docs',
+            marks: ['code'],
+            link: { href: '/a?b="c"', target: '_blank', rel: 'noopener' },
+          },
+          { text: ' and ' },
+          { text: 'bad', link: { href: 'javascript:alert(1)' } },
+        ])
+      ).toBe(
+        '<a href="/a?b=&quot;c&quot;" target="_blank" rel="noopener"><code>docs</code></a> and bad'
+      );
+    });
+
+    it('should add a placeholder after a trailing line break when editing', () => {
+      expect(RichTextHelper.toEditableHTML('a\n')).toBe('a<br><br data-placeholder>');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should render marks with delimiters outside surrounding whitespace', () => {
+      expect(
+        RichTextHelper.toMarkdown([
+          { text: 'Say ' },
+          { text: 'hi ', marks: ['bold'] },
+          { text: 'now', marks: ['strike'] },
+        ])
+      ).toBe('Say **hi** ~~now~~');
+    });
+
+    it('should render links, code and marks without Markdown syntax', () => {
+      expect(
+        RichTextHelper.toMarkdown([
+          { text: 'site', link: { href: 'https://a.b/c d' } },
+          { text: ' ' },
+          { text: 'a`b', marks: ['code'] },
+          { text: '2', marks: ['superscript'] },
+        ])
+      ).toBe('[site](<https://a.b/c d>) ``a`b``<sup>2</sup>');
+    });
+
+    it('should render line breaks as hard breaks', () => {
+      expect(RichTextHelper.toMarkdown('a\nb')).toBe('a\\\nb');
+      expect(RichTextHelper.toMarkdown('a\nb', ' ')).toBe('a b');
+    });
+  });
+
+  describe('fromDOM', () => {
+    it('should read marks, links and line breaks', () => {
+      const spans = RichTextHelper.fromDOM(
+        fragment('<b>Bold</b> <a href="https://a.b" target="_blank"><i>link</i></a><br>end')
+      );
+
+      expect(spans).toEqual([
+        { text: 'Bold', marks: ['bold'] },
+        { text: ' ' },
+        { text: 'link', marks: ['italic'], link: { href: 'https://a.b', target: '_blank' } },
+        { text: '\nend' },
+      ]);
+    });
+
+    it('should read blocks created by the browser as lines', () => {
+      expect(RichTextHelper.fromDOM(fragment('one<div>two</div><div><br></div>'))).toEqual([
+        { text: 'one\ntwo\n\n' },
+      ]);
+    });
+
+    it('should drop unsafe links and unknown formatting', () => {
+      expect(
+        RichTextHelper.fromDOM(fragment('<a href="javascript:x">a</a><span style="x">b</span>'))
+      ).toEqual([{ text: 'ab' }]);
+    });
+
+    it('should collapse whitespace of imported markup', () => {
+      expect(
+        RichTextHelper.fromDOM(fragment('\n  Hello   <em>big </em>\n world <br>  next '), true)
+      ).toEqual([{ text: 'Hello ' }, { text: 'big ', marks: ['italic'] }, { text: 'world\nnext' }]);
+    });
+  });
+
+  describe('canRepresent', () => {
+    it('should accept formatting tags and safe links only', () => {
+      expect(RichTextHelper.canRepresent(fragment('a <strong>b</strong> <a href="/">c</a>'))).toBe(
+        true
+      );
+      expect(RichTextHelper.canRepresent(fragment('<span>a</span>'))).toBe(false);
+      expect(RichTextHelper.canRepresent(fragment('<em class="x">a</em>'))).toBe(false);
+      expect(RichTextHelper.canRepresent(fragment('<a href="/" id="x">a</a>'))).toBe(false);
+      expect(RichTextHelper.canRepresent(fragment('<a href="/" target="top">a</a>'))).toBe(false);
+      expect(RichTextHelper.canRepresent(fragment('a<br>b'), false)).toBe(false);
+    });
+  });
+
+  describe('editing', () => {
+    it('should toggle a mark on a range', () => {
+      const bold = RichTextHelper.toggleMark('Hello world', 0, 5, 'bold');
+      expect(bold).toEqual([{ text: 'Hello', marks: ['bold'] }, { text: ' world' }]);
+
+      expect(RichTextHelper.toggleMark(bold, 0, 5, 'bold')).toEqual([{ text: 'Hello world' }]);
+      expect(RichTextHelper.toggleMark(bold, 0, 8, 'bold')).toEqual([
+        { text: 'Hello wo', marks: ['bold'] },
+        { text: 'rld' },
+      ]);
+    });
+
+    it('should replace superscript with subscript', () => {
+      const value = RichTextHelper.toggleMark('x2', 1, 2, 'superscript');
+      expect(RichTextHelper.toggleMark(value, 1, 2, 'subscript')).toEqual([
+        { text: 'x' },
+        { text: '2', marks: ['subscript'] },
+      ]);
+    });
+
+    it('should link, unlink and clear ranges', () => {
+      const linked = RichTextHelper.applyCommand('see docs', 4, 8, 'link', { href: '/docs' });
+      expect(linked).toEqual([{ text: 'see ' }, { text: 'docs', link: { href: '/docs' } }]);
+      expect(RichTextHelper.applyCommand(linked, 4, 8, 'link', { href: ' ' })).toEqual([
+        { text: 'see docs' },
+      ]);
+      expect(
+        RichTextHelper.applyCommand(
+          [{ text: 'ab', marks: ['bold', 'italic'], link: { href: '/' } }],
+          0,
+          1,
+          'clear'
+        )
+      ).toEqual([{ text: 'a' }, { text: 'b', marks: ['bold', 'italic'], link: { href: '/' } }]);
+    });
+
+    it('should insert text with the formatting of the previous character', () => {
+      const value: InlineSpan[] = [{ text: 'ab', marks: ['bold'] }, { text: 'cd' }];
+
+      expect(RichTextHelper.insertText(value, 2, 2, 'X')).toEqual([
+        { text: 'abX', marks: ['bold'] },
+        { text: 'cd' },
+      ]);
+      expect(RichTextHelper.insertText(value, 1, 3, '\n')).toEqual([
+        { text: 'a\n', marks: ['bold'] },
+        { text: 'd' },
+      ]);
+      expect(RichTextHelper.insertText(value, 0, 0, '>')).toEqual([
+        { text: '>ab', marks: ['bold'] },
+        { text: 'cd' },
+      ]);
+    });
+  });
+
+  describe('getShortcutCommand', () => {
+    const key = (value: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+      key: value,
+      ctrlKey: false,
+      metaKey: false,
+      shiftKey: false,
+      altKey: false,
+      ...modifiers,
+    });
+
+    it('should map Ctrl and Cmd shortcuts to commands', () => {
+      expect(RichTextHelper.getShortcutCommand(key('b', { ctrlKey: true }))).toBe('bold');
+      expect(RichTextHelper.getShortcutCommand(key('I', { metaKey: true }))).toBe('italic');
+      expect(RichTextHelper.getShortcutCommand(key('X', { ctrlKey: true, shiftKey: true }))).toBe(
+        'strike'
+      );
+      expect(RichTextHelper.getShortcutCommand(key('k', { ctrlKey: true }))).toBe('link');
+    });
+
+    it('should ignore other keys', () => {
+      expect(RichTextHelper.getShortcutCommand(key('b'))).toBeNull();
+      expect(RichTextHelper.getShortcutCommand(key('x', { ctrlKey: true }))).toBeNull();
+      expect(RichTextHelper.getShortcutCommand(key('b', { ctrlKey: true, altKey: true }))).toBe(
+        null
+      );
+    });
+  });
+
+  describe('selection offsets', () => {
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should convert the selection to character offsets and back', () => {
+      const root = fragment(
+        RichTextHelper.toHTML([{ text: 'ab', marks: ['bold'] }, { text: 'c\nd' }])
+      );
+      document.body.appendChild(root);
+
+      RichTextHelper.setSelectionOffsets(root, 1, 5);
+      expect(document.getSelection()?.toString()).toBe('bcd');
+      expect(RichTextHelper.getSelectionOffsets(root)).toEqual([1, 5]);
+    });
+
+    it('should return null when the selection is outside the element', () => {
+      const root = fragment('text');
+      const other = fragment('other');
+      document.body.append(root, other);
+
+      RichTextHelper.setSelectionOffsets(other, 0, 2);
+      expect(RichTextHelper.getSelectionOffsets(root)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SerializationHelper,
+  DOCUMENT_FORMAT,
+  DOCUMENT_VERSION,
+  type SerializedDocument,
+} from '@helpers/SerializationHelper';
+import { ElementTypesHelper, type ElementType } from '@helpers/ElementTypesHelper';
+import { HTMLTemplateHelper } from '@helpers/HTMLTemplateHelper';
+
+describe('SerializationHelper', () => {
+  const elementTypes = ElementTypesHelper.getAllElementTypes();
+  const template = HTMLTemplateHelper.getDefaultTemplate();
+  const elements = [
+    { id: 1, type: 'title', props: { text: 'Hello', level: 1 } },
+    { id: 2, type: 'list', props: { items: ['a', 'b'], ordered: false } },
+  ];
+
+  describe('serialize', () => {
+    it('should create versioned document envelope', () => {
+      const doc = SerializationHelper.serialize(elements, template, elementTypes);
+
+      expect(doc.format).toBe(DOCUMENT_FORMAT);
+      expect(doc.version).toBe(DOCUMENT_VERSION);
+      expect(doc.elements).toEqual(elements);
+      expect(doc.elementVersions).toEqual({ title: 1, list: 1 });
+      expect(doc.template).toEqual(template);
+      expect(doc.metadata.createdAt).toBe(doc.metadata.updatedAt);
+    });
+
+    it('should not share references with the source elements', () => {
+      const doc = SerializationHelper.serialize(elements, template, elementTypes);
+
+      expect(doc.elements[1]?.props.items).not.toBe(elements[1]?.props.items);
+    });
+
+    it('should preserve createdAt and custom metadata', () => {
+      const doc = SerializationHelper.serialize(elements, template, elementTypes, {
+        createdAt: '2024-01-01T00:00:00.000Z',
+        author: 'editor',
+      });
+
+      expect(doc.metadata.createdAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(doc.metadata.author).toBe('editor');
+    });
+
+    it('should produce documents valid against the schema', () => {
+      const doc = SerializationHelper.serialize(elements, template, elementTypes);
+      const json = JSON.parse(JSON.stringify(doc));
+
+      expect(SerializationHelper.validateEnvelope(json)).toEqual([]);
+    });
+  });
+
+  describe('validateAgainstSchema', () => {
+    it('should report type mismatches with paths', () => {
+      const errors = SerializationHelper.validateAgainstSchema(
+        { count: 'one' },
+        { type: 'object', properties: { count: { type: 'integer' } } }
+      );
+
+      expect(errors).toEqual(['$.count: must be of type integer']);
+    });
+
+    it('should report missing required properties', () => {
+      const errors = SerializationHelper.validateAgainstSchema(
+        {},
+        { type: 'object', required: ['id'] }
+      );
+
+      expect(errors).toEqual(['$: missing required property "id"']);
+    });
+
+    it('should validate array items and resolve references', () => {
+      const errors = SerializationHelper.validateAgainstSchema([1, 'two'], {
+        type: 'array',
+        items: { $ref: '#/$defs/num' },
+        $defs: { num: { type: 'number' } },
+      });
+
+      expect(errors).toEqual(['$[1]: must be of type number']);
+    });
+
+    it('should check const, enum, minimum and additionalProperties', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          kind: { const: 'doc' },
+          size: { enum: ['s', 'm'] },
+          count: { type: 'integer', minimum: 1 },
+        },
+        additionalProperties: false,
+      };
+
+      const errors = SerializationHelper.validateAgainstSchema(
+        { kind: 'page', size: 'xl', count: 0, extra: true },
+        schema
+      );
+
+      expect(errors).toHaveLength(4);
+    });
+  });
+
+  describe('validateEnvelope', () => {
+    it('should reject non-document values', () => {
+      expect(SerializationHelper.validateEnvelope(null)).toEqual(['$: must be of type object']);
+      expect(SerializationHelper.validateEnvelope([])).toEqual(['$: must be of type object']);
+    });
+
+    it('should reject raw element arrays without version tag', () => {
+      const errors = SerializationHelper.validateEnvelope({ elements });
+
+      expect(errors).toContain('$: missing required property "version"');
+    });
+
+    it('should reject documents newer than the supported version', () => {
+      const doc = SerializationHelper.serialize(elements, template, elementTypes);
+
+      const errors = SerializationHelper.validateEnvelope({
+        ...doc,
+        version: DOCUMENT_VERSION + 1,
+      });
+
+      expect(errors[0]).toContain('newer than supported version');
+    });
+
+    it('should reject malformed elements', () => {
+      const doc = SerializationHelper.serialize(elements, template, elementTypes);
+
+      const errors = SerializationHelper.validateEnvelope({
+        ...doc,
+        elements: [{ id: 'x', type: '', props: [] }],
+      });
+
+      expect(errors).toEqual([
+        '$.elements[0].id: must be of type number',
+        '$.elements[0].type: must have at least 1 character(s)',
+        '$.elements[0].props: must be of type object',
+      ]);
+    });
+  });
+
+  describe('deserialize', () => {
+    const createVersionedType = (): ElementType => ({
+      ...ElementTypesHelper.createTitleElement(),
+      version: 3,
+      migrations: {
+        1: props => ({ text: props.label, level: 1 }),
+        2: props => ({ ...props, level: Number(props.level) + 1 }),
+      },
+    });
+
+    const createStoredDocument = (): SerializedDocument => ({
+      format: DOCUMENT_FORMAT,
+      version: 1,
+      elements: [{ id: 1, type: 'title', props: { label: 'Old title' } }],
+      elementVersions: { title: 1 },
+      template,
+      metadata: { createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' },
+    });
+
+    it('should throw for invalid documents', () => {
+      expect(() => SerializationHelper.deserialize({ foo: 1 }, elementTypes)).toThrow(
+        /^Invalid document:/
+      );
+    });
+
+    it('should run migrations in order up to the registered version', () => {
+      const loaded = SerializationHelper.deserialize(createStoredDocument(), {
+        title: createVersionedType(),
+      });
+
+      expect(loaded.elements[0]?.props).toEqual({ text: 'Old title', level: 2 });
+      expect(loaded.elementVersions.title).toBe(3);
+    });
+
+    it('should keep the style prop out of migrations', () => {
+      const stored = createStoredDocument();
+      stored.elements[0]!.props = { label: 'Old title', style: { color: 'red' } };
+
+      const loaded = SerializationHelper.deserialize(stored, { title: createVersionedType() });
+
+      expect(loaded.elements[0]?.props).toEqual({
+        text: 'Old title',
+        level: 2,
+        style: { color: 'red' },
+      });
+    });
+
+    it('should not modify the stored document', () => {
+      const stored = createStoredDocument();
+
+      SerializationHelper.deserialize(stored, { title: createVersionedType() });
+
+      expect(stored.elements[0]?.props).toEqual({ label: 'Old title' });
+    });
+
+    it('should throw when a migration step is missing', () => {
+      const elementType = { ...createVersionedType(), migrations: {} };
+
+      expect(() =>
+        SerializationHelper.deserialize(createStoredDocument(), { title: elementType })
+      ).toThrow('Missing migration for element type "title" from version 1');
+    });
+
+    it('should throw when stored element version is newer than registered', () => {
+      const stored = { ...createStoredDocument(), elementVersions: { title: 5 } };
+
+      expect(() => SerializationHelper.deserialize(stored, elementTypes)).toThrow(
+        'Element type "title" version 5 is newer than registered version 1'
+      );
+    });
+
+    it('should migrate nested children', () => {
+      const stored = {
+        ...createStoredDocument(),
+        elements: [
+          {
+            id: 1,
+            type: 'section',
+            props: {},
+            children: [[{ id: 2, type: 'title', props: { label: 'Nested' } }]],
+          },
+        ],
+        elementVersions: { section: 1, title: 1 },
+      };
+
+      const loaded = SerializationHelper.deserialize(stored, {
+        ...elementTypes,
+        title: createVersionedType(),
+      });
+
+      expect(loaded.elements[0]?.children?.[0]?.[0]?.props).toEqual({ text: 'Nested', level: 2 });
+    });
+
+    it('should reject malformed children', () => {
+      const errors = SerializationHelper.validateEnvelope({
+        ...createStoredDocument(),
+        elements: [{ id: 1, type: 'section', props: {}, children: [{ id: 2 }] }],
+      });
+
+      expect(errors).toEqual(['$.elements[0].children[0]: must be of type array']);
+    });
+
+    it('should keep elements of unknown types untouched', () => {
+      const stored = {
+        ...createStoredDocument(),
+        elements: [{ id: 9, type: 'custom', props: { value: 1 } }],
+        elementVersions: { custom: 2 },
+      };
+
+      const loaded = SerializationHelper.deserialize(stored, elementTypes);
+
+      expect(loaded.elements).toEqual(stored.elements);
+      expect(loaded.elementVersions.custom).toBe(2);
+    });
+  });
+});
@@ -50,6 +50,14 @@ describe('StylesHelper', () => {
       expect(styles).toContain('var(--text-color, #333)');
     });
 
+    it('should take colors from theme variables', () => {
+      const styles = StylesHelper.getEditorStyles();
+
+      expect(styles).toContain('background: var(--input-bg, #fff)');
+      expect(styles).toContain('color: var(--primary-text, #fff)');
+      expect(styles).not.toMatch(/:\s*(white|#[0-9a-f]{3,6});/i);
+    });
+
     it('should return as a string', () => {
       const styles = StylesHelper.getEditorStyles();
       expect(typeof styles).toBe('string');
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { TableHelper, type TableGrid } from '@helpers/TableHelper';
+
+describe('TableHelper', () => {
+  const grid: TableGrid = {
+    align: ['left', 'right'],
+    cells: [
+      ['a', 'b'],
+      ['c', 'd'],
+    ],
+  };
+
+  describe('normalize', () => {
+    it('should read cells as strings and fill in column alignment', () => {
+      expect(
+        TableHelper.normalize({ align: ['center', 'middle'], cells: [['a', 1, null], 'x', ['b']] })
+      ).toEqual({
+        align: ['center', 'left', 'left'],
+        cells: [['a', '1', ''], [], ['b']],
+      });
+    });
+
+    it('should return an empty grid for missing values', () => {
+      expect(TableHelper.normalize(undefined)).toEqual({ align: [], cells: [] });
+    });
+  });
+
+  describe('applyGridAction', () => {
+    it('should add, move and remove rows', () => {
+      const added = TableHelper.applyGridAction(grid, 'row', 'add', 1);
+      expect(added.cells).toEqual([
+        ['a', 'b'],
+        ['', ''],
+        ['c', 'd'],
+      ]);
+
+      expect(TableHelper.applyGridAction(grid, 'row', 'down', 0).cells).toEqual([
+        ['c', 'd'],
+        ['a', 'b'],
+      ]);
+      expect(TableHelper.applyGridAction(grid, 'row', 'up', 0).cells).toEqual(grid.cells);
+      expect(TableHelper.applyGridAction(grid, 'row', 'remove', 0).cells).toEqual([['c', 'd']]);
+    });
+
+    it('should move column alignment with its column', () => {
+      expect(TableHelper.applyGridAction(grid, 'column', 'add', 1)).toEqual({
+        align: ['left', 'left', 'right'],
+        cells: [
+          ['a', '', 'b'],
+          ['c', '', 'd'],
+        ],
+      });
+      expect(TableHelper.applyGridAction(grid, 'column', 'up', 1)).toEqual({
+        align: ['right', 'left'],
+        cells: [
+          ['b', 'a'],
+          ['d', 'c'],
+        ],
+      });
+      expect(TableHelper.applyGridAction(grid, 'column', 'remove', 0)).toEqual({
+        align: ['right'],
+        cells: [['b'], ['d']],
+      });
+    });
+
+    it('should not mutate the grid', () => {
+      TableHelper.applyGridAction(grid, 'column', 'remove', 0);
+      expect(grid.cells).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('should add a first row to an empty grid', () => {
+      expect(TableHelper.applyGridAction({ align: [], cells: [] }, 'row', 'add', 0)).toEqual({
+        align: ['left'],
+        cells: [['']],
+      });
+    });
+  });
+
+  describe('parseClipboard', () => {
+    it('should parse tab-separated rows', () => {
+      expect(TableHelper.parseClipboard('Plan\tPrice\r\nPro\t$10\r\n')).toEqual([
+        ['Plan', 'Price'],
+        ['Pro', '$10'],
+      ]);
+    });
+
+    it('should parse CSV with quoted cells', () => {
+      expect(TableHelper.parseClipboard('a,"b, c"\n"say ""hi""","two\nlines"')).toEqual([
+        ['a', 'b, c'],
+        ['say "hi"', 'two\nlines'],
+      ]);
+    });
+
+    it('should leave single-cell text to the browser', () => {
+      expect(TableHelper.parseClipboard('Hello, world')).toBeNull();
+      expect(TableHelper.parseClipboard('Hello\n')).toBeNull();
+    });
+  });
+
+  describe('pasteCells', () => {
+    it('should overwrite cells from the given cell', () => {
+      expect(TableHelper.pasteCells(grid, 1, 1, [['x']])).toEqual({
+        align: ['left', 'right'],
+        cells: [
+          ['a', 'b'],
+          ['c', 'x'],
+        ],
+      });
+    });
+
+    it('should grow the grid to fit the pasted block', () => {
+      expect(
+        TableHelper.pasteCells(grid, 1, 1, [
+          ['x', 'y'],
+          ['z', 'w'],
+        ])
+      ).toEqual({
+        align: ['left', 'right', 'left'],
+        cells: [
+          ['a', 'b', ''],
+          ['c', 'x', 'y'],
+          ['', 'z', 'w'],
+        ],
+      });
+    });
+  });
+});
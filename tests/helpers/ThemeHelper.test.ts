@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ThemeHelper } from '@helpers/ThemeHelper';
+
+describe('ThemeHelper', () => {
+  describe('createTheme', () => {
+    it('should fill missing token groups from the default theme', () => {
+      const theme = ThemeHelper.createTheme({ name: 'dark', colors: { text: '#eeeeee' } });
+
+      expect(theme.label).toBe('dark');
+      expect(theme.colors).toEqual({ text: '#eeeeee' });
+      expect(theme.spacing).toEqual(ThemeHelper.getDefaultTheme().spacing);
+    });
+
+    it('should reject invalid token names and values', () => {
+      expect(() => ThemeHelper.createTheme({ name: 'x', colors: { 'a b': 'red' } })).toThrow(
+        'Invalid token name "a b" in theme "x"'
+      );
+      expect(() => ThemeHelper.createTheme({ name: 'x', fonts: { body: 'a; b' } })).toThrow(
+        'Invalid value of token "fonts.body" in theme "x"'
+      );
+    });
+  });
+
+  describe('createThemes', () => {
+    it('should use the default theme when none are configured', () => {
+      expect(ThemeHelper.createThemes([]).map(theme => theme.name)).toEqual(['default']);
+    });
+
+    it('should require unique names', () => {
+      expect(() => ThemeHelper.createThemes([{ name: 'a' }, { name: 'a' }])).toThrow(
+        'Theme names must be unique'
+      );
+    });
+  });
+
+  describe('getVariables', () => {
+    it('should prefix tokens by group and add pixel units to numbers', () => {
+      const theme = ThemeHelper.createTheme({
+        name: 'x',
+        colors: { primary: '#000000' },
+        fonts: { body: 'serif' },
+        fontSizes: { lg: 20 },
+        spacing: { md: 16 },
+        radii: { sm: 4 },
+      });
+
+      expect(ThemeHelper.getVariables(theme)).toEqual({
+        '--color-primary': '#000000',
+        '--font-body': 'serif',
+        '--font-size-lg': '20px',
+        '--space-md': '16px',
+        '--radius-sm': '4px',
+      });
+    });
+  });
+
+  describe('toStylesheet', () => {
+    it('should declare custom properties on the root and apply base typography', () => {
+      const theme = ThemeHelper.createTheme({
+        name: 'x',
+        colors: { text: '#111111' },
+        fonts: { body: 'serif', heading: 'sans-serif' },
+        fontSizes: {},
+        spacing: {},
+        radii: {},
+      });
+
+      expect(ThemeHelper.toStylesheet(theme)).toBe(
+        [
+          ':root {',
+          '  --color-text: #111111;',
+          '  --font-body: serif;',
+          '  --font-heading: sans-serif;',
+          '}',
+          'body { font-family: var(--font-body); color: var(--color-text); }',
+          'h1, h2, h3, h4, h5, h6 { font-family: var(--font-heading); }',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('getTokenOptions', () => {
+    it('should offer variables with their values as labels', () => {
+      expect(ThemeHelper.getTokenOptions(ThemeHelper.getDefaultTheme(), 'radii')[0]).toEqual({
+        value: 'var(--radius-sm)',
+        label: 'sm (4px)',
+      });
+    });
+  });
+
+  describe('resolveVariables', () => {
+    it('should replace known variables and keep unknown ones', () => {
+      expect(
+        ThemeHelper.resolveVariables(
+          'color: var(--color-primary); margin: var( --space-md ); x: var(--other)',
+          ThemeHelper.getDefaultTheme()
+        )
+      ).toBe('color: #007bff; margin: 16px; x: var(--other)');
+    });
+
+    it('should use fallback values of unknown variables', () => {
+      expect(
+        ThemeHelper.resolveVariables(
+          'color: var(--color-primary, #000); border: var(--other, 1px solid #ddd)',
+          { ...ThemeHelper.getDefaultTheme(), colors: { primary: '#ff0000' } }
+        )
+      ).toBe('color: #ff0000; border: 1px solid #ddd');
+    });
+  });
+});
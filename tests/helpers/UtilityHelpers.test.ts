@@ -99,6 +99,12 @@ describe('UtilityHelpers', () => {
       expect(UtilityHelpers.isValidUrl('../parent/path')).toBe(false);
     });
 
+    it('should accept relative URLs when a base URL is given', () => {
+      expect(UtilityHelpers.isValidUrl('/path/to/page', 'https://example.com/')).toBe(true);
+      expect(UtilityHelpers.isValidUrl('../parent/path', 'https://example.com/')).toBe(true);
+      expect(UtilityHelpers.isValidUrl('https://', 'https://example.com/')).toBe(false);
+    });
+
     it('should handle URLs with international domain names', () => {
       expect(UtilityHelpers.isValidUrl('https://例え.テスト')).toBe(true);
     });
@@ -109,4 +115,45 @@ describe('UtilityHelpers', () => {
       ).toBe(true);
     });
   });
+
+  describe('escapeAttribute', () => {
+    it('should escape quotes as well as HTML characters', () => {
+      expect(UtilityHelpers.escapeAttribute('"a" & <b>')).toBe('&quot;a&quot; &amp; &lt;b&gt;');
+    });
+  });
+
+  describe('getUrlScheme', () => {
+    it('should return the lowercase scheme of absolute URLs', () => {
+      expect(UtilityHelpers.getUrlScheme('HTTPS://example.com')).toBe('https:');
+      expect(UtilityHelpers.getUrlScheme('mailto:a@b.c')).toBe('mailto:');
+    });
+
+    it('should ignore whitespace and control characters like browsers do', () => {
+      expect(UtilityHelpers.getUrlScheme(' java\tscript:alert(1)')).toBe('javascript:');
+      expect(UtilityHelpers.getUrlScheme('\u0001data:text/html,x')).toBe('data:');
+    });
+
+    it('should return null for relative URLs', () => {
+      expect(UtilityHelpers.getUrlScheme('/a:b')).toBeNull();
+      expect(UtilityHelpers.getUrlScheme('#top')).toBeNull();
+      expect(UtilityHelpers.getUrlScheme('')).toBeNull();
+    });
+  });
+
+  describe('deepClone', () => {
+    it('should copy nested objects and arrays', () => {
+      const original = { items: ['a', 'b'], nested: { level: 1 } };
+      const copy = UtilityHelpers.deepClone(original);
+
+      expect(copy).toEqual(original);
+      expect(copy.items).not.toBe(original.items);
+      expect(copy.nested).not.toBe(original.nested);
+    });
+
+    it('should return primitives unchanged', () => {
+      expect(UtilityHelpers.deepClone(42)).toBe(42);
+      expect(UtilityHelpers.deepClone('text')).toBe('text');
+      expect(UtilityHelpers.deepClone(null)).toBeNull();
+    });
+  });
 });
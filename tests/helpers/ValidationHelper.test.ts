@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationHelper, type ValidationIssue } from '@helpers/ValidationHelper';
+
+describe('ValidationHelper', () => {
+  const issues: ValidationIssue[] = [
+    ValidationHelper.error('items', 'List must have at least one item'),
+    ValidationHelper.warning('items.1', 'Item is long'),
+    ValidationHelper.info('', 'Element is hidden'),
+  ];
+
+  describe('normalize', () => {
+    it('should convert legacy results', () => {
+      expect(ValidationHelper.normalize(null)).toEqual([]);
+      expect(ValidationHelper.normalize(undefined)).toEqual([]);
+      expect(ValidationHelper.normalize('Broken')).toEqual([
+        { path: '', message: 'Broken', severity: 'error' },
+      ]);
+    });
+
+    it('should keep issue lists as they are', () => {
+      expect(ValidationHelper.normalize(issues)).toBe(issues);
+    });
+  });
+
+  describe('severities', () => {
+    it('should detect errors', () => {
+      expect(ValidationHelper.hasErrors(issues)).toBe(true);
+      expect(ValidationHelper.hasErrors(issues.slice(1))).toBe(false);
+    });
+
+    it('should filter by severity', () => {
+      expect(ValidationHelper.filterBySeverity(issues, 'warning')).toEqual([issues[1]]);
+    });
+
+    it('should get highest severity', () => {
+      expect(ValidationHelper.getHighestSeverity(issues)).toBe('error');
+      expect(ValidationHelper.getHighestSeverity(issues.slice(1))).toBe('warning');
+      expect(ValidationHelper.getHighestSeverity([])).toBeNull();
+    });
+  });
+
+  describe('getIssuesForPath', () => {
+    it('should match exact and parent paths', () => {
+      expect(ValidationHelper.getIssuesForPath(issues, 'items')).toEqual([issues[0]]);
+      expect(ValidationHelper.getIssuesForPath(issues, 'items.1')).toEqual([issues[0], issues[1]]);
+      expect(ValidationHelper.getIssuesForPath(issues, 'itemsTitle')).toEqual([]);
+    });
+
+    it('should not apply element-level issues to inputs', () => {
+      expect(ValidationHelper.getIssuesForPath(issues, 'text')).toEqual([]);
+    });
+  });
+
+  describe('renderSummary', () => {
+    it('should list issues grouped by severity', () => {
+      const html = ValidationHelper.renderSummary(issues);
+
+      expect(html).toContain(
+        '<ul class="validation-list validation-errors"><li class="validation-error" data-issue-path="items">List must have at least one item</li></ul>'
+      );
+      expect(html).toContain('<ul class="validation-list validation-warnings">');
+      expect(html).toContain('<ul class="validation-list validation-infos">');
+    });
+
+    it('should escape messages', () => {
+      const html = ValidationHelper.renderSummary([ValidationHelper.error('', '<b>bad</b>')]);
+      expect(html).toContain('&lt;b&gt;bad&lt;/b&gt;');
+    });
+
+    it('should render empty summary without issues', () => {
+      expect(ValidationHelper.renderSummary([])).toBe('<div class="validation-summary"></div>');
+    });
+  });
+
+  describe('applyToInputs', () => {
+    it('should mark inputs with their most severe issue', () => {
+      const container = document.createElement('div');
+      container.innerHTML = `
+        <input data-prop-path="items.0">
+        <input data-prop-path="items.1">
+        <input class="property-input" data-property="title">
+      `;
+      const [first, second, legacy] = Array.from(container.querySelectorAll('input'));
+
+      ValidationHelper.applyToInputs(container, [
+        ...issues,
+        ValidationHelper.warning('title', 'Title is long'),
+      ]);
+
+      expect(first?.className).toBe('has-error');
+      expect(first?.getAttribute('aria-invalid')).toBe('true');
+      expect(second?.title).toBe('List must have at least one item\nItem is long');
+      expect(legacy?.classList.contains('has-warning')).toBe(true);
+      expect(legacy?.hasAttribute('aria-invalid')).toBe(false);
+
+      ValidationHelper.applyToInputs(container, []);
+
+      expect(first?.className).toBe('');
+      expect(first?.hasAttribute('aria-invalid')).toBe(false);
+      expect(second?.hasAttribute('title')).toBe(false);
+    });
+  });
+});